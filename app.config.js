@@ -13,6 +13,16 @@ if (result.error) {
 const apiBaseUrl = process.env.EXPO_PUBLIC_API_BASE_URL || 'http://localhost:8000/api';
 console.log('🔗 API Base URL from config:', apiBaseUrl);
 
+// Serve API calls from the in-process mock backend (lib/mockBackend.ts) - no Laravel server needed
+const mockApi = process.env.EXPO_PUBLIC_MOCK_API === 'true';
+if (mockApi) {
+  console.log('🧪 Mock API backend enabled');
+}
+
+// WebSocket server for live updates (Laravel Reverb / Pusher protocol); without it the app polls
+const realtimeUrl = process.env.EXPO_PUBLIC_REALTIME_URL || '';
+const realtimeKey = process.env.EXPO_PUBLIC_REALTIME_KEY || '';
+
 module.exports = {
   expo: {
     name: 'Phanrise',
@@ -72,6 +82,8 @@ module.exports = {
     },
     extra: {
       apiBaseUrl: apiBaseUrl,
+      realtimeUrl: realtimeUrl,
+      realtimeKey: realtimeKey,
       eas: {
         projectId: '89199cc2-100c-4f5d-856f-7297d09ec825',
       },
@@ -7,6 +7,7 @@ import Colors from '@/constants/Colors';
 import { useColorScheme } from '@/components/useColorScheme';
 import { useClientOnlyValue } from '@/components/useClientOnlyValue';
 import { GlobalHeader } from '@/components/GlobalHeader';
+import { useAuth } from '../../context/AuthContext';
 
 // You can explore the built-in icon families and icons on the web at https://icons.expo.fyi/
 function TabBarIcon(props: {
@@ -18,6 +19,7 @@ function TabBarIcon(props: {
 
 export default function TabLayout() {
   const colorScheme = useColorScheme();
+  const { can } = useAuth();
 
   return (
     <Tabs
@@ -75,7 +77,10 @@ export default function TabLayout() {
       <Tabs.Screen
         name="my-coin"
         options={{
-          href: null, // Hide from tab bar, accessible via navigation
+          title: 'My Coin',
+          tabBarIcon: ({ color }) => <TabBarIcon name="money" color={color} />,
+          // Creators only; the root layout shows an upgrade prompt to anyone else
+          href: can('coin.manage') ? undefined : null,
         }}
       />
       <Tabs.Screen
@@ -16,15 +16,44 @@ import Toast from 'react-native-toast-message';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 
 // Import our new modular components
-import { useFeed, FeedPost } from '../../hooks/useFeed';
+import { useFeed, FeedPost, type FeedFilter } from '../../hooks/useFeed';
 import { FeedPostItem } from '../../components/FeedPostItem';
 import { PostComposer } from '../../components/PostComposer';
 import { CommentModal } from '../../components/CommentModal';
 import { PostDetailModal } from '../../components/PostDetailModal';
 import { ImageZoomViewer } from '../../components/ImageZoomViewer';
 import { ShareModal } from '../../components/ShareModal';
+import { OfflineBanner } from '../../components/OfflineBanner';
 import { feedStyles } from '../../styles/feedStyles';
 import { apiClient } from '../../lib/apiClient';
+import { logger } from '../../lib/logger';
+
+const log = logger.scope('feed');
+
+const FEED_FILTERS: Array<{
+  value: FeedFilter;
+  label: string;
+  icon: React.ComponentProps<typeof FontAwesome>['name'];
+  emptyText: string;
+  emptySubtext: string;
+}> = [
+  { value: 'all', label: 'All', icon: 'globe', emptyText: 'No posts yet', emptySubtext: 'Be the first to share something!' },
+  {
+    value: 'following',
+    label: 'Following',
+    icon: 'users',
+    emptyText: 'Nothing from people you follow',
+    emptySubtext: 'Follow creators to see their posts here.',
+  },
+  {
+    value: 'rewarded',
+    label: 'Rewarded',
+    icon: 'gift',
+    emptyText: 'No rewarded posts right now',
+    emptySubtext: 'Posts with rewards left to earn show up here.',
+  },
+  { value: 'media', label: 'Media', icon: 'image', emptyText: 'No photos or videos yet', emptySubtext: 'Posts with media show up here.' },
+];
 
 export default function FeedScreen() {
   const { user } = useAuth();
@@ -32,6 +61,7 @@ export default function FeedScreen() {
   const params = useLocalSearchParams();
   
   const [sortBy, setSortBy] = useState<'newest' | 'popular'>('newest');
+  const [filter, setFilter] = useState<FeedFilter>('all');
   const [composerVisible, setComposerVisible] = useState(false);
   const [commentModalVisible, setCommentModalVisible] = useState(false);
   const [postDetailModalVisible, setPostDetailModalVisible] = useState(false);
@@ -61,6 +91,8 @@ export default function FeedScreen() {
     loadingMore,
     hasMorePages,
     newPostsCount,
+    isOffline,
+    isCached,
     loadFeed,
     loadMorePosts,
     loadNewPosts,
@@ -69,7 +101,8 @@ export default function FeedScreen() {
     handleShare: handleShareFromHook,
     handleShareToTimeline,
     createPost,
-  } = useFeed(sortBy);
+  } = useFeed(sortBy, filter);
+  const activeFilter = FEED_FILTERS.find((item) => item.value === filter) ?? FEED_FILTERS[0];
 
   // Handle deep linking
   useEffect(() => {
@@ -130,7 +163,7 @@ export default function FeedScreen() {
   }, [router]);
 
   const handleToggleExpanded = useCallback((postId: string) => {
-    console.log('🔄 FeedScreen: Toggle expanded called', {
+    log.debug('FeedScreen: Toggle expanded called', {
       postId,
       currentState: expandedPosts[postId],
       newState: !expandedPosts[postId],
@@ -141,7 +174,7 @@ export default function FeedScreen() {
         ...prev,
         [postId]: newValue
       };
-      console.log('🔄 FeedScreen: Expanded posts state updated', {
+      log.debug('FeedScreen: Expanded posts state updated', {
         postId,
         oldState: prev[postId],
         newState: newValue,
@@ -152,16 +185,16 @@ export default function FeedScreen() {
   }, []);
 
   const handleShareToTimelineStable = useCallback(async (comment?: string) => {
-    console.log('🎯 Feed: STABLE onShareToTimeline called with comment:', comment);
-    console.log('🎯 Feed: postToShare.id:', postToShare?.id);
+    log.debug('Feed: STABLE onShareToTimeline called with comment:', comment);
+    log.debug('Feed: postToShare.id:', postToShare?.id);
     
     if (!postToShare) {
-      console.error('❌ Feed: postToShare is null!');
+      log.error('Feed: postToShare is null!');
       throw new Error('Post to share is not available');
     }
 
     try {
-      console.log('📤 Feed: Making API request to share endpoint');
+      log.debug('Feed: Making API request to share endpoint');
       const response = await apiClient.request<{ 
         id: string; 
         shares_count: number;
@@ -171,7 +204,7 @@ export default function FeedScreen() {
         data: { comment, share_to_timeline: true }
       });
 
-      console.log('📥 Feed: API response received:', { ok: response.ok, status: response.status, hasData: !!response.data });
+      log.debug('Feed: API response received:', { ok: response.ok, status: response.status, hasData: !!response.data });
 
       if (response.ok && response.data) {
         // Update the post's shares count in the feed
@@ -203,10 +236,10 @@ export default function FeedScreen() {
           visibilityTime: 2000,
         });
 
-        console.log('✅ Feed: STABLE handleShareToTimeline completed successfully');
+        log.debug('Feed: STABLE handleShareToTimeline completed successfully');
       } else {
         const errorMessage = response.errors?.[0]?.detail || 'Failed to share post';
-        console.error('❌ Feed: Share failed', response.errors);
+        log.error('Feed: Share failed', response.errors);
         Toast.show({
           type: 'error',
           text1: 'Error',
@@ -216,7 +249,7 @@ export default function FeedScreen() {
         throw new Error(errorMessage);
       }
     } catch (error) {
-      console.error('❌ Feed: Share to timeline error:', error);
+      log.error('Feed: Share to timeline error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -294,7 +327,7 @@ export default function FeedScreen() {
         });
       }
     } catch (error) {
-      console.error('Share error:', error);
+      log.error('Share error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -306,7 +339,7 @@ export default function FeedScreen() {
   }, [isSharing, user, setPosts]);
 
   const handlePostCreated = useCallback(() => {
-    loadFeed(1);
+    loadFeed();
   }, [loadFeed]);
 
   const renderPost = useCallback(({ item }: { item: FeedPost }) => (
@@ -405,6 +438,26 @@ export default function FeedScreen() {
           </TouchableOpacity>
         </View>
 
+        <View style={feedStyles.filterRow}>
+          {FEED_FILTERS.map((item) => {
+            const isActive = item.value === filter;
+            return (
+              <TouchableOpacity
+                key={item.value}
+                style={[feedStyles.filterChip, isActive && feedStyles.filterChipActive]}
+                onPress={() => setFilter(item.value)}
+              >
+                <FontAwesome name={item.icon} size={12} color={isActive ? '#FF6B00' : '#666'} />
+                <Text style={[feedStyles.filterChipText, isActive && feedStyles.filterChipTextActive]}>
+                  {item.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <OfflineBanner visible={isOffline} showingSaved={isCached} />
+
         {/* New Posts Notification */}
         {newPostsCount > 0 && (
           <View style={feedStyles.newPostsContainer}>
@@ -446,10 +499,8 @@ export default function FeedScreen() {
             ) : (
               <View style={feedStyles.emptyContainer}>
                 <FontAwesome name="comments-o" size={48} color="#ccc" />
-                <Text style={feedStyles.emptyText}>No posts yet</Text>
-                <Text style={feedStyles.emptySubtext}>
-                  Be the first to share something!
-                </Text>
+                <Text style={feedStyles.emptyText}>{activeFilter.emptyText}</Text>
+                <Text style={feedStyles.emptySubtext}>{activeFilter.emptySubtext}</Text>
               </View>
             )
           }
@@ -530,7 +581,7 @@ export default function FeedScreen() {
           <ShareModal
             visible={shareModalVisible}
             onClose={() => {
-              console.log('🔒 Feed: ShareModal onClose called');
+              log.debug('Feed: ShareModal onClose called');
               setShareModalVisible(false);
               setPostToShare(null);
             }}
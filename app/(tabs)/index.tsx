@@ -4,38 +4,13 @@ import { useRouter } from 'expo-router';
 import Toast from 'react-native-toast-message';
 import { useEffect, useState, useCallback, useMemo } from 'react';
 import { apiClient } from '../../lib/apiClient';
+import { useWallet } from '../../hooks/useWallet';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 // @ts-ignore - expo-linear-gradient types
 import { LinearGradient } from 'expo-linear-gradient';
+import { logger } from '../../lib/logger';
 
-type WalletData = {
-  balance: number;
-  primary_coin: string;
-  currency?: string;
-  primary_coin_value_usd: number;
-  conversion_rate?: number;
-  coin_balances?: Array<{
-    coin_symbol: string;
-    balance: number;
-    fiat_value_usd: number;
-  }>;
-  transactions?: Array<{
-    id: string;
-    amount: number;
-    currency?: string;
-    type?: string;
-    created_at?: string;
-    metadata?: {
-      action?: string;
-      distributed_by_creator_name?: string;
-      from_display_name?: string;
-      from_username?: string;
-      created_at?: string;
-      transacted_at?: string;
-    };
-    reference?: string;
-  }>;
-};
+const log = logger.scope('wallet');
 
 type UserStats = {
   followers_count?: number;
@@ -66,9 +41,9 @@ type EarnedCoinEntry = {
 };
 
 export default function DashboardScreen() {
-  const { user, logout, refreshUser } = useAuth();
+  const { user, logout, refreshUser, can } = useAuth();
   const router = useRouter();
-  const [wallet, setWallet] = useState<WalletData | null>(null);
+  const { data: wallet, isLoading: walletLoading, refetch: refetchWallet } = useWallet();
   const [userStats, setUserStats] = useState<UserStats | null>(null);
   const [recentEngagements, setRecentEngagements] = useState<RecentEngagement[]>([]);
   const [isEngagementsLoading, setIsEngagementsLoading] = useState(false);
@@ -77,16 +52,11 @@ export default function DashboardScreen() {
 
   const loadData = useCallback(async () => {
     try {
-      const [walletResponse, followersResponse, followingResponse] = await Promise.all([
-        apiClient.get<WalletData>('/v1/wallets/me'),
+      const [followersResponse, followingResponse] = await Promise.all([
         user?.id ? apiClient.get<any[]>(`/v1/users/${user.id}/followers`) : Promise.resolve({ ok: false, data: [] }),
         user?.id ? apiClient.get<any[]>(`/v1/users/${user.id}/following`) : Promise.resolve({ ok: false, data: [] }),
       ]);
 
-      if (walletResponse.ok && walletResponse.data) {
-        setWallet(walletResponse.data);
-      }
-
       // Extract counts from responses
       const followersCount = Array.isArray(followersResponse.data) 
         ? followersResponse.data.length 
@@ -100,7 +70,7 @@ export default function DashboardScreen() {
         following_count: followingCount,
       });
     } catch (error) {
-      console.error('Dashboard load error:', error);
+      log.error('Dashboard load error:', error);
     } finally {
       setLoading(false);
     }
@@ -151,7 +121,7 @@ export default function DashboardScreen() {
         setRecentEngagements(mapped);
       }
     } catch (error) {
-      console.error('Load recent engagements error:', error);
+      log.error('Load recent engagements error:', error);
     } finally {
       setIsEngagementsLoading(false);
     }
@@ -164,18 +134,18 @@ export default function DashboardScreen() {
 
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
-    await Promise.all([loadData(), loadRecentEngagements(), refreshUser()]);
+    await Promise.all([loadData(), refetchWallet(), loadRecentEngagements(), refreshUser()]);
     setRefreshing(false);
-  }, [loadData, loadRecentEngagements, refreshUser]);
+  }, [loadData, refetchWallet, loadRecentEngagements, refreshUser]);
 
   const handleLogout = async () => {
-    await logout();
+    const next = await logout();
     Toast.show({
       type: 'success',
       text1: 'Logged Out',
-      text2: 'You have been logged out successfully',
+      text2: next ? `Switched to @${next.username ?? next.name}` : 'You have been logged out successfully',
     });
-    router.replace('/login');
+    router.replace(next ? '/(tabs)/feed' : '/login');
   };
 
   const formatNumber = (num: number | null | undefined): string => {
@@ -296,7 +266,7 @@ export default function DashboardScreen() {
       <View style={styles.content}>
         <Text style={styles.title}>Dashboard</Text>
 
-        {loading ? (
+        {loading || walletLoading ? (
           <View style={styles.centerContainer}>
             <ActivityIndicator size="large" color="#FF6B00" />
             <Text style={styles.loadingText}>Loading dashboard...</Text>
@@ -446,7 +416,7 @@ export default function DashboardScreen() {
                     <Text style={styles.viewAllLink}>View All</Text>
                   </TouchableOpacity>
                 </View>
-                {loading && earnedCoinEntries.length === 0 ? (
+                {walletLoading && earnedCoinEntries.length === 0 ? (
                   <View style={styles.centerContainer}>
                     <ActivityIndicator size="small" color="#FF6B00" />
                   </View>
@@ -494,23 +464,43 @@ export default function DashboardScreen() {
             <View style={styles.quickActionsCard}>
               <Text style={styles.sectionTitle}>Quick Actions</Text>
               <View style={styles.quickActionsGrid}>
-                <TouchableOpacity
-                  style={styles.quickActionButton}
-                  onPress={() => router.push('/(tabs)/my-coin' as any)}
-                >
-                  <LinearGradient
-                    colors={['#FF6B00', '#FF8C42']}
-                    start={{ x: 0, y: 0 }}
-                    end={{ x: 1, y: 0 }}
-                    style={styles.quickActionGradient}
+                {can('coin.manage') ? (
+                  <TouchableOpacity
+                    style={styles.quickActionButton}
+                    onPress={() => router.push('/(tabs)/my-coin' as any)}
                   >
-                    <FontAwesome name="money" size={24} color="#fff" />
-                    <View style={styles.quickActionTextContainer}>
-                      <Text style={styles.quickActionTitle}>Fund My Pool</Text>
-                      <Text style={styles.quickActionSubtitle}>Add more {walletCurrency}</Text>
-                    </View>
-                  </LinearGradient>
-                </TouchableOpacity>
+                    <LinearGradient
+                      colors={['#FF6B00', '#FF8C42']}
+                      start={{ x: 0, y: 0 }}
+                      end={{ x: 1, y: 0 }}
+                      style={styles.quickActionGradient}
+                    >
+                      <FontAwesome name="money" size={24} color="#fff" />
+                      <View style={styles.quickActionTextContainer}>
+                        <Text style={styles.quickActionTitle}>Fund My Pool</Text>
+                        <Text style={styles.quickActionSubtitle}>Add more {walletCurrency}</Text>
+                      </View>
+                    </LinearGradient>
+                  </TouchableOpacity>
+                ) : (
+                  <TouchableOpacity
+                    style={styles.quickActionButton}
+                    onPress={() => router.push({ pathname: '/upgrade', params: { capability: 'coin.create' } })}
+                  >
+                    <LinearGradient
+                      colors={['#FF6B00', '#FF8C42']}
+                      start={{ x: 0, y: 0 }}
+                      end={{ x: 1, y: 0 }}
+                      style={styles.quickActionGradient}
+                    >
+                      <FontAwesome name="star" size={24} color="#fff" />
+                      <View style={styles.quickActionTextContainer}>
+                        <Text style={styles.quickActionTitle}>Become a Creator</Text>
+                        <Text style={styles.quickActionSubtitle}>Launch your own coin</Text>
+                      </View>
+                    </LinearGradient>
+                  </TouchableOpacity>
+                )}
 
                 <TouchableOpacity
                   style={styles.quickActionButtonOutline}
@@ -19,6 +19,14 @@ import { useAuth } from '../../context/AuthContext';
 import { useConversations, type Conversation } from '../../hooks/useConversations';
 import { useMessages, type Message } from '../../hooks/useMessages';
 import { apiClient } from '../../lib/apiClient';
+import type { FeedMedia } from '../../lib/api';
+import { firstUrl } from '../../lib/links';
+import { useLinkPreview } from '../../hooks/useLinkPreview';
+import { MentionText } from '../../components/MentionText';
+import { LinkPreviewCard } from '../../components/LinkPreviewCard';
+import { fromPickerAsset } from '../../lib/uploader';
+import { useUploads } from '../../hooks/useUploads';
+import * as ImagePicker from 'expo-image-picker';
 import Toast from 'react-native-toast-message';
 
 export default function MessagingScreen() {
@@ -30,7 +38,10 @@ export default function MessagingScreen() {
   const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
   const [messageInput, setMessageInput] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
+  const [attachments, setAttachments] = useState<FeedMedia[]>([]);
   const messagesEndRef = useRef<FlatList>(null);
+  const { tasks: attachmentUploads, isUploading: isUploadingAttachment, start: startUpload } = useUploads();
+  const canSend = (!!messageInput.trim() || attachments.length > 0) && !isUploadingAttachment;
 
   const { conversations, isLoading, reload, loadMore, hasMore } = useConversations();
   const { messages, isLoading: messagesLoading, sendMessage, markAsRead, reload: reloadMessages } = useMessages(
@@ -87,15 +98,48 @@ export default function MessagingScreen() {
   }, [selectedConversation]);
 
   const handleSendMessage = useCallback(async () => {
-    if (!messageInput.trim() || !selectedConversation) return;
+    if (!canSend || !selectedConversation) return;
 
-    const success = await sendMessage(messageInput, selectedConversation.other_user.id);
+    const success = await sendMessage(messageInput, selectedConversation.other_user.id, attachments);
     if (success) {
       setMessageInput('');
+      setAttachments([]);
       reload();
       reloadMessages();
     }
-  }, [messageInput, selectedConversation, sendMessage, reload, reloadMessages]);
+  }, [canSend, messageInput, attachments, selectedConversation, sendMessage, reload, reloadMessages]);
+
+  const handlePickAttachment = useCallback(async () => {
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== 'granted') {
+      Toast.show({
+        type: 'error',
+        text1: 'Permission Required',
+        text2: 'Please allow access to your media library',
+      });
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 0.8,
+    });
+    if (result.canceled || !result.assets[0]) return;
+
+    const response = await startUpload(fromPickerAsset(result.assets[0]), { purpose: 'message' });
+    if (response.aborted) return;
+
+    if (response.ok && response.status < 300 && response.data) {
+      const media = response.data;
+      setAttachments((prev) => [...prev, media]);
+    } else {
+      Toast.show({
+        type: 'error',
+        text1: 'Upload Failed',
+        text2: response.errors?.[0]?.detail || 'Failed to upload attachment',
+      });
+    }
+  }, [startUpload]);
 
   const getInitials = (name: string) => {
     return name
@@ -186,7 +230,7 @@ export default function MessagingScreen() {
           keyboardShouldPersistTaps="handled"
           keyboardDismissMode="interactive"
           renderItem={({ item }) => {
-            const isOwn = item.sender.id === user?.id;
+            const isOwn = item.pending || item.sender.id === user?.id;
             return (
               <View
                 style={[
@@ -221,21 +265,31 @@ export default function MessagingScreen() {
                       {item.sender.display_name || item.sender.username}
                     </Text>
                   )}
-                  <Text
-                    style={[
-                      styles.messageText,
-                      isOwn ? styles.messageTextOwn : styles.messageTextOther,
-                    ]}
-                  >
-                    {item.body}
-                  </Text>
+                  {item.attachments?.map((attachment: FeedMedia) => (
+                    <Image
+                      key={attachment.id}
+                      source={{ uri: attachment.thumbnail_url || attachment.url }}
+                      style={styles.messageAttachment}
+                    />
+                  ))}
+                  {!!item.body && (
+                    <MentionText
+                      text={item.body}
+                      style={[
+                        styles.messageText,
+                        isOwn ? styles.messageTextOwn : styles.messageTextOther,
+                      ]}
+                      linkStyle={isOwn ? styles.messageLinkOwn : undefined}
+                    />
+                  )}
+                  {!!item.body && !item.pending && <MessageLinkPreview body={item.body} />}
                   <Text
                     style={[
                       styles.messageTime,
                       isOwn ? styles.messageTimeOwn : styles.messageTimeOther,
                     ]}
                   >
-                    {formatTime(item.created_at)}
+                    {item.pending ? 'Sending…' : formatTime(item.created_at)}
                   </Text>
                 </View>
               </View>
@@ -257,6 +311,28 @@ export default function MessagingScreen() {
           }
         />
 
+        {/* Attachments waiting to be sent */}
+        {(attachments.length > 0 || attachmentUploads.length > 0) && (
+          <View style={styles.attachmentTray}>
+            {attachments.map((attachment) => (
+              <View key={attachment.id} style={styles.attachmentPreview}>
+                <Image source={{ uri: attachment.thumbnail_url || attachment.url }} style={styles.attachmentImage} />
+                <TouchableOpacity
+                  style={styles.attachmentRemove}
+                  onPress={() => setAttachments((prev) => prev.filter((item) => item.id !== attachment.id))}
+                >
+                  <FontAwesome name="times" size={10} color="#fff" />
+                </TouchableOpacity>
+              </View>
+            ))}
+            {attachmentUploads.map((task) => (
+              <View key={task.id} style={[styles.attachmentPreview, styles.attachmentUploading]}>
+                <Text style={styles.attachmentProgress}>{task.progress}%</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Message Input */}
         <View style={[
           styles.inputContainer, 
@@ -266,6 +342,13 @@ export default function MessagingScreen() {
             paddingBottom: Math.max(insets.bottom, 16),
           }
         ]}>
+          <TouchableOpacity
+            onPress={handlePickAttachment}
+            disabled={isUploadingAttachment}
+            style={styles.attachButton}
+          >
+            <FontAwesome name="paperclip" size={20} color={isUploadingAttachment ? '#ccc' : '#666'} />
+          </TouchableOpacity>
           <TextInput
             style={[styles.input, { backgroundColor: '#f0f2f5', color: '#000' }]}
             placeholder="Type a message..."
@@ -285,16 +368,16 @@ export default function MessagingScreen() {
           />
           <TouchableOpacity
             onPress={handleSendMessage}
-            disabled={!messageInput.trim()}
+            disabled={!canSend}
             style={[
               styles.sendButton,
-              { backgroundColor: messageInput.trim() ? '#FF6B00' : '#e0e0e0' },
+              { backgroundColor: canSend ? '#FF6B00' : '#e0e0e0' },
             ]}
           >
             <FontAwesome
               name="send"
               size={18}
-              color={messageInput.trim() ? '#fff' : '#999'}
+              color={canSend ? '#fff' : '#999'}
             />
           </TouchableOpacity>
         </View>
@@ -412,6 +495,12 @@ export default function MessagingScreen() {
   );
 }
 
+// Preview of the first link in a message, fetched once the message is on screen
+function MessageLinkPreview({ body }: { body: string }) {
+  const { preview } = useLinkPreview(firstUrl(body));
+  return <LinkPreviewCard preview={preview} compact />;
+}
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -590,6 +679,16 @@ const styles = StyleSheet.create({
   messageTextOther: {
     color: '#000',
   },
+  messageLinkOwn: {
+    color: '#fff',
+  },
+  messageAttachment: {
+    width: 200,
+    height: 150,
+    borderRadius: 12,
+    marginBottom: 6,
+    backgroundColor: '#f0f0f0',
+  },
   messageTime: {
     fontSize: 11,
     marginTop: 4,
@@ -608,6 +707,55 @@ const styles = StyleSheet.create({
     paddingVertical: 12,
     borderTopWidth: 1,
   },
+  attachButton: {
+    width: 36,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 4,
+  },
+  attachmentTray: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: 16,
+    paddingTop: 8,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#e0e0e0',
+  },
+  attachmentPreview: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+    marginRight: 8,
+    marginBottom: 8,
+    overflow: 'hidden',
+  },
+  attachmentImage: {
+    width: '100%',
+    height: '100%',
+  },
+  attachmentRemove: {
+    position: 'absolute',
+    top: 2,
+    right: 2,
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  attachmentUploading: {
+    backgroundColor: '#f0f2f5',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  attachmentProgress: {
+    fontSize: 12,
+    color: '#666',
+    fontWeight: '600',
+  },
   input: {
     flex: 1,
     borderRadius: 20,
@@ -17,12 +17,17 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { apiClient } from '../../lib/apiClient';
+import { queryCache, queryKeys } from '../../lib/queryCache';
+import { useWallet } from '../../hooks/useWallet';
 import Toast from 'react-native-toast-message';
 import { useAuth } from '../../context/AuthContext';
 import { useRouter } from 'expo-router';
 import Constants from 'expo-constants';
 // @ts-ignore - expo-linear-gradient types
 import { LinearGradient } from 'expo-linear-gradient';
+import { logger } from '../../lib/logger';
+
+const log = logger.scope('wallet');
 
 type CreatorCoin = {
   id: string;
@@ -46,14 +51,6 @@ type RewardRules = {
   };
 };
 
-type WalletData = {
-  balance: number;
-  primary_coin: string;
-  currency?: string;
-  primary_coin_value_usd: number;
-  conversion_rate?: number;
-};
-
 export default function MyCoinScreen() {
   const insets = useSafeAreaInsets();
   const { user, refreshUser } = useAuth();
@@ -72,7 +69,7 @@ export default function MyCoinScreen() {
   const [localRules, setLocalRules] = useState<RewardRules>(rewardRules);
   const [isRewardRulesLoading, setIsRewardRulesLoading] = useState(false);
   const [isRewardRulesSaving, setIsRewardRulesSaving] = useState(false);
-  const [wallet, setWallet] = useState<WalletData | null>(null);
+  const { data: wallet, refetch: refetchWallet } = useWallet();
   const [followerCount, setFollowerCount] = useState<number>(0);
   const [refreshing, setRefreshing] = useState(false);
   const [isTopUpModalVisible, setIsTopUpModalVisible] = useState(false);
@@ -98,7 +95,7 @@ export default function MyCoinScreen() {
         });
       }
     } catch (error) {
-      console.error('Load coins error:', error);
+      log.error('Load coins error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -128,23 +125,12 @@ export default function MyCoinScreen() {
         setLocalRules(loadedRules);
       }
     } catch (error) {
-      console.error('Load reward rules error:', error);
+      log.error('Load reward rules error:', error);
     } finally {
       setIsRewardRulesLoading(false);
     }
   }, []);
 
-  const loadWallet = useCallback(async () => {
-    try {
-      const response = await apiClient.get<WalletData>('/v1/wallets/me');
-      if (response.ok && response.data) {
-        setWallet(response.data);
-      }
-    } catch (error) {
-      console.error('Load wallet error:', error);
-    }
-  }, []);
-
   const loadFollowerCount = useCallback(async () => {
     if (!user?.id) return;
     try {
@@ -154,16 +140,15 @@ export default function MyCoinScreen() {
         : (response as any)?.meta?.pagination?.total || 0;
       setFollowerCount(count);
     } catch (error) {
-      console.error('Load follower count error:', error);
+      log.error('Load follower count error:', error);
     }
   }, [user?.id]);
 
   useEffect(() => {
     loadCoins();
     loadRewardRules();
-    loadWallet();
     loadFollowerCount();
-  }, [loadCoins, loadRewardRules, loadWallet, loadFollowerCount]);
+  }, [loadCoins, loadRewardRules, loadFollowerCount]);
 
   useEffect(() => {
     setLocalRules(rewardRules);
@@ -171,9 +156,9 @@ export default function MyCoinScreen() {
 
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
-    await Promise.all([loadCoins(), loadRewardRules(), loadWallet(), loadFollowerCount(), refreshUser()]);
+    await Promise.all([loadCoins(), loadRewardRules(), refetchWallet(), loadFollowerCount(), refreshUser()]);
     setRefreshing(false);
-  }, [loadCoins, loadRewardRules, loadWallet, loadFollowerCount, refreshUser]);
+  }, [loadCoins, loadRewardRules, refetchWallet, loadFollowerCount, refreshUser]);
 
   const handleSaveRewardRules = async () => {
     setIsRewardRulesSaving(true);
@@ -200,7 +185,7 @@ export default function MyCoinScreen() {
         });
       }
     } catch (error) {
-      console.error('Save reward rules error:', error);
+      log.error('Save reward rules error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -335,7 +320,7 @@ export default function MyCoinScreen() {
         });
       }
     } catch (error) {
-      console.error('Top up error:', error);
+      log.error('Top up error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -388,6 +373,7 @@ export default function MyCoinScreen() {
         setNewCoinSymbol('');
         setIsLaunchCoinModalVisible(false);
         await Promise.all([loadCoins(), refreshUser()]);
+        queryCache.invalidate(queryKeys.wallet);
       } else {
         Toast.show({
           type: 'error',
@@ -397,7 +383,7 @@ export default function MyCoinScreen() {
         });
       }
     } catch (error) {
-      console.error('Create coin error:', error);
+      log.error('Create coin error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
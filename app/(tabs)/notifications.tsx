@@ -82,6 +82,9 @@ export default function NotificationsScreen() {
     if (type.includes('like')) {
       return { name: 'heart' as const, color: '#E91E63' };
     }
+    if (type.includes('poll')) {
+      return { name: 'bar-chart' as const, color: '#FF6B00' };
+    }
     if (type.includes('comment') || type.includes('reply')) {
       return { name: 'comment' as const, color: '#1DA1F2' };
     }
@@ -128,6 +131,10 @@ export default function NotificationsScreen() {
       return data.body || data.title || 'Top-up completed';
     }
 
+    if (type === 'post.poll_closed') {
+      return data.body || 'Your poll has ended. See the results';
+    }
+
     if (type.includes('transfer')) {
       return data.body || data.title || 'Wallet transfer';
     }
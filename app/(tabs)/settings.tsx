@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   StyleSheet,
   View,
@@ -22,7 +22,48 @@ import FontAwesome from '@expo/vector-icons/FontAwesome';
 import * as WebBrowser from 'expo-web-browser';
 import * as Linking from 'expo-linking';
 import Constants from 'expo-constants';
+import * as Clipboard from 'expo-clipboard';
+import { logger } from '../../lib/logger';
+import { twoFactorService, type TwoFactorCode } from '../../lib/twoFactor';
+import { authService } from '../../lib/auth';
+import type { Session } from '../../lib/api';
+import { useSessions } from '../../hooks/useSessions';
+import { useDataExports } from '../../hooks/useDataExports';
+import { privacyService, type DataExport, type DataExportFile } from '../../lib/privacy';
+import TwoFactorCodeModal from '../../components/TwoFactorCodeModal';
 
+const log = logger.scope('settings');
+
+const DEBUG_SCREEN_TAPS = 7;
+
+const SESSION_PLATFORM_ICONS: Record<string, React.ComponentProps<typeof FontAwesome>['name']> = {
+  ios: 'apple',
+  android: 'android',
+  web: 'globe',
+};
+
+const formatLastSeen = (dateString: string) => {
+  const minutes = Math.floor((Date.now() - new Date(dateString).getTime()) / 60000);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+
+  if (minutes < 5) return 'Active now';
+  if (minutes < 60) return `Active ${minutes}m ago`;
+  if (hours < 24) return `Active ${hours}h ago`;
+  if (days < 30) return `Active ${days}d ago`;
+  return `Active ${new Date(dateString).toLocaleDateString()}`;
+};
+
+const EXPORT_STATUS_LABELS: Record<DataExport['status'], string> = {
+  pending: 'Preparing',
+  processing: 'Preparing',
+  ready: 'Ready to download',
+  failed: 'Failed',
+  expired: 'Expired',
+};
+
+const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 
 type NotificationPreferences = {
   email: {
@@ -39,8 +80,10 @@ type NotificationPreferences = {
 
 export default function SettingsScreen() {
   const insets = useSafeAreaInsets();
-  const { user, refreshUser, logout } = useAuth();
+  const { user, refreshUser, logout, logoutEverywhere } = useAuth();
   const router = useRouter();
+  // Tapping the Account title repeatedly opens the hidden debug log screen
+  const debugTapsRef = useRef<{ count: number; lastTap: number }>({ count: 0, lastTap: 0 });
 
   // Notification preferences state
   const [notificationPreferences, setNotificationPreferences] = useState<NotificationPreferences>({
@@ -58,9 +101,24 @@ export default function SettingsScreen() {
   const [isSavingNotificationPrefs, setIsSavingNotificationPrefs] = useState(false);
   const [notificationPrefsDirty, setNotificationPrefsDirty] = useState(false);
 
+  // Disabling 2FA or regenerating backup codes asks for a current code first
+  const [twoFactorAction, setTwoFactorAction] = useState<'disable' | 'backup-codes' | null>(null);
+
   // Active tab
   const [activeTab, setActiveTab] = useState<'notifications' | 'messaging' | 'account'>('notifications');
 
+  // Signed-in devices, loaded once the Account tab is opened
+  const { data: sessions, isLoading: isLoadingSessions, error: sessionsError, refetch: refetchSessions } = useSessions({
+    enabled: activeTab === 'account',
+  });
+  const [revokingSessionId, setRevokingSessionId] = useState<string | null>(null);
+
+  // Personal data exports; polled while one is being built
+  const { data: dataExports, inProgress: isExportInProgress } = useDataExports({
+    enabled: activeTab === 'account',
+  });
+  const [isRequestingExport, setIsRequestingExport] = useState(false);
+
   // Messaging settings state
   const [messagingSettings, setMessagingSettings] = useState<Record<string, string>>({});
   const [isLoadingMessagingSettings, setIsLoadingMessagingSettings] = useState(false);
@@ -92,7 +150,7 @@ export default function SettingsScreen() {
         setMessagingSettings(response.data);
       }
     } catch (error) {
-      console.error('Load messaging settings error:', error);
+      log.error('Load messaging settings error:', error);
     } finally {
       setIsLoadingMessagingSettings(false);
     }
@@ -117,7 +175,7 @@ export default function SettingsScreen() {
         setBlockedUsers(Array.isArray(response.data) ? response.data : []);
       }
     } catch (error) {
-      console.error('Load blocked users error:', error);
+      log.error('Load blocked users error:', error);
     } finally {
       setIsLoadingBlocks(false);
     }
@@ -285,7 +343,7 @@ export default function SettingsScreen() {
         });
       }
     } catch (error) {
-      console.error('Save notification preferences error:', error);
+      log.error('Save notification preferences error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -297,6 +355,132 @@ export default function SettingsScreen() {
     }
   };
 
+  const handleAccountTitlePress = () => {
+    const now = Date.now();
+    const taps = debugTapsRef.current;
+    taps.count = now - taps.lastTap < 1000 ? taps.count + 1 : 1;
+    taps.lastTap = now;
+
+    if (taps.count >= DEBUG_SCREEN_TAPS) {
+      taps.count = 0;
+      router.push('/debug-logs');
+    }
+  };
+
+  const handleTwoFactorSubmit = async (code: TwoFactorCode) => {
+    if (twoFactorAction === 'disable') {
+      const response = await twoFactorService.disable(code);
+      if (response.ok && response.status < 300) {
+        setTwoFactorAction(null);
+        await refreshUser();
+        Toast.show({
+          type: 'success',
+          text1: '2FA Turned Off',
+          text2: 'Your account no longer asks for a code at sign-in',
+        });
+        return true;
+      }
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: response.errors?.[0]?.detail || 'Failed to turn off two-factor authentication',
+      });
+      return false;
+    }
+
+    const response = await twoFactorService.regenerateBackupCodes(code);
+    if (response.ok && response.status < 300 && response.data) {
+      const codes = response.data.backup_codes.join('\n');
+      setTwoFactorAction(null);
+      Alert.alert('New Backup Codes', `Your old codes no longer work. Save these somewhere safe:\n\n${codes}`, [
+        { text: 'Copy', onPress: () => Clipboard.setStringAsync(codes) },
+        { text: 'Done' },
+      ]);
+      return true;
+    }
+    Toast.show({
+      type: 'error',
+      text1: 'Error',
+      text2: response.errors?.[0]?.detail || 'Failed to generate new backup codes',
+    });
+    return false;
+  };
+
+  const handleRevokeSession = (session: Session) => {
+    Alert.alert('Sign Out Device', `Sign out of ${session.device_name || 'this device'}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Sign Out',
+        style: 'destructive',
+        onPress: async () => {
+          setRevokingSessionId(session.id);
+          const response = await authService.revokeSession(session.id);
+          setRevokingSessionId(null);
+          if (!response.ok || response.status >= 300) {
+            Toast.show({
+              type: 'error',
+              text1: 'Error',
+              text2: response.errors?.[0]?.detail || 'Failed to sign out that device',
+            });
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleLogoutEverywhere = () => {
+    Alert.alert(
+      'Sign Out Everywhere',
+      'This signs you out on every device, including this one.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out Everywhere',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await logoutEverywhere();
+            if (!result.success) {
+              Toast.show({ type: 'error', text1: 'Error', text2: result.error });
+              return;
+            }
+            Toast.show({
+              type: 'success',
+              text1: 'Signed Out Everywhere',
+              text2: result.next ? `Switched to @${result.next.username ?? result.next.name}` : undefined,
+            });
+            router.replace(result.next ? '/(tabs)/feed' : '/login');
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRequestExport = async () => {
+    setIsRequestingExport(true);
+    const response = await privacyService.requestExport();
+    setIsRequestingExport(false);
+
+    if (response.ok && response.status < 300) {
+      Toast.show({
+        type: 'success',
+        text1: 'Export Requested',
+        text2: "We're preparing your archive. It will appear here when it's ready.",
+      });
+      return;
+    }
+    Toast.show({
+      type: 'error',
+      text1: 'Error',
+      text2: response.errors?.[0]?.detail || 'Failed to request a data export',
+    });
+  };
+
+  const handleDownloadExport = (file: DataExportFile) => {
+    WebBrowser.openBrowserAsync(file.url).catch(() =>
+      Toast.show({ type: 'error', text1: 'Error', text2: 'Could not open the download' })
+    );
+  };
+
   const handleLogout = () => {
     Alert.alert(
       'Logout',
@@ -307,13 +491,15 @@ export default function SettingsScreen() {
           text: 'Logout',
           style: 'destructive',
           onPress: async () => {
-            await logout();
+            const next = await logout();
             Toast.show({
               type: 'success',
               text1: 'Logged Out',
-              text2: 'You have been logged out successfully',
+              text2: next
+                ? `Switched to @${next.username ?? next.name}`
+                : 'You have been logged out successfully',
             });
-            router.replace('/login');
+            router.replace(next ? '/(tabs)/feed' : '/login');
           },
         },
       ]
@@ -562,13 +748,25 @@ export default function SettingsScreen() {
           {activeTab === 'account' && (
             <View style={styles.tabContent}>
               <View style={styles.section}>
-                <Text style={styles.sectionTitle}>Account</Text>
+                <Text style={styles.sectionTitle} onPress={handleAccountTitlePress} suppressHighlighting>
+                  Account
+                </Text>
                 
                 <View style={styles.accountInfoContainer}>
                   <View style={styles.accountInfoRow}>
                     <Text style={styles.accountInfoLabel}>Email</Text>
                     <Text style={styles.accountInfoValue}>{user?.email || 'Not set'}</Text>
                   </View>
+                  <View style={styles.accountInfoRow}>
+                    <Text style={styles.accountInfoLabel}>Email Status</Text>
+                    {user?.email_verified_at ? (
+                      <Text style={[styles.accountInfoValue, styles.emailVerified]}>Verified</Text>
+                    ) : (
+                      <TouchableOpacity onPress={() => router.push('/verify-email')}>
+                        <Text style={[styles.accountInfoValue, styles.emailUnverified]}>Not verified · Verify</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
                   <View style={styles.accountInfoRow}>
                     <Text style={styles.accountInfoLabel}>User ID</Text>
                     <Text style={styles.accountInfoValue}>{user?.id || 'N/A'}</Text>
@@ -584,10 +782,161 @@ export default function SettingsScreen() {
                   <Text style={styles.logoutButtonText}>Logout</Text>
                 </TouchableOpacity>
               </View>
+
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Two-Factor Authentication</Text>
+                <Text style={styles.sectionSubtext}>
+                  {user?.two_factor_enabled
+                    ? 'On. Sign-ins, withdrawals and large transfers ask for a code from your authenticator app.'
+                    : 'Protect your account and wallet with a code from an authenticator app.'}
+                </Text>
+
+                {user?.two_factor_enabled ? (
+                  <>
+                    <TouchableOpacity
+                      style={[styles.copyButton, styles.backupCodesButton]}
+                      onPress={() => setTwoFactorAction('backup-codes')}
+                    >
+                      <FontAwesome name="refresh" size={14} color="#FF6B00" />
+                      <Text style={styles.copyButtonText}>Generate New Backup Codes</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.logoutButton} onPress={() => setTwoFactorAction('disable')}>
+                      <Text style={styles.logoutButtonText}>Turn Off 2FA</Text>
+                    </TouchableOpacity>
+                  </>
+                ) : (
+                  <TouchableOpacity style={styles.saveButton} onPress={() => router.push('/two-factor-setup')}>
+                    <Text style={styles.saveButtonText}>Turn On 2FA</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Sessions</Text>
+                <Text style={styles.sectionSubtext}>Devices signed in to @{user?.username ?? user?.name}</Text>
+
+                {isLoadingSessions ? (
+                  <ActivityIndicator color="#FF6B00" style={styles.sessionsLoader} />
+                ) : sessionsError && !sessions ? (
+                  <TouchableOpacity onPress={() => refetchSessions()}>
+                    <Text style={styles.hintText}>Couldn't load sessions. Tap to retry.</Text>
+                  </TouchableOpacity>
+                ) : (
+                  sessions?.map((session) => (
+                    <View key={session.id} style={styles.sessionRow}>
+                      <FontAwesome
+                        name={SESSION_PLATFORM_ICONS[session.platform ?? ''] ?? 'desktop'}
+                        size={20}
+                        color="#666"
+                        style={styles.sessionIcon}
+                      />
+                      <View style={styles.sessionInfo}>
+                        <Text style={styles.sessionName}>
+                          {session.device_name || 'Unknown device'}
+                          {session.is_current && <Text style={styles.sessionCurrent}>  · This device</Text>}
+                        </Text>
+                        <Text style={styles.sessionDetails}>
+                          {[session.is_current ? 'Active now' : formatLastSeen(session.last_active_at), session.location || session.ip_address]
+                            .filter(Boolean)
+                            .join(' · ')}
+                        </Text>
+                      </View>
+                      {!session.is_current &&
+                        (revokingSessionId === session.id ? (
+                          <ActivityIndicator size="small" color="#E91E63" />
+                        ) : (
+                          <TouchableOpacity onPress={() => handleRevokeSession(session)}>
+                            <Text style={styles.sessionRevokeText}>Sign out</Text>
+                          </TouchableOpacity>
+                        ))}
+                    </View>
+                  ))
+                )}
+
+                <TouchableOpacity style={styles.logoutButton} onPress={handleLogoutEverywhere}>
+                  <FontAwesome name="power-off" size={16} color="#fff" />
+                  <Text style={styles.logoutButtonText}>Sign Out Everywhere</Text>
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Your Data</Text>
+                <Text style={styles.sectionSubtext}>
+                  Download your profile, posts, comments, messages, wallet transactions and withdrawals as JSON and CSV.
+                </Text>
+
+                {dataExports?.map((item) => (
+                  <View key={item.id} style={styles.sessionRow}>
+                    <FontAwesome name="file-archive-o" size={20} color="#666" style={styles.sessionIcon} />
+                    <View style={styles.sessionInfo}>
+                      <Text style={styles.sessionName}>{new Date(item.requested_at).toLocaleDateString()}</Text>
+                      <Text style={styles.sessionDetails}>
+                        {EXPORT_STATUS_LABELS[item.status]}
+                        {item.status === 'ready' && item.expires_at
+                          ? ` · until ${new Date(item.expires_at).toLocaleDateString()}`
+                          : ''}
+                      </Text>
+                    </View>
+                    {item.status === 'ready'
+                      ? item.files.map((file) => (
+                          <TouchableOpacity
+                            key={file.format}
+                            style={[styles.copyButton, styles.exportFileButton]}
+                            onPress={() => handleDownloadExport(file)}
+                          >
+                            <FontAwesome name="download" size={12} color="#FF6B00" />
+                            <Text style={styles.copyButtonText}>
+                              {file.format.toUpperCase()} · {formatFileSize(file.size_bytes)}
+                            </Text>
+                          </TouchableOpacity>
+                        ))
+                      : (item.status === 'pending' || item.status === 'processing') && (
+                          <ActivityIndicator size="small" color="#FF6B00" />
+                        )}
+                  </View>
+                ))}
+
+                <TouchableOpacity
+                  style={[styles.saveButton, (isRequestingExport || isExportInProgress) && styles.saveButtonDisabled]}
+                  onPress={handleRequestExport}
+                  disabled={isRequestingExport || isExportInProgress}
+                >
+                  {isRequestingExport ? (
+                    <ActivityIndicator color="#fff" />
+                  ) : (
+                    <Text style={styles.saveButtonText}>
+                      {isExportInProgress ? 'Preparing Your Data...' : 'Request Data Export'}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Delete Account</Text>
+                <Text style={styles.sectionSubtext}>
+                  {user?.deletion_scheduled_for
+                    ? `Your account will be deleted on ${new Date(user.deletion_scheduled_for).toLocaleDateString()}. You can still cancel.`
+                    : 'Permanently delete your account and everything in it after a grace period.'}
+                </Text>
+                <TouchableOpacity style={styles.logoutButton} onPress={() => router.push('/delete-account')}>
+                  <FontAwesome name={user?.deletion_scheduled_for ? 'undo' : 'trash'} size={16} color="#fff" />
+                  <Text style={styles.logoutButtonText}>
+                    {user?.deletion_scheduled_for ? 'Cancel Deletion' : 'Delete Account'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
             </View>
           )}
         </ScrollView>
       </KeyboardAvoidingView>
+
+      <TwoFactorCodeModal
+        visible={twoFactorAction !== null}
+        title={twoFactorAction === 'disable' ? 'Turn off 2FA' : 'New backup codes'}
+        submitLabel={twoFactorAction === 'disable' ? 'Turn Off' : 'Generate'}
+        onSubmit={handleTwoFactorSubmit}
+        onCancel={() => setTwoFactorAction(null)}
+      />
     </View>
   );
 }
@@ -793,6 +1142,10 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#FF6B00',
   },
+  backupCodesButton: {
+    justifyContent: 'center',
+    paddingVertical: 12,
+  },
   copyButtonText: {
     fontSize: 13,
     color: '#FF6B00',
@@ -1023,6 +1376,52 @@ const styles = StyleSheet.create({
     color: '#000',
     fontWeight: '500',
   },
+  sessionsLoader: {
+    marginVertical: 16,
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  sessionIcon: {
+    width: 28,
+    textAlign: 'center',
+    marginRight: 12,
+  },
+  sessionInfo: {
+    flex: 1,
+  },
+  sessionName: {
+    fontSize: 14,
+    color: '#000',
+    fontWeight: '500',
+  },
+  sessionCurrent: {
+    color: '#25D366',
+    fontWeight: '600',
+  },
+  sessionDetails: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  exportFileButton: {
+    marginLeft: 6,
+  },
+  sessionRevokeText: {
+    fontSize: 13,
+    color: '#E91E63',
+    fontWeight: '600',
+  },
+  emailVerified: {
+    color: '#25D366',
+  },
+  emailUnverified: {
+    color: '#FF6B00',
+  },
   logoutButton: {
     backgroundColor: '#E91E63',
     borderRadius: 8,
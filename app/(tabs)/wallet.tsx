@@ -15,69 +15,30 @@ import {
   BackHandler,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
-import { apiClient } from '../../lib/apiClient';
+import { api, type UserLookupResult, type Withdrawal } from '../../lib/api';
+import { queryCache, queryKeys } from '../../lib/queryCache';
+import { useWallet } from '../../hooks/useWallet';
+import { useLatestRequest } from '../../hooks/useLatestRequest';
 import Toast from 'react-native-toast-message';
 import { useAuth } from '../../context/AuthContext';
 import WithdrawalModal from '../../components/WithdrawalModal';
+import TwoFactorCodeModal from '../../components/TwoFactorCodeModal';
+import { useStepUp } from '../../hooks/useStepUp';
+import { LARGE_TRANSFER_AMOUNT, type StepUpProof } from '../../lib/twoFactor';
+import { logger } from '../../lib/logger';
 
-type WalletCoinBalance = {
-  coin_symbol: string;
-  balance: number;
-  value_usd: number;
-  fiat_value_usd: number;
-  value_updated_at?: string | null;
-};
-
-type Transaction = {
-  id: string;
-  type: string;
-  amount: number;
-  currency: string;
-  metadata?: Record<string, unknown>;
-  balance_before: number;
-  balance_after: number;
-  reference?: string | null;
-  created_at: string;
-};
-
-type Withdrawal = {
-  id: string;
-  coin_symbol: string;
-  coin_amount: number;
-  usd_amount: number;
-  ngn_amount: number;
-  fee_amount: number;
-  final_amount: number;
-  bank_name: string;
-  account_number: string;
-  account_name: string;
-  status: string;
-  created_at: string;
-};
-
-type WalletData = {
-  id: string;
-  primary_coin: string;
-  balance: number;
-  conversion_rate: number;
-  primary_coin_value_usd: number;
-  coin_balances: WalletCoinBalance[];
-  transactions: Transaction[];
-};
-
-type UsernameLookupResult = {
-  id: string;
-  username: string;
-  display_name?: string | null;
-  avatar_url?: string | null;
-};
+const log = logger.scope('wallet');
 
 export default function WalletScreen() {
   const insets = useSafeAreaInsets();
+  const router = useRouter();
   const { user } = useAuth();
-  const [wallet, setWallet] = useState<WalletData | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  // Payouts go to a bank account, so the account's email has to be confirmed first
+  const canWithdraw = !!user?.email_verified_at;
+  const { data: wallet, isLoading, refetch: refetchWallet } = useWallet();
+  const { requireStepUp, spendStepUp, stepUpModalProps } = useStepUp();
   const [refreshing, setRefreshing] = useState(false);
   const [activeTab, setActiveTab] = useState<'balances' | 'transactions' | 'send' | 'withdraw'>('balances');
   
@@ -90,29 +51,37 @@ export default function WalletScreen() {
   const [isLoadingWithdrawals, setIsLoadingWithdrawals] = useState(false);
   const [transferUsername, setTransferUsername] = useState('');
   const [transferAmount, setTransferAmount] = useState('');
-  const [transferCoinSymbol, setTransferCoinSymbol] = useState('FCN');
+  // Empty until the wallet loads and a default is picked
+  const [transferCoinSymbol, setTransferCoinSymbol] = useState('');
   const [transferNote, setTransferNote] = useState('');
   const [isTransferring, setIsTransferring] = useState(false);
   const [usernameCheck, setUsernameCheck] = useState<'idle' | 'checking' | 'valid' | 'invalid'>('idle');
-  const [usernameInfo, setUsernameInfo] = useState<UsernameLookupResult | null>(null);
+  const [usernameInfo, setUsernameInfo] = useState<UserLookupResult | null>(null);
   const [usernameError, setUsernameError] = useState<string | null>(null);
   const usernameCheckTimeoutRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+  const usernameLookup = useLatestRequest();
+
+  // Default the transfer coin to the primary coin, keeping the user's pick across wallet
+  // reloads unless that coin is no longer in the wallet
+  useEffect(() => {
+    const balances = wallet?.coin_balances;
+    if (!balances || balances.length === 0) return;
+
+    setTransferCoinSymbol((current) => {
+      if (current && balances.some((b) => b.coin_symbol.toUpperCase() === current.toUpperCase())) {
+        return current;
+      }
+      const primaryCoin = wallet.primary_coin || 'FCN';
+      const hasCoin = balances.some((b) => b.coin_symbol.toUpperCase() === primaryCoin.toUpperCase());
+      return hasCoin ? primaryCoin.toUpperCase() : balances[0].coin_symbol;
+    });
+  }, [wallet]);
 
   const fetchWallet = useCallback(async () => {
-    setIsLoading(true);
     try {
-      const response = await apiClient.get<WalletData>('/v1/wallets/me');
+      const response = await refetchWallet();
 
-      if (response.ok && response.data) {
-        setWallet(response.data);
-        if (response.data.coin_balances && response.data.coin_balances.length > 0) {
-          const primaryCoin = response.data.primary_coin || 'FCN';
-          const hasCoin = response.data.coin_balances.some(
-            (b) => b.coin_symbol.toUpperCase() === primaryCoin.toUpperCase()
-          );
-          setTransferCoinSymbol(hasCoin ? primaryCoin.toUpperCase() : response.data.coin_balances[0].coin_symbol);
-        }
-      } else {
+      if (!response.ok || !response.data) {
         Toast.show({
           type: 'error',
           text1: 'Error',
@@ -121,7 +90,7 @@ export default function WalletScreen() {
         });
       }
     } catch (error) {
-      console.error('Error fetching wallet:', error);
+      log.error('Error fetching wallet:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -129,16 +98,15 @@ export default function WalletScreen() {
         visibilityTime: 3000,
       });
     } finally {
-      setIsLoading(false);
       setRefreshing(false);
     }
-  }, []);
+  }, [refetchWallet]);
 
   const fetchWithdrawalHistory = useCallback(async () => {
     setIsLoadingWithdrawals(true);
     try {
-      const response = await apiClient.get<{withdrawals: Withdrawal[]}>('/v1/withdrawals');
-      console.log('Withdrawal history response:', response);
+      const response = await api.withdrawals.list();
+      log.debug('Withdrawal history response:', response);
       
       if (response.ok && response.data) {
         // Check if response.data is an array directly or nested under 'withdrawals'
@@ -146,16 +114,16 @@ export default function WalletScreen() {
           ? response.data 
           : response.data.withdrawals;
           
-        console.log('Withdrawals array:', withdrawalsArray);
+        log.debug('Withdrawals array:', withdrawalsArray);
         
         if (Array.isArray(withdrawalsArray)) {
           setWithdrawals(withdrawalsArray);
         } else {
-          console.warn('Invalid withdrawals data structure:', withdrawalsArray);
+          log.warn('Invalid withdrawals data structure:', withdrawalsArray);
           setWithdrawals([]);
         }
       } else {
-        console.warn('Invalid withdrawal response:', response);
+        log.warn('Invalid withdrawal response:', response);
         setWithdrawals([]);
         Toast.show({
           type: 'error',
@@ -165,7 +133,7 @@ export default function WalletScreen() {
         });
       }
     } catch (error) {
-      console.error('Error fetching withdrawal history:', error);
+      log.error('Error fetching withdrawal history:', error);
       setWithdrawals([]);
       Toast.show({
         type: 'error',
@@ -178,10 +146,6 @@ export default function WalletScreen() {
     }
   }, []);
 
-  useEffect(() => {
-    fetchWallet();
-  }, [fetchWallet]);
-
   // Fetch withdrawal history when withdraw tab is active
   useEffect(() => {
     if (activeTab === 'withdraw') {
@@ -250,12 +214,10 @@ export default function WalletScreen() {
       }
 
       try {
-        const response = await apiClient.get<UsernameLookupResult>(
-          `/v1/users/lookup?username=${encodeURIComponent(trimmed)}`
-        );
+        const response = await api.users.lookup(trimmed, { signal: usernameLookup.next() });
 
-        // Check again if username changed during the API call
-        if (transferUsername.trim() !== trimmed) {
+        // The username changed while this lookup was in flight
+        if (response.aborted) {
           return;
         }
 
@@ -282,7 +244,7 @@ export default function WalletScreen() {
           }
         }
       } catch (error: any) {
-        console.error('Username validation error:', error);
+        log.error('Username validation error:', error);
         // Check again if username changed during the error
         if (transferUsername.trim() !== trimmed) {
           return;
@@ -310,8 +272,9 @@ export default function WalletScreen() {
       if (usernameCheckTimeoutRef.current) {
         clearTimeout(usernameCheckTimeoutRef.current);
       }
+      usernameLookup.cancel();
     };
-  }, [transferUsername, isSendModalVisible]);
+  }, [transferUsername, isSendModalVisible, usernameLookup]);
 
   const resetTransferForm = useCallback(() => {
     setTransferUsername('');
@@ -362,9 +325,17 @@ export default function WalletScreen() {
       return;
     }
 
+    let proof: StepUpProof = {};
+    if (amount >= LARGE_TRANSFER_AMOUNT) {
+      const stepUp = await requireStepUp(`send ${amount} ${transferCoinSymbol}`);
+      if (!stepUp) return;
+      proof = stepUp;
+    }
+
     setIsTransferring(true);
     try {
-      const response = await apiClient.post('/v1/wallets/transfers', {
+      const response = await api.wallets.transfer({
+        ...proof,
         recipient_username: transferUsername.trim(),
         amount: amount,
         coin_symbol: transferCoinSymbol,
@@ -372,6 +343,7 @@ export default function WalletScreen() {
       });
 
       if (response.ok) {
+        spendStepUp();
         Toast.show({
           type: 'success',
           text1: 'Success',
@@ -380,7 +352,8 @@ export default function WalletScreen() {
         });
         setIsSendModalVisible(false);
         resetTransferForm();
-        await fetchWallet(); // Refresh wallet data
+        // Every screen showing the wallet refetches
+        queryCache.invalidate(queryKeys.wallet);
       } else {
         Toast.show({
           type: 'error',
@@ -390,7 +363,7 @@ export default function WalletScreen() {
         });
       }
     } catch (error) {
-      console.error('Transfer error:', error);
+      log.error('Transfer error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -400,7 +373,7 @@ export default function WalletScreen() {
     } finally {
       setIsTransferring(false);
     }
-  }, [wallet, transferUsername, transferAmount, transferCoinSymbol, transferNote, usernameCheck, usernameInfo, resetTransferForm, fetchWallet]);
+  }, [wallet, transferUsername, transferAmount, transferCoinSymbol, transferNote, usernameCheck, usernameInfo, resetTransferForm, requireStepUp, spendStepUp]);
 
   const formatTime = (dateString: string) => {
     const date = new Date(dateString);
@@ -536,6 +509,11 @@ export default function WalletScreen() {
                       <Text style={styles.balanceAmount}>
                         {balance.balance.toFixed(2)}
                       </Text>
+                      {!!balance.reserved && (
+                        <Text style={styles.reservedText}>
+                          +{balance.reserved.toFixed(2)} reserved for scheduled posts
+                        </Text>
+                      )}
                     </View>
                     <View style={styles.balanceValue}>
                       <Text style={styles.valueUsd}>${balance.fiat_value_usd.toFixed(2)}</Text>
@@ -614,9 +592,24 @@ export default function WalletScreen() {
 
         {activeTab === 'withdraw' && (
           <View style={styles.tabContent}>
+            {!canWithdraw && (
+              <View style={styles.verifyNotice}>
+                <FontAwesome name="envelope-o" size={18} color="#B45309" />
+                <View style={styles.verifyNoticeBody}>
+                  <Text style={styles.verifyNoticeTitle}>Verify your email to withdraw</Text>
+                  <Text style={styles.verifyNoticeText}>
+                    We need to confirm {user?.email || 'your email'} before sending money to your bank.
+                  </Text>
+                  <TouchableOpacity onPress={() => router.push('/verify-email')}>
+                    <Text style={styles.verifyNoticeLink}>Verify email</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            )}
             <TouchableOpacity
-              style={styles.withdrawButton}
+              style={[styles.withdrawButton, !canWithdraw && styles.withdrawButtonDisabled]}
               onPress={() => setIsWithdrawalModalVisible(true)}
+              disabled={!canWithdraw}
             >
               <FontAwesome name="bank" size={20} color="#fff" />
               <Text style={styles.withdrawButtonText}>Withdraw to Bank</Text>
@@ -894,15 +887,16 @@ export default function WalletScreen() {
             </View>
           </View>
         </KeyboardAvoidingView>
+        <TwoFactorCodeModal {...stepUpModalProps} />
       </Modal>
 
       {/* Withdrawal Modal */}
       <WithdrawalModal
-        visible={isWithdrawalModalVisible}
+        visible={isWithdrawalModalVisible && canWithdraw}
         onClose={() => setIsWithdrawalModalVisible(false)}
         coinBalances={wallet?.coin_balances || []}
         onWithdrawalSuccess={() => {
-          fetchWallet();
+          queryCache.invalidate(queryKeys.wallet);
           fetchWithdrawalHistory();
         }}
       />
@@ -1069,6 +1063,11 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#000',
   },
+  reservedText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
   balanceValue: {
     alignItems: 'flex-end',
   },
@@ -1171,6 +1170,39 @@ const styles = StyleSheet.create({
     gap: 8,
     marginBottom: 12,
   },
+  withdrawButtonDisabled: {
+    opacity: 0.5,
+  },
+  verifyNotice: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFBEB',
+    borderColor: '#FDE68A',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 14,
+    gap: 12,
+    marginBottom: 12,
+  },
+  verifyNoticeBody: {
+    flex: 1,
+  },
+  verifyNoticeTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#92400E',
+    marginBottom: 4,
+  },
+  verifyNoticeText: {
+    fontSize: 13,
+    color: '#92400E',
+    lineHeight: 18,
+    marginBottom: 8,
+  },
+  verifyNoticeLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF6B00',
+  },
   withdrawButtonText: {
     color: '#fff',
     fontSize: 16,
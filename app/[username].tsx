@@ -21,7 +21,12 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useAuth } from '../context/AuthContext';
-import { apiClient } from '../lib/apiClient';
+import { api, type FeedPost, type FollowEntry, type ProfileData, type ProfileUpdatePayload } from '../lib/api';
+import { queryCache, queryKeys } from '../lib/queryCache';
+import { offlineCache } from '../lib/offlineCache';
+import { useOutbox } from '../hooks/useOutbox';
+import { usePaginatedList, type PageRequest } from '../hooks/usePaginatedList';
+import { useNetworkStatus } from '../hooks/useNetworkStatus';
 import Toast from 'react-native-toast-message';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { FeedMediaGrid } from '../components/FeedMediaGrid';
@@ -29,101 +34,33 @@ import { MentionText } from '../components/MentionText';
 import { ImageZoomViewer } from '../components/ImageZoomViewer';
 import { ShareModal } from '../components/ShareModal';
 import { PostDetailModal } from '../components/PostDetailModal';
+import { OfflineBanner } from '../components/OfflineBanner';
+import { ScheduledPostList } from '../components/ScheduledPostList';
+import { PollView } from '../components/PollView';
 import { Video, ResizeMode } from 'expo-av';
+import { logger } from '../lib/logger';
 
-type FeedPost = {
-  id: string;
-  content: string | null;
-  visibility: string;
-  likes_count: number;
-  comments_count: number;
-  shares_count: number;
-  reward_enabled: boolean;
-  reward_pool: number;
-  reward_coin_symbol?: string | null;
-  reward_rule?: {
-    like?: number;
-    comment?: number;
-    share?: number;
-    per_user_cap?: number;
-  } | null;
-  is_liked: boolean;
-  user: {
-    id: string;
-    username: string;
-    display_name: string | null;
-    avatar_url: string | null;
-    verified_creator: boolean;
-  };
-  media: Array<{
-    id: string;
-    type: 'image' | 'video';
-    url: string;
-    thumbnail_url: string | null;
-    metadata: Record<string, unknown> | null;
-  }>;
-  shared_post?: FeedPost; // Recursive type for shared posts
-  created_at: string;
-  updated_at: string;
-};
-
-type ProfileData = {
-  id: string;
-  username: string;
-  display_name: string | null;
-  avatar_url: string | null;
-  verified_creator: boolean;
-  default_coin_symbol: string | null;
-  profile_bio?: string | null;
-  profile_location?: string | null;
-  profile_links?: Array<{ label: string; url: string }> | null;
-  followers_count: number;
-  following_count: number;
-  posts_count: number;
-  reward_posts_count: number;
-  reward_pool_total: number;
-  joined_at?: string | null;
-  is_current_user: boolean;
-  is_following: boolean;
-  coins: Array<{
-    symbol: string;
-    name: string | null;
-    description: string | null;
-  }>;
-  recent_posts: FeedPost[];
-  posts_pagination?: {
-    current_page: number;
-    per_page: number;
-    total: number;
-    last_page: number;
-  };
-};
+const log = logger.scope('profile');
 
 type FilterType = 'all' | 'rewards' | 'media';
 type ProfileSection = 'posts' | 'followers' | 'following';
 
-type FollowEntry = {
-  id: string;
-  username: string;
-  display_name: string | null;
-  avatar_url: string | null;
-  verified_creator: boolean;
-  default_coin_symbol: string | null;
-  followed_at?: string | null;
-};
-
 export default function UserProfileScreen() {
   const insets = useSafeAreaInsets();
   const { username } = useLocalSearchParams<{ username: string }>();
   const router = useRouter();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [profile, setProfile] = useState<ProfileData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isFollowLoading, setIsFollowLoading] = useState(false);
+  const { hasPending: followPending } = useOutbox('follow', profile?.id);
   const [activeFilter, setActiveFilter] = useState<FilterType>('all');
+  // The Scheduled tab replaces the posts list on your own profile
+  const [showingScheduled, setShowingScheduled] = useState(false);
   const [activeSection, setActiveSection] = useState<ProfileSection>('posts');
   const [refreshing, setRefreshing] = useState(false);
+  const [isShowingSaved, setIsShowingSaved] = useState(false);
   const [expandedPosts, setExpandedPosts] = useState<Record<string, boolean>>({});
   const [imageViewerVisible, setImageViewerVisible] = useState(false);
   const [imageViewerMedia, setImageViewerMedia] = useState<Array<{ url: string; type: 'image' | 'video' }>>([]);
@@ -137,18 +74,8 @@ export default function UserProfileScreen() {
   const [postToShare, setPostToShare] = useState<FeedPost | null>(null);
   const [postDetailModalVisible, setPostDetailModalVisible] = useState(false);
   const [selectedPost, setSelectedPost] = useState<FeedPost | null>(null);
-  const [followersList, setFollowersList] = useState<FollowEntry[]>([]);
-  const [followingList, setFollowingList] = useState<FollowEntry[]>([]);
-  const [followersLoading, setFollowersLoading] = useState(false);
-  const [followingLoading, setFollowingLoading] = useState(false);
-  const [followersLoadingMore, setFollowersLoadingMore] = useState(false);
-  const [followingLoadingMore, setFollowingLoadingMore] = useState(false);
-  const [followersLoaded, setFollowersLoaded] = useState(false);
-  const [followingLoaded, setFollowingLoaded] = useState(false);
-  const [followersPage, setFollowersPage] = useState(1);
-  const [followingPage, setFollowingPage] = useState(1);
-  const [followersHasMore, setFollowersHasMore] = useState(true);
-  const [followingHasMore, setFollowingHasMore] = useState(true);
+  // Follow lists load the first time their section is opened
+  const [openedFollowLists, setOpenedFollowLists] = useState({ followers: false, following: false });
   
   // Posts pagination states
   const [postsPage, setPostsPage] = useState(1);
@@ -188,26 +115,35 @@ export default function UserProfileScreen() {
   const fetchProfile = useCallback(async () => {
     if (!username) return;
 
-    setIsLoading(true);
     setError(null);
     // Reset pagination when loading profile
     setPostsPage(1);
     setPostsHasMore(false);
 
+    // Show the copy saved on the device right away (only kept for the unfiltered profile)
+    const saved = activeFilter === 'all' ? await offlineCache.getProfile(username) : null;
+    if (saved) {
+      setProfile(saved);
+      setIsShowingSaved(true);
+    }
+    setIsLoading(!saved);
+
     try {
       // Backend pagination: Request page 1 from backend
       // Backend returns only 10 posts, not all user posts
-      const params = new URLSearchParams();
-      params.set('filter', activeFilter);
-      params.set('page', '1'); // Backend handles pagination
-      params.set('per_page', '10'); // Backend returns only 10 posts per request
-
-      const response = await apiClient.get<ProfileData>(
-        `/v1/profiles/${username}?${params.toString()}`
-      );
+      const response = await api.profiles.get({
+        username,
+        filter: activeFilter,
+        page: 1, // Backend handles pagination
+        perPage: 10, // Backend returns only 10 posts per request
+      });
 
       if (response.ok && response.data) {
         setProfile(response.data);
+        setIsShowingSaved(false);
+        if (activeFilter === 'all') {
+          offlineCache.saveProfile(response.data);
+        }
         // Update pagination state
         if (response.data.posts_pagination) {
           setPostsPage(1);
@@ -215,122 +151,72 @@ export default function UserProfileScreen() {
         } else {
           setPostsHasMore(false);
         }
+      } else if (response.status === 0 && saved) {
+        log.debug('[Profile] offline, showing saved profile', { username });
       } else {
         setError(response.errors?.[0]?.detail || 'Unable to load profile');
         setProfile(null);
       }
     } catch (err) {
-      console.error('[Profile] fetch error', err);
-      setError('Unable to load profile right now.');
-      setProfile(null);
+      log.error('[Profile] fetch error', err);
+      if (!saved) {
+        setError('Unable to load profile right now.');
+        setProfile(null);
+      }
     } finally {
       setIsLoading(false);
       setRefreshing(false);
     }
   }, [username, activeFilter]);
 
-  const fetchFollowList = useCallback(
-    async (
-      type: 'followers' | 'following',
-      options: { page?: number; append?: boolean } = {}
-    ) => {
-      if (!profile) return;
-      const page = options.page ?? 1;
-      const append = options.append ?? page > 1;
-      const userId = profile.id;
-      const setList = type === 'followers' ? setFollowersList : setFollowingList;
-      const setLoading = type === 'followers' ? setFollowersLoading : setFollowingLoading;
-      const setLoadingMore =
-        type === 'followers' ? setFollowersLoadingMore : setFollowingLoadingMore;
-      const setLoaded = type === 'followers' ? setFollowersLoaded : setFollowingLoaded;
-      const setPage = type === 'followers' ? setFollowersPage : setFollowingPage;
-      const setHasMore = type === 'followers' ? setFollowersHasMore : setFollowingHasMore;
-
-      if (page === 1 && !append) {
-        setLoading(true);
-      } else {
-        setLoadingMore(true);
-      }
-
-      try {
-        const response = await apiClient.get<FollowEntry[]>(
-          `/v1/users/${userId}/${type}?per_page=25&page=${page}`
-        );
-
-        if (response.ok && Array.isArray(response.data)) {
-          setList((prev) => (append ? [...prev, ...response.data!] : response.data!));
-          setLoaded(true);
-          setPage(page);
-
-          const pagination = response.meta?.pagination as
-            | { current_page?: number; last_page?: number }
-            | undefined;
-          if (pagination?.current_page && pagination?.last_page) {
-            setHasMore(pagination.current_page < pagination.last_page);
-          } else {
-            setHasMore(response.data.length > 0);
-          }
-        } else {
-          Toast.show({
-            type: 'error',
-            text1: 'Error',
-            text2: 'Unable to load list right now.',
-            visibilityTime: 3000,
-          });
-        }
-      } catch (error) {
-        console.error(`[Profile] load ${type} error`, error);
-        Toast.show({
-          type: 'error',
-          text1: 'Error',
-          text2: 'Unable to load list right now.',
-          visibilityTime: 3000,
-        });
-      } finally {
-        if (page === 1 && !append) {
-          setLoading(false);
-        } else {
-          setLoadingMore(false);
-        }
-      }
-    },
-    [profile]
-  );
+  const followListOptions = (type: 'followers' | 'following') => ({
+    key: profile && openedFollowLists[type] ? `${type}:${profile.id}` : null,
+    fetchPage: ({ page }: PageRequest) =>
+      api.users.followList({ userId: profile!.id, type, page, perPage: 25 }),
+    onError: () =>
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: 'Unable to load list right now.',
+        visibilityTime: 3000,
+      }),
+  });
+  const followers = usePaginatedList<FollowEntry>(followListOptions('followers'));
+  const following = usePaginatedList<FollowEntry>(followListOptions('following'));
+  const { refresh: refreshFollowers } = followers;
+  const { refresh: refreshFollowing } = following;
 
   useEffect(() => {
     fetchProfile();
   }, [fetchProfile]);
 
+  // Scheduled posts are only listed on your own profile
   useEffect(() => {
-    if (activeSection === 'followers' && !followersLoaded) {
-      fetchFollowList('followers');
-    }
-    if (activeSection === 'following' && !followingLoaded) {
-      fetchFollowList('following');
-    }
-  }, [activeSection, followersLoaded, followingLoaded, fetchFollowList]);
+    setShowingScheduled(false);
+  }, [username]);
+
+  const { isOffline } = useNetworkStatus(() => {
+    if (isShowingSaved) fetchProfile();
+  });
+
+  useEffect(() => {
+    if (activeSection === 'posts') return;
+    setOpenedFollowLists((prev) => (prev[activeSection] ? prev : { ...prev, [activeSection]: true }));
+  }, [activeSection]);
 
   const onRefresh = useCallback(() => {
     setRefreshing(true);
     if (activeSection === 'posts') {
+      if (showingScheduled) {
+        queryCache.invalidate(queryKeys.scheduledPosts);
+      }
       Promise.resolve(fetchProfile()).finally(() => setRefreshing(false));
       return;
     }
 
-    if (activeSection === 'followers') {
-      setFollowersPage(1);
-      setFollowersHasMore(true);
-      Promise.resolve(
-        fetchFollowList('followers', { page: 1, append: false })
-      ).finally(() => setRefreshing(false));
-    } else {
-      setFollowingPage(1);
-      setFollowingHasMore(true);
-      Promise.resolve(
-        fetchFollowList('following', { page: 1, append: false })
-      ).finally(() => setRefreshing(false));
-    }
-  }, [activeSection, fetchFollowList, fetchProfile]);
+    const refreshList = activeSection === 'followers' ? refreshFollowers : refreshFollowing;
+    refreshList().finally(() => setRefreshing(false));
+  }, [activeSection, showingScheduled, fetchProfile, refreshFollowers, refreshFollowing]);
 
   const openEditProfileModal = useCallback(() => {
     if (!profile) return;
@@ -399,9 +285,7 @@ export default function UserProfileScreen() {
 
     usernameCheckTimeoutRef.current = setTimeout(async () => {
       try {
-        const response = await apiClient.get<{ id: string; username: string }>(
-          `/v1/users/lookup?username=${encodeURIComponent(trimmed)}`
-        );
+        const response = await api.users.lookup(trimmed);
 
         if (editUsername.trim() !== trimmed) {
           return;
@@ -423,7 +307,7 @@ export default function UserProfileScreen() {
           setUsernameStatusMessage(response.errors?.[0]?.detail || 'Unable to verify username.');
         }
       } catch (error) {
-        console.error('Username lookup error:', error);
+        log.error('Username lookup error:', error);
         if (editUsername.trim() !== trimmed) {
           return;
         }
@@ -473,7 +357,7 @@ export default function UserProfileScreen() {
     setIsSavingProfile(true);
 
     try {
-      const payload: Record<string, string | null | undefined | Array<{ label: string; url: string }>> = {};
+      const payload: ProfileUpdatePayload = {};
 
       const trimmedDisplayName = editDisplayName.trim();
       const trimmedBio = editBio.trim();
@@ -505,7 +389,7 @@ export default function UserProfileScreen() {
         payload.profile_links = sanitizedLinks;
       }
 
-      const response = await apiClient.patch('/v1/profile', payload);
+      const response = await api.profiles.update(payload);
 
       if (!response.ok) {
         Toast.show({
@@ -529,7 +413,7 @@ export default function UserProfileScreen() {
       setUsernameStatus('idle');
       setUsernameStatusMessage('');
     } catch (error) {
-      console.error('Update profile error:', error);
+      log.error('Update profile error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -560,21 +444,7 @@ export default function UserProfileScreen() {
     if (!profile || profile.is_current_user) return;
 
     try {
-      const response = await apiClient.request<{
-        data: {
-          id: string;
-          other_user: {
-            id: string;
-            username: string;
-            display_name: string;
-            avatar_url: string | null;
-          };
-          created_at: string;
-        };
-      }>('/v1/conversations/find-or-create', {
-        method: 'POST',
-        data: { user_id: profile.id } as any,
-      });
+      const response = await api.messages.findOrCreateConversation({ user_id: profile.id });
 
       if (response.ok && response.data) {
         const conversationData = (response.data as any)?.data || response.data;
@@ -599,7 +469,7 @@ export default function UserProfileScreen() {
         });
       }
     } catch (err) {
-      console.error('[Profile] start message error', err);
+      log.error('[Profile] start message error', err);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -613,8 +483,8 @@ export default function UserProfileScreen() {
     setIsFollowLoading(true);
     try {
       if (profile.is_following) {
-        const response = await apiClient.delete(`/v1/users/${profile.id}/follow`);
-        if (!response.ok) {
+        const response = await api.users.unfollow(profile.id);
+        if (!response.ok && !response.queued) {
           Toast.show({
             type: 'error',
             text1: 'Error',
@@ -629,8 +499,8 @@ export default function UserProfileScreen() {
           followers_count: Math.max(0, profile.followers_count - 1),
         });
       } else {
-        const response = await apiClient.post('/v1/follows', { creator_id: profile.id });
-        if (!response.ok) {
+        const response = await api.users.follow({ creator_id: profile.id });
+        if (!response.ok && !response.queued) {
           Toast.show({
             type: 'error',
             text1: 'Error',
@@ -647,12 +517,14 @@ export default function UserProfileScreen() {
         Toast.show({
           type: 'success',
           text1: 'Following!',
-          text2: 'You will now see their posts first.',
+          text2: response.queued
+            ? "You're offline. We'll confirm the follow once you reconnect."
+            : 'You will now see their posts first.',
           visibilityTime: 2000,
         });
       }
     } catch (err) {
-      console.error('[Profile] follow toggle error', err);
+      log.error('[Profile] follow toggle error', err);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -694,11 +566,25 @@ export default function UserProfileScreen() {
 
   const handleLike = async (post: FeedPost) => {
     try {
-      const response = await apiClient.post<{ liked: boolean; likes_count: number }>(
-        `/v1/feed/posts/${post.id}/like`
-      );
+      const response = await api.feed.likePost(post.id);
 
-      if (response.ok && response.data) {
+      if (response.queued) {
+        setProfile((prev) => {
+          if (!prev) return prev;
+          return {
+            ...prev,
+            recent_posts: prev.recent_posts.map((p) =>
+              p.id === post.id
+                ? {
+                    ...p,
+                    is_liked: !p.is_liked,
+                    likes_count: p.is_liked ? Math.max(0, p.likes_count - 1) : p.likes_count + 1,
+                  }
+                : p
+            ),
+          };
+        });
+      } else if (response.ok && response.data) {
         setProfile((prev) => {
           if (!prev) return prev;
           return {
@@ -716,7 +602,7 @@ export default function UserProfileScreen() {
         });
       }
     } catch (error) {
-      console.error('Like error:', error);
+      log.error('Like error:', error);
     }
   };
 
@@ -731,14 +617,7 @@ export default function UserProfileScreen() {
     }
 
     try {
-      const response = await apiClient.request<{ 
-        id: string; 
-        shares_count: number;
-        shared_post?: FeedPost;
-      }>(`/v1/feed/posts/${postToShare.id}/share`, {
-        method: 'POST',
-        data: { comment, share_to_timeline: true }
-      });
+      const response = await api.feed.sharePost(postToShare.id, { comment, share_to_timeline: true });
 
       if (response.ok && response.data) {
         // Update the post's shares count
@@ -771,7 +650,7 @@ export default function UserProfileScreen() {
         throw new Error(errorMessage);
       }
     } catch (error) {
-      console.error('Share to timeline error:', error);
+      log.error('Share to timeline error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -791,14 +670,12 @@ export default function UserProfileScreen() {
     try {
       // Backend pagination: Request specific page from backend
       // Each call fetches only 10 posts from the database, not all posts
-      const params = new URLSearchParams();
-      params.set('filter', activeFilter);
-      params.set('page', String(nextPage)); // Request next page from backend
-      params.set('per_page', '10'); // Backend returns only 10 posts per page
-
-      const response = await apiClient.get<ProfileData>(
-        `/v1/profiles/${username}?${params.toString()}`
-      );
+      const response = await api.profiles.get({
+        username: username!,
+        filter: activeFilter,
+        page: nextPage, // Request next page from backend
+        perPage: 10, // Backend returns only 10 posts per page
+      });
 
       if (response.ok && response.data) {
         const newPosts = response.data.recent_posts || [];
@@ -832,7 +709,7 @@ export default function UserProfileScreen() {
         });
       }
     } catch (error) {
-      console.error('[Profile] loadMorePosts error', error);
+      log.error('[Profile] loadMorePosts error', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -873,7 +750,7 @@ export default function UserProfileScreen() {
     async (postId: string, data: Partial<Pick<FeedPost, 'content' | 'visibility' | 'reward_enabled' | 'reward_rule' | 'reward_coin_symbol' | 'reward_pool'>>) => {
       setPostUpdating((prev) => ({ ...prev, [postId]: true }));
       try {
-        const response = await apiClient.put<FeedPost>(`/v1/feed/posts/${postId}`, data);
+        const response = await api.feed.updatePost(postId, data);
 
         if (response.ok && response.data) {
           updateLocalPost(response.data);
@@ -892,7 +769,7 @@ export default function UserProfileScreen() {
           });
         }
       } catch (error) {
-        console.error('[Profile] update post error', error);
+        log.error('[Profile] update post error', error);
         Toast.show({
           type: 'error',
           text1: 'Error',
@@ -932,7 +809,7 @@ export default function UserProfileScreen() {
             onPress: async () => {
               setPostDeleting((prev) => ({ ...prev, [post.id]: true }));
               try {
-                const response = await apiClient.delete(`/v1/feed/posts/${post.id}`);
+                const response = await api.feed.deletePost(post.id);
 
                 if (response.ok) {
                   removeLocalPost(post.id, post.reward_enabled, post.reward_pool || 0);
@@ -951,7 +828,7 @@ export default function UserProfileScreen() {
                   });
                 }
               } catch (error) {
-                console.error('[Profile] delete post error', error);
+                log.error('[Profile] delete post error', error);
                 Toast.show({
                   type: 'error',
                   text1: 'Error',
@@ -997,9 +874,7 @@ export default function UserProfileScreen() {
   const fetchWalletCoins = useCallback(async () => {
     setIsWalletCoinsLoading(true);
     try {
-      const response = await apiClient.get<{
-        coin_balances?: Array<{ coin_symbol?: string; balance?: number }>;
-      }>('/v1/wallets/me');
+      const response = await queryCache.fetch(queryKeys.wallet, api.wallets.me);
 
       if (response.ok && response.data) {
         const balances = Array.isArray(response.data.coin_balances)
@@ -1024,7 +899,7 @@ export default function UserProfileScreen() {
         }
       }
     } catch (error) {
-      console.error('[Profile] wallet coins error', error);
+      log.error('[Profile] wallet coins error', error);
     } finally {
       setIsWalletCoinsLoading(false);
     }
@@ -1046,16 +921,6 @@ export default function UserProfileScreen() {
     [fetchWalletCoins, user?.default_coin_symbol],
   );
 
-  const handleLoadMoreFollowers = useCallback(() => {
-    if (followersLoadingMore || !followersHasMore) return;
-    fetchFollowList('followers', { page: followersPage + 1, append: true });
-  }, [fetchFollowList, followersHasMore, followersLoadingMore, followersPage]);
-
-  const handleLoadMoreFollowing = useCallback(() => {
-    if (followingLoadingMore || !followingHasMore) return;
-    fetchFollowList('following', { page: followingPage + 1, append: true });
-  }, [fetchFollowList, followingHasMore, followingLoadingMore, followingPage]);
-
   const handleEnableRewardsSubmit = useCallback(async () => {
     if (!enableRewardsModalPost) return;
 
@@ -1103,7 +968,7 @@ export default function UserProfileScreen() {
       });
       setEnableRewardsModalPost(null);
     } catch (error) {
-      console.error('[Profile] enable rewards error', error);
+      log.error('[Profile] enable rewards error', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -1116,11 +981,13 @@ export default function UserProfileScreen() {
   }, [enableRewardsModalPost, enableRewardsForm, walletCoins, handlePostUpdate]);
 
   const renderFollowList = (type: 'followers' | 'following') => {
-    const entries = type === 'followers' ? followersList : followingList;
-    const loading = type === 'followers' ? followersLoading : followingLoading;
-    const loadingMore = type === 'followers' ? followersLoadingMore : followingLoadingMore;
-    const hasMore = type === 'followers' ? followersHasMore : followingHasMore;
-    const handleLoadMore = type === 'followers' ? handleLoadMoreFollowers : handleLoadMoreFollowing;
+    const {
+      items: entries,
+      isLoading: loading,
+      isLoadingMore: loadingMore,
+      hasMore,
+      loadMore: handleLoadMore,
+    } = type === 'followers' ? followers : following;
     const emptyText = type === 'followers' ? 'No followers yet' : 'Not following anyone yet';
 
     if (loading && entries.length === 0) {
@@ -1238,6 +1105,7 @@ export default function UserProfileScreen() {
           <Text style={styles.headerTitle}>Profile</Text>
           <View style={styles.headerSpacer} />
         </View>
+        <OfflineBanner visible={isOffline} showingSaved={isShowingSaved} />
 
         {/* Profile Header */}
         <View style={styles.profileHeader}>
@@ -1299,7 +1167,7 @@ export default function UserProfileScreen() {
                       onPress={() => {
                         if (url) {
                           Linking.openURL(url).catch((err: Error) => {
-                            console.error('Failed to open URL:', err);
+                            log.error('Failed to open URL:', err);
                             Toast.show({
                               type: 'error',
                               text1: 'Error',
@@ -1396,6 +1264,14 @@ export default function UserProfileScreen() {
                   >
                     {profile.is_following ? 'Unfollow' : 'Follow'}
                   </Text>
+                  {followPending && (
+                    <FontAwesome
+                      name="clock-o"
+                      size={12}
+                      color={profile.is_following ? '#666' : '#fff'}
+                      style={{ marginLeft: 6 }}
+                    />
+                  )}
                 </>
               )}
             </TouchableOpacity>
@@ -1431,42 +1307,69 @@ export default function UserProfileScreen() {
             {/* Filter Tabs */}
             <View style={styles.filterContainer}>
               <TouchableOpacity
-                style={[styles.filterTab, activeFilter === 'all' && styles.filterTabActive]}
-                onPress={() => setActiveFilter('all')}
+                style={[styles.filterTab, !showingScheduled && activeFilter === 'all' && styles.filterTabActive]}
+                onPress={() => {
+                  setShowingScheduled(false);
+                  setActiveFilter('all');
+                }}
               >
                 <Text
-                  style={[styles.filterTabText, activeFilter === 'all' && styles.filterTabTextActive]}
+                  style={[
+                    styles.filterTabText,
+                    !showingScheduled && activeFilter === 'all' && styles.filterTabTextActive,
+                  ]}
                 >
                   All
                 </Text>
               </TouchableOpacity>
               <TouchableOpacity
-                style={[styles.filterTab, activeFilter === 'rewards' && styles.filterTabActive]}
-                onPress={() => setActiveFilter('rewards')}
+                style={[styles.filterTab, !showingScheduled && activeFilter === 'rewards' && styles.filterTabActive]}
+                onPress={() => {
+                  setShowingScheduled(false);
+                  setActiveFilter('rewards');
+                }}
               >
                 <Text
                   style={[
                     styles.filterTabText,
-                    activeFilter === 'rewards' && styles.filterTabTextActive,
+                    !showingScheduled && activeFilter === 'rewards' && styles.filterTabTextActive,
                   ]}
                 >
                   Rewards
                 </Text>
               </TouchableOpacity>
               <TouchableOpacity
-                style={[styles.filterTab, activeFilter === 'media' && styles.filterTabActive]}
-                onPress={() => setActiveFilter('media')}
+                style={[styles.filterTab, !showingScheduled && activeFilter === 'media' && styles.filterTabActive]}
+                onPress={() => {
+                  setShowingScheduled(false);
+                  setActiveFilter('media');
+                }}
               >
                 <Text
-                  style={[styles.filterTabText, activeFilter === 'media' && styles.filterTabTextActive]}
+                  style={[
+                    styles.filterTabText,
+                    !showingScheduled && activeFilter === 'media' && styles.filterTabTextActive,
+                  ]}
                 >
                   Media
                 </Text>
               </TouchableOpacity>
+              {profile.is_current_user && (
+                <TouchableOpacity
+                  style={[styles.filterTab, showingScheduled && styles.filterTabActive]}
+                  onPress={() => setShowingScheduled(true)}
+                >
+                  <Text style={[styles.filterTabText, showingScheduled && styles.filterTabTextActive]}>
+                    Scheduled
+                  </Text>
+                </TouchableOpacity>
+              )}
             </View>
 
             {/* Posts */}
-            {profile.recent_posts.length === 0 ? (
+            {showingScheduled ? (
+              <ScheduledPostList />
+            ) : profile.recent_posts.length === 0 ? (
               <View style={styles.emptyContainer}>
                 <Text style={styles.emptyText}>No posts yet</Text>
               </View>
@@ -1614,6 +1517,8 @@ export default function UserProfileScreen() {
                       }}
                     />
                   )}
+
+                  {post.poll && <PollView post={post} />}
                 </>
               )}
 
@@ -1710,7 +1615,7 @@ export default function UserProfileScreen() {
                         )}
                         <Text style={styles.managementButtonText}>Disable Rewards</Text>
                       </TouchableOpacity>
-                    ) : (
+                    ) : can('post.reward') ? (
                       <TouchableOpacity
                         style={[styles.managementButton, styles.managementButtonPrimary]}
                         onPress={() => openEnableRewardsModal(post)}
@@ -1725,7 +1630,7 @@ export default function UserProfileScreen() {
                           Enable Rewards
                         </Text>
                       </TouchableOpacity>
-                    )}
+                    ) : null}
                     <TouchableOpacity
                       style={[styles.managementButton, styles.managementButtonDanger]}
                       onPress={() => handleDeletePost(post)}
@@ -1748,7 +1653,7 @@ export default function UserProfileScreen() {
             )}
             
             {/* Load More Posts Button */}
-            {postsHasMore && (
+            {postsHasMore && !showingScheduled && (
               <View style={styles.loadMoreContainer}>
                 <TouchableOpacity
                   style={styles.loadMoreButton}
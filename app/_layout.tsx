@@ -3,7 +3,7 @@ import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native
 import { useFonts } from 'expo-font';
 import { Stack, useRouter, useSegments } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 import * as Linking from 'expo-linking';
 import 'react-native-reanimated';
 import Toast from 'react-native-toast-message';
@@ -13,6 +13,13 @@ import { useColorScheme } from '@/components/useColorScheme';
 import { AuthProvider, useAuth } from '../context/AuthContext';
 import { SidebarProvider } from '../context/SidebarContext';
 import { GlobalSidebar } from '../components/GlobalSidebar';
+import { logger } from '../lib/logger';
+import { ROUTE_CAPABILITIES } from '../lib/capabilities';
+
+const log = logger.scope('deeplink');
+
+// Opened from emailed links or OAuth redirects, so reachable whether or not the user is signed in
+const ACCOUNT_LINK_ROUTES = ['forgot-password', 'reset-password', 'verify-email', 'oauth'];
 
 export {
   // Catch any errors thrown by the Layout component.
@@ -29,15 +36,17 @@ SplashScreen.preventAutoHideAsync();
 
 function RootLayoutNav() {
   const colorScheme = useColorScheme();
-  const { isAuthenticated, loading } = useAuth();
+  const { user, isAuthenticated, loading, isAddingAccount, can } = useAuth();
   const segments = useSegments();
   const router = useRouter();
+  // The launch URL is opened once; the effect below re-runs on every sign-in and sign-out
+  const initialUrlHandledRef = useRef(false);
 
   // Handle deep linking
   useEffect(() => {
     // Global payment callback handler
     const handlePaymentCallback = (url: string) => {
-      console.log('💳 _layout: Checking URL for payment callback:', url);
+      log.debug('Checking URL for payment callback:', url);
       
       // Check if it's a payment callback
       const isPaymentCallback = 
@@ -45,7 +54,7 @@ function RootLayoutNav() {
         (url.includes('payment') && url.includes('/callback'));
       
       if (isPaymentCallback) {
-        console.log('💳 _layout: Payment callback detected, navigating to payment route:', url);
+        log.debug('Payment callback detected, navigating to payment route:', url);
         
         try {
           // Parse query parameters manually
@@ -88,7 +97,7 @@ function RootLayoutNav() {
             } as any);
           }
         } catch (error) {
-          console.error('Error parsing payment callback:', error);
+          log.error('Error parsing payment callback:', error);
           // Fallback: navigate to my-coin screen
           if (isAuthenticated && !loading) {
             router.replace('/(tabs)/my-coin');
@@ -102,7 +111,7 @@ function RootLayoutNav() {
 
     // Global OAuth callback handler (works even if settings screen isn't mounted)
     const handleOAuthCallback = (url: string) => {
-      console.log('🔐 _layout: Checking URL for OAuth callback:', url);
+      log.debug('Checking URL for OAuth callback:', url);
       
       // Check if it's an OAuth callback - be more specific to avoid false positives
       const isOAuthCallback = 
@@ -110,7 +119,7 @@ function RootLayoutNav() {
         (url.includes('oauth') && (url.includes('/callback') || url.includes('oauth-callback')));
       
       if (isOAuthCallback) {
-        console.log('🔐 _layout: OAuth callback detected, navigating to oauth route:', url);
+        log.debug('OAuth callback detected, navigating to oauth route:', url);
         
         try {
           // Parse query parameters manually (mobile:// scheme doesn't work with URL constructor)
@@ -129,6 +138,17 @@ function RootLayoutNav() {
           const status = params.status;
           const message = params.message;
           const provider = params.provider || 'account';
+
+          // Social sign-in: the callback route signs in (or asks to link), whether or not someone is signed in
+          if (params.intent === 'login') {
+            if (!loading) {
+              router.replace({
+                pathname: '/oauth/[...params]',
+                params: { ...params, params: [provider, 'callback'] },
+              });
+            }
+            return true;
+          }
           
           // Show toast
           if (status === 'success') {
@@ -155,7 +175,7 @@ function RootLayoutNav() {
             } as any);
           }
         } catch (error) {
-          console.error('Error parsing OAuth callback:', error);
+          log.error('Error parsing OAuth callback:', error);
           // Fallback: just navigate to settings
           if (isAuthenticated && !loading) {
             router.replace('/(tabs)/settings');
@@ -167,20 +187,23 @@ function RootLayoutNav() {
       return false;
     };
 
-    // Handle initial URL (app opened from a link)
-    Linking.getInitialURL().then((url) => {
-      if (url) {
-        console.log('🔗 _layout: Initial URL:', url);
-        // Check payment callback first, then OAuth, then general deep links
-        if (!handlePaymentCallback(url) && !handleOAuthCallback(url)) {
-          handleDeepLink(url);
+    // Handle initial URL (app opened from a link), once auth has loaded so it can navigate
+    if (!loading && !initialUrlHandledRef.current) {
+      initialUrlHandledRef.current = true;
+      Linking.getInitialURL().then((url) => {
+        if (url) {
+          log.debug('Initial URL:', url);
+          // Check payment callback first, then OAuth, then general deep links
+          if (!handlePaymentCallback(url) && !handleOAuthCallback(url)) {
+            handleDeepLink(url);
+          }
         }
-      }
-    });
+      });
+    }
 
     // Handle deep links while app is running
     const subscription = Linking.addEventListener('url', (event) => {
-      console.log('🔗 _layout: Deep link event received:', event.url);
+      log.debug('Deep link event received:', event.url);
       // Check payment callback first, then OAuth, then general deep links
       if (!handlePaymentCallback(event.url) && !handleOAuthCallback(event.url)) {
         handleDeepLink(event.url);
@@ -192,12 +215,43 @@ function RootLayoutNav() {
     };
   }, [isAuthenticated, loading, router]);
 
+  // mobile://reset-password?token=...&email=... and mobile://verify-email?token=...
+  const handleAccountLink = (route: string | undefined, queryParams: Linking.QueryParams | null) => {
+    if (route !== 'reset-password' && route !== 'verify-email') {
+      return false;
+    }
+    if (loading) {
+      // Auth is still loading; the launch URL is only handled after it has
+      return true;
+    }
+
+    const param = (key: string) => {
+      const value = queryParams?.[key];
+      return typeof value === 'string' ? value : undefined;
+    };
+
+    log.debug('Opening account link:', route);
+    if (route === 'reset-password') {
+      router.push({ pathname: '/reset-password', params: { token: param('token'), email: param('email') } });
+    } else {
+      router.push({ pathname: '/verify-email', params: { token: param('token') } });
+    }
+    return true;
+  };
+
   const handleDeepLink = (url: string) => {
-    console.log('🔗 Deep link received:', url);
+    log.debug('Deep link received:', url);
     
     try {
       const parsed = Linking.parse(url);
-      console.log('🔗 Parsed deep link:', parsed);
+      log.debug('Parsed deep link:', parsed);
+      
+      // Custom scheme links parse the first segment as the hostname, universal links as the path
+      const pathSegments = parsed.path?.split('/').filter(Boolean) || [];
+      const accountRoute = parsed.scheme === 'mobile' ? parsed.hostname ?? pathSegments[0] : pathSegments[0];
+      if (handleAccountLink(accountRoute ?? undefined, parsed.queryParams)) {
+        return;
+      }
       
       // Handle universal links: https://phanrise.com/posts/{postId}
       if (parsed.hostname === 'phanrise.com' || parsed.hostname === 'www.phanrise.com') {
@@ -205,7 +259,7 @@ function RootLayoutNav() {
         
         if (pathSegments[0] === 'posts' && pathSegments[1]) {
           const postId = pathSegments[1];
-          console.log('📱 Opening post:', postId);
+          log.debug('Opening post:', postId);
           
           // Wait for auth to be ready, then navigate
           if (!loading) {
@@ -225,7 +279,7 @@ function RootLayoutNav() {
         // Handle user profile links: https://phanrise.com/{username}
         if (pathSegments.length === 1 && pathSegments[0]) {
           const username = pathSegments[0];
-          console.log('👤 Opening profile:', username);
+          log.debug('Opening profile:', username);
           
           if (!loading) {
             if (isAuthenticated) {
@@ -248,14 +302,14 @@ function RootLayoutNav() {
         // Handle OAuth callbacks: mobile://oauth/{provider}/callback
         // Don't navigate - let the settings screen's listener handle it
         if (pathSegments[0] === 'oauth') {
-          console.log('🔐 OAuth callback deep link detected in _layout - letting settings screen handle it');
+          log.debug('OAuth callback deep link detected in _layout - letting settings screen handle it');
           // Return early without navigating - the settings screen's Linking listener will catch it
           return;
         }
         
         if (pathSegments[0] === 'posts' && pathSegments[1]) {
           const postId = pathSegments[1];
-          console.log('📱 Opening post via custom scheme:', postId);
+          log.debug('Opening post via custom scheme:', postId);
           
           if (!loading) {
             if (isAuthenticated) {
@@ -271,30 +325,46 @@ function RootLayoutNav() {
         }
       }
     } catch (error) {
-      console.error('❌ Error handling deep link:', error);
+      log.error('Error handling deep link:', error);
     }
   };
 
   useEffect(() => {
     if (loading) return;
 
-    const inAuthGroup = segments[0] === 'login' || segments[0] === 'register';
+    const inAuthGroup = segments[0] === 'login' || segments[0] === 'register' || segments[0] === 'two-factor';
+    const inAccountLink = ACCOUNT_LINK_ROUTES.includes(segments[0] ?? '');
     const inTabsGroup = segments[0] === '(tabs)';
 
-    if (!isAuthenticated && !inAuthGroup) {
+    if (!isAuthenticated && !inAuthGroup && !inAccountLink) {
       // Redirect to login if not authenticated
       router.replace('/login');
-    } else if (isAuthenticated && inAuthGroup) {
+    } else if (isAuthenticated && inAuthGroup && !isAddingAccount) {
       // Redirect to feed tab if authenticated and on auth screen
       router.replace('/(tabs)/feed');
+    } else if (isAuthenticated) {
+      // Creator-only screens show an upgrade prompt instead of failing server-side
+      const route = segments.join('/');
+      const capability = ROUTE_CAPABILITIES[route];
+      if (capability && !can(capability)) {
+        router.replace({ pathname: '/upgrade', params: { capability, redirect: `/${route}` } });
+      }
     }
-  }, [isAuthenticated, loading, segments]);
+  }, [isAuthenticated, loading, segments, isAddingAccount, can]);
 
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack>
+      {/* Remount every screen when the active account changes so no state leaks between accounts */}
+      <Stack key={user ? `account-${user.id}` : 'signed-out'}>
         <Stack.Screen name="login" options={{ headerShown: false }} />
         <Stack.Screen name="register" options={{ headerShown: false }} />
+        <Stack.Screen name="two-factor" options={{ headerShown: false }} />
+        <Stack.Screen name="two-factor-setup" options={{ headerShown: false }} />
+        <Stack.Screen name="forgot-password" options={{ headerShown: false }} />
+        <Stack.Screen name="reset-password" options={{ headerShown: false }} />
+        <Stack.Screen name="verify-email" options={{ headerShown: false }} />
+        <Stack.Screen name="upgrade" options={{ headerShown: false }} />
+        <Stack.Screen name="delete-account" options={{ headerShown: false }} />
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
         <Stack.Screen 
           name="discover" 
@@ -326,6 +396,20 @@ function RootLayoutNav() {
             presentation: 'card',
           }} 
         />
+        <Stack.Screen 
+          name="tags/[tag]" 
+          options={{ 
+            headerShown: false,
+            presentation: 'card',
+          }} 
+        />
+        <Stack.Screen 
+          name="saved" 
+          options={{ 
+            headerShown: false,
+            presentation: 'card',
+          }} 
+        />
         <Stack.Screen 
           name="engagements" 
           options={{ 
@@ -333,6 +417,13 @@ function RootLayoutNav() {
             presentation: 'card',
           }} 
         />
+        <Stack.Screen 
+          name="debug-logs" 
+          options={{ 
+            headerShown: false,
+            presentation: 'card',
+          }} 
+        />
         <Stack.Screen 
           name="messaging" 
           options={{ 
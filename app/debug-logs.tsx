@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, Text, FlatList, TouchableOpacity } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import * as Clipboard from 'expo-clipboard';
+import Toast from 'react-native-toast-message';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { logger, type LogEntry, type LogLevel } from '../lib/logger';
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: '#6b7280',
+  info: '#2563eb',
+  warn: '#d97706',
+  error: '#dc2626',
+};
+
+const formatEntry = (entry: LogEntry) =>
+  `${entry.timestamp} ${entry.level.toUpperCase()} [${entry.scope}] ${entry.message}${entry.details ? ` ${entry.details}` : ''}`;
+
+/**
+ * Hidden screen (tap the Account title in Settings 7 times) showing the redacted log buffer.
+ */
+export default function DebugLogsScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const [entries, setEntries] = useState<LogEntry[]>(() => logger.getEntries());
+  const [level, setLevel] = useState<LogLevel>(() => logger.getLevel());
+
+  useEffect(() => logger.subscribe(setEntries), []);
+
+  const handleLevelChange = (next: LogLevel) => {
+    logger.setLevel(next);
+    setLevel(next);
+  };
+
+  const handleCopy = async () => {
+    await Clipboard.setStringAsync(entries.map(formatEntry).join('\n'));
+    Toast.show({
+      type: 'success',
+      text1: 'Copied',
+      text2: `${entries.length} log entries copied to clipboard`,
+    });
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <FontAwesome name="arrow-left" size={20} color="#1f2937" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Debug Logs</Text>
+        <View style={styles.headerActions}>
+          <TouchableOpacity onPress={handleCopy} style={styles.headerButton}>
+            <FontAwesome name="copy" size={18} color="#1f2937" />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => logger.clear()} style={styles.headerButton}>
+            <FontAwesome name="trash" size={18} color="#1f2937" />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <View style={styles.levels}>
+        <Text style={styles.levelsLabel}>Minimum level</Text>
+        {LEVELS.map((item) => (
+          <TouchableOpacity
+            key={item}
+            style={[styles.levelChip, level === item && styles.levelChipActive]}
+            onPress={() => handleLevelChange(item)}
+          >
+            <Text style={[styles.levelChipText, level === item && styles.levelChipTextActive]}>{item}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <FlatList
+        data={[...entries].reverse()}
+        keyExtractor={(entry) => String(entry.id)}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={<Text style={styles.emptyText}>No log entries yet</Text>}
+        renderItem={({ item }) => (
+          <View style={styles.entry}>
+            <View style={styles.entryHeader}>
+              <Text style={[styles.entryLevel, { color: LEVEL_COLORS[item.level] }]}>
+                {item.level.toUpperCase()}
+              </Text>
+              <Text style={styles.entryScope}>{item.scope}</Text>
+              <Text style={styles.entryTime}>{new Date(item.timestamp).toLocaleTimeString()}</Text>
+            </View>
+            <Text style={styles.entryMessage}>{item.message}</Text>
+            {item.details ? (
+              <Text style={styles.entryDetails} numberOfLines={6}>
+                {item.details}
+              </Text>
+            ) : null}
+          </View>
+        )}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerActions: {
+    flexDirection: 'row',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  levels: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  levelsLabel: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginRight: 8,
+  },
+  levelChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginRight: 6,
+  },
+  levelChipActive: {
+    backgroundColor: '#FF6B00',
+    borderColor: '#FF6B00',
+  },
+  levelChipText: {
+    fontSize: 12,
+    color: '#374151',
+  },
+  levelChipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  list: {
+    padding: 12,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#9ca3af',
+    marginTop: 40,
+  },
+  entry: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  entryLevel: {
+    fontSize: 11,
+    fontWeight: '700',
+    marginRight: 8,
+  },
+  entryScope: {
+    fontSize: 11,
+    color: '#374151',
+    fontWeight: '600',
+    flex: 1,
+  },
+  entryTime: {
+    fontSize: 11,
+    color: '#9ca3af',
+  },
+  entryMessage: {
+    fontSize: 13,
+    color: '#111827',
+  },
+  entryDetails: {
+    fontSize: 11,
+    color: '#6b7280',
+    marginTop: 4,
+    fontFamily: 'SpaceMono',
+  },
+});
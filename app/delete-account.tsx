@@ -0,0 +1,384 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Switch,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import Toast from 'react-native-toast-message';
+import { useAuth } from '../context/AuthContext';
+import { useWallet } from '../hooks/useWallet';
+import { useStepUp } from '../hooks/useStepUp';
+import { privacyService, WALLET_NOT_EMPTY } from '../lib/privacy';
+import { queryCache, queryKeys } from '../lib/queryCache';
+import { logger } from '../lib/logger';
+import WithdrawalModal from '../components/WithdrawalModal';
+import TwoFactorCodeModal from '../components/TwoFactorCodeModal';
+
+const log = logger.scope('auth');
+
+const formatDeletionDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+/**
+ * Schedule the account for deletion (password + step-up), or cancel a deletion
+ * that is still in its grace period. Coins left in the wallet must be withdrawn
+ * or explicitly forfeited first.
+ */
+export default function DeleteAccountScreen() {
+  const { user, refreshUser } = useAuth();
+  const router = useRouter();
+  const { data: wallet, isLoading: isLoadingWallet } = useWallet({ enabled: !user?.deletion_scheduled_for });
+  const { requireStepUp, spendStepUp, stepUpModalProps } = useStepUp();
+  const [password, setPassword] = useState('');
+  const [forfeitBalances, setForfeitBalances] = useState(false);
+  const [isWithdrawalModalVisible, setIsWithdrawalModalVisible] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const remainingBalances = (wallet?.coin_balances ?? []).filter((balance) => balance.balance > 0);
+  const hasBalance = remainingBalances.length > 0;
+  const canSubmit = !!password && !isLoadingWallet && (!hasBalance || forfeitBalances);
+
+  const scheduleDeletion = async () => {
+    const proof = await requireStepUp('delete your account');
+    if (!proof) return;
+
+    setIsSubmitting(true);
+    const response = await privacyService.scheduleDeletion({
+      password,
+      forfeit_balances: hasBalance ? forfeitBalances : undefined,
+      ...proof,
+    });
+    setIsSubmitting(false);
+
+    if (response.ok && response.status < 300 && response.data) {
+      spendStepUp();
+      setPassword('');
+      await refreshUser();
+      Toast.show({
+        type: 'success',
+        text1: 'Deletion Scheduled',
+        text2: `Your account will be deleted on ${formatDeletionDate(response.data.scheduled_for)}`,
+      });
+      return;
+    }
+
+    log.warn('Account deletion request failed', { status: response.status });
+    if (response.errors?.[0]?.code === WALLET_NOT_EMPTY) {
+      // Balances changed since the wallet was loaded
+      queryCache.invalidate(queryKeys.wallet);
+    }
+    Toast.show({
+      type: 'error',
+      text1: 'Could Not Delete Account',
+      text2: response.errors?.[0]?.detail || 'Failed to schedule account deletion',
+    });
+  };
+
+  const handleDelete = () => {
+    if (!canSubmit) return;
+    Alert.alert(
+      'Delete Account',
+      hasBalance
+        ? 'Your remaining coins will be forfeited and your account deleted after the grace period. Continue?'
+        : 'Your account will be deleted after the grace period. Continue?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: scheduleDeletion },
+      ]
+    );
+  };
+
+  const handleCancelDeletion = async () => {
+    setIsSubmitting(true);
+    const response = await privacyService.cancelDeletion();
+    setIsSubmitting(false);
+
+    if (response.ok && response.status < 300) {
+      await refreshUser();
+      Toast.show({
+        type: 'success',
+        text1: 'Deletion Cancelled',
+        text2: 'Your account will not be deleted',
+      });
+      return;
+    }
+    Toast.show({
+      type: 'error',
+      text1: 'Error',
+      text2: response.errors?.[0]?.detail || 'Failed to cancel account deletion',
+    });
+  };
+
+  const renderScheduled = (scheduledFor: string) => (
+    <>
+      <View style={styles.iconCircle}>
+        <FontAwesome name="clock-o" size={32} color="#E91E63" />
+      </View>
+      <Text style={styles.title}>Deletion scheduled</Text>
+      <Text style={styles.subtitle}>
+        @{user?.username ?? user?.name} and all of its posts, messages and wallet history will be permanently deleted on{' '}
+        {formatDeletionDate(scheduledFor)}. Until then you can keep using your account and change your mind.
+      </Text>
+      <TouchableOpacity
+        style={[styles.button, isSubmitting && styles.buttonDisabled]}
+        onPress={handleCancelDeletion}
+        disabled={isSubmitting}
+      >
+        {isSubmitting ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>Keep My Account</Text>}
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderRequest = () => (
+    <>
+      <Text style={styles.title}>Delete your account</Text>
+      <Text style={styles.subtitle}>
+        Your profile, posts, comments, messages and wallet history will be permanently deleted after a grace period.
+        You can cancel any time before then. Want a copy first? Request a data export from Settings.
+      </Text>
+
+      <Text style={styles.label}>Wallet</Text>
+      {isLoadingWallet ? (
+        <ActivityIndicator color="#FF6B00" style={styles.walletLoader} />
+      ) : hasBalance ? (
+        <View style={styles.walletBox}>
+          <Text style={styles.walletText}>You still have coins. Withdraw them first or they'll be lost:</Text>
+          {remainingBalances.map((balance) => (
+            <Text key={balance.coin_symbol} style={styles.balanceText}>
+              {balance.balance.toLocaleString()} {balance.coin_symbol}
+            </Text>
+          ))}
+          {user?.email_verified_at ? (
+            <TouchableOpacity style={styles.outlineButton} onPress={() => setIsWithdrawalModalVisible(true)}>
+              <FontAwesome name="bank" size={14} color="#FF6B00" />
+              <Text style={styles.outlineButtonText}>Withdraw</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity onPress={() => router.push('/verify-email')}>
+              <Text style={styles.linkText}>Verify your email to withdraw</Text>
+            </TouchableOpacity>
+          )}
+          <View style={styles.forfeitRow}>
+            <Text style={styles.forfeitText}>Forfeit my remaining balance</Text>
+            <Switch
+              value={forfeitBalances}
+              onValueChange={setForfeitBalances}
+              trackColor={{ false: '#ddd', true: '#E91E63' }}
+            />
+          </View>
+        </View>
+      ) : (
+        <Text style={styles.walletEmpty}>Your wallet is empty.</Text>
+      )}
+
+      <Text style={styles.label}>Confirm with your password</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="Password"
+        placeholderTextColor="#999"
+        value={password}
+        onChangeText={setPassword}
+        secureTextEntry
+        autoCapitalize="none"
+        editable={!isSubmitting}
+      />
+
+      <TouchableOpacity
+        style={[styles.deleteButton, (!canSubmit || isSubmitting) && styles.buttonDisabled]}
+        onPress={handleDelete}
+        disabled={!canSubmit || isSubmitting}
+      >
+        {isSubmitting ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>Delete Account</Text>}
+      </TouchableOpacity>
+    </>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <FontAwesome name="arrow-left" size={20} color="#000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Delete Account</Text>
+      </View>
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+          {user?.deletion_scheduled_for ? renderScheduled(user.deletion_scheduled_for) : renderRequest()}
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      <WithdrawalModal
+        visible={isWithdrawalModalVisible && !!user?.email_verified_at}
+        onClose={() => setIsWithdrawalModalVisible(false)}
+        coinBalances={wallet?.coin_balances || []}
+        onWithdrawalSuccess={() => queryCache.invalidate(queryKeys.wallet)}
+      />
+      <TwoFactorCodeModal {...stepUpModalProps} />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  headerButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: 24,
+  },
+  iconCircle: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: '#FDE8EF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    alignSelf: 'center',
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#000',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#666',
+    marginBottom: 24,
+    lineHeight: 21,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 8,
+  },
+  walletLoader: {
+    marginBottom: 24,
+  },
+  walletBox: {
+    borderWidth: 1,
+    borderColor: '#f5c2d3',
+    backgroundColor: '#FFF5F8',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 24,
+  },
+  walletText: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 8,
+    lineHeight: 20,
+  },
+  balanceText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 4,
+  },
+  walletEmpty: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 24,
+  },
+  outlineButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderColor: '#FF6B00',
+    borderRadius: 8,
+    padding: 10,
+    marginTop: 8,
+  },
+  outlineButtonText: {
+    color: '#FF6B00',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  linkText: {
+    color: '#FF6B00',
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  forfeitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  forfeitText: {
+    fontSize: 14,
+    color: '#333',
+    flex: 1,
+    marginRight: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    color: '#000',
+    marginBottom: 24,
+  },
+  button: {
+    backgroundColor: '#FF6B00',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  deleteButton: {
+    backgroundColor: '#E91E63',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
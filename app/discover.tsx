@@ -13,8 +13,13 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { apiClient } from '../lib/apiClient';
+import { api } from '../lib/api';
+import { useLatestRequest } from '../hooks/useLatestRequest';
 import Toast from 'react-native-toast-message';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { logger } from '../lib/logger';
+
+const log = logger.scope('profile');
 
 type DiscoverUser = {
   id: string;
@@ -35,6 +40,7 @@ export default function DiscoverScreen() {
   const [loadingFollows, setLoadingFollows] = useState<Record<string, boolean>>({});
   const [refreshing, setRefreshing] = useState(false);
   const router = useRouter();
+  const latestSearch = useLatestRequest();
 
   const fetchUsers = useCallback(async (search?: string) => {
     setIsLoading(true);
@@ -44,10 +50,16 @@ export default function DiscoverScreen() {
         params.set('search', search.trim());
       }
 
-      const response = await apiClient.get<DiscoverUser[]>(
-        `/v1/users${params.toString() ? `?${params.toString()}` : ''}`
+      const response = await apiClient.request<DiscoverUser[]>(
+        `/v1/users${params.toString() ? `?${params.toString()}` : ''}`,
+        { signal: latestSearch.next() }
       );
 
+      // A newer search term replaced this one
+      if (response.aborted) {
+        return;
+      }
+
       if (response.ok && Array.isArray(response.data)) {
         setUsers(response.data);
       } else {
@@ -59,17 +71,16 @@ export default function DiscoverScreen() {
         setUsers([]);
       }
     } catch (error) {
-      console.error('Discover fetch error:', error);
+      log.error('Discover fetch error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
         text2: 'Failed to load creators',
       });
       setUsers([]);
-    } finally {
-      setIsLoading(false);
     }
-  }, []);
+    setIsLoading(false);
+  }, [latestSearch]);
 
   useEffect(() => {
     const timeoutId = setTimeout(() => {
@@ -86,8 +97,8 @@ export default function DiscoverScreen() {
 
     try {
       if (isFollowing) {
-        const response = await apiClient.delete(`/v1/users/${userId}/follow`);
-        if (response.ok) {
+        const response = await api.users.unfollow(userId);
+        if (response.ok || response.queued) {
           setUsers((prev) =>
             prev.map((user) =>
               user.id === userId ? { ...user, is_following: false } : user
@@ -106,8 +117,8 @@ export default function DiscoverScreen() {
           });
         }
       } else {
-        const response = await apiClient.post('/v1/follows', { creator_id: userId });
-        if (response.ok) {
+        const response = await api.users.follow({ creator_id: userId });
+        if (response.ok || response.queued) {
           setUsers((prev) =>
             prev.map((user) =>
               user.id === userId ? { ...user, is_following: true } : user
@@ -127,7 +138,7 @@ export default function DiscoverScreen() {
         }
       }
     } catch (error) {
-      console.error('Follow error:', error);
+      log.error('Follow error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -14,6 +14,9 @@ import { useAuth } from '../context/AuthContext';
 import { apiClient } from '../lib/apiClient';
 import Toast from 'react-native-toast-message';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { logger } from '../lib/logger';
+
+const log = logger.scope('wallet');
 
 type RecentEngagement = {
   id: string;
@@ -127,7 +130,7 @@ export default function EngagementsScreen() {
         });
       }
     } catch (error) {
-      console.error('Load creator engagements error:', error);
+      log.error('Load creator engagements error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -146,7 +149,7 @@ export default function EngagementsScreen() {
       
       const response = await apiClient.get<{ data: any[] }>(`/v1/engagements/my?limit=50`);
       
-      console.log('My Engagements API Response:', {
+      log.debug('My Engagements API Response:', {
         ok: response.ok,
         status: response.status,
         hasData: !!response.data,
@@ -160,7 +163,7 @@ export default function EngagementsScreen() {
       if (!response.ok) {
         // Don't show error for 401/403 - might be auth issue
         if (response.status === 401 || response.status === 403) {
-          console.warn('My Engagements: Authentication issue', response.errors);
+          log.warn('My Engagements: Authentication issue', response.errors);
           setFanEngagements([]);
           return;
         }
@@ -211,20 +214,20 @@ export default function EngagementsScreen() {
         });
 
         setFanEngagements(mapped);
-        console.log(`My Engagements: Loaded ${mapped.length} engagements`);
+        log.debug(`My Engagements: Loaded ${mapped.length} engagements`);
       } else if (response.data === null || response.data === undefined) {
         // Empty response is valid - user has no engagements
-        console.log('My Engagements: No engagements found (empty response)');
+        log.debug('My Engagements: No engagements found (empty response)');
         setFanEngagements([]);
       } else {
-        console.warn('My Engagements: Response data is not an array', {
+        log.warn('My Engagements: Response data is not an array', {
           data: response.data,
           dataType: typeof response.data,
         });
         setFanEngagements([]);
       }
     } catch (error) {
-      console.error('Load fan engagements error:', error);
+      log.error('Load fan engagements error:', error);
       const errorMessage = error instanceof Error ? error.message : 'Failed to load your engagements';
       Toast.show({
         type: 'error',
@@ -14,16 +14,26 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { useAuth } from '../context/AuthContext';
+import { SocialSignInButtons } from '../components/SocialSignInButtons';
 import Toast from 'react-native-toast-message';
 
 export default function LoginScreen() {
-  const [email, setEmail] = useState('');
+  const params = useLocalSearchParams<{ redirect?: string; email?: string }>();
+  const [email, setEmail] = useState(params.email ?? '');
   const [password, setPassword] = useState('');
   const [passwordVisible, setPasswordVisible] = useState(false);
   const [loading, setLoading] = useState(false);
-  const { login } = useAuth();
+  const { login, isAddingAccount, setAddingAccount } = useAuth();
   const router = useRouter();
-  const params = useLocalSearchParams<{ redirect?: string }>();
+
+  const handleCancelAddAccount = () => {
+    setAddingAccount(false);
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)/feed');
+    }
+  };
 
   const handleLogin = async () => {
     if (!email.trim() || !password.trim()) {
@@ -39,6 +49,15 @@ export default function LoginScreen() {
     const result = await login(email.trim(), password);
     setLoading(false);
 
+    if (result.twoFactorChallenge) {
+      setPassword('');
+      router.push({
+        pathname: '/two-factor',
+        params: { challenge: result.twoFactorChallenge, ...(params.redirect ? { redirect: params.redirect } : {}) },
+      });
+      return;
+    }
+
     if (result.success) {
       Toast.show({
         type: 'success',
@@ -65,8 +84,16 @@ export default function LoginScreen() {
       >
         <ScrollView contentContainerStyle={styles.scrollContent}>
         <View style={styles.content}>
-          <Text style={styles.title}>Welcome to Phanrise</Text>
-          <Text style={styles.subtitle}>Sign in to your account</Text>
+          {isAddingAccount && (
+            <TouchableOpacity onPress={handleCancelAddAccount} style={styles.cancelButton} disabled={loading}>
+              <FontAwesome name="arrow-left" size={18} color="#666" />
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+          )}
+          <Text style={styles.title}>{isAddingAccount ? 'Add an account' : 'Welcome to Phanrise'}</Text>
+          <Text style={styles.subtitle}>
+            {isAddingAccount ? 'Sign in to another Phanrise account' : 'Sign in to your account'}
+          </Text>
 
           <View style={styles.form}>
             <View style={styles.inputContainer}>
@@ -109,6 +136,15 @@ export default function LoginScreen() {
                   />
                 </TouchableOpacity>
               </View>
+              <TouchableOpacity
+                onPress={() =>
+                  router.push({ pathname: '/forgot-password', params: email.trim() ? { email: email.trim() } : {} })
+                }
+                style={styles.forgotPassword}
+                disabled={loading}
+              >
+                <Text style={styles.linkText}>Forgot password?</Text>
+              </TouchableOpacity>
             </View>
 
             <TouchableOpacity
@@ -123,6 +159,8 @@ export default function LoginScreen() {
               )}
             </TouchableOpacity>
 
+            <SocialSignInButtons redirect={params.redirect} disabled={loading} />
+
             <View style={styles.footer}>
               <Text style={styles.footerText}>Don't have an account? </Text>
               <TouchableOpacity
@@ -156,6 +194,17 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     padding: 24,
   },
+  cancelButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 8,
+    marginBottom: 24,
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#666',
+  },
   title: {
     fontSize: 32,
     fontWeight: 'bold',
@@ -207,6 +256,10 @@ const styles = StyleSheet.create({
     paddingHorizontal: 12,
     paddingVertical: 10,
   },
+  forgotPassword: {
+    alignSelf: 'flex-end',
+    marginTop: 8,
+  },
   button: {
     backgroundColor: '#FF6B00',
     padding: 16,
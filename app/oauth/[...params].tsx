@@ -1,26 +1,102 @@
-import { useEffect } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useRouter, useLocalSearchParams } from 'expo-router';
-import { View, Text, ActivityIndicator } from 'react-native';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
 import Toast from 'react-native-toast-message';
 import { useAuth } from '../../context/AuthContext';
+import type { SocialLinkRequired } from '../../lib/auth';
+import { logger } from '../../lib/logger';
+
+const log = logger.scope('auth');
+
+const PROVIDER_NAMES: Record<string, string> = {
+  google: 'Google',
+  facebook: 'Facebook',
+};
 
 /**
  * Catch-all route for OAuth callbacks: mobile://oauth/{provider}/callback
  * This prevents expo-router from showing "ops screen doesn't exist"
+ *
+ * With `intent=login` the callback carries a one-time `login_token` from social
+ * sign-in, exchanged here for a session. Otherwise it reports the result of
+ * connecting an account from Settings.
  */
 export default function OAuthCallbackScreen() {
   const router = useRouter();
   const params = useLocalSearchParams();
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, completeSocialLogin, linkSocialAccount } = useAuth();
+  const [linkRequired, setLinkRequired] = useState<SocialLinkRequired | null>(null);
+  const [password, setPassword] = useState('');
+  const [isLinking, setIsLinking] = useState(false);
+  // The sign-in effect re-runs whenever the auth context re-renders; each callback is handled once
+  const handledCallbackRef = useRef<string | null>(null);
+
+  const isLogin = params.intent === 'login';
+  const redirect = typeof params.redirect === 'string' ? params.redirect : undefined;
+  const providerName = PROVIDER_NAMES[params.provider as string] ?? 'your account';
+
+  const finishSignIn = useCallback((result: Awaited<ReturnType<typeof completeSocialLogin>>) => {
+    if (result.success) {
+      router.replace((redirect || '/(tabs)/feed') as any);
+    } else if (result.twoFactorChallenge) {
+      router.replace({
+        pathname: '/two-factor',
+        params: { challenge: result.twoFactorChallenge, ...(redirect ? { redirect } : {}) },
+      });
+    } else if (result.linkRequired) {
+      setLinkRequired(result.linkRequired);
+    } else {
+      Toast.show({
+        type: 'error',
+        text1: 'Sign-in Failed',
+        text2: result.error || `Could not sign in with ${providerName}`,
+      });
+      router.replace('/login');
+    }
+  }, [router, redirect, providerName]);
+
+  // Social sign-in
+  useEffect(() => {
+    if (!isLogin) return;
+
+    const loginToken = typeof params.login_token === 'string' ? params.login_token : null;
+    const callbackKey = loginToken ?? `failed:${String(params.status)}`;
+    if (handledCallbackRef.current === callbackKey) return;
+    handledCallbackRef.current = callbackKey;
+
+    if (params.status !== 'success' || !loginToken) {
+      Toast.show({
+        type: 'error',
+        text1: 'Sign-in Failed',
+        text2: (params.message as string) || `Could not sign in with ${providerName}`,
+      });
+      router.replace('/login');
+      return;
+    }
 
+    completeSocialLogin(loginToken).then(finishSignIn);
+  }, [isLogin, params.login_token, params.status, params.message, providerName, router, completeSocialLogin, finishSignIn]);
+
+  // Connecting an account from Settings
   useEffect(() => {
-    console.log('🔐 OAuth callback route hit with params:', params);
-    
+    if (isLogin) return;
+
+    log.debug('OAuth callback route hit with params:', params);
+
     // Extract status, message, provider from query params
     const status = params.status as string;
     const message = params.message as string;
     const provider = (params.provider as string) || 'account';
-    
+
     // Show toast
     if (status === 'success') {
       Toast.show({
@@ -35,24 +111,147 @@ export default function OAuthCallbackScreen() {
         text2: message || 'Failed to connect account',
       });
     }
-    
+
     // Navigate to settings screen after a short delay
-    setTimeout(() => {
+    const timer = setTimeout(() => {
       if (isAuthenticated) {
         router.replace('/(tabs)/settings');
       } else {
         router.replace('/login');
       }
     }, 1500);
-  }, [params, isAuthenticated, router]);
+    return () => clearTimeout(timer);
+  }, [params, isAuthenticated, router, isLogin]);
+
+  const handleLink = async () => {
+    if (!linkRequired || !password) return;
+
+    setIsLinking(true);
+    const result = await linkSocialAccount(linkRequired.link_token, password);
+    setIsLinking(false);
+
+    if (!result.success && !result.twoFactorChallenge) {
+      setPassword('');
+      Toast.show({
+        type: 'error',
+        text1: 'Could Not Link',
+        text2: result.error || 'Incorrect password',
+      });
+      return;
+    }
+    finishSignIn(result);
+  };
+
+  if (linkRequired) {
+    const linkProviderName = PROVIDER_NAMES[linkRequired.provider] ?? linkRequired.provider;
+    return (
+      <KeyboardAvoidingView
+        style={styles.linkContainer}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <Text style={styles.title}>Link your {linkProviderName} account</Text>
+        <Text style={styles.subtitle}>
+          {linkRequired.email} already has a Phanrise account. Enter its password once to sign in with{' '}
+          {linkProviderName} from now on.
+        </Text>
+        <TextInput
+          style={styles.input}
+          placeholder="Password"
+          placeholderTextColor="#999"
+          value={password}
+          onChangeText={setPassword}
+          secureTextEntry
+          autoCapitalize="none"
+          autoFocus
+          editable={!isLinking}
+          onSubmitEditing={handleLink}
+        />
+        <TouchableOpacity
+          style={[styles.button, (isLinking || !password) && styles.buttonDisabled]}
+          onPress={handleLink}
+          disabled={isLinking || !password}
+        >
+          {isLinking ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>Link and Sign In</Text>}
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => router.replace('/login')} disabled={isLinking}>
+          <Text style={styles.mutedText}>Cancel</Text>
+        </TouchableOpacity>
+      </KeyboardAvoidingView>
+    );
+  }
 
   return (
-    <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: '#f8fafc' }}>
+    <View style={styles.container}>
       <ActivityIndicator size="large" color="#FF6B00" />
-      <Text style={{ marginTop: 16, color: '#1f2937', fontSize: 16 }}>
-        Processing connection...
+      <Text style={styles.processingText}>
+        {isLogin ? `Signing in with ${providerName}...` : 'Processing connection...'}
       </Text>
     </View>
   );
 }
 
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f8fafc',
+  },
+  processingText: {
+    marginTop: 16,
+    color: '#1f2937',
+    fontSize: 16,
+  },
+  linkContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+    backgroundColor: '#fff',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#000',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#666',
+    marginBottom: 24,
+    textAlign: 'center',
+    lineHeight: 21,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    color: '#000',
+    marginBottom: 20,
+  },
+  button: {
+    backgroundColor: '#FF6B00',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    padding: 14,
+    alignItems: 'center',
+  },
+  mutedText: {
+    color: '#666',
+    fontSize: 14,
+  },
+});
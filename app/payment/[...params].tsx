@@ -3,6 +3,7 @@ import { useRouter, useLocalSearchParams } from 'expo-router';
 import { View, Text, ActivityIndicator, StyleSheet } from 'react-native';
 import Toast from 'react-native-toast-message';
 import { useAuth } from '../../context/AuthContext';
+import { queryCache, queryKeys } from '../../lib/queryCache';
 
 /**
  * Catch-all route for payment callbacks: mobile://payment/callback
@@ -25,6 +26,7 @@ export default function PaymentCallbackScreen() {
         text1: 'Payment Successful',
         text2: (message as string) || 'Your payment was completed successfully',
       });
+      queryCache.invalidate(queryKeys.wallet);
     } else if (status === 'error' || status === 'cancel') {
       Toast.show({
         type: status === 'cancel' ? 'info' : 'error',
@@ -9,46 +9,16 @@ import {
   Image,
 } from 'react-native';
 import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
-import { apiClient } from '../../lib/apiClient';
+import { api, type FeedPost } from '../../lib/api';
+import { offlineCache } from '../../lib/offlineCache';
 import Toast from 'react-native-toast-message';
 import { PostDetailModal } from '../../components/PostDetailModal';
 import { useAuth } from '../../context/AuthContext';
+import { useNetworkStatus } from '../../hooks/useNetworkStatus';
+import { OfflineBanner } from '../../components/OfflineBanner';
+import { logger } from '../../lib/logger';
 
-type FeedPost = {
-  id: string;
-  content: string | null;
-  visibility: string;
-  likes_count: number;
-  comments_count: number;
-  shares_count: number;
-  reward_enabled: boolean;
-  reward_pool: number;
-  reward_coin_symbol?: string | null;
-  reward_rule?: {
-    like?: number;
-    comment?: number;
-    share?: number;
-    per_user_cap?: number;
-  } | null;
-  is_liked: boolean;
-  user: {
-    id: string;
-    username: string;
-    display_name: string | null;
-    avatar_url: string | null;
-    verified_creator: boolean;
-  };
-  media: Array<{
-    id: string;
-    type: 'image' | 'video';
-    url: string;
-    thumbnail_url: string | null;
-    metadata: Record<string, unknown> | null;
-  }>;
-  shared_post?: FeedPost;
-  created_at: string;
-  updated_at: string;
-};
+const log = logger.scope('feed');
 
 export default function PostDetailScreen() {
   const { postId } = useLocalSearchParams<{ postId: string }>();
@@ -59,24 +29,42 @@ export default function PostDetailScreen() {
   const [error, setError] = useState<string | null>(null);
   const [isLiking, setIsLiking] = useState<string | null>(null);
   const [isSharing, setIsSharing] = useState<string | null>(null);
+  const [isShowingSaved, setIsShowingSaved] = useState(false);
+  const { isOffline } = useNetworkStatus(() => {
+    if (isShowingSaved) loadPost();
+  });
 
   useEffect(() => {
     if (postId) {
-      loadPost();
+      loadPost({ showSaved: true });
     }
   }, [postId]);
 
-  const loadPost = async () => {
+  const loadPost = async (options: { showSaved?: boolean } = {}) => {
     if (!postId) return;
 
-    setLoading(true);
     setError(null);
+    let hasSaved = isShowingSaved;
+    if (options.showSaved) {
+      // Show the copy saved on the device right away; the request below replaces it
+      const saved = await offlineCache.getPost(postId);
+      if (saved) {
+        setPost(saved);
+        setIsShowingSaved(true);
+        hasSaved = true;
+      }
+    }
+    setLoading(!hasSaved);
 
     try {
-      const response = await apiClient.get<FeedPost>(`/v1/feed/posts/${postId}`);
+      const response = await api.feed.getPost(postId);
 
       if (response.ok && response.data) {
         setPost(response.data);
+        setIsShowingSaved(false);
+        offlineCache.savePost(response.data);
+      } else if (response.status === 0 && hasSaved) {
+        log.debug('Offline, showing saved post', { postId });
       } else {
         const errorMsg = response.errors?.[0]?.detail || 'Post not found';
         setError(errorMsg);
@@ -88,7 +76,7 @@ export default function PostDetailScreen() {
         });
       }
     } catch (err) {
-      console.error('Load post error:', err);
+      log.error('Load post error:', err);
       setError('Failed to load post');
       Toast.show({
         type: 'error',
@@ -126,18 +114,20 @@ export default function PostDetailScreen() {
     });
 
     try {
-      const response = await apiClient.request<{ is_liked: boolean; likes_count: number }>(
-        `/v1/feed/posts/${postIdToLike}/like`,
-        {
-          method: newIsLiked ? 'POST' : 'DELETE',
-        }
-      );
+      const response = newIsLiked
+        ? await api.feed.likePost(postIdToLike)
+        : await api.feed.unlikePost(postIdToLike);
+
+      if (response.queued) {
+        // Keep the optimistic state; the outbox sends it once we're back online
+        return;
+      }
 
       if (response.ok && response.data) {
         setPost({
           ...post,
           likes_count: response.data.likes_count,
-          is_liked: response.data.is_liked,
+          is_liked: response.data.liked,
         });
       } else {
         // Revert on error
@@ -154,7 +144,7 @@ export default function PostDetailScreen() {
         });
       }
     } catch (err) {
-      console.error('Like error:', err);
+      log.error('Like error:', err);
       // Revert on error
       setPost({
         ...post,
@@ -211,7 +201,7 @@ export default function PostDetailScreen() {
         />
         <View style={styles.errorContainer}>
           <Text style={styles.errorText}>{error || 'Post not found'}</Text>
-          <TouchableOpacity style={styles.retryButton} onPress={loadPost}>
+          <TouchableOpacity style={styles.retryButton} onPress={() => loadPost()}>
             <Text style={styles.retryButtonText}>Retry</Text>
           </TouchableOpacity>
         </View>
@@ -237,6 +227,7 @@ export default function PostDetailScreen() {
         onOpenProfile={handleOpenProfile}
         isLiking={isLiking === post.id}
         isSharing={isSharing === post.id}
+        banner={<OfflineBanner visible={isOffline} showingSaved={isShowingSaved} />}
       />
     </View>
   );
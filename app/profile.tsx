@@ -19,6 +19,11 @@ import Toast from 'react-native-toast-message';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 // @ts-ignore - expo-clipboard types
 import * as Clipboard from 'expo-clipboard';
+import { logger } from '../lib/logger';
+import { fromPickerAsset } from '../lib/uploader';
+import { useUploads } from '../hooks/useUploads';
+
+const log = logger.scope('profile');
 
 type EditableProfileLink = {
   id: string;
@@ -43,6 +48,7 @@ export default function ProfileScreen() {
   const [username, setUsername] = useState(user?.username ?? '');
   const [avatarUrl, setAvatarUrl] = useState(user?.avatar_url ?? '');
   const [isUploadingAvatar, setIsUploadingAvatar] = useState(false);
+  const { tasks: avatarUploads, start: startUpload } = useUploads();
   const [profileBio, setProfileBio] = useState((user as any)?.profile_bio ?? '');
   const [profileLocation, setProfileLocation] = useState((user as any)?.profile_location ?? '');
   const [profileLinks, setProfileLinks] = useState<EditableProfileLink[]>(toEditableLinks((user as any)?.profile_links));
@@ -115,7 +121,7 @@ export default function ProfileScreen() {
           setUsernameStatusMessage(response.errors?.[0]?.detail || 'Unable to verify username.');
         }
       } catch (error) {
-        console.error('Username lookup error:', error);
+        log.error('Username lookup error:', error);
         if (username.trim() !== trimmed) {
           return;
         }
@@ -262,7 +268,7 @@ export default function ProfileScreen() {
       setUsernameStatus('idle');
       setUsernameStatusMessage('');
     } catch (error) {
-      console.error('Update profile error:', error);
+      log.error('Update profile error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -379,31 +385,22 @@ export default function ProfileScreen() {
 
                       setIsUploadingAvatar(true);
                       try {
-                        const formData = new FormData();
-                        formData.append('file', {
-                          uri: file.uri,
-                          type: 'image/jpeg',
-                          name: 'avatar.jpg',
-                        } as any);
-
-                        const API_BASE_URL = process.env.EXPO_PUBLIC_API_BASE_URL?.replace(/\/api\/?$/, '') || 'http://localhost:8000';
-                        const token = apiClient.getToken();
-                        const response = await fetch(`${API_BASE_URL}/api/v1/upload`, {
-                          method: 'POST',
-                          headers: {
-                            Authorization: `Bearer ${token}`,
-                            'Content-Type': 'multipart/form-data',
-                          },
-                          body: formData,
-                        });
+                        const response = await startUpload(
+                          { ...fromPickerAsset(file), name: file.fileName || 'avatar.jpg', mimeType: file.mimeType || 'image/jpeg' },
+                          { purpose: 'avatar' }
+                        );
+
+                        if (response.aborted) {
+                          return;
+                        }
 
-                        const data = await response.json();
-                        if (response.ok && data.data?.url) {
-                          setAvatarUrl(data.data.url);
+                        if (response.ok && response.status < 300 && response.data?.url) {
+                          const uploadedUrl = response.data.url;
+                          setAvatarUrl(uploadedUrl);
                           // Immediately save the avatar_url to the profile
                           try {
                             const saveResponse = await apiClient.patch('/v1/profile', {
-                              avatar_url: data.data.url,
+                              avatar_url: uploadedUrl,
                             });
                             if (saveResponse.ok) {
                               await refreshUser();
@@ -422,7 +419,7 @@ export default function ProfileScreen() {
                               });
                             }
                           } catch (saveError) {
-                            console.error('Save avatar error:', saveError);
+                            log.error('Save avatar error:', saveError);
                             Toast.show({
                               type: 'error',
                               text1: 'Warning',
@@ -434,12 +431,12 @@ export default function ProfileScreen() {
                           Toast.show({
                             type: 'error',
                             text1: 'Error',
-                            text2: data.errors?.[0]?.detail || 'Failed to upload image',
+                            text2: response.errors?.[0]?.detail || 'Failed to upload image',
                             visibilityTime: 3000,
                           });
                         }
                       } catch (error) {
-                        console.error('Avatar upload error:', error);
+                        log.error('Avatar upload error:', error);
                         Toast.show({
                           type: 'error',
                           text1: 'Error',
@@ -451,7 +448,7 @@ export default function ProfileScreen() {
                       }
                     }
                   } catch (error) {
-                    console.error('Image picker error:', error);
+                    log.error('Image picker error:', error);
                     Toast.show({
                       type: 'error',
                       text1: 'Error',
@@ -464,7 +461,9 @@ export default function ProfileScreen() {
               >
                 <FontAwesome name="camera" size={16} color="#FF6B00" />
                 <Text style={styles.avatarUploadButtonText}>
-                  {isUploadingAvatar ? 'Uploading...' : 'Change Photo'}
+                  {isUploadingAvatar
+                    ? `Uploading${avatarUploads[0] ? ` ${avatarUploads[0].progress}%` : '...'}`
+                    : 'Change Photo'}
                 </Text>
               </TouchableOpacity>
             </View>
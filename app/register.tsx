@@ -14,6 +14,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { useAuth } from '../context/AuthContext';
+import { SocialSignInButtons } from '../components/SocialSignInButtons';
 import Toast from 'react-native-toast-message';
 
 export default function RegisterScreen() {
@@ -207,6 +208,8 @@ export default function RegisterScreen() {
               )}
             </TouchableOpacity>
 
+            <SocialSignInButtons disabled={loading} />
+
             <View style={styles.footer}>
               <Text style={styles.footerText}>Already have an account? </Text>
               <TouchableOpacity
@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { authService } from '../lib/auth';
+import { useAuth } from '../context/AuthContext';
+import Toast from 'react-native-toast-message';
+
+/**
+ * Opened from the emailed link: mobile://reset-password?token=...&email=...
+ */
+export default function ResetPasswordScreen() {
+  const { token, email } = useLocalSearchParams<{ token?: string; email?: string }>();
+  const [password, setPassword] = useState('');
+  const [passwordConfirmation, setPasswordConfirmation] = useState('');
+  const [passwordVisible, setPasswordVisible] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const { isAuthenticated, logout } = useAuth();
+  const router = useRouter();
+
+  const handleReset = async () => {
+    if (!token) return;
+
+    if (password.length < 8) {
+      Toast.show({
+        type: 'error',
+        text1: 'Validation Error',
+        text2: 'Password must be at least 8 characters',
+      });
+      return;
+    }
+
+    if (password !== passwordConfirmation) {
+      Toast.show({
+        type: 'error',
+        text1: 'Validation Error',
+        text2: 'Passwords do not match',
+      });
+      return;
+    }
+
+    setLoading(true);
+    const response = await authService.resetPassword({
+      token,
+      email,
+      password,
+      password_confirmation: passwordConfirmation,
+    });
+
+    if (response.ok && response.status < 300) {
+      // Other sessions are revoked by the reset, so sign in again with the new password
+      if (isAuthenticated) {
+        await logout();
+      }
+      setLoading(false);
+      Toast.show({
+        type: 'success',
+        text1: 'Password Reset',
+        text2: 'Sign in with your new password',
+      });
+      router.replace('/login');
+    } else {
+      setLoading(false);
+      Toast.show({
+        type: 'error',
+        text1: 'Reset Failed',
+        text2: response.errors?.[0]?.detail || 'This reset link is invalid or has expired',
+      });
+    }
+  };
+
+  if (!token) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Link not valid</Text>
+          <Text style={styles.subtitle}>This password reset link is incomplete. Request a new one to continue.</Text>
+          <TouchableOpacity
+            style={styles.button}
+            onPress={() => router.replace({ pathname: '/forgot-password', params: email ? { email } : {} })}
+          >
+            <Text style={styles.buttonText}>Request New Link</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <View style={styles.content}>
+            <Text style={styles.title}>Set a new password</Text>
+            <Text style={styles.subtitle}>{email ? `For ${email}` : 'Choose a password you have not used before'}</Text>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>New Password</Text>
+              <View style={styles.passwordField}>
+                <TextInput
+                  style={[styles.input, styles.passwordInput]}
+                  placeholder="At least 8 characters"
+                  placeholderTextColor="#999"
+                  value={password}
+                  onChangeText={setPassword}
+                  secureTextEntry={!passwordVisible}
+                  autoCapitalize="none"
+                  autoComplete="new-password"
+                  editable={!loading}
+                />
+                <TouchableOpacity
+                  onPress={() => setPasswordVisible((prev) => !prev)}
+                  style={styles.eyeButton}
+                  disabled={loading}
+                >
+                  <FontAwesome name={passwordVisible ? 'eye-slash' : 'eye'} size={18} color="#666" />
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Confirm Password</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="Re-enter your new password"
+                placeholderTextColor="#999"
+                value={passwordConfirmation}
+                onChangeText={setPasswordConfirmation}
+                secureTextEntry={!passwordVisible}
+                autoCapitalize="none"
+                editable={!loading}
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.button, loading && styles.buttonDisabled]}
+              onPress={handleReset}
+              disabled={loading}
+            >
+              {loading ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>Reset Password</Text>}
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#000',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 32,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  inputContainer: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    color: '#000',
+  },
+  passwordField: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    backgroundColor: '#fff',
+  },
+  passwordInput: {
+    borderWidth: 0,
+    flex: 1,
+    paddingRight: 8,
+  },
+  eyeButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  button: {
+    backgroundColor: '#FF6B00',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
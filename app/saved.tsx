@@ -0,0 +1,295 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  Image,
+  FlatList,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import Toast from 'react-native-toast-message';
+import { api, type FeedPost } from '../lib/api';
+import { bookmarks } from '../lib/bookmarks';
+import { offlineCache } from '../lib/offlineCache';
+import { usePaginatedList } from '../hooks/usePaginatedList';
+import { useBookmarkCollections, useBookmarksVersion } from '../hooks/useBookmarks';
+import { useNetworkStatus } from '../hooks/useNetworkStatus';
+import { BookmarkButton } from '../components/BookmarkButton';
+import { OfflineBanner } from '../components/OfflineBanner';
+
+/**
+ * Bookmarked posts, all of them or one collection at a time. Saved posts are kept
+ * on the device, so this works offline too.
+ */
+export default function SavedScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const [collectionId, setCollectionId] = useState<string | null>(null);
+  const { data: collections } = useBookmarkCollections();
+  useBookmarksVersion();
+
+  const {
+    items,
+    isLoading,
+    isRefreshing,
+    isLoadingMore,
+    isCached,
+    loadMore,
+    refresh,
+  } = usePaginatedList<FeedPost>({
+    key: `bookmarks:${collectionId ?? 'all'}`,
+    fetchPage: ({ page }) => api.bookmarks.list({ collectionId, page }),
+    // Everything listed here is bookmarked, whether or not the response says so
+    select: (posts) => posts.map((post) => ({ ...post, is_bookmarked: true })),
+    readCache: () => offlineCache.getBookmarks(collectionId),
+    onError: (message) =>
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: message || 'Failed to load saved posts',
+      }),
+  });
+  // Un-bookmarked here or elsewhere since the list was loaded
+  const posts = items.filter((post) => bookmarks.isBookmarked(post));
+
+  const { isOffline } = useNetworkStatus(() => {
+    if (isCached) refresh();
+  });
+
+  useEffect(() => {
+    if (isCached || items.length === 0) return;
+    offlineCache.saveBookmarks(collectionId, items);
+  }, [items, isCached, collectionId]);
+
+  // Pick up posts bookmarked on other screens
+  useEffect(() => bookmarks.subscribe(() => refresh({ background: true })), [refresh]);
+
+  // The selected collection was deleted
+  useEffect(() => {
+    if (collectionId && collections && !collections.some((collection) => collection.id === collectionId)) {
+      setCollectionId(null);
+    }
+  }, [collections, collectionId]);
+
+  const confirmDeleteCollection = (id: string, name: string) => {
+    Alert.alert('Delete Collection', `Delete "${name}"? Its posts stay in your saved posts.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const response = await bookmarks.deleteCollection(id);
+          if (!(response.ok && response.status < 300)) {
+            Toast.show({
+              type: 'error',
+              text1: 'Error',
+              text2: response.errors?.[0]?.detail || 'Failed to delete collection',
+            });
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderPost = ({ item }: { item: FeedPost }) => {
+    const thumbnail = item.media[0]?.thumbnail_url || (item.media[0]?.type === 'image' ? item.media[0].url : null);
+    return (
+      <TouchableOpacity style={styles.postRow} onPress={() => router.push(`/posts/${item.id}`)} activeOpacity={0.8}>
+        <View style={styles.postBody}>
+          <Text style={styles.postAuthor} numberOfLines={1}>
+            {item.user.display_name || item.user.username}
+            <Text style={styles.postUsername}> @{item.user.username}</Text>
+          </Text>
+          <Text style={styles.postContent} numberOfLines={3}>
+            {item.content || (item.media.length > 0 ? 'Photo or video' : 'Shared post')}
+          </Text>
+        </View>
+        {thumbnail ? <Image source={{ uri: thumbnail }} style={styles.thumbnail} /> : null}
+        <BookmarkButton post={item} style={styles.bookmarkButton} />
+      </TouchableOpacity>
+    );
+  };
+
+  const chips = [{ id: null as string | null, name: 'All' }, ...(collections ?? [])];
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <FontAwesome name="arrow-left" size={20} color="#1f2937" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Saved</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <View>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chipRow}
+        >
+          {chips.map((chip) => {
+            const isActive = chip.id === collectionId;
+            return (
+              <TouchableOpacity
+                key={chip.id ?? 'all'}
+                style={[styles.chip, isActive && styles.chipActive]}
+                onPress={() => setCollectionId(chip.id)}
+                onLongPress={chip.id ? () => confirmDeleteCollection(chip.id!, chip.name) : undefined}
+              >
+                <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{chip.name}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      </View>
+
+      <OfflineBanner visible={isOffline} showingSaved={isCached} />
+
+      <FlatList
+        data={posts}
+        renderItem={renderPost}
+        keyExtractor={(item) => item.id}
+        refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={() => refresh()} />}
+        onEndReached={() => loadMore()}
+        onEndReachedThreshold={0.2}
+        contentContainerStyle={posts.length === 0 ? styles.emptyList : undefined}
+        ListFooterComponent={isLoadingMore ? <ActivityIndicator color="#FF6B00" style={styles.footer} /> : null}
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator size="large" color="#FF6B00" />
+          ) : (
+            <View style={styles.emptyContainer}>
+              <FontAwesome name="bookmark-o" size={48} color="#ccc" />
+              <Text style={styles.emptyText}>No saved posts yet</Text>
+              <Text style={styles.emptySubtext}>
+                Tap the bookmark on a post to save it. Long-press it to pick a collection.
+              </Text>
+            </View>
+          )
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  chipRow: {
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  chipActive: {
+    backgroundColor: '#FFF3EB',
+    borderColor: '#FF6B00',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  chipTextActive: {
+    color: '#FF6B00',
+    fontWeight: '600',
+  },
+  postRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  postBody: {
+    flex: 1,
+  },
+  postAuthor: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 4,
+  },
+  postUsername: {
+    fontWeight: '400',
+    color: '#999',
+  },
+  postContent: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+  },
+  bookmarkButton: {
+    padding: 8,
+    borderRadius: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  footer: {
+    padding: 16,
+  },
+  emptyList: {
+    flexGrow: 1,
+    justifyContent: 'center',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
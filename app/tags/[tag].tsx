@@ -0,0 +1,248 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import Toast from 'react-native-toast-message';
+import { api, type FeedPost } from '../../lib/api';
+import { normalizeTag } from '../../lib/hashtags';
+import { recentTags } from '../../lib/recentTags';
+import { useAuth } from '../../context/AuthContext';
+import { useTagFeed } from '../../hooks/useTagFeed';
+import { FeedPostItem } from '../../components/FeedPostItem';
+import { ShareModal } from '../../components/ShareModal';
+
+const SORTS: Array<{
+  value: 'newest' | 'popular';
+  label: string;
+  icon: React.ComponentProps<typeof FontAwesome>['name'];
+}> = [
+  { value: 'newest', label: 'Newest', icon: 'clock-o' },
+  { value: 'popular', label: 'Popular', icon: 'fire' },
+];
+
+/**
+ * Every post tagged with one hashtag, opened by tapping the tag in a post.
+ */
+export default function TagFeedScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { user } = useAuth();
+  const params = useLocalSearchParams<{ tag: string }>();
+  const tag = normalizeTag(String(params.tag ?? ''));
+  const [sortBy, setSortBy] = useState<'newest' | 'popular'>('newest');
+  const [expandedPosts, setExpandedPosts] = useState<Record<string, boolean>>({});
+  const [postToShare, setPostToShare] = useState<FeedPost | null>(null);
+
+  const { posts, setPosts, loading, refreshing, loadingMore, loadMorePosts, onRefresh, handleLike } = useTagFeed(
+    tag,
+    sortBy
+  );
+
+  // Opened tags are suggested first the next time `#` is typed
+  useEffect(() => {
+    if (tag) recentTags.add([tag]);
+  }, [tag]);
+
+  const openPost = useCallback((post: FeedPost) => router.push(`/posts/${post.id}`), [router]);
+
+  const handleToggleExpanded = useCallback((postId: string) => {
+    setExpandedPosts((prev) => ({ ...prev, [postId]: !prev[postId] }));
+  }, []);
+
+  const handleShareToTimeline = useCallback(
+    async (comment?: string) => {
+      if (!postToShare) return;
+      const response = await api.feed.sharePost(postToShare.id, { comment, share_to_timeline: true });
+      if (response.ok && response.data) {
+        const { shares_count } = response.data;
+        setPosts((prev) => prev.map((p) => (p.id === postToShare.id ? { ...p, shares_count } : p)));
+        Toast.show({
+          type: 'success',
+          text1: 'Success',
+          text2: 'Post shared to your timeline!',
+          visibilityTime: 2000,
+        });
+      } else {
+        const message = response.errors?.[0]?.detail || 'Failed to share post';
+        Toast.show({
+          type: 'error',
+          text1: 'Error',
+          text2: message,
+        });
+        throw new Error(message); // So ShareModal stays open
+      }
+    },
+    [postToShare, setPosts]
+  );
+
+  const renderPost = useCallback(
+    ({ item }: { item: FeedPost }) => (
+      <FeedPostItem
+        post={item}
+        currentUserId={user?.id?.toString() || ''}
+        onLike={handleLike}
+        onComment={openPost}
+        onShare={setPostToShare}
+        onOpenProfile={(username) => router.push(`/${username}`)}
+        onOpenPost={openPost}
+        onImagePress={() => openPost(item)}
+        isExpanded={expandedPosts[item.id] || false}
+        sharedPostExpanded={item.shared_post ? expandedPosts[item.shared_post.id] || false : false}
+        onToggleExpanded={() => handleToggleExpanded(item.id)}
+        onToggleSharedPostExpanded={item.shared_post ? () => handleToggleExpanded(item.shared_post!.id) : undefined}
+      />
+    ),
+    [user?.id, handleLike, openPost, router, expandedPosts, handleToggleExpanded]
+  );
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <FontAwesome name="arrow-left" size={20} color="#1f2937" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          #{tag}
+        </Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <View style={styles.sortRow}>
+        {SORTS.map((sort) => {
+          const isActive = sort.value === sortBy;
+          return (
+            <TouchableOpacity
+              key={sort.value}
+              style={[styles.chip, isActive && styles.chipActive]}
+              onPress={() => setSortBy(sort.value)}
+            >
+              <FontAwesome name={sort.icon} size={12} color={isActive ? '#FF6B00' : '#666'} />
+              <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{sort.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <FlatList
+        data={posts}
+        renderItem={renderPost}
+        keyExtractor={(item) => item.id}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={() => onRefresh()} />}
+        onEndReached={() => loadMorePosts()}
+        onEndReachedThreshold={0.2}
+        contentContainerStyle={posts.length === 0 ? styles.emptyList : undefined}
+        ListFooterComponent={loadingMore ? <ActivityIndicator color="#FF6B00" style={styles.footer} /> : null}
+        ListEmptyComponent={
+          loading ? (
+            <ActivityIndicator size="large" color="#FF6B00" />
+          ) : (
+            <View style={styles.emptyContainer}>
+              <FontAwesome name="hashtag" size={48} color="#ccc" />
+              <Text style={styles.emptyText}>No posts with #{tag} yet</Text>
+              <Text style={styles.emptySubtext}>Add #{tag} to a post to start the conversation.</Text>
+            </View>
+          )
+        }
+      />
+
+      {postToShare && (
+        <ShareModal
+          visible={!!postToShare}
+          onClose={() => setPostToShare(null)}
+          post={postToShare}
+          onShareToTimeline={handleShareToTimeline}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+    textAlign: 'center',
+  },
+  sortRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  chipActive: {
+    backgroundColor: '#FFF3EB',
+    borderColor: '#FF6B00',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  chipTextActive: {
+    color: '#FF6B00',
+    fontWeight: '600',
+  },
+  footer: {
+    padding: 16,
+  },
+  emptyList: {
+    flexGrow: 1,
+    justifyContent: 'center',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,382 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Image,
+  Linking,
+  Share,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import * as Clipboard from 'expo-clipboard';
+import Toast from 'react-native-toast-message';
+import { useAuth } from '../context/AuthContext';
+import { twoFactorService, type TwoFactorSetup } from '../lib/twoFactor';
+import { logger } from '../lib/logger';
+
+const log = logger.scope('auth');
+
+type SetupStep = 'loading' | 'scan' | 'codes' | 'error';
+
+/**
+ * Enroll an authenticator app (QR code or manual secret), confirm it with a code,
+ * then show the backup codes once.
+ */
+export default function TwoFactorSetupScreen() {
+  const { refreshUser } = useAuth();
+  const router = useRouter();
+  const [step, setStep] = useState<SetupStep>('loading');
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
+
+  useEffect(() => {
+    twoFactorService.setup().then((response) => {
+      if (response.ok && response.status < 300 && response.data) {
+        setSetup(response.data);
+        setStep('scan');
+      } else {
+        log.warn('Two-factor setup failed', { status: response.status });
+        setStep('error');
+        Toast.show({
+          type: 'error',
+          text1: 'Setup Failed',
+          text2: response.errors?.[0]?.detail || 'Could not start two-factor setup',
+        });
+      }
+    });
+  }, []);
+
+  const handleCopySecret = async () => {
+    if (!setup) return;
+    await Clipboard.setStringAsync(setup.secret);
+    Toast.show({ type: 'success', text1: 'Copied', text2: 'Secret key copied to clipboard' });
+  };
+
+  const handleOpenAuthenticator = async () => {
+    if (!setup) return;
+    try {
+      await Linking.openURL(setup.otpauth_url);
+    } catch {
+      Toast.show({
+        type: 'info',
+        text1: 'No Authenticator Found',
+        text2: 'Scan the QR code or enter the key manually',
+      });
+    }
+  };
+
+  const handleConfirm = async () => {
+    const digits = code.replace(/\s/g, '');
+    if (digits.length !== 6) {
+      Toast.show({
+        type: 'error',
+        text1: 'Validation Error',
+        text2: 'Enter the 6-digit code from your authenticator app',
+      });
+      return;
+    }
+
+    setIsConfirming(true);
+    const response = await twoFactorService.confirm(digits);
+    setIsConfirming(false);
+
+    if (response.ok && response.status < 300 && response.data) {
+      setBackupCodes(response.data.backup_codes);
+      setStep('codes');
+      refreshUser();
+    } else {
+      setCode('');
+      Toast.show({
+        type: 'error',
+        text1: 'Invalid Code',
+        text2: response.errors?.[0]?.detail || 'That code did not match. Try the next one.',
+      });
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    await Clipboard.setStringAsync(backupCodes.join('\n'));
+    Toast.show({ type: 'success', text1: 'Copied', text2: 'Backup codes copied to clipboard' });
+  };
+
+  const handleShareCodes = () => {
+    Share.share({ message: `Phanrise backup codes:\n\n${backupCodes.join('\n')}` });
+  };
+
+  const renderContent = () => {
+    if (step === 'loading') {
+      return <ActivityIndicator size="large" color="#FF6B00" style={styles.loader} />;
+    }
+
+    if (step === 'error') {
+      return (
+        <TouchableOpacity style={styles.button} onPress={() => router.back()}>
+          <Text style={styles.buttonText}>Go Back</Text>
+        </TouchableOpacity>
+      );
+    }
+
+    if (step === 'codes') {
+      return (
+        <>
+          <Text style={styles.title}>Save your backup codes</Text>
+          <Text style={styles.subtitle}>
+            Each code signs you in once if you lose your phone. Store them somewhere safe; they won't be shown again.
+          </Text>
+
+          <View style={styles.codesGrid}>
+            {backupCodes.map((backupCode) => (
+              <Text key={backupCode} style={styles.backupCode}>
+                {backupCode}
+              </Text>
+            ))}
+          </View>
+
+          <View style={styles.codesActions}>
+            <TouchableOpacity style={styles.outlineButton} onPress={handleCopyCodes}>
+              <FontAwesome name="copy" size={16} color="#FF6B00" />
+              <Text style={styles.outlineButtonText}>Copy</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.outlineButton} onPress={handleShareCodes}>
+              <FontAwesome name="share" size={16} color="#FF6B00" />
+              <Text style={styles.outlineButtonText}>Share</Text>
+            </TouchableOpacity>
+          </View>
+
+          <TouchableOpacity style={styles.button} onPress={() => router.back()}>
+            <Text style={styles.buttonText}>I've saved them</Text>
+          </TouchableOpacity>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <Text style={styles.title}>Set up authenticator</Text>
+        <Text style={styles.subtitle}>
+          Scan this QR code with Google Authenticator, 1Password, Authy or a similar app.
+        </Text>
+
+        {setup?.qr_code_url ? (
+          <Image source={{ uri: setup.qr_code_url }} style={styles.qrCode} resizeMode="contain" />
+        ) : null}
+
+        <Text style={styles.label}>Or enter this key manually</Text>
+        <TouchableOpacity style={styles.secretBox} onPress={handleCopySecret}>
+          <Text style={styles.secretText} selectable>
+            {setup?.secret.replace(/(.{4})/g, '$1 ').trim()}
+          </Text>
+          <FontAwesome name="copy" size={16} color="#666" />
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleOpenAuthenticator}>
+          <Text style={styles.linkText}>Open authenticator app on this phone</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.label}>Enter the 6-digit code it shows</Text>
+        <TextInput
+          style={[styles.input, styles.codeInput]}
+          placeholder="123456"
+          placeholderTextColor="#999"
+          value={code}
+          onChangeText={setCode}
+          keyboardType="number-pad"
+          autoComplete="one-time-code"
+          textContentType="oneTimeCode"
+          maxLength={6}
+          editable={!isConfirming}
+          onSubmitEditing={handleConfirm}
+        />
+
+        <TouchableOpacity
+          style={[styles.button, isConfirming && styles.buttonDisabled]}
+          onPress={handleConfirm}
+          disabled={isConfirming}
+        >
+          {isConfirming ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>Turn On 2FA</Text>}
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        {step !== 'codes' && (
+          <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+            <FontAwesome name="arrow-left" size={20} color="#000" />
+          </TouchableOpacity>
+        )}
+        <Text style={styles.headerTitle}>Two-Factor Authentication</Text>
+      </View>
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+          {renderContent()}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  headerButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: 24,
+  },
+  loader: {
+    marginTop: 48,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#000',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#666',
+    marginBottom: 24,
+    lineHeight: 21,
+  },
+  qrCode: {
+    width: 200,
+    height: 200,
+    alignSelf: 'center',
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 8,
+  },
+  secretBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    padding: 12,
+  },
+  secretText: {
+    flex: 1,
+    fontFamily: 'SpaceMono',
+    fontSize: 14,
+    color: '#000',
+    marginRight: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    color: '#000',
+    marginBottom: 20,
+  },
+  codeInput: {
+    fontSize: 28,
+    letterSpacing: 12,
+    textAlign: 'center',
+    fontWeight: '600',
+  },
+  codesGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  backupCode: {
+    width: '50%',
+    fontFamily: 'SpaceMono',
+    fontSize: 15,
+    color: '#000',
+    paddingVertical: 6,
+    textAlign: 'center',
+  },
+  codesActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 24,
+  },
+  outlineButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderColor: '#FF6B00',
+    borderRadius: 8,
+    padding: 12,
+  },
+  outlineButtonText: {
+    color: '#FF6B00',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  button: {
+    backgroundColor: '#FF6B00',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  linkText: {
+    color: '#FF6B00',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
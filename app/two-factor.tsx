@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { useAuth } from '../context/AuthContext';
+import { toTwoFactorCode } from '../lib/twoFactor';
+import Toast from 'react-native-toast-message';
+
+/**
+ * Second login step for accounts with 2FA: `challenge` is the token login returned.
+ */
+export default function TwoFactorChallengeScreen() {
+  const { challenge, redirect } = useLocalSearchParams<{ challenge?: string; redirect?: string }>();
+  const [code, setCode] = useState('');
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const { completeTwoFactorLogin } = useAuth();
+  const router = useRouter();
+
+  const handleVerify = async () => {
+    if (!challenge) return;
+
+    if (!code.trim()) {
+      Toast.show({
+        type: 'error',
+        text1: 'Validation Error',
+        text2: useBackupCode ? 'Enter one of your backup codes' : 'Enter the 6-digit code from your authenticator app',
+      });
+      return;
+    }
+
+    setLoading(true);
+    const result = await completeTwoFactorLogin(challenge, toTwoFactorCode(code, useBackupCode));
+    setLoading(false);
+
+    if (result.success) {
+      router.replace((redirect || '/(tabs)/feed') as any);
+    } else {
+      setCode('');
+      Toast.show({
+        type: 'error',
+        text1: 'Verification Failed',
+        text2: result.error || 'Invalid code',
+      });
+    }
+  };
+
+  const toggleBackupCode = () => {
+    setUseBackupCode((prev) => !prev);
+    setCode('');
+  };
+
+  if (!challenge) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Sign in again</Text>
+          <Text style={styles.subtitle}>This verification step has expired.</Text>
+          <TouchableOpacity style={styles.button} onPress={() => router.replace('/login')}>
+            <Text style={styles.buttonText}>Back to Sign In</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+          <View style={styles.content}>
+            <View style={styles.iconCircle}>
+              <FontAwesome name="shield" size={32} color="#FF6B00" />
+            </View>
+            <Text style={styles.title}>Two-factor authentication</Text>
+            <Text style={styles.subtitle}>
+              {useBackupCode
+                ? 'Enter one of the backup codes you saved when you turned on 2FA. Each code works once.'
+                : 'Enter the 6-digit code from your authenticator app.'}
+            </Text>
+
+            <TextInput
+              style={[styles.input, !useBackupCode && styles.codeInput]}
+              placeholder={useBackupCode ? 'xxxx-xxxx' : '123456'}
+              placeholderTextColor="#999"
+              value={code}
+              onChangeText={setCode}
+              keyboardType={useBackupCode ? 'default' : 'number-pad'}
+              autoCapitalize="none"
+              autoComplete={useBackupCode ? 'off' : 'one-time-code'}
+              textContentType="oneTimeCode"
+              maxLength={useBackupCode ? 20 : 6}
+              autoFocus
+              editable={!loading}
+              onSubmitEditing={handleVerify}
+            />
+
+            <TouchableOpacity
+              style={[styles.button, loading && styles.buttonDisabled]}
+              onPress={handleVerify}
+              disabled={loading}
+            >
+              {loading ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>Verify</Text>}
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.secondaryButton} onPress={toggleBackupCode} disabled={loading}>
+              <Text style={styles.linkText}>
+                {useBackupCode ? 'Use authenticator app instead' : 'Use a backup code'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => router.back()} disabled={loading}>
+              <Text style={styles.mutedText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  iconCircle: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: '#FFF3E8',
+    justifyContent: 'center',
+    alignItems: 'center',
+    alignSelf: 'center',
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#000',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 32,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    color: '#000',
+    marginBottom: 20,
+  },
+  codeInput: {
+    fontSize: 28,
+    letterSpacing: 12,
+    textAlign: 'center',
+    fontWeight: '600',
+  },
+  button: {
+    backgroundColor: '#FF6B00',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    padding: 14,
+    alignItems: 'center',
+  },
+  linkText: {
+    color: '#FF6B00',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  mutedText: {
+    color: '#666',
+    fontSize: 14,
+  },
+});
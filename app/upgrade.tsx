@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import * as WebBrowser from 'expo-web-browser';
+import Toast from 'react-native-toast-message';
+import { useAuth } from '../context/AuthContext';
+import { CAPABILITY_DESCRIPTIONS, isCapability } from '../lib/capabilities';
+
+const CREATOR_SIGNUP_URL = 'https://phanrise.com/creators';
+
+/**
+ * Shown instead of a creator-only screen (see ROUTE_CAPABILITIES) or when a fan
+ * taps a creator-only action. `capability` says what they were trying to do.
+ */
+export default function UpgradeScreen() {
+  const { capability, redirect } = useLocalSearchParams<{ capability?: string; redirect?: string }>();
+  const { user, can, refreshUser } = useAuth();
+  const router = useRouter();
+  const [isChecking, setIsChecking] = useState(false);
+
+  const feature = isCapability(capability) ? CAPABILITY_DESCRIPTIONS[capability] : null;
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)/feed');
+    }
+  };
+
+  // After upgrading on the web, reload the role and continue to where they were going
+  const handleCheckAgain = async () => {
+    setIsChecking(true);
+    await refreshUser();
+    setIsChecking(false);
+  };
+
+  if (isCapability(capability) && can(capability)) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+        <View style={styles.content}>
+          <View style={[styles.iconCircle, styles.iconCircleSuccess]}>
+            <FontAwesome name="check" size={32} color="#25D366" />
+          </View>
+          <Text style={styles.title}>You're a creator</Text>
+          <Text style={styles.subtitle}>{feature}</Text>
+          <TouchableOpacity
+            style={styles.button}
+            onPress={() => router.replace((redirect || '/(tabs)/feed') as any)}
+          >
+            <Text style={styles.buttonText}>Continue</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.content}>
+        <View style={styles.iconCircle}>
+          <FontAwesome name="star" size={32} color="#FF6B00" />
+        </View>
+        <Text style={styles.title}>Creator feature</Text>
+        <Text style={styles.subtitle}>
+          {feature ? `${feature} with a creator account.` : 'This is only available to creator accounts.'}
+          {user ? ` @${user.username ?? user.name} is a ${user.role} account.` : ''}
+        </Text>
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() =>
+            WebBrowser.openBrowserAsync(CREATOR_SIGNUP_URL).catch(() =>
+              Toast.show({ type: 'error', text1: 'Error', text2: 'Could not open the browser' })
+            )
+          }
+        >
+          <Text style={styles.buttonText}>Become a Creator</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleCheckAgain} disabled={isChecking}>
+          {isChecking ? (
+            <ActivityIndicator color="#FF6B00" />
+          ) : (
+            <Text style={styles.linkText}>I've already upgraded</Text>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleBack}>
+          <Text style={styles.mutedText}>Not now</Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  iconCircle: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: '#FFF3E8',
+    justifyContent: 'center',
+    alignItems: 'center',
+    alignSelf: 'center',
+    marginBottom: 24,
+  },
+  iconCircleSuccess: {
+    backgroundColor: '#E8F8EE',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#000',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 32,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  button: {
+    backgroundColor: '#FF6B00',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    padding: 14,
+    alignItems: 'center',
+  },
+  linkText: {
+    color: '#FF6B00',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  mutedText: {
+    color: '#666',
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,231 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { authService } from '../lib/auth';
+import { useAuth } from '../context/AuthContext';
+import Toast from 'react-native-toast-message';
+
+const RESEND_COOLDOWN_SECONDS = 60;
+
+type VerifyStatus = 'idle' | 'verifying' | 'verified' | 'failed';
+
+/**
+ * Without a token: explains why verification is needed and lets the user resend the email.
+ * With a token (mobile://verify-email?token=...): verifies the address straight away.
+ */
+export default function VerifyEmailScreen() {
+  const { token } = useLocalSearchParams<{ token?: string }>();
+  const { user, isAuthenticated, refreshUser } = useAuth();
+  const router = useRouter();
+  const [status, setStatus] = useState<VerifyStatus>(token ? 'verifying' : 'idle');
+  const [error, setError] = useState<string | null>(null);
+  const [isResending, setIsResending] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [cooldown, setCooldown] = useState(0);
+  const verifiedTokenRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!token || verifiedTokenRef.current === token) return;
+    verifiedTokenRef.current = token;
+
+    setStatus('verifying');
+    authService.verifyEmail(token).then(async (response) => {
+      if (response.ok && response.status < 300) {
+        setStatus('verified');
+        if (isAuthenticated) {
+          await refreshUser();
+        }
+      } else {
+        setStatus('failed');
+        setError(response.errors?.[0]?.detail || 'This verification link is invalid or has expired');
+      }
+    });
+  }, [token, isAuthenticated, refreshUser]);
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown((value) => value - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const isVerified = status === 'verified' || !!user?.email_verified_at;
+
+  const handleResend = async () => {
+    setIsResending(true);
+    const response = await authService.resendVerificationEmail();
+    setIsResending(false);
+
+    if (response.ok && response.status < 300) {
+      setCooldown(RESEND_COOLDOWN_SECONDS);
+      Toast.show({
+        type: 'success',
+        text1: 'Email Sent',
+        text2: `We sent a new verification link to ${user?.email}`,
+      });
+    } else {
+      Toast.show({
+        type: 'error',
+        text1: 'Could Not Send',
+        text2: response.errors?.[0]?.detail || 'Failed to send verification email',
+      });
+    }
+  };
+
+  const handleCheckAgain = async () => {
+    setIsChecking(true);
+    await refreshUser();
+    setIsChecking(false);
+  };
+
+  const handleContinue = () => {
+    if (!isAuthenticated) {
+      router.replace('/login');
+    } else if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)/feed');
+    }
+  };
+
+  if (status === 'verifying') {
+    return (
+      <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+        <View style={styles.content}>
+          <ActivityIndicator size="large" color="#FF6B00" />
+          <Text style={[styles.subtitle, styles.verifyingText]}>Verifying your email...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (isVerified) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+        <View style={styles.content}>
+          <View style={[styles.iconCircle, styles.iconCircleSuccess]}>
+            <FontAwesome name="check" size={32} color="#25D366" />
+          </View>
+          <Text style={styles.title}>Email verified</Text>
+          <Text style={styles.subtitle}>
+            {isAuthenticated ? 'Withdrawals and other protected features are now available.' : 'Sign in to continue.'}
+          </Text>
+          <TouchableOpacity style={styles.button} onPress={handleContinue}>
+            <Text style={styles.buttonText}>{isAuthenticated ? 'Continue' : 'Sign In'}</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.content}>
+        <View style={styles.iconCircle}>
+          <FontAwesome name="envelope-o" size={32} color="#FF6B00" />
+        </View>
+        <Text style={styles.title}>{status === 'failed' ? 'Verification failed' : 'Verify your email'}</Text>
+        <Text style={styles.subtitle}>
+          {status === 'failed'
+            ? error
+            : `Confirm ${user?.email || 'your email address'} to withdraw funds. Open the link we emailed you on this device.`}
+        </Text>
+
+        {isAuthenticated ? (
+          <>
+            <TouchableOpacity
+              style={[styles.button, (isResending || cooldown > 0) && styles.buttonDisabled]}
+              onPress={handleResend}
+              disabled={isResending || cooldown > 0}
+            >
+              {isResending ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>
+                  {cooldown > 0 ? `Resend in ${cooldown}s` : 'Resend Verification Email'}
+                </Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.secondaryButton} onPress={handleCheckAgain} disabled={isChecking}>
+              {isChecking ? (
+                <ActivityIndicator color="#FF6B00" />
+              ) : (
+                <Text style={styles.linkText}>I've verified my email</Text>
+              )}
+            </TouchableOpacity>
+          </>
+        ) : (
+          <TouchableOpacity style={styles.button} onPress={() => router.replace('/login')}>
+            <Text style={styles.buttonText}>Sign In to Resend</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  iconCircle: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: '#FFF3E8',
+    justifyContent: 'center',
+    alignItems: 'center',
+    alignSelf: 'center',
+    marginBottom: 24,
+  },
+  iconCircleSuccess: {
+    backgroundColor: '#E8F8EE',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#000',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 32,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  verifyingText: {
+    marginTop: 16,
+  },
+  button: {
+    backgroundColor: '#FF6B00',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    padding: 16,
+    alignItems: 'center',
+  },
+  linkText: {
+    color: '#FF6B00',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { TouchableOpacity, StyleSheet, type StyleProp, type ViewStyle } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import type { FeedPost } from '../lib/api';
+import { useBookmark } from '../hooks/useBookmarks';
+import { BookmarkCollectionModal } from './BookmarkCollectionModal';
+
+type BookmarkButtonProps = {
+  post: FeedPost;
+  style?: StyleProp<ViewStyle>;
+  size?: number;
+};
+
+/**
+ * Tap to bookmark or un-bookmark; long-press to save into a collection.
+ */
+export function BookmarkButton({ post, style, size = 16 }: BookmarkButtonProps) {
+  const { isBookmarked, pending, save, toggle } = useBookmark(post);
+  const [pickerVisible, setPickerVisible] = useState(false);
+
+  return (
+    <>
+      <TouchableOpacity
+        style={[style, isBookmarked && styles.bookmarked]}
+        onPress={toggle}
+        onLongPress={() => setPickerVisible(true)}
+        accessibilityLabel={isBookmarked ? 'Remove bookmark' : 'Bookmark post'}
+      >
+        <FontAwesome name={isBookmarked ? 'bookmark' : 'bookmark-o'} size={size} color={isBookmarked ? '#FF6B00' : '#666'} />
+        {pending && <FontAwesome name="clock-o" size={12} color="#999" style={styles.pendingIcon} />}
+      </TouchableOpacity>
+      {pickerVisible && (
+        <BookmarkCollectionModal visible={pickerVisible} onClose={() => setPickerVisible(false)} onSelect={save} />
+      )}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  bookmarked: {
+    backgroundColor: '#FFF3E0',
+  },
+  pendingIcon: {
+    marginLeft: 4,
+  },
+});
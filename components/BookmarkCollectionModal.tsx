@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  TextInput,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import Toast from 'react-native-toast-message';
+import { bookmarks } from '../lib/bookmarks';
+import { useBookmarkCollections } from '../hooks/useBookmarks';
+
+type BookmarkCollectionModalProps = {
+  visible: boolean;
+  onClose: () => void;
+  // null saves the post outside any collection
+  onSelect: (collectionId: string | null) => void;
+};
+
+/**
+ * Pick (or create) the collection to save a post into.
+ */
+export function BookmarkCollectionModal({ visible, onClose, onSelect }: BookmarkCollectionModalProps) {
+  const { data: collections, isLoading } = useBookmarkCollections({ enabled: visible });
+  const [newName, setNewName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      setNewName('');
+    }
+  }, [visible]);
+
+  const select = (collectionId: string | null) => {
+    onSelect(collectionId);
+    onClose();
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim() || isCreating) return;
+    setIsCreating(true);
+    const response = await bookmarks.createCollection(newName);
+    setIsCreating(false);
+
+    if (response.ok && response.status < 300 && response.data) {
+      select(response.data.id);
+      return;
+    }
+    Toast.show({
+      type: 'error',
+      text1: 'Error',
+      text2: response.errors?.[0]?.detail || 'Failed to create collection',
+    });
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Save to Collection</Text>
+            <TouchableOpacity onPress={onClose}>
+              <FontAwesome name="times" size={20} color="#000" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalBody} keyboardShouldPersistTaps="handled">
+            <TouchableOpacity style={styles.row} onPress={() => select(null)}>
+              <FontAwesome name="bookmark" size={16} color="#FF6B00" />
+              <Text style={styles.rowText}>Saved posts</Text>
+            </TouchableOpacity>
+
+            {isLoading ? (
+              <ActivityIndicator color="#FF6B00" style={styles.loader} />
+            ) : (
+              collections?.map((collection) => (
+                <TouchableOpacity key={collection.id} style={styles.row} onPress={() => select(collection.id)}>
+                  <FontAwesome name="folder-o" size={16} color="#666" />
+                  <Text style={styles.rowText}>{collection.name}</Text>
+                  <Text style={styles.countText}>{collection.posts_count}</Text>
+                </TouchableOpacity>
+              ))
+            )}
+
+            <View style={styles.createRow}>
+              <TextInput
+                style={styles.input}
+                placeholder="New collection"
+                placeholderTextColor="#999"
+                value={newName}
+                onChangeText={setNewName}
+                maxLength={50}
+                onSubmitEditing={handleCreate}
+                returnKeyType="done"
+              />
+              <TouchableOpacity
+                style={[styles.createButton, (!newName.trim() || isCreating) && styles.buttonDisabled]}
+                onPress={handleCreate}
+                disabled={!newName.trim() || isCreating}
+              >
+                {isCreating ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={styles.createButtonText}>Create</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '70%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000',
+  },
+  modalBody: {
+    padding: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f5f5f5',
+  },
+  rowText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#000',
+  },
+  countText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  loader: {
+    marginVertical: 16,
+  },
+  createRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 16,
+    marginBottom: 24,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 15,
+    color: '#000',
+  },
+  createButton: {
+    backgroundColor: '#FF6B00',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  createButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
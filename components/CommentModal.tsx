@@ -14,54 +14,18 @@ import {
   BackHandler,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { apiClient } from '../lib/apiClient';
+import { api, type Comment, type FeedPost } from '../lib/api';
+import { outbox } from '../lib/outbox';
 import Toast from 'react-native-toast-message';
 import { MentionText } from './MentionText';
 import { MentionInput } from './MentionInput';
+import { PendingComments } from './PendingComments';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { logger } from '../lib/logger';
 
-export type Comment = {
-  id: string;
-  content: string;
-  user: {
-    id: string;
-    username: string;
-    display_name: string | null;
-    avatar_url: string | null;
-  };
-  likes_count: number;
-  is_liked: boolean;
-  parent_id: string | null;
-  replies: Array<{
-    id: string;
-    content: string;
-    user: {
-      id: string;
-      username: string;
-      display_name: string | null;
-      avatar_url: string | null;
-    };
-    likes_count: number;
-    is_liked: boolean;
-    created_at: string;
-  }>;
-  created_at: string;
-};
+const log = logger.scope('feed');
 
-export type FeedPost = {
-  id: string;
-  content: string | null;
-  user: {
-    id: string;
-    username: string;
-    display_name: string | null;
-    avatar_url: string | null;
-  };
-  comments_count: number;
-  likes_count: number;
-  shares_count: number;
-  created_at: string;
-};
+export type { Comment, FeedPost } from '../lib/api';
 
 type CommentModalProps = {
   visible: boolean;
@@ -86,9 +50,7 @@ export function CommentModal({ visible, onClose, post, onUpdatePost }: CommentMo
 
     setLoadingComments(true);
     try {
-      const response = await apiClient.get<Comment[]>(
-        `/v1/feed/posts/${post.id}/comments`
-      );
+      const response = await api.feed.comments(post.id);
 
       if (response.ok && response.data) {
         const commentsWithReplies = response.data.map(comment => ({
@@ -98,7 +60,7 @@ export function CommentModal({ visible, onClose, post, onUpdatePost }: CommentMo
         setComments(commentsWithReplies);
       }
     } catch (error) {
-      console.error('Load comments error:', error);
+      log.error('Load comments error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -121,6 +83,17 @@ export function CommentModal({ visible, onClose, post, onUpdatePost }: CommentMo
     }
   }, [visible, post, loadComments]);
 
+  // Pull in comments the outbox managed to send while this modal is open
+  useEffect(() => {
+    if (!visible || !post) return;
+
+    return outbox.onSettled((entry) => {
+      if (entry.kind === 'comment' && entry.targetId === post.id) {
+        loadComments();
+      }
+    });
+  }, [visible, post, loadComments]);
+
   // Handle Android back button
   useEffect(() => {
     if (!visible) return;
@@ -143,15 +116,24 @@ export function CommentModal({ visible, onClose, post, onUpdatePost }: CommentMo
 
     setCommenting(true);
     try {
-      const response = await apiClient.request<Comment>(`/v1/feed/posts/${post.id}/comment`, {
-        method: 'POST',
-        data: {
-          content,
-          parent_id: parentId || null,
-        },
+      const response = await api.feed.addComment(post.id, {
+        content,
+        parent_id: parentId || null,
       });
 
-      if (response.ok && response.data) {
+      if (response.queued) {
+        if (parentId) {
+          setReplyContent((prev) => ({ ...prev, [parentId]: '' }));
+          setReplyingTo(null);
+        } else {
+          setNewComment('');
+        }
+        Toast.show({
+          type: 'info',
+          text1: "You're offline",
+          text2: 'Your comment will be posted when you reconnect',
+        });
+      } else if (response.ok && response.data) {
         const newCommentData = {
           ...response.data,
           replies: response.data.replies || [],
@@ -193,7 +175,7 @@ export function CommentModal({ visible, onClose, post, onUpdatePost }: CommentMo
         });
       }
     } catch (error) {
-      console.error('Submit comment error:', error);
+      log.error('Submit comment error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -266,10 +248,7 @@ export function CommentModal({ visible, onClose, post, onUpdatePost }: CommentMo
     );
 
     try {
-      const response = await apiClient.request<{ liked: boolean; likes_count: number }>(
-        `/v1/feed/posts/${post.id}/comments/${commentId}/like`,
-        { method: 'POST' }
-      );
+      const response = await api.feed.likeComment({ postId: post.id, commentId });
 
       if (response.ok && response.data) {
         // Update with actual server response
@@ -324,7 +303,7 @@ export function CommentModal({ visible, onClose, post, onUpdatePost }: CommentMo
         );
       }
     } catch (error) {
-      console.error('Like comment error:', error);
+      log.error('Like comment error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -496,6 +475,7 @@ export function CommentModal({ visible, onClose, post, onUpdatePost }: CommentMo
         </View>
 
         <ScrollView style={styles.commentsList} showsVerticalScrollIndicator={false}>
+          {post && <PendingComments postId={post.id} />}
           {loadingComments ? (
             <View style={styles.loadingContainer}>
               <ActivityIndicator size="large" color="#FF6B00" />
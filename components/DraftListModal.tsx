@@ -0,0 +1,201 @@
+import React from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Image,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  FlatList,
+  Alert,
+} from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import type { PostDraft } from '../lib/api';
+import { draftStore } from '../lib/drafts';
+import { useDrafts } from '../hooks/useDrafts';
+
+type DraftListModalProps = {
+  visible: boolean;
+  onClose: () => void;
+  onSelect: (draft: PostDraft) => void;
+  // The draft open in the composer, marked in the list
+  currentDraftId: string | null;
+};
+
+const formatTimeAgo = (dateString: string) => {
+  const date = new Date(dateString);
+  const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (hours < 24) return `${hours}h ago`;
+  if (days < 7) return `${days}d ago`;
+  return date.toLocaleDateString();
+};
+
+/**
+ * Saved drafts to pick up where you left off; tap one to open it in the composer.
+ */
+export function DraftListModal({ visible, onClose, onSelect, currentDraftId }: DraftListModalProps) {
+  const { drafts, isSyncing } = useDrafts({ enabled: visible });
+
+  const confirmDelete = (draft: PostDraft) => {
+    Alert.alert('Delete Draft', 'This draft will be deleted on all your devices.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => draftStore.remove(draft.id) },
+    ]);
+  };
+
+  const renderDraft = ({ item }: { item: PostDraft }) => {
+    const thumbnail = item.media[0]?.thumbnail_url || (item.media[0]?.type === 'image' ? item.media[0].url : null);
+    const details = [
+      formatTimeAgo(item.updated_at),
+      item.media.length > 0 ? `${item.media.length} media` : null,
+      item.poll ? 'Poll' : null,
+      item.reward_enabled ? `Rewards · ${item.reward_pool} ${item.reward_coin_symbol}` : null,
+    ].filter(Boolean);
+
+    return (
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => {
+          onSelect(item);
+          onClose();
+        }}
+      >
+        <View style={styles.rowBody}>
+          <Text style={[styles.rowText, !item.content.trim() && styles.placeholderText]} numberOfLines={2}>
+            {item.content.trim() || 'Photo or video'}
+          </Text>
+          <Text style={styles.detailText}>
+            {item.id === currentDraftId ? 'Editing now · ' : ''}
+            {details.join(' · ')}
+          </Text>
+        </View>
+        {thumbnail ? <Image source={{ uri: thumbnail }} style={styles.thumbnail} /> : null}
+        <TouchableOpacity onPress={() => confirmDelete(item)} hitSlop={8} accessibilityLabel="Delete draft">
+          <FontAwesome name="trash-o" size={18} color="#999" />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Drafts</Text>
+            <View style={styles.headerActions}>
+              {isSyncing && <ActivityIndicator size="small" color="#FF6B00" />}
+              <TouchableOpacity onPress={onClose}>
+                <FontAwesome name="times" size={20} color="#000" />
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <FlatList
+            data={drafts}
+            renderItem={renderDraft}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={styles.list}
+            ListEmptyComponent={
+              isSyncing ? null : (
+                <View style={styles.emptyContainer}>
+                  <FontAwesome name="file-text-o" size={36} color="#ccc" />
+                  <Text style={styles.emptyText}>No drafts</Text>
+                  <Text style={styles.emptySubtext}>Posts you start are saved here until you publish them.</Text>
+                </View>
+              )
+            }
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '70%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000',
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 24,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f5f5f5',
+  },
+  rowBody: {
+    flex: 1,
+  },
+  rowText: {
+    fontSize: 15,
+    color: '#000',
+    lineHeight: 20,
+  },
+  placeholderText: {
+    color: '#999',
+    fontStyle: 'italic',
+  },
+  detailText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  thumbnail: {
+    width: 44,
+    height: 44,
+    borderRadius: 6,
+    backgroundColor: '#f0f0f0',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 12,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 6,
+  },
+});
@@ -10,8 +10,15 @@ import {
 import { Video, ResizeMode } from 'expo-av';
 import { FeedMediaGrid } from './FeedMediaGrid';
 import { MentionText } from './MentionText';
+import { PollView } from './PollView';
+import { LinkPreviewCard } from './LinkPreviewCard';
+import { BookmarkButton } from './BookmarkButton';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { FeedPost } from '../hooks/useFeed';
+import { useOutbox } from '../hooks/useOutbox';
+import { logger } from '../lib/logger';
+
+const log = logger.scope('feed');
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -48,10 +55,13 @@ export function FeedPostItem({
   onToggleExpanded,
   onToggleSharedPostExpanded,
 }: FeedPostItemProps) {
+  // Likes and comments made while offline wait in the outbox until we reconnect
+  const { hasPending: likePending } = useOutbox('like', post?.id);
+  const { pending: pendingComments } = useOutbox('comment', post?.id);
   
   // Debug logging to check post structure
   if (post.shared_post) {
-    console.log('🔍 FeedPostItem: Shared post detected', {
+    log.debug('FeedPostItem: Shared post detected', {
       postId: post.id,
       postUser: post.user.username,
       sharedPostId: post.shared_post.id,
@@ -61,7 +71,7 @@ export function FeedPostItem({
   }
   // Add safety checks for post data
   if (!post || !post.user) {
-    console.error('FeedPostItem: Invalid post data', post);
+    log.error('FeedPostItem: Invalid post data', post);
     return null;
   }
   const handleLike = useCallback(() => {
@@ -130,7 +140,7 @@ export function FeedPostItem({
       {sharedPost.content && (
         <TouchableOpacity
           onPress={() => {
-            console.log('📝 FeedPostItem: Toggle expand clicked (shared post)', {
+            log.debug('FeedPostItem: Toggle expand clicked (shared post)', {
               postId: sharedPost.id,
               currentExpanded: sharedPostExpanded,
               contentLength: sharedPost.content?.length || 0,
@@ -159,6 +169,8 @@ export function FeedPostItem({
           onImagePress={onImagePress}
         />
       )}
+
+      {sharedPost.poll && <PollView post={sharedPost} />}
     </View>
     );
   }, [onOpenProfile, formatTimeAgo]);
@@ -220,6 +232,20 @@ export function FeedPostItem({
         </TouchableOpacity>
       )}
 
+      {/* Poll - outside the touchable so taps vote instead of opening the post */}
+      {!post.shared_post && post.poll && (
+        <View style={styles.contentContainer}>
+          <PollView post={post} />
+        </View>
+      )}
+
+      {/* Link preview - opens the link; left out when the post has its own media */}
+      {!post.shared_post && post.link_preview && !post.media?.length && (
+        <View style={styles.contentContainer}>
+          <LinkPreviewCard preview={post.link_preview} />
+        </View>
+      )}
+
       {/* Media and other post elements - clickable to open post detail */}
       <TouchableOpacity onPress={() => onOpenPost(post)} activeOpacity={0.95}>
         {/* Media - Only show if this is NOT a shared post (to avoid duplicate media) */}
@@ -269,11 +295,17 @@ export function FeedPostItem({
           <Text style={[styles.actionText, post.is_liked && styles.likedText]}>
             {post.likes_count}
           </Text>
+          {likePending && (
+            <FontAwesome name="clock-o" size={12} color="#999" style={styles.pendingIcon} />
+          )}
         </TouchableOpacity>
 
         <TouchableOpacity style={styles.actionButton} onPress={handleComment}>
           <FontAwesome name="comment-o" size={16} color="#666" />
-          <Text style={styles.actionText}>{post.comments_count}</Text>
+          <Text style={styles.actionText}>{post.comments_count + pendingComments.length}</Text>
+          {pendingComments.length > 0 && (
+            <FontAwesome name="clock-o" size={12} color="#999" style={styles.pendingIcon} />
+          )}
         </TouchableOpacity>
 
         <TouchableOpacity 
@@ -284,6 +316,8 @@ export function FeedPostItem({
           <FontAwesome name="share" size={16} color="#666" />
           <Text style={styles.actionText}>{post.shares_count}</Text>
         </TouchableOpacity>
+
+        <BookmarkButton post={post} style={styles.actionButton} />
       </View>
 
     </View>
@@ -419,6 +453,9 @@ const styles = StyleSheet.create({
   likedText: {
     color: '#FF6B00',
   },
+  pendingIcon: {
+    marginLeft: 4,
+  },
   showMoreText: {
     fontSize: 14,
     color: '#FF6B00',
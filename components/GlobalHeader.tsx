@@ -3,6 +3,7 @@ import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { useSidebar } from '../context/SidebarContext';
+import { useAuth } from '../context/AuthContext';
 
 type GlobalHeaderProps = {
   title?: string;
@@ -11,7 +12,12 @@ type GlobalHeaderProps = {
 
 export function GlobalHeader({ title, rightComponent }: GlobalHeaderProps) {
   const { toggleSidebar } = useSidebar();
+  const { user, accounts } = useAuth();
   const insets = useSafeAreaInsets();
+  // Unread notifications waiting in the other signed-in accounts (see the switcher in the sidebar)
+  const otherAccountsUnread = accounts
+    .filter((account) => account.id !== user?.id)
+    .reduce((total, account) => total + (account.unread_count ?? 0), 0);
 
   return (
     <View style={[styles.container, { paddingTop: Math.max(insets.top, 12) }]}>
@@ -20,6 +26,7 @@ export function GlobalHeader({ title, rightComponent }: GlobalHeaderProps) {
         onPress={toggleSidebar}
       >
         <FontAwesome name="bars" size={24} color="#000" />
+        {otherAccountsUnread > 0 && <View style={styles.accountsDot} />}
       </TouchableOpacity>
       
       {title && (
@@ -50,6 +57,17 @@ const styles = StyleSheet.create({
     padding: 8,
     marginRight: 12,
   },
+  accountsDot: {
+    position: 'absolute',
+    top: 6,
+    right: 4,
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#FF6B00',
+    borderWidth: 2,
+    borderColor: '#fff',
+  },
   title: {
     fontSize: 20,
     fontWeight: '600',
@@ -0,0 +1,137 @@
+import React from 'react';
+import { View, Text, Image, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import Toast from 'react-native-toast-message';
+import type { LinkPreview } from '../lib/api';
+import { displayHost, openLink } from '../lib/links';
+
+type LinkPreviewCardProps = {
+  preview: LinkPreview | null;
+  // Shows a placeholder row while the preview is fetched
+  isLoading?: boolean;
+  // Compact cards (message bubbles) leave out the large image
+  compact?: boolean;
+  // Shows a remove button (composer)
+  onRemove?: () => void;
+};
+
+export const openLinkOrToast = async (url: string) => {
+  if (!(await openLink(url))) {
+    Toast.show({
+      type: 'error',
+      text1: 'Error',
+      text2: 'Failed to open link',
+      visibilityTime: 2000,
+    });
+  }
+};
+
+/**
+ * Title, description and image of a linked page; tap to open it.
+ */
+export function LinkPreviewCard({ preview, isLoading = false, compact = false, onRemove }: LinkPreviewCardProps) {
+  if (!preview) {
+    return isLoading ? (
+      <View style={[styles.card, styles.loadingRow]}>
+        <ActivityIndicator size="small" color="#FF6B00" />
+        <Text style={styles.loadingText}>Loading link preview…</Text>
+      </View>
+    ) : null;
+  }
+
+  const host = preview.site_name || displayHost(preview.url);
+
+  return (
+    <TouchableOpacity
+      style={styles.card}
+      onPress={() => openLinkOrToast(preview.url)}
+      activeOpacity={0.8}
+      accessibilityRole="link"
+      accessibilityLabel={preview.title || preview.url}
+    >
+      {!compact && preview.image_url ? (
+        <Image source={{ uri: preview.image_url }} style={styles.image} resizeMode="cover" />
+      ) : null}
+      <View style={styles.body}>
+        <Text style={styles.host} numberOfLines={1}>
+          {host}
+        </Text>
+        {!!preview.title && (
+          <Text style={styles.title} numberOfLines={2}>
+            {preview.title}
+          </Text>
+        )}
+        {!!preview.description && (
+          <Text style={styles.description} numberOfLines={compact ? 2 : 3}>
+            {preview.description}
+          </Text>
+        )}
+      </View>
+      {onRemove && (
+        <TouchableOpacity
+          style={styles.removeButton}
+          onPress={onRemove}
+          hitSlop={8}
+          accessibilityLabel="Remove link preview"
+        >
+          <FontAwesome name="times" size={12} color="#fff" />
+        </TouchableOpacity>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#fff',
+    marginVertical: 8,
+  },
+  loadingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+  },
+  loadingText: {
+    fontSize: 13,
+    color: '#999',
+  },
+  image: {
+    width: '100%',
+    aspectRatio: 1.91,
+    backgroundColor: '#f0f0f0',
+  },
+  body: {
+    padding: 12,
+    gap: 2,
+  },
+  host: {
+    fontSize: 12,
+    color: '#999',
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#000',
+  },
+  description: {
+    fontSize: 13,
+    color: '#666',
+    lineHeight: 18,
+  },
+  removeButton: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
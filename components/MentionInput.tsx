@@ -11,6 +11,8 @@ import {
   Dimensions,
 } from 'react-native';
 import { useMentions, type MentionUser } from '../hooks/useMentions';
+import { useHashtags, type TagSuggestion } from '../hooks/useHashtags';
+import { isTagQuery } from '../lib/hashtags';
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 
@@ -53,14 +55,30 @@ export function MentionInput({
   containerStyle,
   popupPosition: popupPositionProp = 'auto',
 }: MentionInputProps) {
-  const { searchResults, isSearching, searchUsers, clearResults } = useMentions();
+  const { searchResults, isSearching: isSearchingUsers, searchUsers, clearResults: clearUserResults } = useMentions();
+  const { suggestions: tagSuggestions, isSearching: isSearchingTags, searchTags, clearResults: clearTagResults } = useHashtags();
   const [showSuggestions, setShowSuggestions] = useState(false);
+  // Where the `@` or `#` being completed starts
   const [mentionStart, setMentionStart] = useState<number | null>(null);
+  const [trigger, setTrigger] = useState<'@' | '#'>('@');
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [popupPosition, setPopupPosition] = useState<'above' | 'below'>('below');
   const inputRef = useRef<TextInput>(null);
   const inputContainerRef = useRef<View>(null);
 
+  const isSearching = trigger === '#' ? isSearchingTags : isSearchingUsers;
+
+  const clearResults = () => {
+    clearUserResults();
+    clearTagResults();
+  };
+
+  const closeSuggestions = () => {
+    setShowSuggestions(false);
+    setMentionStart(null);
+    clearResults();
+  };
+
   const handleChangeText = (text: string) => {
     onChangeText(text);
 
@@ -68,12 +86,32 @@ export function MentionInput({
     const cursorPosition = text.length; // In React Native, we track cursor differently
     const textBeforeCursor = text;
     const lastAtIndex = textBeforeCursor.lastIndexOf('@');
+    const lastHashIndex = textBeforeCursor.lastIndexOf('#');
+
+    // A `#` typed after the last `@` starts a hashtag, but only at the start of a word
+    if (lastHashIndex > lastAtIndex) {
+      const query = textBeforeCursor.substring(lastHashIndex + 1);
+      const startsWord = lastHashIndex === 0 || /\s/.test(textBeforeCursor[lastHashIndex - 1]);
+      if (startsWord && isTagQuery(query)) {
+        setMentionStart(lastHashIndex);
+        setTrigger('#');
+        setShowSuggestions(true);
+        setSelectedIndex(0);
+        clearUserResults();
+        searchTags(query.toLowerCase());
+      } else {
+        closeSuggestions();
+      }
+      return;
+    }
 
     if (lastAtIndex !== -1) {
       const textAfterAt = textBeforeCursor.substring(lastAtIndex + 1);
       // Check if there's a space or newline after @ (meaning mention is complete)
       if (!textAfterAt.includes(' ') && !textAfterAt.includes('\n')) {
         setMentionStart(lastAtIndex);
+        setTrigger('@');
+        clearTagResults();
         const query = textAfterAt.trim().toLowerCase();
         
         // Always show suggestions when @ is typed, prioritizing reserved mentions
@@ -104,7 +142,8 @@ export function MentionInput({
     }
   };
 
-  const insertMention = (user: MentionUser) => {
+  // Replace the `@…` or `#…` being typed with the picked suggestion
+  const insertSuggestion = (text: string) => {
     if (mentionStart === null) return;
 
     const currentValue = value;
@@ -123,9 +162,8 @@ export function MentionInput({
             : afterAt.length;
     const afterMention = currentValue.substring(mentionStart + endIndex);
 
-    // Insert the mention with a space after
-    const mentionText = `@${user.username} `;
-    const newValue = beforeMention + mentionText + afterMention;
+    // Insert the suggestion with a space after
+    const newValue = beforeMention + text + ' ' + afterMention;
 
     onChangeText(newValue);
     setShowSuggestions(false);
@@ -138,9 +176,13 @@ export function MentionInput({
     }, 100);
   };
 
+  const insertMention = (user: MentionUser) => insertSuggestion(`@${user.username}`);
+
+  const insertTag = (suggestion: TagSuggestion) => insertSuggestion(`#${suggestion.tag}`);
+
   // Get combined suggestions (reserved mentions first, then search results)
   const getSuggestions = (): MentionUser[] => {
-    if (mentionStart === null) return [];
+    if (mentionStart === null || trigger !== '@') return [];
     
     // Get the current query from the value
     const textAfterAt = value.substring(mentionStart + 1);
@@ -170,6 +212,14 @@ export function MentionInput({
   };
 
   const handleKeyPress = (e: any) => {
+    if (showSuggestions && trigger === '#' && tagSuggestions.length > 0) {
+      if (e.nativeEvent.key === 'Enter' && !multiline) {
+        e.preventDefault();
+        insertTag(tagSuggestions[selectedIndex]);
+      }
+      return;
+    }
+
     const suggestions = getSuggestions();
     if (showSuggestions && suggestions.length > 0) {
       if (e.nativeEvent.key === 'Enter' && !multiline) {
@@ -275,7 +325,51 @@ export function MentionInput({
         maxLength={maxLength}
         onSubmitEditing={onSubmitEditing}
       />
-      {showSuggestions && (getSuggestions().length > 0 || isSearching) && (
+      {showSuggestions && trigger === '#' && (tagSuggestions.length > 0 || isSearching) && (
+        <View style={[
+          styles.suggestionsContainer,
+          popupPosition === 'above' ? styles.suggestionsContainerAbove : styles.suggestionsContainerBelow
+        ]}>
+          {isSearching && tagSuggestions.length === 0 ? (
+            <View style={styles.suggestionItem}>
+              <ActivityIndicator size="small" color="#FF6B00" />
+              <Text style={styles.searchingText}>Searching...</Text>
+            </View>
+          ) : (
+            <ScrollView
+              style={styles.suggestionsList}
+              keyboardShouldPersistTaps="handled"
+              nestedScrollEnabled={true}
+              bounces={false}
+            >
+              {tagSuggestions.map((item, index) => (
+                <TouchableOpacity
+                  key={item.tag}
+                  style={[styles.suggestionItem, index === selectedIndex && styles.suggestionItemSelected]}
+                  onPress={() => insertTag(item)}
+                  activeOpacity={0.7}
+                >
+                  <View style={[styles.suggestionAvatar, styles.tagAvatar]}>
+                    <Text style={styles.tagAvatarText}>#</Text>
+                  </View>
+                  <View style={styles.suggestionContent}>
+                    <Text style={styles.suggestionName}>#{item.tag}</Text>
+                    {item.posts_count !== null && (
+                      <Text style={styles.suggestionUsername}>
+                        {item.posts_count.toLocaleString()} {item.posts_count === 1 ? 'post' : 'posts'}
+                      </Text>
+                    )}
+                  </View>
+                  {item.source !== 'search' && (
+                    <Text style={styles.tagSourceText}>{item.source === 'recent' ? 'Recent' : 'Trending'}</Text>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+        </View>
+      )}
+      {showSuggestions && trigger === '@' && (getSuggestions().length > 0 || isSearching) && (
         <View style={[
           styles.suggestionsContainer,
           popupPosition === 'above' ? styles.suggestionsContainerAbove : styles.suggestionsContainerBelow
@@ -425,6 +519,20 @@ const styles = StyleSheet.create({
     color: '#999',
     padding: 12,
   },
+  tagAvatar: {
+    backgroundColor: '#FFF3EB',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  tagAvatarText: {
+    color: '#FF6B00',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  tagSourceText: {
+    fontSize: 11,
+    color: '#999',
+  },
   reservedMentionItem: {
     backgroundColor: '#FFF5E6',
   },
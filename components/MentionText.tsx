@@ -1,51 +1,66 @@
 import React, { useMemo, useCallback } from 'react';
 import { Text, View, StyleSheet, TextStyle } from 'react-native';
 import { useRouter } from 'expo-router';
+import { HASHTAG_PATTERN, normalizeTag } from '../lib/hashtags';
+import { URL_PATTERN, trimUrl } from '../lib/links';
+import { openLinkOrToast } from './LinkPreviewCard';
+
+// A link, `@username`, or a hashtag (with the character before its `#` captured
+// separately). Links come first so an `@` or `#` inside one stays part of it.
+const TOKEN_REGEX = new RegExp(`(${URL_PATTERN.source})|@([A-Za-z0-9_.]+)|${HASHTAG_PATTERN.source}`, 'gi');
+
+type TextPart = { text: string; kind: 'text' | 'link' | 'mention' | 'hashtag' };
 
 interface MentionTextProps {
   text: string;
   style?: TextStyle | TextStyle[];
   numberOfLines?: number;
   onPress?: () => void;
+  // Overrides the link color, e.g. on a colored message bubble
+  linkStyle?: TextStyle;
 }
 
-export function MentionText({ text, style, numberOfLines, onPress }: MentionTextProps) {
+export function MentionText({ text, style, numberOfLines, onPress, linkStyle }: MentionTextProps) {
   const router = useRouter();
 
   const parts = useMemo(() => {
-    // Split text by mentions (@username)
-    const mentionRegex = /@([A-Za-z0-9_.]+)/g;
-    const parts: Array<{ text: string; isMention: boolean }> = [];
+    // Split text by links, mentions (@username) and hashtags (#tag)
+    const tokenRegex = new RegExp(TOKEN_REGEX);
+    const parts: TextPart[] = [];
     let lastIndex = 0;
     let match;
 
-    while ((match = mentionRegex.exec(text)) !== null) {
-      // Add text before mention
-      if (match.index > lastIndex) {
+    while ((match = tokenRegex.exec(text)) !== null) {
+      const kind = match[1] !== undefined ? 'link' : match[2] !== undefined ? 'mention' : 'hashtag';
+      // A hashtag match starts with the character before the `#`
+      const start = kind === 'hashtag' ? match.index + match[3].length : match.index;
+      // Punctuation after a link goes back to the text
+      const token = kind === 'link' ? trimUrl(match[0]) : kind === 'mention' ? match[0] : `#${match[4]}`;
+
+      // Add text before the token
+      if (start > lastIndex) {
         parts.push({
-          text: text.substring(lastIndex, match.index),
-          isMention: false,
+          text: text.substring(lastIndex, start),
+          kind: 'text',
         });
       }
 
-      // Add mention
-      parts.push({
-        text: match[0], // Full match including @
-        isMention: true,
-      });
+      // Add the link, or the mention or hashtag including its @ or #
+      parts.push({ text: token, kind });
 
-      lastIndex = match.index + match[0].length;
+      lastIndex = start + token.length;
+      tokenRegex.lastIndex = lastIndex;
     }
 
     // Add remaining text
     if (lastIndex < text.length) {
       parts.push({
         text: text.substring(lastIndex),
-        isMention: false,
+        kind: 'text',
       });
     }
 
-    return parts.length > 0 ? parts : [{ text, isMention: false }];
+    return parts.length > 0 ? parts : [{ text, kind: 'text' as const }];
   }, [text]);
 
   const handleMentionPress = useCallback(
@@ -57,10 +72,27 @@ export function MentionText({ text, style, numberOfLines, onPress }: MentionText
     [router],
   );
 
+  const handleHashtagPress = useCallback(
+    (hashtag: string) => {
+      const tag = normalizeTag(hashtag);
+      if (!tag) return;
+      router.push(`/tags/${tag}` as any);
+    },
+    [router],
+  );
+
   return (
     <Text style={style} numberOfLines={numberOfLines} onPress={onPress}>
       {parts.map((part, index) =>
-        part.isMention ? (
+        part.kind === 'link' ? (
+          <Text
+            key={index}
+            style={[styles.linkText, linkStyle]}
+            onPress={() => openLinkOrToast(part.text)}
+          >
+            {part.text}
+          </Text>
+        ) : part.kind === 'mention' ? (
           <Text
             key={index}
             style={styles.mentionText}
@@ -68,6 +100,14 @@ export function MentionText({ text, style, numberOfLines, onPress }: MentionText
           >
             {part.text}
           </Text>
+        ) : part.kind === 'hashtag' ? (
+          <Text
+            key={index}
+            style={styles.hashtagText}
+            onPress={() => handleHashtagPress(part.text)}
+          >
+            {part.text}
+          </Text>
         ) : (
           <Text key={index}>{part.text}</Text>
         )
@@ -81,5 +121,13 @@ const styles = StyleSheet.create({
     color: '#1DA1F2',
     fontWeight: '600',
   },
+  linkText: {
+    color: '#1DA1F2',
+    textDecorationLine: 'underline',
+  },
+  hashtagText: {
+    color: '#FF6B00',
+    fontWeight: '600',
+  },
 });
 
@@ -0,0 +1,41 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+
+type OfflineBannerProps = {
+  visible: boolean;
+  // The screen is showing content saved on the device rather than fresh data
+  showingSaved?: boolean;
+};
+
+export function OfflineBanner({ visible, showingSaved = false }: OfflineBannerProps) {
+  if (!visible) {
+    return null;
+  }
+
+  return (
+    <View style={styles.banner}>
+      <FontAwesome name="wifi" size={14} color="#fff" />
+      <Text style={styles.text}>
+        {showingSaved ? "You're offline. Showing what you last saw." : "You're offline."}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#555',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  text: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
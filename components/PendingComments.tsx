@@ -0,0 +1,77 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { useOutbox } from '../hooks/useOutbox';
+
+type PendingCommentsProps = {
+  postId: string;
+};
+
+/**
+ * Comments written while offline that are still waiting in the outbox.
+ */
+export function PendingComments({ postId }: PendingCommentsProps) {
+  const { pending, retryNow } = useOutbox('comment', postId);
+
+  if (pending.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      {pending.map((entry) => {
+        const data = entry.data as { content?: string; parent_id?: string | null } | undefined;
+        const content = data?.content ?? '';
+        const isReply = !!data?.parent_id;
+        return (
+          <View key={entry.id} style={styles.item}>
+            <Text style={styles.content} numberOfLines={3}>
+              {content}
+            </Text>
+            <View style={styles.statusRow}>
+              <FontAwesome name="clock-o" size={12} color="#999" />
+              <Text style={styles.statusText}>
+                {isReply ? 'Reply waiting to send' : 'Waiting to send'}
+              </Text>
+            </View>
+          </View>
+        );
+      })}
+      <TouchableOpacity onPress={retryNow}>
+        <Text style={styles.retryText}>Retry now</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+  },
+  item: {
+    backgroundColor: '#f9f9f9',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    opacity: 0.7,
+  },
+  content: {
+    fontSize: 14,
+    color: '#000',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  statusText: {
+    fontSize: 12,
+    color: '#999',
+    marginLeft: 4,
+  },
+  retryText: {
+    color: '#FF6B00',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,162 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import type { FeedPost } from '../lib/api';
+import { pollVoteReward } from '../lib/polls';
+import { usePoll } from '../hooks/usePoll';
+import { useAuth } from '../context/AuthContext';
+
+type PollViewProps = {
+  post: FeedPost;
+  // Keep the counts fresh by polling when live updates are down (for a single open post)
+  live?: boolean;
+};
+
+const formatTimeLeft = (endsAt: string) => {
+  const minutes = Math.floor((Date.parse(endsAt) - Date.now()) / 60000);
+  if (minutes < 1) return 'Ending now';
+  if (minutes < 60) return `${minutes}m left`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h left`;
+  return `${Math.floor(hours / 24)}d left`;
+};
+
+/**
+ * A post's poll: options to vote on, then live result bars once you've voted,
+ * the poll has closed, or it's your own post.
+ */
+export function PollView({ post, live = false }: PollViewProps) {
+  const { user } = useAuth();
+  const { poll, isOpen, isVoting, vote } = usePoll(post, { live });
+  if (!poll) return null;
+
+  const isAuthor = String(user?.id) === post.user.id;
+  const showResults = !!poll.voted_option_id || !isOpen || isAuthor;
+  const leading = Math.max(...poll.options.map((option) => option.votes_count));
+  const reward = pollVoteReward(post);
+
+  return (
+    <View style={styles.container}>
+      {poll.options.map((option) => {
+        const share = poll.total_votes > 0 ? option.votes_count / poll.total_votes : 0;
+        const percent = Math.round(share * 100);
+        const isChoice = option.id === poll.voted_option_id;
+        const isLeading = !isOpen && option.votes_count > 0 && option.votes_count === leading;
+
+        if (!showResults) {
+          return (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.option, isVoting && styles.optionDisabled]}
+              onPress={() => vote(option.id)}
+              disabled={isVoting}
+              accessibilityLabel={`Vote for ${option.text}`}
+            >
+              <Text style={styles.optionText}>{option.text}</Text>
+            </TouchableOpacity>
+          );
+        }
+
+        return (
+          <View key={option.id} style={styles.result}>
+            <View style={[styles.resultBar, isChoice && styles.resultBarChoice, { width: `${percent}%` }]} />
+            <View style={styles.resultContent}>
+              <Text style={[styles.resultText, (isChoice || isLeading) && styles.resultTextStrong]} numberOfLines={2}>
+                {option.text}
+              </Text>
+              {isChoice && <FontAwesome name="check-circle" size={14} color="#FF6B00" />}
+              <Text style={[styles.percentText, (isChoice || isLeading) && styles.resultTextStrong]}>{percent}%</Text>
+            </View>
+          </View>
+        );
+      })}
+
+      <Text style={styles.footer}>
+        {poll.total_votes.toLocaleString()} {poll.total_votes === 1 ? 'vote' : 'votes'} ·{' '}
+        {isOpen ? formatTimeLeft(poll.ends_at) : 'Final results'}
+      </Text>
+      {isOpen && !poll.voted_option_id && !isAuthor && reward > 0 && (
+        <View style={styles.rewardHint}>
+          <FontAwesome name="gift" size={12} color="#FF6B00" />
+          <Text style={styles.rewardHintText}>
+            Vote to earn {reward} {post.reward_coin_symbol}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    marginVertical: 8,
+  },
+  option: {
+    borderWidth: 1,
+    borderColor: '#FF6B00',
+    borderRadius: 20,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    alignItems: 'center',
+  },
+  optionDisabled: {
+    opacity: 0.6,
+  },
+  optionText: {
+    fontSize: 15,
+    color: '#FF6B00',
+    fontWeight: '600',
+  },
+  result: {
+    borderRadius: 8,
+    backgroundColor: '#f5f5f5',
+    overflow: 'hidden',
+    minHeight: 40,
+    justifyContent: 'center',
+  },
+  resultBar: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 0,
+    backgroundColor: '#e5e7eb',
+  },
+  resultBarChoice: {
+    backgroundColor: '#FFE0CC',
+  },
+  resultContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  resultText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333',
+  },
+  resultTextStrong: {
+    fontWeight: '700',
+    color: '#000',
+  },
+  percentText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  footer: {
+    fontSize: 13,
+    color: '#999',
+  },
+  rewardHint: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  rewardHintText: {
+    fontSize: 12,
+    color: '#FF6B00',
+    fontWeight: '600',
+  },
+});
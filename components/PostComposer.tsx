@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import {
   StyleSheet,
   View,
@@ -16,12 +16,53 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import * as ImagePicker from 'expo-image-picker';
-import { apiClient } from '../lib/apiClient';
+import { api, type FeedMedia, type PostDraft } from '../lib/api';
+import { queryCache, queryKeys } from '../lib/queryCache';
 import Toast from 'react-native-toast-message';
 import { FeedMediaGrid } from './FeedMediaGrid';
+import { DraftListModal } from './DraftListModal';
+import { ScheduleTimePicker } from './ScheduleTimePicker';
 import { MentionInput } from './MentionInput';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
-import axios from 'axios';
+import { fromPickerAsset } from '../lib/uploader';
+import { useUploads } from '../hooks/useUploads';
+import { useDrafts } from '../hooks/useDrafts';
+import { draftStore, newDraftId, type DraftFields } from '../lib/drafts';
+import { extractHashtags } from '../lib/hashtags';
+import { firstUrl } from '../lib/links';
+import { useLinkPreview } from '../hooks/useLinkPreview';
+import { LinkPreviewCard } from './LinkPreviewCard';
+import { recentTags } from '../lib/recentTags';
+import {
+  DEFAULT_POLL_DURATION_HOURS,
+  MAX_POLL_OPTIONS,
+  MAX_POLL_OPTION_LENGTH,
+  MIN_POLL_OPTIONS,
+  POLL_DURATIONS,
+  validatePollOptions,
+} from '../lib/polls';
+import {
+  deviceTimeZone,
+  formatScheduledAt,
+  scheduledPostService,
+  validateScheduleTime,
+} from '../lib/scheduledPosts';
+import { logger } from '../lib/logger';
+import { useAuth } from '../context/AuthContext';
+
+const log = logger.scope('feed');
+
+// Save a draft once typing pauses for this long
+const AUTOSAVE_DELAY_MS = 1000;
+// Look up a link preview once typing pauses, not for every partial URL
+const LINK_PREVIEW_DELAY_MS = 800;
+
+// The top of the next hour, at least an hour from now
+const defaultScheduleTime = () => {
+  const date = new Date(Date.now() + 60 * 60 * 1000);
+  date.setMinutes(0, 0, 0);
+  return date;
+};
 
 type PostComposerProps = {
   visible: boolean;
@@ -39,6 +80,8 @@ export function PostComposer({
   defaultCoinSymbol 
 }: PostComposerProps) {
   const insets = useSafeAreaInsets();
+  const { can } = useAuth();
+  const canReward = can('post.reward');
   const [content, setContent] = useState('');
   const [visibility, setVisibility] = useState<'public' | 'followers' | 'private'>('public');
   const [rewardEnabled, setRewardEnabled] = useState(false);
@@ -48,20 +91,59 @@ export function PostComposer({
   const [rewardShareAmount, setRewardShareAmount] = useState<number>(3);
   const [rewardPerUserCap, setRewardPerUserCap] = useState<number>(10);
   const [rewardCoinSymbol, setRewardCoinSymbol] = useState<string>(defaultCoinSymbol.toUpperCase());
-  const [walletCoins, setWalletCoins] = useState<Array<{ coin_symbol: string; balance: number }>>([]);
+  const [walletCoins, setWalletCoins] = useState<Array<{ coin_symbol: string; balance: number; reserved: number }>>([]);
   const [isWalletCoinsLoading, setIsWalletCoinsLoading] = useState(false);
   const [rewardToggleLoading, setRewardToggleLoading] = useState<string | null>(null);
   const [postCreationStep, setPostCreationStep] = useState<1 | 2 | 3>(1);
-  const [uploadedMedia, setUploadedMedia] = useState<Array<{
-    id: string;
-    type: 'image' | 'video';
-    url: string;
-    thumbnail_url?: string;
-    metadata?: Record<string, unknown>;
-  }>>([]);
+  const [uploadedMedia, setUploadedMedia] = useState<FeedMedia[]>([]);
+  // null while the post has no poll; the post text is the poll's question
+  const [pollOptions, setPollOptions] = useState<string[] | null>(null);
+  const [pollDurationHours, setPollDurationHours] = useState(DEFAULT_POLL_DURATION_HOURS);
+  const [rewardVotes, setRewardVotes] = useState(false);
+  const [rewardVoteAmount, setRewardVoteAmount] = useState<number>(1);
+  const [scheduleEnabled, setScheduleEnabled] = useState(false);
+  const [scheduledAt, setScheduledAt] = useState<Date>(defaultScheduleTime);
   const [isCreating, setIsCreating] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
-  const [isUploading, setIsUploading] = useState(false);
+  // First link in the text (debounced), and a link whose preview was removed
+  const [linkUrl, setLinkUrl] = useState<string | null>(null);
+  const [removedLinkUrl, setRemovedLinkUrl] = useState<string | null>(null);
+  const { tasks: uploadTasks, isUploading, start: startUpload, cancel: cancelUpload, cancelAll: cancelUploads } = useUploads();
+  const { drafts } = useDrafts({ enabled: false });
+  const [draftsVisible, setDraftsVisible] = useState(false);
+  // The draft this composer saves into, once there's something to save
+  const draftIdRef = useRef<string | null>(null);
+  // What was last saved (serialized), so unchanged drafts aren't saved again
+  const lastSavedDraftRef = useRef<string | null>(null);
+  const resumedDraftRef = useRef(false);
+  const isEmpty = !content.trim() && uploadedMedia.length === 0 && !pollOptions?.some((option) => option.trim());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setLinkUrl(firstUrl(content)), LINK_PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [content]);
+
+  // Posts with their own media don't get a link card
+  const previewUrl = linkUrl && linkUrl !== removedLinkUrl && uploadedMedia.length === 0 ? linkUrl : null;
+  const { preview: linkPreview, isLoading: isLinkPreviewLoading } = useLinkPreview(previewUrl);
+
+  const draftFields = useMemo<DraftFields>(() => ({
+    content,
+    visibility,
+    media: uploadedMedia,
+    reward_enabled: rewardEnabled,
+    reward_pool: rewardPool,
+    reward_coin_symbol: rewardCoinSymbol,
+    reward_rule: {
+      per_type: {
+        like: rewardLikeAmount,
+        comment: rewardCommentAmount,
+        share: rewardShareAmount,
+        ...(pollOptions && rewardVotes && { vote: rewardVoteAmount }),
+      },
+      per_user_cap: rewardPerUserCap,
+    },
+    poll: pollOptions ? { options: pollOptions, duration_hours: pollDurationHours } : null,
+  }), [content, visibility, uploadedMedia, rewardEnabled, rewardPool, rewardCoinSymbol, rewardLikeAmount, rewardCommentAmount, rewardShareAmount, rewardPerUserCap, pollOptions, pollDurationHours, rewardVotes, rewardVoteAmount]);
 
   const resetForm = useCallback(() => {
     setContent('');
@@ -75,12 +157,103 @@ export function PostComposer({
     setRewardCoinSymbol(defaultCoinSymbol.toUpperCase());
     setUploadedMedia([]);
     setPostCreationStep(1);
+    setPollOptions(null);
+    setPollDurationHours(DEFAULT_POLL_DURATION_HOURS);
+    setRewardVotes(false);
+    setRewardVoteAmount(1);
+    setScheduleEnabled(false);
+    setScheduledAt(defaultScheduleTime());
+    setLinkUrl(null);
+    setRemovedLinkUrl(null);
+    draftIdRef.current = null;
+    lastSavedDraftRef.current = null;
   }, [defaultCoinSymbol]);
 
   const handleClose = useCallback(() => {
+    cancelUploads();
     resetForm();
     onClose();
-  }, [resetForm, onClose]);
+  }, [cancelUploads, resetForm, onClose]);
+
+  const saveDraft = useCallback(async () => {
+    if (isEmpty) return;
+    const serialized = JSON.stringify(draftFields);
+    if (draftIdRef.current && serialized === lastSavedDraftRef.current) return;
+
+    const draftId = draftIdRef.current ?? newDraftId();
+    draftIdRef.current = draftId;
+    lastSavedDraftRef.current = serialized;
+    await draftStore.save(draftId, draftFields);
+  }, [isEmpty, draftFields]);
+
+  // A resumed draft is already saved as it is; only later edits need saving
+  useEffect(() => {
+    if (!resumedDraftRef.current) return;
+    resumedDraftRef.current = false;
+    lastSavedDraftRef.current = JSON.stringify(draftFields);
+  }, [draftFields]);
+
+  // Autosave while the composer is open
+  useEffect(() => {
+    if (!visible || isCreating) return;
+    const timer = setTimeout(saveDraft, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [visible, isCreating, saveDraft]);
+
+  // Cancel, back and swipe-down: offer to keep anything written so far
+  const requestClose = useCallback(() => {
+    if (isEmpty) {
+      handleClose();
+      return;
+    }
+
+    Alert.alert('Save Draft?', 'Keep this post in Drafts to finish it later.', [
+      { text: 'Keep Editing', style: 'cancel' },
+      {
+        text: 'Discard',
+        style: 'destructive',
+        onPress: () => {
+          if (draftIdRef.current) draftStore.remove(draftIdRef.current);
+          handleClose();
+        },
+      },
+      {
+        text: 'Save Draft',
+        onPress: async () => {
+          await saveDraft();
+          handleClose();
+          Toast.show({ type: 'success', text1: 'Draft saved', visibilityTime: 2000 });
+        },
+      },
+    ]);
+  }, [isEmpty, handleClose, saveDraft]);
+
+  const resumeDraft = useCallback(async (draft: PostDraft) => {
+    if (draft.id === draftIdRef.current) return;
+    // Keep what's open now before replacing it
+    await saveDraft();
+    cancelUploads();
+
+    const perType = draft.reward_rule.per_type ?? {};
+    setContent(draft.content);
+    setVisibility(draft.visibility);
+    setUploadedMedia(draft.media);
+    setRewardEnabled(canReward && draft.reward_enabled);
+    setRewardPool(draft.reward_pool);
+    setRewardCoinSymbol(draft.reward_coin_symbol || defaultCoinSymbol.toUpperCase());
+    setRewardLikeAmount(perType.like ?? 1);
+    setRewardCommentAmount(perType.comment ?? 2);
+    setRewardShareAmount(perType.share ?? 3);
+    setRewardPerUserCap(draft.reward_rule.per_user_cap ?? 10);
+    setPollOptions(draft.poll?.options ?? null);
+    setPollDurationHours(draft.poll?.duration_hours ?? DEFAULT_POLL_DURATION_HOURS);
+    setRewardVotes(perType.vote !== undefined);
+    setRewardVoteAmount(perType.vote ?? 1);
+    setRemovedLinkUrl(null);
+    setPostCreationStep(1);
+    draftIdRef.current = draft.id;
+    resumedDraftRef.current = true;
+  }, [saveDraft, cancelUploads, canReward, defaultCoinSymbol]);
 
   const handleMediaPicker = useCallback(async () => {
     const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
@@ -101,101 +274,49 @@ export function PostComposer({
     });
 
     if (!result.canceled && result.assets) {
-      setIsUploading(true);
-      
       try {
         // Upload each file individually to track progress
         for (const asset of result.assets.slice(0, 10 - uploadedMedia.length)) {
           await handleUploadMedia(asset);
         }
       } catch (error) {
-        console.error('Pick media error:', error);
+        log.error('Pick media error:', error);
         Toast.show({
           type: 'error',
           text1: 'Error',
           text2: 'Failed to pick media',
         });
-      } finally {
-        setIsUploading(false);
       }
     }
   }, [uploadedMedia.length]);
 
   // Handle individual media upload
   const handleUploadMedia = useCallback(async (asset: ImagePicker.ImagePickerAsset) => {
-    const fileId = `${asset.uri}-${Date.now()}`;
-    setUploadProgress((prev) => ({ ...prev, [fileId]: 0 }));
+    const response = await startUpload(fromPickerAsset(asset), { purpose: 'post' });
 
-    try {
-      const formData = new FormData();
-      const fileUri = asset.uri;
-      const filename = fileUri.split('/').pop() || 'file';
-      const match = /\.(\w+)$/.exec(filename);
-      const type = match ? `image/${match[1]}` : 'image/jpeg';
-
-      // React Native FormData format
-      formData.append('file', {
-        uri: Platform.OS === 'ios' ? fileUri.replace('file://', '') : fileUri,
-        type: asset.type === 'video' ? 'video/mp4' : type,
-        name: filename,
-      } as any);
-
-      // Use axios directly for file upload with progress tracking
-      const API_BASE_URL = process.env.EXPO_PUBLIC_API_BASE_URL?.replace(/\/+$/, '') || 'http://localhost:8000/api';
-      const uploadUrl = `${API_BASE_URL}/v1/upload`;
-      const token = apiClient.getToken();
-
-      const response = await axios.post(uploadUrl, formData, {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-          Authorization: token ? `Bearer ${token}` : '',
-        },
-        onUploadProgress: (progressEvent: any) => {
-          if (progressEvent.total) {
-            const percentComplete = Math.round((progressEvent.loaded * 100) / progressEvent.total);
-            setUploadProgress((prev) => ({ ...prev, [fileId]: percentComplete }));
-          }
-        },
-      });
+    // Cancelled from the progress list or by closing the composer
+    if (response.aborted) {
+      return;
+    }
 
-      if (response.data?.data) {
-        const mediaWithId = {
-          ...response.data.data,
-          id: response.data.data.id || `media_${Date.now()}_${Math.random()}`,
-        };
-        setUploadedMedia((prev) => [...prev, mediaWithId]);
-        setUploadProgress((prev) => {
-          const newProgress = { ...prev };
-          delete newProgress[fileId];
-          return newProgress;
-        });
-      } else {
-        throw new Error('Upload response missing data');
-      }
-    } catch (error: any) {
-      console.error('Upload error:', error);
+    if (response.ok && response.status < 300 && response.data) {
+      const media = response.data;
+      setUploadedMedia((prev) => [...prev, { ...media, id: media.id || `media_${Date.now()}_${Math.random()}` }]);
+    } else {
+      log.error('Upload error:', response.errors);
       Toast.show({
         type: 'error',
         text1: 'Upload Failed',
-        text2: error.response?.data?.errors?.[0]?.detail || 'Failed to upload media',
-      });
-      setUploadProgress((prev) => {
-        const newProgress = { ...prev };
-        delete newProgress[fileId];
-        return newProgress;
+        text2: response.errors?.[0]?.detail || 'Failed to upload media',
       });
     }
-  }, []);
+  }, [startUpload]);
 
   // Fetch wallet coins for reward configuration
   const fetchWalletCoins = useCallback(async () => {
     setIsWalletCoinsLoading(true);
     try {
-      const response = await apiClient.request<{
-        coin_balances?: Array<{ coin_symbol?: string; balance?: number }>;
-      }>('/v1/wallets/me', {
-        method: 'GET',
-      });
+      const response = await queryCache.fetch(queryKeys.wallet, api.wallets.me);
 
       if (response.ok && response.data?.coin_balances) {
         const coins = response.data.coin_balances
@@ -203,6 +324,7 @@ export function PostComposer({
           .map((c) => ({
             coin_symbol: c.coin_symbol!,
             balance: c.balance ?? 0,
+            reserved: c.reserved ?? 0,
           }));
         setWalletCoins(coins);
         if (coins.length > 0 && !coins.find((c) => c.coin_symbol === rewardCoinSymbol)) {
@@ -210,7 +332,7 @@ export function PostComposer({
         }
       }
     } catch (error) {
-      console.error('Fetch wallet coins error:', error);
+      log.error('Fetch wallet coins error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -239,18 +361,18 @@ export function PostComposer({
         return true; // Prevent default back action
       }
       if (postCreationStep === 3) {
-        setPostCreationStep(2);
+        setPostCreationStep(1);
         return true; // Prevent default back action
       }
       // If on step 1, close the modal
-      handleClose();
+      requestClose();
       return true; // Prevent default back action
     };
 
     const backHandler = BackHandler.addEventListener('hardwareBackPress', backAction);
 
     return () => backHandler.remove();
-  }, [visible, handleClose, postCreationStep]);
+  }, [visible, requestClose, postCreationStep]);
 
   const selectedRewardCoinBalance = walletCoins.find(
     (coin) => coin.coin_symbol === rewardCoinSymbol
@@ -266,6 +388,18 @@ export function PostComposer({
       return;
     }
 
+    if (pollOptions) {
+      const pollError = !content.trim() ? 'Add a question for your poll' : validatePollOptions(pollOptions);
+      if (pollError) {
+        Toast.show({
+          type: 'error',
+          text1: 'Error',
+          text2: pollError,
+        });
+        return;
+      }
+    }
+
     // Validate reward configuration
     if (rewardEnabled) {
       if (!rewardCoinSymbol || walletCoins.length === 0) {
@@ -286,6 +420,15 @@ export function PostComposer({
         return;
       }
 
+      if (pollOptions && rewardVotes && rewardVoteAmount <= 0) {
+        Toast.show({
+          type: 'error',
+          text1: 'Error',
+          text2: 'Reward per vote must be greater than 0',
+        });
+        return;
+      }
+
       if (rewardPool > selectedRewardCoinBalance) {
         Toast.show({
           type: 'error',
@@ -297,12 +440,28 @@ export function PostComposer({
       }
     }
 
+    const scheduleError = scheduleEnabled ? validateScheduleTime(scheduledAt) : null;
+    if (scheduleError) {
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: scheduleError,
+      });
+      return;
+    }
+
     setIsCreating(true);
     try {
+      // The server builds the card; taken from the text now in case the preview hasn't caught up
+      const postLinkUrl = uploadedMedia.length === 0 ? firstUrl(content) : null;
       const postData = {
         content: content.trim() || null,
         visibility,
         media: uploadedMedia.length > 0 ? uploadedMedia : undefined,
+        link_preview_url: postLinkUrl !== removedLinkUrl ? postLinkUrl : null,
+        poll: pollOptions
+          ? { options: pollOptions.map((option) => option.trim()), duration_hours: pollDurationHours }
+          : undefined,
         reward_enabled: rewardEnabled,
         ...(rewardEnabled && {
           reward_pool: rewardPool,
@@ -312,23 +471,62 @@ export function PostComposer({
               like: rewardLikeAmount,
               comment: rewardCommentAmount,
               share: rewardShareAmount,
+              ...(pollOptions && rewardVotes && { vote: rewardVoteAmount }),
             },
             per_user_cap: rewardPerUserCap,
           },
         }),
       };
 
-      const response = await apiClient.request('/v1/feed/posts', {
-        method: 'POST',
-        data: postData,
-      });
+      const publishedDraftId = draftIdRef.current;
+
+      if (scheduleEnabled) {
+        const response = await scheduledPostService.schedule({
+          ...postData,
+          scheduled_at: scheduledAt.toISOString(),
+          time_zone: deviceTimeZone(),
+        });
+
+        if (response.ok && response.status < 300) {
+          if (publishedDraftId) {
+            draftStore.remove(publishedDraftId);
+          }
+          recentTags.add(extractHashtags(postData.content));
+          Toast.show({
+            type: 'success',
+            text1: 'Post scheduled',
+            text2: rewardEnabled
+              ? `Goes live ${formatScheduledAt(scheduledAt)}. ${rewardPool} ${rewardCoinSymbol} is reserved for it.`
+              : `Goes live ${formatScheduledAt(scheduledAt)}`,
+            visibilityTime: 4000,
+          });
+          handleClose();
+        } else {
+          Toast.show({
+            type: 'error',
+            text1: 'Error',
+            text2: response.errors?.[0]?.detail || 'Failed to schedule post',
+          });
+        }
+        return;
+      }
 
-      if (response.ok) {
+      const response = await api.feed.createPost(postData);
+
+      if (response.ok && response.status < 300) {
+        if (publishedDraftId) {
+          draftStore.remove(publishedDraftId);
+        }
+        recentTags.add(extractHashtags(postData.content));
         Toast.show({
           type: 'success',
           text1: 'Success',
           text2: 'Post created successfully',
         });
+        if (rewardEnabled) {
+          // Reward pool is escrowed from the wallet
+          queryCache.invalidate(queryKeys.wallet);
+        }
         handleClose();
         onPostCreated();
       } else {
@@ -339,7 +537,7 @@ export function PostComposer({
         });
       }
     } catch (error) {
-      console.error('Create post error:', error);
+      log.error('Create post error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -348,21 +546,21 @@ export function PostComposer({
     } finally {
       setIsCreating(false);
     }
-  }, [content, visibility, uploadedMedia, rewardEnabled, rewardPool, rewardCoinSymbol, rewardLikeAmount, rewardCommentAmount, rewardShareAmount, rewardPerUserCap, handleClose, onPostCreated]);
+  }, [content, visibility, uploadedMedia, pollOptions, pollDurationHours, rewardVotes, rewardVoteAmount, rewardEnabled, rewardPool, rewardCoinSymbol, rewardLikeAmount, rewardCommentAmount, rewardShareAmount, rewardPerUserCap, scheduleEnabled, scheduledAt, removedLinkUrl, handleClose, onPostCreated]);
 
   return (
     <Modal 
       visible={visible} 
       animationType="slide" 
       {...(Platform.OS === 'ios' ? { presentationStyle: 'pageSheet' } : {})}
-      onRequestClose={handleClose}
+      onRequestClose={requestClose}
     >
       <KeyboardAvoidingView 
         style={styles.container} 
         behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
       >
         <View style={[styles.header, { paddingTop: Math.max(insets.top, 16) }]}>
-          <TouchableOpacity onPress={handleClose}>
+          <TouchableOpacity onPress={requestClose}>
             <Text style={styles.cancelButton}>Cancel</Text>
           </TouchableOpacity>
           <Text style={styles.title}>Create Post</Text>
@@ -374,7 +572,7 @@ export function PostComposer({
             {isCreating ? (
               <ActivityIndicator size="small" color="#fff" />
             ) : (
-              <Text style={styles.postButtonText}>Post</Text>
+              <Text style={styles.postButtonText}>{scheduleEnabled ? 'Schedule' : 'Post'}</Text>
             )}
           </TouchableOpacity>
         </View>
@@ -400,14 +598,39 @@ export function PostComposer({
                 />
               )}
 
+              {pollOptions && (
+                <TouchableOpacity style={styles.pollPreview} onPress={() => setPostCreationStep(3)}>
+                  <FontAwesome name="bar-chart" size={16} color="#FF6B00" />
+                  <Text style={styles.pollPreviewText} numberOfLines={1}>
+                    Poll · {pollOptions.filter((option) => option.trim()).join(' / ') || `${pollOptions.length} options`}
+                  </Text>
+                  <TouchableOpacity onPress={() => setPollOptions(null)} hitSlop={8} accessibilityLabel="Remove poll">
+                    <FontAwesome name="times" size={14} color="#999" />
+                  </TouchableOpacity>
+                </TouchableOpacity>
+              )}
+
+              {previewUrl && (
+                <LinkPreviewCard
+                  preview={linkPreview}
+                  isLoading={isLinkPreviewLoading}
+                  onRemove={() => setRemovedLinkUrl(previewUrl)}
+                />
+              )}
+
               {/* Upload Progress */}
-              {Object.keys(uploadProgress).length > 0 && (
+              {uploadTasks.length > 0 && (
                 <View style={styles.uploadProgressContainer}>
-                  {Object.entries(uploadProgress).map(([uploadId, progress]) => (
-                    <View key={uploadId} style={styles.progressItem}>
-                      <Text style={styles.progressText}>Uploading... {progress}%</Text>
+                  {uploadTasks.map((task) => (
+                    <View key={task.id} style={styles.progressItem}>
+                      <View style={styles.progressHeader}>
+                        <Text style={styles.progressText}>Uploading... {task.progress}%</Text>
+                        <TouchableOpacity onPress={() => cancelUpload(task.id)} hitSlop={8}>
+                          <FontAwesome name="times" size={14} color="#999" />
+                        </TouchableOpacity>
+                      </View>
                       <View style={styles.progressBar}>
-                        <View style={[styles.progressFill, { width: `${progress}%` }]} />
+                        <View style={[styles.progressFill, { width: `${task.progress}%` }]} />
                       </View>
                     </View>
                   ))}
@@ -426,6 +649,17 @@ export function PostComposer({
                   </Text>
                 </TouchableOpacity>
 
+                <TouchableOpacity 
+                  onPress={() => {
+                    setPollOptions((prev) => prev ?? Array(MIN_POLL_OPTIONS).fill(''));
+                    setPostCreationStep(3);
+                  }} 
+                  style={styles.actionButton}
+                >
+                  <FontAwesome name="bar-chart" size={20} color="#666" />
+                  <Text style={styles.actionText}>Poll</Text>
+                </TouchableOpacity>
+
                 <TouchableOpacity 
                   onPress={() => setPostCreationStep(2)} 
                   style={styles.actionButton}
@@ -433,6 +667,16 @@ export function PostComposer({
                   <FontAwesome name="cog" size={20} color="#666" />
                   <Text style={styles.actionText}>Settings</Text>
                 </TouchableOpacity>
+
+                <TouchableOpacity 
+                  onPress={() => setDraftsVisible(true)} 
+                  style={styles.actionButton}
+                >
+                  <FontAwesome name="file-text-o" size={20} color="#666" />
+                  <Text style={styles.actionText}>
+                    {drafts.length > 0 ? `Drafts (${drafts.length})` : 'Drafts'}
+                  </Text>
+                </TouchableOpacity>
               </View>
             </>
           )}
@@ -472,98 +716,131 @@ export function PostComposer({
                   </View>
                 </View>
 
-                {/* Rewards */}
+                {/* Rewards (creators only) */}
+                {canReward && (
+                  <View style={styles.settingItem}>
+                    <View style={styles.settingHeader}>
+                      <Text style={styles.settingLabel}>Enable Rewards</Text>
+                      <Switch
+                        value={rewardEnabled}
+                        onValueChange={setRewardEnabled}
+                        trackColor={{ false: '#ccc', true: '#FF6B00' }}
+                        thumbColor={rewardEnabled ? '#fff' : '#f4f3f4'}
+                      />
+                    </View>
+                    {rewardEnabled && (
+                      <View style={styles.rewardSettings}>
+                        <View style={styles.rewardInput}>
+                          <Text style={styles.rewardLabel}>Pool Amount</Text>
+                          <TextInput
+                            style={[
+                              styles.rewardTextInput,
+                              rewardPool > selectedRewardCoinBalance && rewardPool > 0 && styles.rewardTextInputError
+                            ]}
+                            value={rewardPool.toString()}
+                            onChangeText={(text) => {
+                              const amount = parseFloat(text) || 0;
+                              setRewardPool(amount);
+                              
+                              // Show validation toast if amount exceeds balance
+                              if (amount > selectedRewardCoinBalance && amount > 0) {
+                                Toast.show({
+                                  type: 'error',
+                                  text1: 'Insufficient Balance',
+                                  text2: `You only have ${selectedRewardCoinBalance.toLocaleString()} ${rewardCoinSymbol} available.`,
+                                  visibilityTime: 3000,
+                                });
+                              }
+                            }}
+                            keyboardType="numeric"
+                            placeholder="0"
+                          />
+                          {rewardPool > selectedRewardCoinBalance && rewardPool > 0 && (
+                            <Text style={styles.errorText}>
+                              Exceeds available balance ({selectedRewardCoinBalance.toLocaleString()} {rewardCoinSymbol})
+                            </Text>
+                          )}
+                        </View>
+                        <View style={styles.rewardInput}>
+                          <Text style={styles.rewardLabel}>Reward Coin</Text>
+                          {walletCoins.length === 0 && !isWalletCoinsLoading ? (
+                            <View style={styles.warningBox}>
+                              <FontAwesome name="exclamation-triangle" size={16} color="#ff9800" />
+                              <Text style={styles.warningText}>
+                                You need to launch a creator coin and have balance before you can enable rewards.
+                              </Text>
+                              <TouchableOpacity
+                                style={styles.retryButton}
+                                onPress={fetchWalletCoins}
+                              >
+                                <Text style={styles.retryButtonText}>Retry</Text>
+                              </TouchableOpacity>
+                            </View>
+                          ) : isWalletCoinsLoading ? (
+                            <View style={styles.loadingContainer}>
+                              <ActivityIndicator size="small" color="#FF6B00" />
+                              <Text style={styles.coinsLoadingText}>Loading coins...</Text>
+                            </View>
+                          ) : walletCoins.length > 0 ? (
+                            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.coinSelector}>
+                              {walletCoins.map((coin) => (
+                                <TouchableOpacity
+                                  key={coin.coin_symbol}
+                                  style={[
+                                    styles.coinOption,
+                                    rewardCoinSymbol === coin.coin_symbol && styles.coinOptionActive,
+                                  ]}
+                                  onPress={() => setRewardCoinSymbol(coin.coin_symbol)}
+                                >
+                                  <Text style={[
+                                    styles.coinOptionSymbol,
+                                    rewardCoinSymbol === coin.coin_symbol && styles.coinOptionSymbolActive,
+                                  ]}>
+                                    {coin.coin_symbol}
+                                  </Text>
+                                  <Text style={[
+                                    styles.coinOptionBalance,
+                                    rewardCoinSymbol === coin.coin_symbol && styles.coinOptionBalanceActive,
+                                  ]}>
+                                    {coin.balance.toLocaleString()}
+                                  </Text>
+                                  {coin.reserved > 0 && (
+                                    <Text style={[
+                                      styles.coinOptionReserved,
+                                      rewardCoinSymbol === coin.coin_symbol && styles.coinOptionBalanceActive,
+                                    ]}>
+                                      {coin.reserved.toLocaleString()} reserved
+                                    </Text>
+                                  )}
+                                </TouchableOpacity>
+                              ))}
+                            </ScrollView>
+                          ) : null}
+                        </View>
+                      </View>
+                    )}
+                  </View>
+                )}
+
+                {/* Schedule */}
                 <View style={styles.settingItem}>
                   <View style={styles.settingHeader}>
-                    <Text style={styles.settingLabel}>Enable Rewards</Text>
+                    <Text style={styles.settingLabel}>Schedule for Later</Text>
                     <Switch
-                      value={rewardEnabled}
-                      onValueChange={setRewardEnabled}
+                      value={scheduleEnabled}
+                      onValueChange={setScheduleEnabled}
                       trackColor={{ false: '#ccc', true: '#FF6B00' }}
-                      thumbColor={rewardEnabled ? '#fff' : '#f4f3f4'}
+                      thumbColor={scheduleEnabled ? '#fff' : '#f4f3f4'}
                     />
                   </View>
-                  {rewardEnabled && (
+                  {scheduleEnabled && (
                     <View style={styles.rewardSettings}>
-                      <View style={styles.rewardInput}>
-                        <Text style={styles.rewardLabel}>Pool Amount</Text>
-                        <TextInput
-                          style={[
-                            styles.rewardTextInput,
-                            rewardPool > selectedRewardCoinBalance && rewardPool > 0 && styles.rewardTextInputError
-                          ]}
-                          value={rewardPool.toString()}
-                          onChangeText={(text) => {
-                            const amount = parseFloat(text) || 0;
-                            setRewardPool(amount);
-                            
-                            // Show validation toast if amount exceeds balance
-                            if (amount > selectedRewardCoinBalance && amount > 0) {
-                              Toast.show({
-                                type: 'error',
-                                text1: 'Insufficient Balance',
-                                text2: `You only have ${selectedRewardCoinBalance.toLocaleString()} ${rewardCoinSymbol} available.`,
-                                visibilityTime: 3000,
-                              });
-                            }
-                          }}
-                          keyboardType="numeric"
-                          placeholder="0"
-                        />
-                        {rewardPool > selectedRewardCoinBalance && rewardPool > 0 && (
-                          <Text style={styles.errorText}>
-                            Exceeds available balance ({selectedRewardCoinBalance.toLocaleString()} {rewardCoinSymbol})
-                          </Text>
-                        )}
-                      </View>
-                      <View style={styles.rewardInput}>
-                        <Text style={styles.rewardLabel}>Reward Coin</Text>
-                        {walletCoins.length === 0 && !isWalletCoinsLoading ? (
-                          <View style={styles.warningBox}>
-                            <FontAwesome name="exclamation-triangle" size={16} color="#ff9800" />
-                            <Text style={styles.warningText}>
-                              You need to launch a creator coin and have balance before you can enable rewards.
-                            </Text>
-                            <TouchableOpacity
-                              style={styles.retryButton}
-                              onPress={fetchWalletCoins}
-                            >
-                              <Text style={styles.retryButtonText}>Retry</Text>
-                            </TouchableOpacity>
-                          </View>
-                        ) : isWalletCoinsLoading ? (
-                          <View style={styles.loadingContainer}>
-                            <ActivityIndicator size="small" color="#FF6B00" />
-                            <Text style={styles.coinsLoadingText}>Loading coins...</Text>
-                          </View>
-                        ) : walletCoins.length > 0 ? (
-                          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.coinSelector}>
-                            {walletCoins.map((coin) => (
-                              <TouchableOpacity
-                                key={coin.coin_symbol}
-                                style={[
-                                  styles.coinOption,
-                                  rewardCoinSymbol === coin.coin_symbol && styles.coinOptionActive,
-                                ]}
-                                onPress={() => setRewardCoinSymbol(coin.coin_symbol)}
-                              >
-                                <Text style={[
-                                  styles.coinOptionSymbol,
-                                  rewardCoinSymbol === coin.coin_symbol && styles.coinOptionSymbolActive,
-                                ]}>
-                                  {coin.coin_symbol}
-                                </Text>
-                                <Text style={[
-                                  styles.coinOptionBalance,
-                                  rewardCoinSymbol === coin.coin_symbol && styles.coinOptionBalanceActive,
-                                ]}>
-                                  {coin.balance.toLocaleString()}
-                                </Text>
-                              </TouchableOpacity>
-                            ))}
-                          </ScrollView>
-                        ) : null}
-                      </View>
+                      <ScheduleTimePicker value={scheduledAt} onChange={setScheduledAt} />
+                      {rewardEnabled && rewardPool > 0 && (
+                        <Text style={styles.scheduleNote}>
+                          The {rewardPool.toLocaleString()} {rewardCoinSymbol} reward pool is reserved from your wallet now and can't be spent elsewhere until the post goes live or is cancelled.
+                        </Text>
+                      )}
                     </View>
                   )}
                 </View>
@@ -580,8 +857,132 @@ export function PostComposer({
               </View>
             </>
           )}
+
+          {/* Step 3: Poll */}
+          {postCreationStep === 3 && pollOptions && (
+            <>
+              <View style={styles.settingsSection}>
+                <Text style={styles.sectionTitle}>Poll</Text>
+                <Text style={styles.pollHint}>Your post text is the question.</Text>
+
+                {pollOptions.map((option, index) => (
+                  <View key={index} style={styles.pollOptionRow}>
+                    <TextInput
+                      style={[styles.rewardTextInput, styles.pollOptionInput]}
+                      value={option}
+                      onChangeText={(text) =>
+                        setPollOptions((prev) => prev && prev.map((item, i) => (i === index ? text : item)))
+                      }
+                      placeholder={`Option ${index + 1}`}
+                      maxLength={MAX_POLL_OPTION_LENGTH}
+                    />
+                    {pollOptions.length > MIN_POLL_OPTIONS && (
+                      <TouchableOpacity
+                        onPress={() => setPollOptions((prev) => prev && prev.filter((_, i) => i !== index))}
+                        hitSlop={8}
+                        accessibilityLabel={`Remove option ${index + 1}`}
+                      >
+                        <FontAwesome name="times" size={16} color="#999" />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ))}
+                {pollOptions.length < MAX_POLL_OPTIONS && (
+                  <TouchableOpacity
+                    style={styles.addOptionButton}
+                    onPress={() => setPollOptions((prev) => prev && [...prev, ''])}
+                  >
+                    <FontAwesome name="plus" size={14} color="#FF6B00" />
+                    <Text style={styles.addOptionText}>Add option</Text>
+                  </TouchableOpacity>
+                )}
+
+                <View style={styles.settingItem}>
+                  <Text style={styles.settingLabel}>Poll Length</Text>
+                  <View style={styles.visibilityOptions}>
+                    {POLL_DURATIONS.map((duration) => (
+                      <TouchableOpacity
+                        key={duration.hours}
+                        style={[
+                          styles.visibilityOption,
+                          pollDurationHours === duration.hours && styles.visibilityOptionActive,
+                        ]}
+                        onPress={() => setPollDurationHours(duration.hours)}
+                      >
+                        <Text style={[
+                          styles.visibilityOptionText,
+                          pollDurationHours === duration.hours && styles.visibilityOptionTextActive,
+                        ]}>
+                          {duration.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+
+                {/* Votes as a rewarded engagement, next to likes, comments and shares */}
+                {canReward && (
+                  <View style={styles.settingItem}>
+                    <View style={styles.settingHeader}>
+                      <Text style={styles.settingLabel}>Reward Votes</Text>
+                      <Switch
+                        value={rewardEnabled && rewardVotes}
+                        onValueChange={setRewardVotes}
+                        disabled={!rewardEnabled}
+                        trackColor={{ false: '#ccc', true: '#FF6B00' }}
+                        thumbColor={rewardEnabled && rewardVotes ? '#fff' : '#f4f3f4'}
+                      />
+                    </View>
+                    {!rewardEnabled ? (
+                      <Text style={styles.pollHint}>Turn on rewards in Settings to pay voters from the reward pool.</Text>
+                    ) : rewardVotes && (
+                      <View style={styles.rewardSettings}>
+                        <View style={styles.rewardInput}>
+                          <Text style={styles.rewardLabel}>Per Vote ({rewardCoinSymbol})</Text>
+                          <TextInput
+                            style={styles.rewardTextInput}
+                            value={rewardVoteAmount.toString()}
+                            onChangeText={(text) => setRewardVoteAmount(parseFloat(text) || 0)}
+                            keyboardType="numeric"
+                            placeholder="1"
+                          />
+                        </View>
+                      </View>
+                    )}
+                  </View>
+                )}
+              </View>
+
+              <View style={styles.stepActions}>
+                <TouchableOpacity 
+                  onPress={() => setPostCreationStep(1)} 
+                  style={styles.backButton}
+                >
+                  <FontAwesome name="arrow-left" size={16} color="#666" />
+                  <Text style={styles.backButtonText}>Back</Text>
+                </TouchableOpacity>
+                <TouchableOpacity 
+                  onPress={() => {
+                    setPollOptions(null);
+                    setPostCreationStep(1);
+                  }} 
+                  style={styles.backButton}
+                >
+                  <FontAwesome name="trash-o" size={16} color="#ff4757" />
+                  <Text style={[styles.backButtonText, styles.removePollText]}>Remove Poll</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
         </ScrollView>
       </KeyboardAvoidingView>
+
+      <DraftListModal
+        visible={draftsVisible}
+        onClose={() => setDraftsVisible(false)}
+        onSelect={resumeDraft}
+        currentDraftId={draftIdRef.current}
+      />
     </Modal>
   );
 }
@@ -632,6 +1033,7 @@ const styles = StyleSheet.create({
   },
   actions: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 16,
     marginTop: 16,
   },
@@ -656,6 +1058,11 @@ const styles = StyleSheet.create({
   progressItem: {
     marginBottom: 12,
   },
+  progressHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
   progressText: {
     fontSize: 14,
     color: '#666',
@@ -698,6 +1105,7 @@ const styles = StyleSheet.create({
   },
   visibilityOptions: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 8,
   },
   visibilityOption: {
@@ -833,6 +1241,61 @@ const styles = StyleSheet.create({
   coinOptionBalanceActive: {
     color: '#fff',
   },
+  coinOptionReserved: {
+    fontSize: 10,
+    color: '#999',
+    marginTop: 2,
+  },
+  pollPreview: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#FFE0CC',
+    backgroundColor: '#FFF3EB',
+    marginBottom: 8,
+  },
+  pollPreviewText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  pollHint: {
+    fontSize: 13,
+    color: '#999',
+    marginBottom: 12,
+  },
+  pollOptionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  pollOptionInput: {
+    flex: 1,
+  },
+  addOptionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    marginBottom: 16,
+  },
+  addOptionText: {
+    fontSize: 14,
+    color: '#FF6B00',
+    fontWeight: '600',
+  },
+  removePollText: {
+    color: '#ff4757',
+  },
+  scheduleNote: {
+    fontSize: 12,
+    color: '#666',
+    lineHeight: 18,
+  },
   rewardTextInputError: {
     borderColor: '#ff4757',
     borderWidth: 2,
@@ -14,15 +14,23 @@ import {
   Animated,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { apiClient } from '../lib/apiClient';
+import { api } from '../lib/api';
+import { outbox } from '../lib/outbox';
 import Toast from 'react-native-toast-message';
 import { FeedMediaGrid } from './FeedMediaGrid';
 import { MentionText } from './MentionText';
+import { PollView } from './PollView';
+import { LinkPreviewCard } from './LinkPreviewCard';
 import { MentionInput } from './MentionInput';
+import { PendingComments } from './PendingComments';
 import { ShareModal } from './ShareModal';
+import { BookmarkButton } from './BookmarkButton';
 import { ImageZoomViewer } from './ImageZoomViewer';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { Comment, FeedPost } from './CommentModal';
+import { logger } from '../lib/logger';
+
+const log = logger.scope('feed');
 
 type PostDetailModalProps = {
   visible: boolean;
@@ -35,6 +43,8 @@ type PostDetailModalProps = {
   isLiking?: boolean;
   isSharing?: boolean;
   highlightCommentId?: string | null;
+  // Shown under the header, e.g. the offline banner
+  banner?: React.ReactNode;
 };
 
 export function PostDetailModal({
@@ -48,6 +58,7 @@ export function PostDetailModal({
   isLiking = false,
   isSharing = false,
   highlightCommentId = null,
+  banner,
 }: PostDetailModalProps) {
   const insets = useSafeAreaInsets();
   // Local state for post to allow optimistic updates
@@ -88,7 +99,7 @@ export function PostDetailModal({
 
   useEffect(() => {
     if (visible && highlightCommentId) {
-      console.log('🎯 PostDetailModal: Initializing highlight animation', {
+      log.debug('PostDetailModal: Initializing highlight animation', {
         highlightCommentId,
         visible,
         commentsCount: comments.length,
@@ -106,7 +117,7 @@ export function PostDetailModal({
 
   useEffect(() => {
     if (visible && highlightCommentId && comments.length > 0) {
-      console.log('🎯 PostDetailModal: Highlight comment effect triggered', {
+      log.debug('PostDetailModal: Highlight comment effect triggered', {
         highlightCommentId,
         visible,
         commentsCount: comments.length,
@@ -114,7 +125,7 @@ export function PostDetailModal({
       });
 
       const timer = setTimeout(() => {
-        console.log('🎯 PostDetailModal: Checking for comment layout', {
+        log.debug('PostDetailModal: Checking for comment layout', {
           highlightCommentId,
           availableLayouts: Object.keys(commentLayouts.current),
           layoutData: commentLayouts.current[highlightCommentId],
@@ -122,7 +133,7 @@ export function PostDetailModal({
 
         const layout = commentLayouts.current[highlightCommentId];
         if (layout && scrollViewRef.current) {
-          console.log('✅ PostDetailModal: Found layout, scrolling and highlighting', {
+          log.debug('PostDetailModal: Found layout, scrolling and highlighting', {
             highlightCommentId,
             layoutY: layout.y,
             layoutHeight: layout.height,
@@ -137,7 +148,7 @@ export function PostDetailModal({
           const scrollY = layout.absoluteY !== undefined 
             ? Math.max(0, layout.absoluteY - 100)
             : Math.max(0, layout.y - 100);
-          console.log('📜 PostDetailModal: Scrolling to', { 
+          log.debug('PostDetailModal: Scrolling to', { 
             scrollY, 
             layoutY: layout.y, 
             absoluteY: layout.absoluteY,
@@ -164,7 +175,7 @@ export function PostDetailModal({
                 useNativeDriver: false,
               }),
             ]).start(() => {
-              console.log('✅ PostDetailModal: Highlight animation completed', { highlightCommentId });
+              log.debug('PostDetailModal: Highlight animation completed', { highlightCommentId });
               // Clean up after animation
               setTimeout(() => {
                 delete highlightAnimations.current[highlightCommentId];
@@ -173,7 +184,7 @@ export function PostDetailModal({
             });
           }, 300);
         } else {
-          console.warn('❌ PostDetailModal: Layout not found or ScrollView ref missing', {
+          log.warn('PostDetailModal: Layout not found or ScrollView ref missing', {
             highlightCommentId,
             hasLayout: !!layout,
             hasScrollViewRef: !!scrollViewRef.current,
@@ -191,24 +202,17 @@ export function PostDetailModal({
   // Handle share to timeline
   const handleShareToTimeline = useCallback(async (comment?: string) => {
     if (!displayPost || isSharingToTimeline) {
-      console.log('PostDetailModal: Cannot share - no post or already sharing');
+      log.debug('PostDetailModal: Cannot share - no post or already sharing');
       return;
     }
 
-    console.log('PostDetailModal: Sharing to timeline', { postId: displayPost.id, comment });
+    log.debug('PostDetailModal: Sharing to timeline', { postId: displayPost.id, comment });
 
     setIsSharingToTimeline(true);
     try {
-      const response = await apiClient.request<{ 
-        id: string; 
-        shares_count: number;
-        shared_post?: FeedPost;
-      }>(`/v1/feed/posts/${displayPost.id}/share`, {
-        method: 'POST',
-        data: { comment, share_to_timeline: true }
-      });
+      const response = await api.feed.sharePost(displayPost.id, { comment, share_to_timeline: true });
 
-      console.log('PostDetailModal: Share response', { ok: response.ok, hasData: !!response.data });
+      log.debug('PostDetailModal: Share response', { ok: response.ok, hasData: !!response.data });
 
       if (response.ok && response.data) {
         // Update the post's shares count
@@ -225,7 +229,7 @@ export function PostDetailModal({
         // ShareModal will show success toast and close itself
       } else {
         const errorMessage = response.errors?.[0]?.detail || 'Failed to share post';
-        console.error('PostDetailModal: Share failed', response.errors);
+        log.error('PostDetailModal: Share failed', response.errors);
         Toast.show({
           type: 'error',
           text1: 'Error',
@@ -235,7 +239,7 @@ export function PostDetailModal({
         throw new Error(errorMessage);
       }
     } catch (error) {
-      console.error('PostDetailModal: Share to timeline error:', error);
+      log.error('PostDetailModal: Share to timeline error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -282,9 +286,7 @@ export function PostDetailModal({
 
     setLoadingComments(true);
     try {
-      const response = await apiClient.get<Comment[]>(
-        `/v1/feed/posts/${postId}/comments`
-      );
+      const response = await api.feed.comments(postId);
 
       if (response.ok && response.data) {
         const commentsWithReplies = response.data.map(comment => ({
@@ -298,10 +300,10 @@ export function PostDetailModal({
           }))
         }));
         setComments(commentsWithReplies);
-        console.log('PostDetailModal: Loaded comments', { count: commentsWithReplies.length });
+        log.debug('PostDetailModal: Loaded comments', { count: commentsWithReplies.length });
       }
     } catch (error) {
-      console.error('Load comments error:', error);
+      log.error('Load comments error:', error);
     } finally {
       setLoadingComments(false);
     }
@@ -319,6 +321,18 @@ export function PostDetailModal({
     }
   }, [visible, displayPost?.id, loadComments]);
 
+  // Pull in comments the outbox managed to send while this modal is open
+  useEffect(() => {
+    if (!visible || !displayPost?.id) return;
+
+    const postId = displayPost.id;
+    return outbox.onSettled((entry) => {
+      if (entry.kind === 'comment' && entry.targetId === postId) {
+        loadComments(postId);
+      }
+    });
+  }, [visible, displayPost?.id, loadComments]);
+
   // Handle Android back button
   useEffect(() => {
     if (!visible) return;
@@ -335,31 +349,40 @@ export function PostDetailModal({
 
   const handleSubmitComment = useCallback(async (parentId?: string) => {
     if (!displayPost) {
-      console.log('PostDetailModal: Cannot submit comment - no post');
+      log.debug('PostDetailModal: Cannot submit comment - no post');
       return;
     }
 
     const content = parentId ? (replyContent[parentId] || '').trim() : newComment.trim();
     if (!content) {
-      console.log('PostDetailModal: Cannot submit comment - no content');
+      log.debug('PostDetailModal: Cannot submit comment - no content');
       return;
     }
 
-    console.log('PostDetailModal: Submitting comment', { parentId, contentLength: content.length });
+    log.debug('PostDetailModal: Submitting comment', { parentId, contentLength: content.length });
 
     setCommenting(true);
     try {
-      const response = await apiClient.request<Comment>(`/v1/feed/posts/${displayPost.id}/comment`, {
-        method: 'POST',
-        data: {
-          content,
-          parent_id: parentId || null,
-        },
+      const response = await api.feed.addComment(displayPost.id, {
+        content,
+        parent_id: parentId || null,
       });
 
-      console.log('PostDetailModal: Comment response', { ok: response.ok, hasData: !!response.data, errors: response.errors });
+      log.debug('PostDetailModal: Comment response', { ok: response.ok, hasData: !!response.data, errors: response.errors });
 
-      if (response.ok && response.data) {
+      if (response.queued) {
+        if (parentId) {
+          setReplyContent((prev) => ({ ...prev, [parentId]: '' }));
+          setReplyingTo(null);
+        } else {
+          setNewComment('');
+        }
+        Toast.show({
+          type: 'info',
+          text1: "You're offline",
+          text2: 'Your comment will be posted when you reconnect',
+        });
+      } else if (response.ok && response.data) {
         const newCommentData = {
           ...response.data,
           replies: response.data.replies || [],
@@ -401,7 +424,7 @@ export function PostDetailModal({
       } else {
         // Response not ok
         const errorMessage = response.errors?.[0]?.detail || 'Failed to post comment';
-        console.error('PostDetailModal: Comment submission failed', response.errors);
+        log.error('PostDetailModal: Comment submission failed', response.errors);
         Toast.show({
           type: 'error',
           text1: 'Error',
@@ -409,7 +432,7 @@ export function PostDetailModal({
         });
       }
     } catch (error) {
-      console.error('PostDetailModal: Submit comment error:', error);
+      log.error('PostDetailModal: Submit comment error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -421,15 +444,15 @@ export function PostDetailModal({
   }, [displayPost, newComment, replyContent, onUpdatePost]);
 
   const handleLikeComment = useCallback(async (commentId: string) => {
-    console.log('PostDetailModal: handleLikeComment called', { commentId, hasPost: !!displayPost, likingComment });
+    log.debug('PostDetailModal: handleLikeComment called', { commentId, hasPost: !!displayPost, likingComment });
     
     if (!displayPost) {
-      console.log('PostDetailModal: Cannot like comment - no post');
+      log.debug('PostDetailModal: Cannot like comment - no post');
       return;
     }
     
     if (likingComment) {
-      console.log('PostDetailModal: Already liking a comment, ignoring');
+      log.debug('PostDetailModal: Already liking a comment, ignoring');
       return;
     }
 
@@ -440,21 +463,21 @@ export function PostDetailModal({
     const topLevelComment = comments.find((c) => c.id === commentId);
     if (topLevelComment) {
       targetComment = topLevelComment;
-      console.log('PostDetailModal: Found top-level comment', { is_liked: topLevelComment.is_liked, likes_count: topLevelComment.likes_count });
+      log.debug('PostDetailModal: Found top-level comment', { is_liked: topLevelComment.is_liked, likes_count: topLevelComment.likes_count });
     } else {
       // If not found, check if it's a reply
       for (const comment of comments) {
         const reply = comment.replies?.find((r) => r.id === commentId);
         if (reply) {
           targetComment = reply;
-          console.log('PostDetailModal: Found reply', { is_liked: reply.is_liked, likes_count: reply.likes_count });
+          log.debug('PostDetailModal: Found reply', { is_liked: reply.is_liked, likes_count: reply.likes_count });
           break;
         }
       }
     }
 
     if (!targetComment) {
-      console.log('PostDetailModal: Comment not found', { commentId, commentsCount: comments.length });
+      log.debug('PostDetailModal: Comment not found', { commentId, commentsCount: comments.length });
       return;
     }
 
@@ -495,13 +518,10 @@ export function PostDetailModal({
     );
 
     try {
-      console.log('PostDetailModal: Calling API to like comment', { postId: displayPost.id, commentId });
-      const response = await apiClient.request<{ liked: boolean; likes_count: number }>(
-        `/v1/feed/posts/${displayPost.id}/comments/${commentId}/like`,
-        { method: 'POST' }
-      );
+      log.debug('PostDetailModal: Calling API to like comment', { postId: displayPost.id, commentId });
+      const response = await api.feed.likeComment({ postId: displayPost.id, commentId });
 
-      console.log('PostDetailModal: Like comment API response', { ok: response.ok, hasData: !!response.data, errors: response.errors });
+      log.debug('PostDetailModal: Like comment API response', { ok: response.ok, hasData: !!response.data, errors: response.errors });
 
       if (response.ok && response.data) {
         // Update with actual server response
@@ -555,7 +575,7 @@ export function PostDetailModal({
         );
       }
     } catch (error) {
-      console.error('PostDetailModal: Like comment error:', error);
+      log.error('PostDetailModal: Like comment error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -609,7 +629,7 @@ export function PostDetailModal({
     
     // Log when rendering highlighted comment
     if (isHighlighted) {
-      console.log('✨ PostDetailModal: Rendering highlighted comment', {
+      log.debug('PostDetailModal: Rendering highlighted comment', {
         commentId: comment.id,
         isReply,
         hasAnim: !!highlightAnim,
@@ -619,7 +639,7 @@ export function PostDetailModal({
     
     // Log when rendering highlighted comment
     if (isHighlighted) {
-      console.log('✨ PostDetailModal: Rendering highlighted comment', {
+      log.debug('PostDetailModal: Rendering highlighted comment', {
         commentId: comment.id,
         isReply,
         hasAnim: !!highlightAnim,
@@ -645,7 +665,7 @@ export function PostDetailModal({
               // Calculate relative Y position within ScrollView
               const relativeY = commentAbsoluteY - scrollAbsoluteY;
               commentLayouts.current[comment.id] = { y, height, absoluteY: relativeY };
-              console.log('📐 PostDetailModal: Comment layout measured', {
+              log.debug('PostDetailModal: Comment layout measured', {
                 commentId: comment.id,
                 y,
                 height,
@@ -658,7 +678,7 @@ export function PostDetailModal({
               // If this is the target, scroll immediately (animation will be handled by useEffect)
               if (highlightCommentId === comment.id) {
                 const scrollY = Math.max(0, relativeY - 100);
-                console.log('🎯 PostDetailModal: Immediate scroll to comment', {
+                log.debug('PostDetailModal: Immediate scroll to comment', {
                   commentId: comment.id,
                   relativeY,
                   scrollY,
@@ -823,6 +843,7 @@ export function PostDetailModal({
           <Text style={styles.title}>Post</Text>
           <View style={{ width: 24 }} />
         </View>
+        {banner}
 
         <ScrollView 
           ref={scrollViewRef}
@@ -870,6 +891,12 @@ export function PostDetailModal({
               />
             )}
 
+            {displayPost.poll && <PollView post={displayPost} live />}
+
+            {displayPost.link_preview && !displayPost.media?.length && (
+              <LinkPreviewCard preview={displayPost.link_preview} />
+            )}
+
             {/* Post Actions */}
             <View style={styles.postActions}>
               <TouchableOpacity 
@@ -900,12 +927,15 @@ export function PostDetailModal({
                 <FontAwesome name="share" size={20} color="#666" />
                 <Text style={styles.actionText}>{(displayPost as any).shares_count || 0}</Text>
               </TouchableOpacity>
+
+              <BookmarkButton post={displayPost} style={styles.actionButton} size={20} />
             </View>
           </View>
 
           {/* Comments Section */}
           <View style={styles.commentsSection}>
             <Text style={styles.commentsSectionTitle}>Comments</Text>
+            <PendingComments postId={displayPost.id} />
             
             {loadingComments ? (
               <View style={styles.loadingContainer}>
@@ -924,7 +954,7 @@ export function PostDetailModal({
                 const isInReplies = comment.replies?.some((r: any) => r.id === highlightCommentId);
                 if (isInReplies && !expandedReplies[comment.id]) {
                   // Auto-expand replies if target is in replies
-                  console.log('📂 PostDetailModal: Auto-expanding replies to show highlighted comment', {
+                  log.debug('PostDetailModal: Auto-expanding replies to show highlighted comment', {
                     commentId: comment.id,
                     highlightCommentId,
                   });
@@ -0,0 +1,212 @@
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import {
+  MAX_SCHEDULE_DAYS,
+  deviceTimeZone,
+  formatScheduledAt,
+  formatUtcOffset,
+  validateScheduleTime,
+} from '../lib/scheduledPosts';
+
+type ScheduleTimePickerProps = {
+  value: Date;
+  onChange: (date: Date) => void;
+};
+
+// Hours that usually get the most engagement, offered as one-tap shortcuts
+const PEAK_HOURS = [9, 12, 18, 21];
+const MINUTE_STEP = 5;
+
+const startOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+const isSameDay = (a: Date, b: Date) => startOfDay(a).getTime() === startOfDay(b).getTime();
+
+const dayLabel = (day: Date, index: number) => {
+  if (index === 0) return 'Today';
+  if (index === 1) return 'Tomorrow';
+  return day.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+};
+
+const timeLabel = (hours: number, minutes = 0) => {
+  const date = new Date();
+  date.setHours(hours, minutes, 0, 0);
+  return date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+};
+
+/**
+ * Day and time of day for a scheduled post, in the device's time zone.
+ */
+export function ScheduleTimePicker({ value, onChange }: ScheduleTimePickerProps) {
+  const days = useMemo(() => {
+    const today = startOfDay(new Date());
+    return Array.from({ length: MAX_SCHEDULE_DAYS + 1 }, (_, index) => {
+      const day = new Date(today);
+      day.setDate(today.getDate() + index);
+      return day;
+    });
+  }, []);
+
+  const hours = value.getHours();
+  const minutes = value.getMinutes();
+  const error = validateScheduleTime(value);
+
+  const selectDay = (day: Date) => {
+    const next = new Date(day);
+    next.setHours(hours, minutes, 0, 0);
+    onChange(next);
+  };
+
+  const selectTime = (nextHours: number, nextMinutes: number) => {
+    const next = new Date(value);
+    next.setHours((nextHours + 24) % 24, (nextMinutes + 60) % 60, 0, 0);
+    onChange(next);
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {days.map((day, index) => {
+          const isActive = isSameDay(day, value);
+          return (
+            <TouchableOpacity
+              key={day.getTime()}
+              style={[styles.chip, isActive && styles.chipActive]}
+              onPress={() => selectDay(day)}
+            >
+              <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{dayLabel(day, index)}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      <View style={styles.timeRow}>
+        <View style={styles.stepper}>
+          <TouchableOpacity onPress={() => selectTime(hours - 1, minutes)} hitSlop={8} accessibilityLabel="Earlier hour">
+            <FontAwesome name="minus" size={12} color="#666" />
+          </TouchableOpacity>
+          <Text style={styles.stepperValue}>{String(hours).padStart(2, '0')}</Text>
+          <TouchableOpacity onPress={() => selectTime(hours + 1, minutes)} hitSlop={8} accessibilityLabel="Later hour">
+            <FontAwesome name="plus" size={12} color="#666" />
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.separator}>:</Text>
+        <View style={styles.stepper}>
+          <TouchableOpacity
+            onPress={() => selectTime(hours, minutes - MINUTE_STEP)}
+            hitSlop={8}
+            accessibilityLabel="Earlier minutes"
+          >
+            <FontAwesome name="minus" size={12} color="#666" />
+          </TouchableOpacity>
+          <Text style={styles.stepperValue}>{String(minutes).padStart(2, '0')}</Text>
+          <TouchableOpacity
+            onPress={() => selectTime(hours, minutes + MINUTE_STEP)}
+            hitSlop={8}
+            accessibilityLabel="Later minutes"
+          >
+            <FontAwesome name="plus" size={12} color="#666" />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <View style={styles.chipRow}>
+        {PEAK_HOURS.map((hour) => {
+          const isActive = hours === hour && minutes === 0;
+          return (
+            <TouchableOpacity
+              key={hour}
+              style={[styles.chip, isActive && styles.chipActive]}
+              onPress={() => selectTime(hour, 0)}
+            >
+              <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{timeLabel(hour)}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={styles.summary}>Goes live {formatScheduledAt(value)}</Text>
+      <Text style={styles.timeZone}>
+        <FontAwesome name="globe" size={12} color="#999" /> {deviceTimeZone()} ({formatUtcOffset(value)})
+      </Text>
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+  },
+  chipActive: {
+    backgroundColor: '#FFF3EB',
+    borderColor: '#FF6B00',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  chipTextActive: {
+    color: '#FF6B00',
+    fontWeight: '600',
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+  },
+  stepperValue: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000',
+    minWidth: 28,
+    textAlign: 'center',
+  },
+  separator: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000',
+  },
+  summary: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#000',
+  },
+  timeZone: {
+    fontSize: 12,
+    color: '#999',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#ff4757',
+    fontStyle: 'italic',
+  },
+});
@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import Toast from 'react-native-toast-message';
+import {
+  deviceTimeZone,
+  formatScheduledAt,
+  scheduledPostService,
+  validateScheduleTime,
+  type ScheduledPost,
+} from '../lib/scheduledPosts';
+import { ScheduleTimePicker } from './ScheduleTimePicker';
+
+type ScheduledPostEditModalProps = {
+  // null hides the modal
+  post: ScheduledPost | null;
+  // Edit the text and visibility, or pick a new publish time
+  mode: 'edit' | 'reschedule';
+  onClose: () => void;
+};
+
+const VISIBILITIES = ['public', 'followers', 'private'] as const;
+
+export function ScheduledPostEditModal({ post, mode, onClose }: ScheduledPostEditModalProps) {
+  const [content, setContent] = useState('');
+  const [visibility, setVisibility] = useState<ScheduledPost['visibility']>('public');
+  const [scheduledAt, setScheduledAt] = useState(() => new Date());
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!post) return;
+    setContent(post.content ?? '');
+    setVisibility(post.visibility);
+    setScheduledAt(new Date(post.scheduled_at));
+  }, [post]);
+
+  const handleSave = async () => {
+    if (!post || isSaving) return;
+
+    if (mode === 'reschedule') {
+      const error = validateScheduleTime(scheduledAt);
+      if (error) {
+        Toast.show({ type: 'error', text1: 'Error', text2: error });
+        return;
+      }
+    } else if (!content.trim() && post.media.length === 0) {
+      Toast.show({ type: 'error', text1: 'Error', text2: 'Please add some content' });
+      return;
+    }
+
+    setIsSaving(true);
+    const response = await scheduledPostService.update(
+      post,
+      mode === 'reschedule'
+        ? { scheduled_at: scheduledAt.toISOString(), time_zone: deviceTimeZone() }
+        : { content: content.trim() || null, visibility }
+    );
+    setIsSaving(false);
+
+    if (response.ok && response.status < 300) {
+      Toast.show({
+        type: 'success',
+        text1: mode === 'reschedule' ? 'Rescheduled' : 'Saved',
+        text2: mode === 'reschedule' ? `Goes live ${formatScheduledAt(scheduledAt)}` : undefined,
+      });
+      onClose();
+    } else {
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: response.errors?.[0]?.detail || 'Failed to update scheduled post',
+      });
+    }
+  };
+
+  return (
+    <Modal visible={!!post} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{mode === 'reschedule' ? 'Reschedule Post' : 'Edit Scheduled Post'}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <FontAwesome name="times" size={20} color="#000" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalBody} keyboardShouldPersistTaps="handled">
+            {mode === 'reschedule' ? (
+              <ScheduleTimePicker value={scheduledAt} onChange={setScheduledAt} />
+            ) : (
+              <>
+                <TextInput
+                  style={styles.input}
+                  value={content}
+                  onChangeText={setContent}
+                  placeholder="What's on your mind?"
+                  placeholderTextColor="#999"
+                  multiline
+                />
+                <View style={styles.visibilityOptions}>
+                  {VISIBILITIES.map((option) => (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.visibilityOption, visibility === option && styles.visibilityOptionActive]}
+                      onPress={() => setVisibility(option)}
+                    >
+                      <Text style={[styles.visibilityText, visibility === option && styles.visibilityTextActive]}>
+                        {option.charAt(0).toUpperCase() + option.slice(1)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+
+            <TouchableOpacity
+              style={[styles.saveButton, isSaving && styles.buttonDisabled]}
+              onPress={handleSave}
+              disabled={isSaving}
+            >
+              {isSaving ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.saveButtonText}>{mode === 'reschedule' ? 'Reschedule' : 'Save'}</Text>
+              )}
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '80%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000',
+  },
+  modalBody: {
+    padding: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 15,
+    color: '#000',
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
+  visibilityOptions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  visibilityOption: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f5f5f5',
+  },
+  visibilityOptionActive: {
+    backgroundColor: '#FF6B00',
+  },
+  visibilityText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  visibilityTextActive: {
+    color: '#fff',
+  },
+  saveButton: {
+    backgroundColor: '#FF6B00',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 20,
+    marginBottom: 32,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { View, Text, Image, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import Toast from 'react-native-toast-message';
+import { formatScheduledAt, formatUtcOffset, scheduledPostService, type ScheduledPost } from '../lib/scheduledPosts';
+import { useScheduledPosts } from '../hooks/useScheduledPosts';
+import { ScheduledPostEditModal } from './ScheduledPostEditModal';
+
+/**
+ * The signed-in creator's scheduled posts, with edit, reschedule and cancel.
+ */
+export function ScheduledPostList() {
+  const { data: posts, isLoading, error } = useScheduledPosts();
+  const [editing, setEditing] = useState<{ post: ScheduledPost; mode: 'edit' | 'reschedule' } | null>(null);
+  const [cancelling, setCancelling] = useState<string | null>(null);
+
+  const confirmCancel = (post: ScheduledPost) => {
+    const refund = post.reward_enabled && post.reward_pool > 0
+      ? ` The ${post.reward_pool.toLocaleString()} ${post.reward_coin_symbol} reward pool goes back to your wallet.`
+      : '';
+    Alert.alert('Cancel Scheduled Post', `This post won't be published.${refund}`, [
+      { text: 'Keep', style: 'cancel' },
+      {
+        text: 'Cancel Post',
+        style: 'destructive',
+        onPress: async () => {
+          setCancelling(post.id);
+          const response = await scheduledPostService.cancel(post);
+          setCancelling(null);
+          if (!(response.ok && response.status < 300)) {
+            Toast.show({
+              type: 'error',
+              text1: 'Error',
+              text2: response.errors?.[0]?.detail || 'Failed to cancel scheduled post',
+            });
+          }
+        },
+      },
+    ]);
+  };
+
+  if (isLoading) {
+    return <ActivityIndicator color="#FF6B00" style={styles.loader} />;
+  }
+
+  if (!posts || posts.length === 0) {
+    return (
+      <View style={styles.emptyContainer}>
+        <FontAwesome name="calendar-o" size={36} color="#ccc" />
+        <Text style={styles.emptyText}>{error ? 'Failed to load scheduled posts' : 'Nothing scheduled'}</Text>
+        {!error && (
+          <Text style={styles.emptySubtext}>Turn on "Schedule for Later" in a new post's settings to publish it later.</Text>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      {posts.map((post) => {
+        const scheduledAt = new Date(post.scheduled_at);
+        const thumbnail = post.media[0]?.thumbnail_url || (post.media[0]?.type === 'image' ? post.media[0].url : null);
+        return (
+          <View key={post.id} style={styles.card}>
+            <View style={styles.cardHeader}>
+              <FontAwesome
+                name={post.status === 'failed' ? 'exclamation-circle' : 'clock-o'}
+                size={14}
+                color={post.status === 'failed' ? '#ff4757' : '#FF6B00'}
+              />
+              <Text style={styles.scheduleText}>{formatScheduledAt(scheduledAt)}</Text>
+              <Text style={styles.timeZoneText}>{formatUtcOffset(scheduledAt)}</Text>
+            </View>
+            {post.status === 'failed' && (
+              <Text style={styles.failedText}>
+                Couldn't be published{post.failure_reason ? `: ${post.failure_reason}` : ''}. Reschedule to try again.
+              </Text>
+            )}
+
+            <View style={styles.cardBody}>
+              <Text style={styles.contentText} numberOfLines={4}>
+                {post.content || 'Photo or video'}
+              </Text>
+              {thumbnail ? <Image source={{ uri: thumbnail }} style={styles.thumbnail} /> : null}
+            </View>
+
+            {post.poll && (
+              <Text style={styles.pollText} numberOfLines={1}>
+                Poll · {post.poll.options.join(' / ')}
+              </Text>
+            )}
+
+            {post.reward_enabled && post.reward_pool > 0 && (
+              <View style={styles.rewardBadge}>
+                <FontAwesome name="gift" size={12} color="#FF6B00" />
+                <Text style={styles.rewardText}>
+                  {post.reward_pool.toLocaleString()} {post.reward_coin_symbol} reserved
+                </Text>
+              </View>
+            )}
+
+            <View style={styles.actions}>
+              <TouchableOpacity style={styles.actionButton} onPress={() => setEditing({ post, mode: 'edit' })}>
+                <FontAwesome name="pencil" size={14} color="#666" />
+                <Text style={styles.actionText}>Edit</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.actionButton} onPress={() => setEditing({ post, mode: 'reschedule' })}>
+                <FontAwesome name="calendar" size={14} color="#666" />
+                <Text style={styles.actionText}>Reschedule</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => confirmCancel(post)}
+                disabled={cancelling === post.id}
+              >
+                {cancelling === post.id ? (
+                  <ActivityIndicator size="small" color="#ff4757" />
+                ) : (
+                  <>
+                    <FontAwesome name="times" size={14} color="#ff4757" />
+                    <Text style={[styles.actionText, styles.cancelText]}>Cancel</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        );
+      })}
+
+      <ScheduledPostEditModal
+        post={editing?.post ?? null}
+        mode={editing?.mode ?? 'edit'}
+        onClose={() => setEditing(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loader: {
+    marginVertical: 32,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 12,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 6,
+  },
+  card: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginBottom: 12,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#f0f0f0',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  scheduleText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+  },
+  timeZoneText: {
+    fontSize: 12,
+    color: '#999',
+  },
+  failedText: {
+    fontSize: 12,
+    color: '#ff4757',
+    marginTop: 6,
+  },
+  cardBody: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  contentText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333',
+    lineHeight: 21,
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+  },
+  pollText: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 8,
+  },
+  rewardBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    marginTop: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#FFF3EB',
+  },
+  rewardText: {
+    fontSize: 12,
+    color: '#FF6B00',
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f5f5f5',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  actionText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  cancelText: {
+    color: '#ff4757',
+  },
+});
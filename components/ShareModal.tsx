@@ -15,6 +15,9 @@ import {
 } from 'react-native';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import Toast from 'react-native-toast-message';
+import { logger } from '../lib/logger';
+
+const log = logger.scope('feed');
 
 type FeedPost = {
   id: string;
@@ -73,28 +76,28 @@ export function ShareModal({
   const handleShareToTimeline = async () => {
     // Prevent double-clicks
     if (isSharing) {
-      console.log('🚫 ShareModal: Already sharing, ignoring click');
+      log.debug('ShareModal: Already sharing, ignoring click');
       return;
     }
 
-    console.log('🚀 ShareModal: handleShareToTimeline called');
-    console.log('🚀 ShareModal: Modal visible:', visible);
-    console.log('🚀 ShareModal: Post ID:', post?.id);
-    console.log('🚀 ShareModal: onShareToTimeline function type:', typeof onShareToTimeline);
+    log.debug('ShareModal: handleShareToTimeline called');
+    log.debug('ShareModal: Modal visible:', visible);
+    log.debug('ShareModal: Post ID:', post?.id);
+    log.debug('ShareModal: onShareToTimeline function type:', typeof onShareToTimeline);
     
     setIsSharing(true);
     try {
-      console.log('📞 ShareModal: About to call onShareToTimeline');
+      log.debug('ShareModal: About to call onShareToTimeline');
       const result = await onShareToTimeline(shareComment.trim() || undefined);
-      console.log('✅ ShareModal: onShareToTimeline completed successfully, result:', result);
+      log.debug('ShareModal: onShareToTimeline completed successfully, result:', result);
       
       // Clear comment and close modal immediately
       setShareComment('');
-      console.log('🔒 ShareModal: Closing modal immediately');
+      log.debug('ShareModal: Closing modal immediately');
       onClose();
       
     } catch (error) {
-      console.error('❌ ShareModal: Share failed:', error);
+      log.error('ShareModal: Share failed:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -103,7 +106,7 @@ export function ShareModal({
       });
       // Don't close modal on error - let user try again
     } finally {
-      console.log('🔄 ShareModal: Setting isSharing to false');
+      log.debug('ShareModal: Setting isSharing to false');
       setIsSharing(false);
     }
   };
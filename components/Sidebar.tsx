@@ -1,35 +1,44 @@
 import React, { useEffect, useState } from 'react';
-import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Image, DeviceEventEmitter } from 'react-native';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Image, DeviceEventEmitter, ActivityIndicator } from 'react-native';
 import { useRouter, usePathname } from 'expo-router';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
+import Toast from 'react-native-toast-message';
 import { useAuth } from '../context/AuthContext';
 import { useNotifications } from '../hooks/useNotifications';
 import { useSidebar } from '../context/SidebarContext';
+import type { StoredAccount } from '../lib/accounts';
+import type { Capability } from '../lib/capabilities';
 
 type SidebarItem = {
   name: string;
   icon: React.ComponentProps<typeof FontAwesome>['name'];
   path: string;
   badge?: number;
+  // Hidden unless the active account has it
+  capability?: Capability;
 };
 
 export function Sidebar() {
   const router = useRouter();
   const pathname = usePathname();
-  const { user, logout } = useAuth();
+  const { user, logout, accounts, switchAccount, setAddingAccount, can } = useAuth();
+  const [switchingTo, setSwitchingTo] = useState<number | null>(null);
+  const otherAccounts = accounts.filter((account) => account.id !== user?.id);
   const { unreadCount } = useNotifications();
   const { closeSidebar } = useSidebar();
 
-  const menuItems: SidebarItem[] = [
+  const allMenuItems: SidebarItem[] = [
     { name: 'Home', icon: 'home', path: '/(tabs)/feed' },
     { name: 'Explore', icon: 'compass', path: '/discover' },
     { name: 'Notifications', icon: 'bell', path: '/(tabs)/notifications', badge: unreadCount || 0 },
     { name: 'Messages', icon: 'envelope', path: '/(tabs)/messaging' },
+    { name: 'Saved', icon: 'bookmark', path: '/saved' },
     { name: 'Profile', icon: 'user', path: `/profile` },
-    { name: 'My Coin', icon: 'money', path: '/(tabs)/my-coin' },
+    { name: 'My Coin', icon: 'money', path: '/(tabs)/my-coin', capability: 'coin.manage' },
     { name: 'Wallet', icon: 'credit-card', path: '/(tabs)/wallet' },
     { name: 'Settings', icon: 'cog', path: '/(tabs)/settings' },
   ];
+  const menuItems = allMenuItems.filter((item) => !item.capability || can(item.capability));
 
   const handleNavigate = (path: string) => {
     closeSidebar();
@@ -49,8 +58,36 @@ export function Sidebar() {
 
   const handleLogout = async () => {
     closeSidebar();
-    await logout();
-    router.replace('/login');
+    const next = await logout();
+    router.replace(next ? '/(tabs)/feed' : '/login');
+  };
+
+  const handleAddAccount = (email?: string) => {
+    closeSidebar();
+    setAddingAccount(true);
+    router.push({ pathname: '/login', params: email ? { email } : {} });
+  };
+
+  const handleSwitchAccount = async (account: StoredAccount) => {
+    if (account.expired) {
+      handleAddAccount(account.email);
+      return;
+    }
+
+    setSwitchingTo(account.id);
+    const result = await switchAccount(account.id);
+    setSwitchingTo(null);
+
+    if (result.success) {
+      closeSidebar();
+      router.replace('/(tabs)/feed');
+    } else {
+      Toast.show({
+        type: 'error',
+        text1: 'Switch Failed',
+        text2: result.error || 'Could not switch accounts',
+      });
+    }
   };
 
   return (
@@ -143,6 +180,51 @@ export function Sidebar() {
           </TouchableOpacity>
         )}
 
+        {/* Account Switcher */}
+        {user && (
+          <View style={styles.accountsContainer}>
+            {otherAccounts.map((account) => (
+              <TouchableOpacity
+                key={account.id}
+                style={styles.accountRow}
+                onPress={() => handleSwitchAccount(account)}
+                disabled={switchingTo !== null}
+              >
+                <View style={styles.accountAvatar}>
+                  {account.avatar_url ? (
+                    <Image source={{ uri: account.avatar_url }} style={styles.userAvatarImage} />
+                  ) : (
+                    <Text style={styles.accountAvatarText}>
+                      {String(account.display_name || account.username || 'U')[0]?.toUpperCase() || 'U'}
+                    </Text>
+                  )}
+                </View>
+                <View style={styles.userInfo}>
+                  <Text style={styles.accountName} numberOfLines={1}>
+                    @{account.username || account.email}
+                  </Text>
+                  {account.expired && <Text style={styles.accountExpired}>Signed out · tap to sign in</Text>}
+                </View>
+                {switchingTo === account.id ? (
+                  <ActivityIndicator size="small" color="#FF6B00" />
+                ) : (
+                  !!account.unread_count && (
+                    <View style={styles.badge}>
+                      <Text style={styles.badgeText}>{String(account.unread_count)}</Text>
+                    </View>
+                  )
+                )}
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity style={styles.accountRow} onPress={() => handleAddAccount()}>
+              <View style={[styles.accountAvatar, styles.addAccountIcon]}>
+                <FontAwesome name="plus" size={12} color="#666" />
+              </View>
+              <Text style={styles.addAccountText}>Add account</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Logout Button - Below User Info */}
         {user && (
           <TouchableOpacity
@@ -279,6 +361,47 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: '#666',
   },
+  accountsContainer: {
+    marginHorizontal: 12,
+    marginBottom: 4,
+  },
+  accountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+  },
+  accountAvatar: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#FFB074',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+    overflow: 'hidden',
+  },
+  accountAvatarText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  accountName: {
+    fontSize: 14,
+    color: '#333',
+  },
+  accountExpired: {
+    fontSize: 12,
+    color: '#dc2626',
+    marginTop: 2,
+  },
+  addAccountIcon: {
+    backgroundColor: '#f0f0f0',
+  },
+  addAccountText: {
+    fontSize: 14,
+    color: '#666',
+  },
   logoutButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,89 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { useSocialSignIn } from '../hooks/useSocialSignIn';
+import type { SocialProvider } from '../lib/auth';
+
+const PROVIDERS: Array<{ id: SocialProvider; label: string; icon: React.ComponentProps<typeof FontAwesome>['name']; color: string }> = [
+  { id: 'google', label: 'Continue with Google', icon: 'google', color: '#DB4437' },
+  { id: 'facebook', label: 'Continue with Facebook', icon: 'facebook', color: '#1877F2' },
+];
+
+interface SocialSignInButtonsProps {
+  // Where to go after signing in (defaults to the feed)
+  redirect?: string;
+  disabled?: boolean;
+}
+
+export function SocialSignInButtons({ redirect, disabled }: SocialSignInButtonsProps) {
+  const { signIn, pendingProvider } = useSocialSignIn({ redirect });
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.divider}>
+        <View style={styles.dividerLine} />
+        <Text style={styles.dividerText}>or</Text>
+        <View style={styles.dividerLine} />
+      </View>
+
+      {PROVIDERS.map((provider) => (
+        <TouchableOpacity
+          key={provider.id}
+          style={[styles.button, (disabled || pendingProvider !== null) && styles.buttonDisabled]}
+          onPress={() => signIn(provider.id)}
+          disabled={disabled || pendingProvider !== null}
+        >
+          {pendingProvider === provider.id ? (
+            <ActivityIndicator color={provider.color} />
+          ) : (
+            <>
+              <FontAwesome name={provider.icon} size={18} color={provider.color} />
+              <Text style={styles.buttonText}>{provider.label}</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 24,
+  },
+  divider: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  dividerLine: {
+    flex: 1,
+    height: 1,
+    backgroundColor: '#eee',
+  },
+  dividerText: {
+    marginHorizontal: 12,
+    fontSize: 14,
+    color: '#999',
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 10,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 14,
+    marginBottom: 12,
+    minHeight: 50,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+});
@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import Toast from 'react-native-toast-message';
+import { toTwoFactorCode, type TwoFactorCode } from '../lib/twoFactor';
+
+export interface TwoFactorCodeModalProps {
+  visible: boolean;
+  title?: string;
+  message?: string;
+  submitLabel?: string;
+  // Resolves false (after showing its own error) to keep the prompt open
+  onSubmit: (code: TwoFactorCode) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+/**
+ * Asks for an authenticator or backup code. Used for step-up verification and
+ * for managing 2FA itself.
+ */
+export default function TwoFactorCodeModal({
+  visible,
+  title = 'Confirm it\'s you',
+  message = 'Enter the 6-digit code from your authenticator app.',
+  submitLabel = 'Verify',
+  onSubmit,
+  onCancel,
+}: TwoFactorCodeModalProps) {
+  const [code, setCode] = useState('');
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      setCode('');
+      setUseBackupCode(false);
+    }
+  }, [visible]);
+
+  const handleSubmit = async () => {
+    if (!code.trim()) {
+      Toast.show({
+        type: 'error',
+        text1: 'Validation Error',
+        text2: useBackupCode ? 'Enter one of your backup codes' : 'Enter the 6-digit code from your authenticator app',
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    const accepted = await onSubmit(toTwoFactorCode(code, useBackupCode));
+    setIsSubmitting(false);
+    if (!accepted) {
+      setCode('');
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="fade" transparent onRequestClose={onCancel}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View style={styles.card}>
+          <View style={styles.iconCircle}>
+            <FontAwesome name="shield" size={24} color="#FF6B00" />
+          </View>
+          <Text style={styles.title}>{title}</Text>
+          <Text style={styles.message}>
+            {useBackupCode ? 'Enter one of your backup codes. Each code works once.' : message}
+          </Text>
+
+          <TextInput
+            style={[styles.input, !useBackupCode && styles.codeInput]}
+            placeholder={useBackupCode ? 'xxxx-xxxx' : '123456'}
+            placeholderTextColor="#999"
+            value={code}
+            onChangeText={setCode}
+            keyboardType={useBackupCode ? 'default' : 'number-pad'}
+            autoCapitalize="none"
+            autoComplete={useBackupCode ? 'off' : 'one-time-code'}
+            textContentType="oneTimeCode"
+            maxLength={useBackupCode ? 20 : 6}
+            autoFocus
+            editable={!isSubmitting}
+            onSubmitEditing={handleSubmit}
+          />
+
+          <TouchableOpacity
+            style={[styles.button, isSubmitting && styles.buttonDisabled]}
+            onPress={handleSubmit}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>{submitLabel}</Text>}
+          </TouchableOpacity>
+
+          <View style={styles.footer}>
+            <TouchableOpacity
+              onPress={() => {
+                setUseBackupCode((prev) => !prev);
+                setCode('');
+              }}
+              disabled={isSubmitting}
+            >
+              <Text style={styles.linkText}>{useBackupCode ? 'Use authenticator app' : 'Use a backup code'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={onCancel} disabled={isSubmitting}>
+              <Text style={styles.mutedText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 24,
+  },
+  iconCircle: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#FFF3E8',
+    justifyContent: 'center',
+    alignItems: 'center',
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#000',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    color: '#000',
+    marginBottom: 16,
+  },
+  codeInput: {
+    fontSize: 24,
+    letterSpacing: 10,
+    textAlign: 'center',
+    fontWeight: '600',
+  },
+  button: {
+    backgroundColor: '#FF6B00',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  linkText: {
+    color: '#FF6B00',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  mutedText: {
+    color: '#666',
+    fontSize: 14,
+  },
+});
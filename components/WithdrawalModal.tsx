@@ -18,6 +18,11 @@ import {
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { apiClient } from '../lib/apiClient';
 import Toast from 'react-native-toast-message';
+import { logger } from '../lib/logger';
+import { useStepUp } from '../hooks/useStepUp';
+import TwoFactorCodeModal from './TwoFactorCodeModal';
+
+const log = logger.scope('wallet');
 
 type Bank = {
   name: string;
@@ -80,6 +85,8 @@ export default function WithdrawalModal({
   coinBalances,
   onWithdrawalSuccess,
 }: WithdrawalModalProps) {
+  const { requireStepUp, spendStepUp, stepUpModalProps } = useStepUp();
+
   // Step management
   const [currentStep, setCurrentStep] = useState<'currency' | 'amount' | 'bank' | 'confirm'>('currency');
   const [selectedCurrency, setSelectedCurrency] = useState<'NGN' | 'USD'>('NGN');
@@ -156,7 +163,7 @@ export default function WithdrawalModal({
       if (response.ok && response.data) {
         setWithdrawalLimits(response.data);
       } else {
-        console.error('Failed to fetch withdrawal config:', response.errors);
+        log.error('Failed to fetch withdrawal config:', response.errors);
         Toast.show({
           type: 'error',
           text1: 'Configuration Error',
@@ -165,7 +172,7 @@ export default function WithdrawalModal({
         });
       }
     } catch (error) {
-      console.error('Error fetching withdrawal config:', error);
+      log.error('Error fetching withdrawal config:', error);
       Toast.show({
         type: 'error',
         text1: 'Network Error',
@@ -183,16 +190,16 @@ export default function WithdrawalModal({
     setIsLoadingBanks(true);
     try {
       const response = await apiClient.get<{banks: Bank[]}>('/v1/withdrawals/banks');
-      console.log('Banks API response:', { ok: response.ok, data: response.data, type: typeof response.data });
+      log.debug('Banks API response:', { ok: response.ok, data: response.data, type: typeof response.data });
       
       // The API returns { banks: [...] } not just the array directly
       const banksArray = response.data?.banks;
       
       if (response.ok && banksArray && Array.isArray(banksArray)) {
-        console.log('Setting banks:', banksArray.length, 'banks loaded');
+        log.debug('Setting banks:', banksArray.length, 'banks loaded');
         setBanks(banksArray);
       } else {
-        console.error('Invalid banks response:', response.data);
+        log.error('Invalid banks response:', response.data);
         setBanks([]); // Set to empty array on error
         Toast.show({
           type: 'error',
@@ -202,7 +209,7 @@ export default function WithdrawalModal({
         });
       }
     } catch (error) {
-      console.error('Error fetching banks:', error);
+      log.error('Error fetching banks:', error);
       setBanks([]); // Set to empty array on error
       Toast.show({
         type: 'error',
@@ -297,7 +304,7 @@ export default function WithdrawalModal({
         });
       }
     } catch (error) {
-      console.error('Error calculating withdrawal:', error);
+      log.error('Error calculating withdrawal:', error);
       setWithdrawalCalculation(null);
     } finally {
       setIsCalculating(false);
@@ -327,7 +334,7 @@ export default function WithdrawalModal({
       return;
     }
 
-    console.log('Verifying account:', {
+    log.debug('Verifying account:', {
       bank_code: selectedBank.code,
       account_number: cleanAccountNumber,
       bank_name: selectedBank.name
@@ -358,9 +365,9 @@ export default function WithdrawalModal({
         });
       }
     } catch (error: any) {
-      console.error('Error verifying account:', error);
-      console.error('Error response data:', error.response?.data);
-      console.error('Error status:', error.response?.status);
+      log.error('Error verifying account:', error);
+      log.error('Error response data:', error.response?.data);
+      log.error('Error status:', error.response?.status);
       
       setAccountName('');
       
@@ -404,9 +411,13 @@ export default function WithdrawalModal({
           text: 'Confirm',
           style: 'destructive',
           onPress: async () => {
+            const proof = await requireStepUp('confirm this withdrawal');
+            if (!proof) return;
+
             setIsProcessing(true);
             try {
               const response = await apiClient.post('/v1/withdrawals', {
+                ...proof,
                 coin_symbol: coinSymbol,
                 coin_amount: parseFloat(coinAmount),
                 bank_code: selectedBank.code,
@@ -415,6 +426,7 @@ export default function WithdrawalModal({
               });
 
               if (response.ok) {
+                spendStepUp();
                 Toast.show({
                   type: 'success',
                   text1: 'Withdrawal Initiated',
@@ -433,7 +445,7 @@ export default function WithdrawalModal({
                 });
               }
             } catch (error) {
-              console.error('Error processing withdrawal:', error);
+              log.error('Error processing withdrawal:', error);
               Toast.show({
                 type: 'error',
                 text1: 'Withdrawal Failed',
@@ -907,6 +919,7 @@ export default function WithdrawalModal({
           </View>
         </KeyboardAvoidingView>
       </SafeAreaView>
+      <TwoFactorCodeModal {...stepUpModalProps} />
     </Modal>
   );
 }
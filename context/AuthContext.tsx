@@ -1,15 +1,59 @@
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { authService, User } from '../lib/auth';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { AppState } from 'react-native';
+import {
+  authService,
+  isSocialLinkRequired,
+  isTwoFactorChallenge,
+  type LoginResponse,
+  type SocialLinkRequired,
+  type SocialLoginResponse,
+  User,
+} from '../lib/auth';
+import type { ApiResponse } from '../lib/apiClient';
+import type { TwoFactorCode } from '../lib/twoFactor';
 import { apiClient } from '../lib/apiClient';
+import { accountStore, type StoredAccount } from '../lib/accounts';
+import { offlineCache } from '../lib/offlineCache';
+import { hasCapability, type Capability } from '../lib/capabilities';
+import { realtime } from '../lib/realtime';
+import Toast from 'react-native-toast-message';
+import { logger } from '../lib/logger';
+
+const log = logger.scope('auth');
+
+const UNREAD_POLL_INTERVAL_MS = 60000;
 
 type AuthContextType = {
   user: User | null;
   loading: boolean;
   isAuthenticated: boolean;
-  login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  // `twoFactorChallenge` is set when the account needs a second step (see completeTwoFactorLogin)
+  login: (email: string, password: string) => Promise<{ success: boolean; error?: string; twoFactorChallenge?: string }>;
+  completeTwoFactorLogin: (challengeToken: string, code: TwoFactorCode) => Promise<{ success: boolean; error?: string }>;
+  // Finishes "Continue with Google/Facebook" from the OAuth callback route
+  completeSocialLogin: (loginToken: string) => Promise<SocialLoginResult>;
+  linkSocialAccount: (linkToken: string, password: string) => Promise<SocialLoginResult>;
   register: (username: string, displayName: string, email: string, password: string) => Promise<{ success: boolean; error?: string }>;
-  logout: () => Promise<void>;
+  // Resolves with the account that took over, or null when the last account signed out
+  logout: () => Promise<User | null>;
+  // Revokes every session of the active account, including other devices
+  logoutEverywhere: () => Promise<{ success: boolean; error?: string; next?: User | null }>;
   refreshUser: () => Promise<void>;
+  // Whether the active account's role allows something, e.g. `can('coin.create')`
+  can: (capability: Capability) => boolean;
+  // Every account signed in on this device, including the active one
+  accounts: StoredAccount[];
+  switchAccount: (accountId: number) => Promise<{ success: boolean; error?: string }>;
+  // Lets the login screen be opened while signed in to add another account
+  isAddingAccount: boolean;
+  setAddingAccount: (adding: boolean) => void;
+};
+
+type SocialLoginResult = {
+  success: boolean;
+  error?: string;
+  twoFactorChallenge?: string;
+  linkRequired?: SocialLinkRequired;
 };
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -17,26 +61,111 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [accounts, setAccounts] = useState<StoredAccount[]>(() => accountStore.getState().accounts);
+  const [isAddingAccount, setAddingAccount] = useState(false);
+  const userRef = useRef<User | null>(null);
+  userRef.current = user;
+  // Switching and signing out handle their own 401s; don't react to them twice
+  const switchingRef = useRef(false);
 
   useEffect(() => {
     checkAuth();
   }, []);
 
+  useEffect(() => accountStore.subscribe((state) => setAccounts(state.accounts)), []);
+
+  // The API client only gives up on the session once a token refresh has failed or it was revoked
+  useEffect(() => {
+    return apiClient.onSessionExpired(async (reason) => {
+      if (switchingRef.current) return;
+      const expired = userRef.current;
+      switchingRef.current = true;
+      const next = await authService.expireSession();
+      switchingRef.current = false;
+
+      if (expired) {
+        const handle = `@${expired.username ?? expired.name}`;
+        const signedOut =
+          reason === 'revoked' ? `${handle} was signed out from another device.` : `${handle} was signed out.`;
+        Toast.show({
+          type: 'info',
+          text1: reason === 'revoked' ? 'Signed Out' : 'Session Expired',
+          text2: next
+            ? `${signedOut} Switched to @${next.username ?? next.name}`
+            : reason === 'revoked'
+              ? signedOut
+              : 'Please sign in again',
+        });
+      }
+      setUser(next);
+    });
+  }, []);
+
+  // A session revoked from another device only shows up as a 401, so check when the app comes back
+  const isSignedIn = !!user;
+  useEffect(() => {
+    if (!isSignedIn) return;
+
+    const subscription = AppState.addEventListener('change', (status) => {
+      if (status === 'active' && !switchingRef.current) {
+        authService.getCurrentUser();
+      }
+    });
+    return () => subscription.remove();
+  }, [isSignedIn]);
+
+  // Live updates follow the active account
+  const userId = user?.id ?? null;
+  useEffect(() => {
+    realtime.setUser(userId);
+  }, [userId]);
+
+  // Keep the unread badges of the other signed-in accounts current
+  const hasOtherAccounts = !!user && accounts.length > 1;
+  useEffect(() => {
+    if (!hasOtherAccounts) return;
+
+    accountStore.refreshUnreadCounts();
+    const interval = setInterval(() => accountStore.refreshUnreadCounts(), UNREAD_POLL_INTERVAL_MS);
+    const subscription = AppState.addEventListener('change', (status) => {
+      if (status === 'active') {
+        accountStore.refreshUnreadCounts();
+      }
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [hasOtherAccounts]);
+
+  // Keep the signed-in user on the device for launches without a connection
+  useEffect(() => {
+    if (user) offlineCache.saveUser(user);
+  }, [user]);
+
   const checkAuth = async () => {
     try {
+      await accountStore.ready;
       const token = apiClient.getToken();
       if (token) {
         const response = await authService.getCurrentUser();
-        if (response.ok && response.data) {
+        if (response.ok && response.status < 300 && response.data) {
+          await accountStore.remember(response.data);
           setUser(response.data);
+        } else if (response.status === 401 && !apiClient.getToken()) {
+          // The refresh token was rejected; the ApiClient has already ended the session
+          log.debug('Session ended while checking auth');
         } else {
-          // Token invalid, clear it
-          await apiClient.setToken(null);
+          // Offline, a server error, or a refresh that couldn't reach the server:
+          // keep the session and show what's saved on the device
+          log.debug('Could not reach the server, using the saved user', { status: response.status });
+          const saved = await offlineCache.getUser();
+          if (saved) setUser(saved);
         }
       }
     } catch (error) {
-      console.error('Auth check error:', error);
-      await apiClient.setToken(null);
+      log.error('Auth check error:', error);
     } finally {
       setLoading(false);
     }
@@ -46,7 +175,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     try {
       const response = await authService.login({ email, password });
       if (response.ok && response.data) {
+        if (isTwoFactorChallenge(response.data)) {
+          return { success: false, twoFactorChallenge: response.data.challenge_token };
+        }
         setUser(response.data.user);
+        setAddingAccount(false);
         return { success: true };
       } else {
         const errorMessage = response.errors?.[0]?.detail || 'Login failed';
@@ -57,6 +190,51 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const completeTwoFactorLogin = async (challengeToken: string, code: TwoFactorCode) => {
+    try {
+      const response = await authService.completeTwoFactorLogin(challengeToken, code);
+      if (response.ok && response.status < 300 && response.data) {
+        setUser(response.data.user);
+        setAddingAccount(false);
+        return { success: true };
+      }
+      return { success: false, error: response.errors?.[0]?.detail || 'Invalid code' };
+    } catch (error: any) {
+      return { success: false, error: error.message || 'An error occurred' };
+    }
+  };
+
+  const handleSocialResponse = (response: ApiResponse<SocialLoginResponse | LoginResponse>): SocialLoginResult => {
+    if (!response.ok || response.status >= 300 || !response.data) {
+      return { success: false, error: response.errors?.[0]?.detail || 'Sign-in failed' };
+    }
+    if (isTwoFactorChallenge(response.data)) {
+      return { success: false, twoFactorChallenge: response.data.challenge_token };
+    }
+    if (isSocialLinkRequired(response.data)) {
+      return { success: false, linkRequired: response.data };
+    }
+    setUser(response.data.user);
+    setAddingAccount(false);
+    return { success: true };
+  };
+
+  const completeSocialLogin = async (loginToken: string) => {
+    try {
+      return handleSocialResponse(await authService.completeSocialLogin(loginToken));
+    } catch (error: any) {
+      return { success: false, error: error.message || 'An error occurred' };
+    }
+  };
+
+  const linkSocialAccount = async (linkToken: string, password: string) => {
+    try {
+      return handleSocialResponse(await authService.linkSocialAccount(linkToken, password));
+    } catch (error: any) {
+      return { success: false, error: error.message || 'An error occurred' };
+    }
+  };
+
   const register = async (
     username: string,
     displayName: string,
@@ -72,6 +250,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       });
       if (response.ok && response.data) {
         setUser(response.data.user);
+        setAddingAccount(false);
         return { success: true };
       } else {
         const errorMessage = response.errors?.[0]?.detail || 'Registration failed';
@@ -83,13 +262,59 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const logout = async () => {
-    await authService.logout();
-    setUser(null);
+    switchingRef.current = true;
+    try {
+      const next = await authService.logout();
+      setUser(next);
+      return next;
+    } finally {
+      switchingRef.current = false;
+    }
   };
 
+  const logoutEverywhere = async () => {
+    switchingRef.current = true;
+    try {
+      const response = await authService.logoutEverywhere();
+      if (!response.ok || response.status >= 300) {
+        return { success: false, error: response.errors?.[0]?.detail || 'Could not sign out of other devices' };
+      }
+      const next = await authService.switchToNextAccount();
+      setUser(next);
+      return { success: true, next };
+    } finally {
+      switchingRef.current = false;
+    }
+  };
+
+  const switchAccount = async (accountId: number) => {
+    if (accountId === user?.id) {
+      return { success: true };
+    }
+
+    switchingRef.current = true;
+    try {
+      const response = await authService.switchAccount(accountId);
+      if (response.ok && response.status < 300 && response.data) {
+        setUser(response.data);
+        return { success: true };
+      }
+      // The target's session is gone; fall back to another signed-in account (usually the previous one)
+      if (!apiClient.getToken()) {
+        setUser(await authService.switchToNextAccount());
+      }
+      return { success: false, error: response.errors?.[0]?.detail || 'Could not switch accounts' };
+    } finally {
+      switchingRef.current = false;
+    }
+  };
+
+  const can = useCallback((capability: Capability) => hasCapability(user, capability), [user]);
+
   const refreshUser = async () => {
     const response = await authService.getCurrentUser();
     if (response.ok && response.data) {
+      await accountStore.remember(response.data);
       setUser(response.data);
     }
   };
@@ -101,9 +326,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         loading,
         isAuthenticated: !!user,
         login,
+        completeTwoFactorLogin,
+        completeSocialLogin,
+        linkSocialAccount,
         register,
         logout,
+        logoutEverywhere,
         refreshUser,
+        can,
+        accounts,
+        switchAccount,
+        isAddingAccount,
+        setAddingAccount,
       }}
     >
       {children}
@@ -0,0 +1,164 @@
+import * as React from 'react';
+import renderer, { act } from 'react-test-renderer';
+
+import { api, type FeedPost } from '../../lib/api';
+import { apiClient, type ApiResponse } from '../../lib/apiClient';
+import type { AuthResponse } from '../../lib/auth';
+import { resetMockBackend } from '../../lib/mockBackend';
+import { usePaginatedList, readPageInfo, type PageRequest } from '../usePaginatedList';
+
+type Item = { id: string };
+type Options = Parameters<typeof usePaginatedList<Item>>[0];
+
+const page = (ids: string[], meta?: Record<string, unknown>): ApiResponse<Item[]> => ({
+  ok: true,
+  status: 200,
+  data: ids.map((id) => ({ id })),
+  meta,
+});
+
+const ids = (list: { items: Array<{ id: string }> }) => list.items.map((item) => item.id);
+
+// Renders the hook and hands back its latest return value
+const renderList = async <T extends Item = Item>(options: Parameters<typeof usePaginatedList<T>>[0]) => {
+  const result = { current: null as unknown as ReturnType<typeof usePaginatedList<T>> };
+  function Harness(props: { options: typeof options }) {
+    result.current = usePaginatedList<T>(props.options);
+    return null;
+  }
+  let root!: renderer.ReactTestRenderer;
+  await act(async () => {
+    root = renderer.create(<Harness options={options} />);
+  });
+  return {
+    result,
+    rerender: (next: typeof options) =>
+      act(async () => {
+        root.update(<Harness options={next} />);
+      }),
+  };
+};
+
+describe('readPageInfo', () => {
+  it('reads flat, nested and cursor pagination meta', () => {
+    expect(readPageInfo({ current_page: 2, last_page: 5 })).toEqual({ currentPage: 2, lastPage: 5, nextCursor: undefined });
+    expect(readPageInfo({ pagination: { current_page: 1, last_page: 1 } })).toMatchObject({ currentPage: 1, lastPage: 1 });
+    expect(readPageInfo({ next_cursor: 'abc' })).toMatchObject({ nextCursor: 'abc' });
+    expect(readPageInfo(undefined)).toEqual({});
+  });
+});
+
+describe('usePaginatedList', () => {
+  it('loads the feed page by page from the mock backend', async () => {
+    resetMockBackend({ latencyMs: 0 });
+    const login = await api.auth.login({ email: 'demo@example.com', password: 'password' });
+    const { token, refresh_token } = login.data as AuthResponse;
+    await apiClient.setTokens(token, refresh_token ?? null);
+
+    const { result } = await renderList<FeedPost>({
+      key: 'feed',
+      fetchPage: ({ page: pageNumber }: PageRequest) => api.feed.list({ sort: 'newest', page: pageNumber, perPage: 2 }),
+    });
+
+    expect(result.current.items).toHaveLength(2);
+    expect(result.current.hasMore).toBe(true);
+
+    while (result.current.hasMore) {
+      await act(() => result.current.loadMore());
+    }
+
+    const feed = await api.feed.list({ sort: 'newest', page: 1, perPage: 100 });
+    expect(ids(result.current)).toEqual(feed.data?.map((post) => post.id));
+  });
+
+  it('does not show an item twice when it shifts to the next page', async () => {
+    const fetchPage = jest.fn(({ page: pageNumber }: PageRequest) =>
+      Promise.resolve(pageNumber === 1 ? page(['c', 'b'], { current_page: 1, last_page: 2 }) : page(['b', 'a'], { current_page: 2, last_page: 2 }))
+    );
+    const { result } = await renderList({ key: 'list', fetchPage });
+
+    await act(() => result.current.loadMore());
+
+    expect(ids(result.current)).toEqual(['c', 'b', 'a']);
+    expect(result.current.hasMore).toBe(false);
+  });
+
+  it('keeps going until an empty page without totals', async () => {
+    const fetchPage = jest.fn(({ page: pageNumber }: PageRequest) => Promise.resolve(page(pageNumber === 1 ? ['a'] : [])));
+    const { result } = await renderList({ key: 'list', fetchPage });
+
+    expect(result.current.hasMore).toBe(true);
+    await act(() => result.current.loadMore());
+    expect(result.current.hasMore).toBe(false);
+    expect(ids(result.current)).toEqual(['a']);
+  });
+
+  it('follows cursors in cursor mode', async () => {
+    const fetchPage = jest.fn(({ cursor }: PageRequest) =>
+      Promise.resolve(cursor ? page(['b'], { next_cursor: null }) : page(['a'], { next_cursor: 'next' }))
+    );
+    const { result } = await renderList({ key: 'list', mode: 'cursor', fetchPage });
+
+    await act(() => result.current.loadMore());
+
+    expect(fetchPage).toHaveBeenLastCalledWith({ page: 2, cursor: 'next' });
+    expect(ids(result.current)).toEqual(['a', 'b']);
+    expect(result.current.hasMore).toBe(false);
+  });
+
+  it('puts older pages first in newestLast lists', async () => {
+    const fetchPage = jest.fn(({ page: pageNumber }: PageRequest) =>
+      Promise.resolve(page(pageNumber === 1 ? ['3', '4'] : ['1', '2'], { current_page: pageNumber, last_page: 2 }))
+    );
+    const { result } = await renderList({ key: 'chat', newestLast: true, fetchPage });
+
+    await act(() => result.current.loadMore());
+    act(() => result.current.prepend({ id: '5' }));
+
+    expect(ids(result.current)).toEqual(['1', '2', '3', '4', '5']);
+  });
+
+  it('drops a response for a key that has since changed', async () => {
+    let resolveFirst!: (response: ApiResponse<Item[]>) => void;
+    const slow: Options = {
+      key: 'tag:old',
+      fetchPage: () => new Promise((resolve) => (resolveFirst = resolve)),
+    };
+    const { result, rerender } = await renderList(slow);
+
+    await rerender({ key: 'tag:new', fetchPage: () => Promise.resolve(page(['new'])) });
+    await act(async () => resolveFirst(page(['old'])));
+
+    expect(ids(result.current)).toEqual(['new']);
+  });
+
+  it('reports failures and shows saved items while offline', async () => {
+    const onError = jest.fn();
+    const { result } = await renderList({
+      key: 'list',
+      onError,
+      readCache: () => Promise.resolve([{ id: 'saved' }]),
+      fetchPage: () => Promise.resolve({ ok: false, status: 0, errors: [{ detail: 'No connection' }] }),
+    });
+
+    expect(ids(result.current)).toEqual(['saved']);
+    expect(result.current.isCached).toBe(true);
+
+    const failing = await renderList({
+      key: 'other',
+      onError,
+      fetchPage: () => Promise.resolve({ ok: false, status: 500, errors: [{ detail: 'Server error' }] }),
+    });
+    expect(failing.result.current.error).toBe('Server error');
+    expect(onError).toHaveBeenCalledWith('Server error');
+  });
+
+  it('leaves the list empty without a key', async () => {
+    const fetchPage = jest.fn(() => Promise.resolve(page(['a'])));
+    const { result } = await renderList({ key: null, fetchPage });
+
+    expect(fetchPage).not.toHaveBeenCalled();
+    expect(result.current.items).toEqual([]);
+    expect(result.current.isLoading).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+import * as React from 'react';
+import renderer, { act } from 'react-test-renderer';
+
+import type { RealtimeStatus } from '../../lib/realtime';
+import { usePollingFallback } from '../useRealtime';
+
+type MockStatusListener = (status: RealtimeStatus) => void;
+
+// Lets the specs drive the socket status without a socket
+jest.mock('../../lib/realtime', () => {
+  const listeners = new Set<MockStatusListener>();
+  let status: RealtimeStatus = 'disconnected';
+  return {
+    realtime: {
+      getStatus: () => status,
+      onStatusChange: (listener: MockStatusListener) => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+      setStatus: (next: RealtimeStatus) => {
+        status = next;
+        listeners.forEach((listener) => listener(next));
+      },
+    },
+  };
+});
+
+const { realtime } = jest.requireMock('../../lib/realtime') as {
+  realtime: { setStatus: (status: RealtimeStatus) => void };
+};
+
+const INTERVAL_MS = 1000;
+
+let mounted: renderer.ReactTestRenderer[] = [];
+
+const renderPolling = (callback: () => void, enabled = true) => {
+  function Harness(props: { enabled: boolean }) {
+    usePollingFallback(callback, INTERVAL_MS, props.enabled);
+    return null;
+  }
+  let root!: renderer.ReactTestRenderer;
+  act(() => {
+    root = renderer.create(<Harness enabled={enabled} />);
+  });
+  mounted.push(root);
+  return {
+    setEnabled: (next: boolean) => act(() => root.update(<Harness enabled={next} />)),
+    unmount: () => act(() => root.unmount()),
+  };
+};
+
+const setStatus = (status: RealtimeStatus) => act(() => realtime.setStatus(status));
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  realtime.setStatus('disconnected');
+});
+
+afterEach(() => {
+  act(() => mounted.forEach((root) => root.unmount()));
+  mounted = [];
+  jest.useRealTimers();
+});
+
+describe('usePollingFallback', () => {
+  it('polls while the socket is down', () => {
+    const callback = jest.fn();
+    const { unmount } = renderPolling(callback);
+
+    act(() => jest.advanceTimersByTime(3 * INTERVAL_MS));
+    expect(callback).toHaveBeenCalledTimes(3);
+
+    unmount();
+    act(() => jest.advanceTimersByTime(INTERVAL_MS));
+    expect(callback).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops polling while live and catches up once on reconnect', () => {
+    const callback = jest.fn();
+    renderPolling(callback);
+
+    setStatus('connected');
+    expect(callback).toHaveBeenCalledTimes(1);
+    act(() => jest.advanceTimersByTime(5 * INTERVAL_MS));
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    setStatus('disconnected');
+    act(() => jest.advanceTimersByTime(INTERVAL_MS));
+    expect(callback).toHaveBeenCalledTimes(2);
+  });
+
+  it('polls without a socket server configured', () => {
+    realtime.setStatus('unavailable');
+    const callback = jest.fn();
+    renderPolling(callback);
+
+    act(() => jest.advanceTimersByTime(2 * INTERVAL_MS));
+
+    expect(callback).toHaveBeenCalledTimes(2);
+  });
+
+  it('does nothing while disabled', () => {
+    const callback = jest.fn();
+    const { setEnabled } = renderPolling(callback, false);
+
+    act(() => jest.advanceTimersByTime(2 * INTERVAL_MS));
+    setStatus('connected');
+    expect(callback).not.toHaveBeenCalled();
+
+    setEnabled(true);
+    setStatus('disconnected');
+    act(() => jest.advanceTimersByTime(INTERVAL_MS));
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useReducer } from 'react';
+import Toast from 'react-native-toast-message';
+import { api, type BookmarkCollection, type FeedPost } from '../lib/api';
+import { bookmarks } from '../lib/bookmarks';
+import { queryKeys } from '../lib/queryCache';
+import { useOutbox } from './useOutbox';
+import { useQuery } from './useQuery';
+
+/**
+ * Re-render when any bookmark is toggled.
+ */
+export function useBookmarksVersion() {
+  const [version, bump] = useReducer((count: number) => count + 1, 0);
+  useEffect(() => bookmarks.subscribe(bump), []);
+  return version;
+}
+
+/**
+ * Bookmark state and toggle for one post. `pending` is true while a bookmark made
+ * offline waits in the outbox.
+ */
+export function useBookmark(post: FeedPost) {
+  useBookmarksVersion();
+  const { hasPending } = useOutbox('bookmark', post.id);
+  const isBookmarked = bookmarks.isBookmarked(post);
+
+  const save = useCallback(
+    async (collectionId: string | null = null) => {
+      const response = await bookmarks.save(post, collectionId);
+      if (response.queued) return;
+      if (response.ok && response.status < 300) {
+        Toast.show({ type: 'success', text1: 'Saved', text2: 'Find it under Saved posts', visibilityTime: 2000 });
+      } else {
+        Toast.show({
+          type: 'error',
+          text1: 'Error',
+          text2: response.errors?.[0]?.detail || 'Failed to save post',
+        });
+      }
+    },
+    [post]
+  );
+
+  const remove = useCallback(async () => {
+    const response = await bookmarks.remove(post);
+    if (!response.queued && !(response.ok && response.status < 300)) {
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: response.errors?.[0]?.detail || 'Failed to remove bookmark',
+      });
+    }
+  }, [post]);
+
+  const toggle = useCallback(() => (isBookmarked ? remove() : save()), [isBookmarked, remove, save]);
+
+  return { isBookmarked, pending: hasPending, save, remove, toggle };
+}
+
+/**
+ * The active account's bookmark collections, alphabetically.
+ */
+export function useBookmarkCollections(options: { enabled?: boolean } = {}) {
+  const query = useQuery<BookmarkCollection[]>(queryKeys.bookmarkCollections, api.bookmarks.collections, options);
+  const collections = query.data ? [...query.data].sort((a, b) => a.name.localeCompare(b.name)) : undefined;
+
+  return { ...query, data: collections };
+}
@@ -1,6 +1,12 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useCallback } from 'react';
 import { apiClient } from '@/lib/apiClient';
 import Toast from 'react-native-toast-message';
+import { useAuth } from '@/context/AuthContext';
+import { usePaginatedList } from './usePaginatedList';
+import { usePollingFallback, useRealtimeEvent } from './useRealtime';
+
+// Only used while the realtime socket is down
+const CONVERSATIONS_POLL_INTERVAL_MS = 30000;
 
 export type Conversation = {
   id: string;
@@ -36,84 +42,69 @@ type UseConversationsReturn = {
 };
 
 export function useConversations(): UseConversationsReturn {
-  const [conversations, setConversations] = useState<Conversation[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [currentPage, setCurrentPage] = useState(1);
-  const [lastPage, setLastPage] = useState(1);
-
-  const loadConversations = useCallback(async (page = 1, append = false) => {
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      const response = await apiClient.request<{
-        data: Conversation[];
-        meta: {
-          pagination: {
-            current_page: number;
-            last_page: number;
-            per_page: number;
-            total: number;
-          };
-        };
-      }>(`/v1/conversations?page=${page}&per_page=20`);
-
-      if (response.ok && response.data) {
-        const data = Array.isArray(response.data) ? response.data : [];
-        if (append) {
-          setConversations((prev) => [...prev, ...data]);
-        } else {
-          setConversations(data);
-        }
-        setCurrentPage(page);
-        if (response.meta?.pagination) {
-          setLastPage(response.meta.pagination.last_page);
-        }
-      } else {
-        const errorMsg = response.errors?.[0]?.detail ?? 'Failed to load conversations';
-        setError(errorMsg);
-        Toast.show({
-          type: 'error',
-          text1: 'Error',
-          text2: errorMsg,
-        });
-      }
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to load conversations';
-      setError(message);
+  const { user } = useAuth();
+  const list = usePaginatedList<Conversation>({
+    key: 'conversations',
+    fetchPage: ({ page }) => apiClient.get<Conversation[]>(`/v1/conversations?page=${page}&per_page=20`),
+    onError: (message) =>
       Toast.show({
         type: 'error',
         text1: 'Error',
         text2: message,
-      });
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+      }),
+  });
+  const { items: conversations, setItems: setConversations, refresh } = list;
 
-  const reload = useCallback(() => {
-    return loadConversations(1, false);
-  }, [loadConversations]);
+  const reload = useCallback(() => refresh(), [refresh]);
 
-  const loadMore = useCallback(() => {
-    if (currentPage < lastPage && !isLoading) {
-      return loadConversations(currentPage + 1, true);
+  // Move the conversation to the top with its new preview; one we don't have yet needs a reload
+  useRealtimeEvent('message.sent', ({ conversation_id, message }) => {
+    const existing = conversations.find((conversation) => conversation.id === conversation_id);
+    if (!existing) {
+      refresh({ background: true });
+      return;
     }
-    return Promise.resolve();
-  }, [currentPage, lastPage, isLoading, loadConversations]);
 
-  useEffect(() => {
-    reload();
-  }, [reload]);
+    const fromMe = message.sender.id === String(user?.id);
+    setConversations((prev) => {
+      const current = prev.find((conversation) => conversation.id === conversation_id) ?? existing;
+      const updated: Conversation = {
+        ...current,
+        latest_message: {
+          id: message.id,
+          body: message.body,
+          sender_id: message.sender.id,
+          sender: {
+            id: message.sender.id,
+            username: message.sender.username,
+            display_name: message.sender.display_name,
+          },
+          created_at: message.created_at,
+        },
+        last_message_at: message.created_at,
+        unread_count: fromMe ? current.unread_count : current.unread_count + 1,
+      };
+      return [updated, ...prev.filter((conversation) => conversation.id !== conversation_id)];
+    });
+  });
+
+  useRealtimeEvent('message.read', ({ conversation_id, reader_id }) => {
+    if (reader_id !== String(user?.id)) return;
+    setConversations((prev) =>
+      prev.map((conversation) =>
+        conversation.id === conversation_id ? { ...conversation, unread_count: 0 } : conversation
+      )
+    );
+  });
+
+  usePollingFallback(() => refresh({ background: true }), CONVERSATIONS_POLL_INTERVAL_MS);
 
   return {
     conversations,
-    isLoading,
-    error,
+    isLoading: list.isLoading || list.isRefreshing,
+    error: list.error,
     reload,
-    loadMore,
-    hasMore: currentPage < lastPage,
+    loadMore: list.loadMore,
+    hasMore: list.hasMore,
   };
 }
-
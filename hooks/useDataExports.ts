@@ -0,0 +1,31 @@
+import { useEffect } from 'react';
+import { queryKeys } from '../lib/queryCache';
+import { isExportInProgress, privacyService, type DataExport } from '../lib/privacy';
+import { useQuery } from './useQuery';
+
+// Archives usually take a few seconds to a few minutes to build
+const EXPORT_POLL_INTERVAL_MS = 5000;
+
+/**
+ * The active account's data export requests, newest first. Polls while one is
+ * still being built so the download links appear without a manual refresh.
+ */
+export function useDataExports(options: { enabled?: boolean } = {}) {
+  const { enabled = true } = options;
+  const query = useQuery<DataExport[]>(queryKeys.dataExports, () => privacyService.listExports(), options);
+  const exports = query.data
+    ? [...query.data].sort((a, b) => Date.parse(b.requested_at) - Date.parse(a.requested_at))
+    : undefined;
+  const inProgress = !!exports?.some(isExportInProgress);
+  const { refetch } = query;
+
+  useEffect(() => {
+    if (!enabled || !inProgress) return;
+    const timer = setInterval(() => {
+      refetch().catch(() => undefined);
+    }, EXPORT_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [enabled, inProgress, refetch]);
+
+  return { ...query, data: exports, inProgress };
+}
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import type { PostDraft } from '../lib/api';
+import { draftStore } from '../lib/drafts';
+
+/**
+ * The active account's post drafts, most recently edited first. While `enabled`,
+ * the list is merged with the server's copy once.
+ */
+export function useDrafts(options: { enabled?: boolean } = {}) {
+  const { enabled = true } = options;
+  const [drafts, setDrafts] = useState<PostDraft[]>(() => draftStore.list());
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  useEffect(() => {
+    setDrafts(draftStore.list());
+    return draftStore.subscribe(setDrafts);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let active = true;
+    setIsSyncing(true);
+    draftStore.refresh().finally(() => {
+      if (active) setIsSyncing(false);
+    });
+    return () => {
+      active = false;
+    };
+  }, [enabled]);
+
+  return { drafts, isSyncing };
+}
@@ -1,250 +1,191 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { apiClient } from '../lib/apiClient';
+import { api, type FeedFilter, type FeedPost, type FeedSort, type CreatePostPayload } from '../lib/api';
+import { queryCache, queryKeys } from '../lib/queryCache';
+import { offlineCache } from '../lib/offlineCache';
 import Toast from 'react-native-toast-message';
+import { logger } from '../lib/logger';
+import { useAuth } from '../context/AuthContext';
+import { useNetworkStatus } from './useNetworkStatus';
+import { usePaginatedList } from './usePaginatedList';
+import { usePollingFallback, useRealtimeEvent } from './useRealtime';
 
-export type FeedPost = {
-  id: string;
-  content: string | null;
-  visibility: string;
-  likes_count: number;
-  comments_count: number;
-  shares_count: number;
-  reward_enabled: boolean;
-  reward_pool: number;
-  is_liked: boolean;
-  user: {
-    id: string;
-    username: string;
-    display_name: string | null;
-    avatar_url: string | null;
-    verified_creator?: boolean;
-  };
-  media: Array<{
-    id: string;
-    type: 'image' | 'video';
-    url: string;
-    thumbnail_url?: string;
-    metadata?: Record<string, unknown>;
-  }>;
-  shared_post?: FeedPost | null;
-  created_at: string;
-  updated_at: string;
-};
+const log = logger.scope('feed');
 
-export type FeedComment = {
-  id: string;
-  content: string;
-  user: {
-    id: string;
-    username: string;
-    display_name: string | null;
-    avatar_url: string | null;
-  };
-  created_at: string;
-  updated_at: string;
+export type { FeedPost, FeedComment, FeedFilter } from '../lib/api';
+
+// Only used while the realtime socket is down
+const NEW_POSTS_POLL_INTERVAL_MS = 30000;
+
+// Whether a post we know about belongs in a filtered feed. Following can't be told
+// from the post alone, but always includes the user's own posts.
+const belongsInFeed = (post: FeedPost, filter: FeedFilter) => {
+  if (filter === 'rewarded') return post.reward_enabled && post.reward_pool > 0;
+  if (filter === 'media') return post.media.length > 0;
+  return true;
 };
 
-export function useFeed(sortBy: 'newest' | 'popular' = 'newest') {
-  const [posts, setPosts] = useState<FeedPost[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-  const [loadingMore, setLoadingMore] = useState(false);
-  const [currentPage, setCurrentPage] = useState(1);
-  const [hasMorePages, setHasMorePages] = useState(true);
+export function useFeed(sortBy: 'newest' | 'popular' = 'newest', filter: FeedFilter = 'all') {
+  const { user } = useAuth();
   const [newPostsCount, setNewPostsCount] = useState(0);
-  const [latestPostId, setLatestPostId] = useState<string | null>(null);
+  // "Show new posts" switches to newest-first until the sort or filter is changed again
+  const [sortOverride, setSortOverride] = useState<FeedSort | null>(null);
+  const currentSort = sortOverride ?? sortBy;
+  // Each filter and sort is its own list, with its own pages and new-post counter
+  const feedKey = `feed:${filter}:${currentSort}`;
 
-  // Use ref to avoid stale closure issues with sortBy
-  const sortByRef = useRef(sortBy);
   useEffect(() => {
-    sortByRef.current = sortBy;
-  }, [sortBy]);
-
-  const loadFeed = useCallback(async (page = 1, isRefresh = false, overrideSort?: 'newest' | 'popular' | 'new-first') => {
-    console.log('Feed: loadFeed called', { page, isRefresh, sortBy: sortByRef.current });
+    setSortOverride(null);
+  }, [sortBy, filter]);
 
-    try {
-      if (page === 1) {
-        isRefresh ? setRefreshing(true) : setLoading(true);
-        setNewPostsCount(0); // Reset new posts count on refresh
-      } else {
-        setLoadingMore(true);
-      }
+  const {
+    items: posts,
+    setItems: setPosts,
+    isLoading: loading,
+    isRefreshing: refreshing,
+    isLoadingMore: loadingMore,
+    hasMore: hasMorePages,
+    isCached,
+    loadMore,
+    refresh,
+    prepend,
+  } = usePaginatedList<FeedPost>({
+    key: feedKey,
+    fetchPage: ({ page }) => {
+      log.debug('Loading feed page', { sort: currentSort, filter, page });
+      return api.feed.list({ sort: currentSort, filter, page, perPage: 20 });
+    },
+    readCache: () => offlineCache.getFeed(currentSort, filter),
+    onError: (message) =>
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: message || 'Failed to load feed',
+      }),
+  });
 
-      const currentSort = overrideSort || sortByRef.current;
-      
-      console.log('Feed: Making API request', { 
-        url: `/v1/feed?sort=${currentSort}&per_page=20&page=${page}`,
-        sortBy: currentSort,
-        overrideSort,
-        page,
-        isNewPostsLoad: overrideSort === 'new-first',
-        sortByRefCurrent: sortByRef.current
-      });
+  // Keep the first pages on the device for the next launch or a lost connection
+  useEffect(() => {
+    if (isCached || posts.length === 0) return;
+    offlineCache.saveFeed(currentSort, filter, posts);
+  }, [posts, isCached, currentSort, filter]);
 
-      const response = await apiClient.get<FeedPost[]>(
-        `/v1/feed?sort=${currentSort}&per_page=20&page=${page}`
-      );
+  // Swap saved posts for fresh ones once we're back online
+  const { isOffline } = useNetworkStatus(() => {
+    if (isCached) refresh();
+  });
 
-      console.log('Feed: API response received', {
-        ok: response.ok,
-        status: response.status,
-        hasData: !!response.data,
-        dataLength: response.data?.length,
-        hasMeta: !!response.meta
-      });
+  // Newest post we've shown, to ask the server how many have arrived since
+  const latestPostId = posts[0]?.id ?? null;
 
-      if (response.ok && response.data) {
-        const newPosts = response.data || [];
-        const meta = response.meta as {
-          current_page: number;
-          last_page: number;
-          per_page: number;
-          total: number;
-        } | undefined;
-        
-        if (page === 1) {
-          setPosts(newPosts);
-          // Track the latest post ID for real-time updates
-          if (newPosts.length > 0) {
-            setLatestPostId(newPosts[0].id);
-            setNewPostsCount(0); // Reset new posts count when refreshing
-          }
-        } else {
-          setPosts(prevPosts => [...prevPosts, ...newPosts]);
-        }
-        
-        if (meta) {
-          setCurrentPage(meta.current_page);
-          setHasMorePages(meta.current_page < meta.last_page);
-          
-          console.log('Feed loaded:', {
-            page: meta.current_page,
-            lastPage: meta.last_page,
-            postsCount: newPosts.length,
-            totalPosts: meta.total,
-            hasMore: meta.current_page < meta.last_page
-          });
-        }
-      } else {
-        console.error('Feed: API Error', {
-          status: response.status,
-          errors: response.errors,
-        });
-        Toast.show({
-          type: 'error',
-          text1: 'Error',
-          text2: response.errors?.[0]?.detail || 'Failed to load feed',
-        });
-      }
-    } catch (error) {
-      console.error('Feed: Network error', error);
-      Toast.show({
-        type: 'error',
-        text1: 'Network Error',
-        text2: 'Failed to connect to server',
-      });
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-      setLoadingMore(false);
-    }
-  }, []); // Empty dependencies - uses refs to avoid stale closures
+  // A new sort or filter (or the new-posts reload) starts from the top
+  useEffect(() => {
+    setNewPostsCount(0);
+  }, [feedKey]);
 
   // Initial load
   useEffect(() => {
     const testConnectivity = async () => {
       try {
-        console.log('Feed: Testing API connectivity...');
-        const response = await apiClient.get('/v1/auth/me');
-        console.log('Feed: API connectivity test result:', {
+        log.debug('Testing API connectivity...');
+        const response = await queryCache.fetch(queryKeys.me, api.auth.me);
+        log.debug('API connectivity test result:', {
           ok: response.ok,
           status: response.status,
           hasData: !!response.data
         });
       } catch (error) {
-        console.error('Feed: API connectivity test failed:', error);
+        log.error('API connectivity test failed:', error);
       }
     };
 
     testConnectivity();
-    loadFeed(1);
   }, []); // Only run once on mount
 
-  // Reload feed when sort changes
-  useEffect(() => {
-    // Reload feed when sort changes, but skip initial load
-    if (posts.length > 0) {
-      loadFeed(1);
-    }
-  }, [sortBy]);
+  const loadFeed = useCallback(() => {
+    setNewPostsCount(0);
+    return refresh();
+  }, [refresh]);
 
-  const loadMorePosts = useCallback(async () => {
-    if (!loadingMore && hasMorePages && !loading) {
-      console.log('Loading more posts, current page:', currentPage);
-      await loadFeed(currentPage + 1);
-    }
-  }, [loadingMore, hasMorePages, loading, currentPage]);
+  const loadMorePosts = useCallback(() => loadMore(), [loadMore]);
 
   // Check for new posts in the background
   const checkForNewPosts = useCallback(async () => {
     if (!latestPostId) return;
     
     try {
-      const response = await apiClient.get<{ count: number; has_new_posts: boolean }>(
-        `/v1/feed/new-count?after=${latestPostId}`
-      );
+      const response = await api.feed.newCount({ after: latestPostId, filter });
       
       if (response.ok && response.data && response.data.has_new_posts) {
         setNewPostsCount(response.data.count);
-        console.log('Feed: New posts available', { count: response.data.count });
+        log.debug('New posts available', { count: response.data.count });
       }
     } catch (error) {
-      console.error('Feed: Error checking for new posts', error);
+      log.error('Error checking for new posts', error);
     }
-  }, [latestPostId]);
+  }, [latestPostId, filter]);
 
-  // Function to load new posts when user taps the "new posts" button
+  // Load new posts when the user taps the "new posts" pill
   const loadNewPosts = useCallback(async () => {
-    const timestamp = Date.now();
-    console.log(`🔥 NEW POSTS BUTTON CLICKED - ${timestamp}`);
-    console.log('Feed: Current sortBy ref:', sortByRef.current);
-    console.log('Feed: About to call loadFeed with new-first override');
-    
-    // Reset state immediately for UI feedback
+    log.debug('Loading new posts');
     setNewPostsCount(0);
-    setPosts([]); // Clear current posts to force refresh
-    setLoading(true);
-    
-    // Use regular loading (not refresh) to ensure proper state management
-    console.log(`🚀 Calling loadFeed with new-first - ${timestamp}`);
-    await loadFeed(1, false, 'new-first');
-    console.log(`✅ loadFeed with new-first completed - ${timestamp}`);
-  }, []);
+    if (currentSort === 'new-first') {
+      await refresh();
+    } else {
+      setSortOverride('new-first');
+    }
+  }, [currentSort, refresh]);
 
-  // Set up background polling for new posts
-  useEffect(() => {
-    if (!latestPostId) return;
-    
-    const interval = setInterval(checkForNewPosts, 30000); // Check every 30 seconds
-    
-    return () => clearInterval(interval);
-  }, [checkForNewPosts, latestPostId]);
+  // Poll for new posts in the background when live updates are unavailable
+  usePollingFallback(checkForNewPosts, NEW_POSTS_POLL_INTERVAL_MS, !!latestPostId);
+
+  const postIdsRef = useRef(new Set<string>());
+  postIdsRef.current = new Set(posts.map((post) => post.id));
+
+  // Announce posts from others through the "new posts" pill rather than shifting the list
+  useRealtimeEvent('post.created', ({ post }) => {
+    if (postIdsRef.current.has(post.id) || post.user.id === String(user?.id)) return;
+    if (filter === 'following') {
+      // Only the server knows whether we follow the author
+      checkForNewPosts();
+    } else if (belongsInFeed(post, filter)) {
+      setNewPostsCount((count) => count + 1);
+    }
+  });
+
+  useRealtimeEvent('post.counts', ({ post_id, likes_count, comments_count, shares_count }) => {
+    if (!postIdsRef.current.has(post_id)) return;
+    setPosts((prevPosts) =>
+      prevPosts.map((p) =>
+        p.id === post_id
+          ? { ...p, likes_count, comments_count, shares_count: shares_count ?? p.shares_count }
+          : p
+      )
+    );
+  });
 
   const onRefresh = useCallback(() => {
-    setCurrentPage(1);
-    setHasMorePages(true);
-    loadFeed(1, true);
-  }, []);
+    setNewPostsCount(0);
+    refresh();
+  }, [refresh]);
 
   const handleLike = useCallback(async (postId: string) => {
     try {
-      const response = await apiClient.request<{ liked: boolean; likes_count: number }>(
-        `/v1/feed/posts/${postId}/like`,
-        { method: 'POST' }
-      );
+      const response = await api.feed.likePost(postId);
 
-      if (response.ok && response.data) {
+      if (response.queued) {
+        // Offline: toggle locally, the outbox replays the like when we reconnect
+        setPosts(prevPosts =>
+          prevPosts.map(p =>
+            p.id === postId
+              ? {
+                  ...p,
+                  is_liked: !p.is_liked,
+                  likes_count: p.is_liked ? Math.max(0, p.likes_count - 1) : p.likes_count + 1,
+                }
+              : p
+          )
+        );
+      } else if (response.ok && response.data) {
         const { liked, likes_count } = response.data;
         setPosts(prevPosts =>
           prevPosts.map(p =>
@@ -255,7 +196,7 @@ export function useFeed(sortBy: 'newest' | 'popular' = 'newest') {
         );
       }
     } catch (error) {
-      console.error('Like error:', error);
+      log.error('Like error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -266,22 +207,15 @@ export function useFeed(sortBy: 'newest' | 'popular' = 'newest') {
 
   const handleShare = useCallback(async (post: FeedPost) => {
     // This will be handled by the ShareModal component
-    console.log('Share post:', post.id);
+    log.debug('Share post:', post.id);
   }, []);
 
   const handleShareToTimeline = useCallback(async (postId: string, comment?: string) => {
-    console.log('🔄 useFeed: handleShareToTimeline called with:', { postId, comment });
+    log.debug('useFeed: handleShareToTimeline called with:', { postId, comment });
     try {
-      console.log('📤 useFeed: Making API request to share endpoint');
-      const response = await apiClient.request<{ 
-        id: string; 
-        shares_count: number;
-        shared_post?: FeedPost;
-      }>(`/v1/feed/posts/${postId}/share`, {
-        method: 'POST',
-        data: { comment, share_to_timeline: true }
-      });
-      console.log('📥 useFeed: API response received:', { ok: response.ok, status: response.status, hasData: !!response.data });
+      log.debug('useFeed: Making API request to share endpoint');
+      const response = await api.feed.sharePost(postId, { comment, share_to_timeline: true });
+      log.debug('useFeed: API response received:', { ok: response.ok, status: response.status, hasData: !!response.data });
 
       if (response.ok && response.data) {
         setPosts((prev) =>
@@ -293,8 +227,8 @@ export function useFeed(sortBy: 'newest' | 'popular' = 'newest') {
         );
         
         // If shared to timeline, add the new post to the feed
-        if (response.data.shared_post) {
-          setPosts((prev) => [response.data!.shared_post!, ...prev]);
+        if (response.data.shared_post && belongsInFeed(response.data.shared_post, filter)) {
+          prepend(response.data.shared_post);
         }
         
         Toast.show({
@@ -308,7 +242,7 @@ export function useFeed(sortBy: 'newest' | 'popular' = 'newest') {
         throw new Error(response.errors?.[0]?.detail || 'Failed to share post');
       }
     } catch (error) {
-      console.error('Share error:', error);
+      log.error('Share error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
@@ -316,17 +250,16 @@ export function useFeed(sortBy: 'newest' | 'popular' = 'newest') {
       });
       throw error; // Re-throw so calling components know it failed
     }
-  }, [setPosts]);
+  }, [setPosts, prepend, filter]);
 
-  const createPost = useCallback(async (postData: any) => {
+  const createPost = useCallback(async (postData: CreatePostPayload) => {
     try {
-      const response = await apiClient.request<FeedPost>('/v1/feed/posts', {
-        method: 'POST',
-        data: postData,
-      });
+      const response = await api.feed.createPost(postData);
 
       if (response.ok && response.data) {
-        setPosts(prev => [response.data!, ...prev]);
+        if (belongsInFeed(response.data, filter)) {
+          prepend(response.data);
+        }
         Toast.show({
           type: 'success',
           text1: 'Success',
@@ -335,14 +268,14 @@ export function useFeed(sortBy: 'newest' | 'popular' = 'newest') {
         return response.data;
       }
     } catch (error) {
-      console.error('Create post error:', error);
+      log.error('Create post error:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
         text2: 'Failed to create post',
       });
     }
-  }, [setPosts]);
+  }, [prepend, filter]);
 
   return {
     posts,
@@ -353,6 +286,8 @@ export function useFeed(sortBy: 'newest' | 'popular' = 'newest') {
     hasMorePages,
     newPostsCount,
     setNewPostsCount,
+    isOffline,
+    isCached,
     loadFeed,
     loadMorePosts,
     loadNewPosts,
@@ -0,0 +1,115 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { api, type HashtagSuggestion } from '../lib/api';
+import { queryCache, queryKeys } from '../lib/queryCache';
+import { recentTags } from '../lib/recentTags';
+import { useLatestRequest } from './useLatestRequest';
+import { logger } from '../lib/logger';
+
+const log = logger.scope('feed');
+
+// Trending tags change slowly; one fetch serves every composer opened meanwhile
+const TRENDING_STALE_MS = 5 * 60 * 1000;
+const MAX_SUGGESTIONS = 10;
+
+export type TagSuggestion = {
+  tag: string;
+  // Unknown for recent tags
+  posts_count: number | null;
+  source: 'recent' | 'trending' | 'search';
+};
+
+const fromServer = (tags: HashtagSuggestion[], source: TagSuggestion['source']): TagSuggestion[] =>
+  tags.map(({ tag, posts_count }) => ({ tag, posts_count, source }));
+
+/**
+ * Hashtag suggestions for `#` autocomplete: recent and trending tags for a bare
+ * `#`, then tags matching what's been typed.
+ */
+export function useHashtags() {
+  const [suggestions, setSuggestions] = useState<TagSuggestion[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const latestSearch = useLatestRequest();
+
+  const showRecentAndTrending = useCallback(async () => {
+    latestSearch.cancel();
+    const recent: TagSuggestion[] = recentTags.list().map((tag) => ({ tag, posts_count: null, source: 'recent' }));
+    const cached = queryCache.get<HashtagSuggestion[]>(queryKeys.trendingTags)?.data;
+    const merge = (trending: HashtagSuggestion[]) => {
+      const recentSet = new Set(recent.map((item) => item.tag));
+      const rest = fromServer(trending, 'trending').filter((item) => !recentSet.has(item.tag));
+      setSuggestions([...recent, ...rest].slice(0, MAX_SUGGESTIONS));
+    };
+
+    merge(cached ?? []);
+    if (!queryCache.isStale(queryKeys.trendingTags, TRENDING_STALE_MS)) return;
+
+    setIsSearching(!cached && recent.length === 0);
+    try {
+      const response = await queryCache.fetch(queryKeys.trendingTags, () => api.feed.trendingTags({ limit: MAX_SUGGESTIONS }));
+      if (response.ok && response.data) {
+        merge(response.data);
+      }
+    } catch (error) {
+      log.error('Trending tags error:', error);
+    }
+    setIsSearching(false);
+  }, [latestSearch]);
+
+  const searchTags = useCallback(async (query: string) => {
+    if (query.length < 1) {
+      showRecentAndTrending();
+      return;
+    }
+
+    setIsSearching(true);
+    try {
+      const response = await api.feed.searchTags({ q: query, limit: MAX_SUGGESTIONS }, { signal: latestSearch.next() });
+
+      // Superseded by a newer query; that search owns the results and the spinner
+      if (response.aborted) {
+        return;
+      }
+
+      setSuggestions(response.ok && response.data ? fromServer(response.data, 'search') : []);
+    } catch (error) {
+      log.error('Search tags error:', error);
+      setSuggestions([]);
+    }
+    setIsSearching(false);
+  }, [latestSearch, showRecentAndTrending]);
+
+  const debouncedSearch = useCallback((query: string) => {
+    if (searchTimeoutRef.current) {
+      clearTimeout(searchTimeoutRef.current);
+    }
+
+    searchTimeoutRef.current = setTimeout(() => {
+      searchTags(query);
+    }, 300);
+  }, [searchTags]);
+
+  useEffect(() => {
+    return () => {
+      if (searchTimeoutRef.current) {
+        clearTimeout(searchTimeoutRef.current);
+      }
+    };
+  }, []);
+
+  const clearResults = useCallback(() => {
+    if (searchTimeoutRef.current) {
+      clearTimeout(searchTimeoutRef.current);
+    }
+    latestSearch.cancel();
+    setSuggestions([]);
+    setIsSearching(false);
+  }, [latestSearch]);
+
+  return {
+    suggestions,
+    isSearching,
+    searchTags: debouncedSearch,
+    clearResults,
+  };
+}
@@ -0,0 +1,14 @@
+import { useEffect, useMemo } from 'react';
+import { createLatestRequest } from '../lib/apiClient';
+
+/**
+ * `createLatestRequest()` scoped to a component: each `next()` aborts the previous
+ * request, and whatever is still in flight is aborted on unmount.
+ */
+export function useLatestRequest() {
+  const latest = useMemo(() => createLatestRequest(), []);
+
+  useEffect(() => latest.cancel, [latest]);
+
+  return latest;
+}
@@ -0,0 +1,23 @@
+import { api, type LinkPreview } from '../lib/api';
+import { queryKey } from '../lib/queryCache';
+import { useQuery } from './useQuery';
+
+// Page metadata rarely changes; a preview fetched once serves every screen for a while
+const LINK_PREVIEW_STALE_MS = 60 * 60 * 1000;
+
+/**
+ * The server's preview of `url`, or nothing while it loads, when the page has no
+ * usable metadata, or when `url` is null.
+ */
+export function useLinkPreview(url: string | null) {
+  const { data, isLoading, error } = useQuery<LinkPreview>(
+    queryKey('links/preview', { url }),
+    () => api.links.preview({ url: url ?? '' }),
+    { enabled: !!url, staleTime: LINK_PREVIEW_STALE_MS }
+  );
+
+  return {
+    preview: url && data && (data.title || data.description) ? data : null,
+    isLoading: !!url && isLoading && !error,
+  };
+}
@@ -1,30 +1,35 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
-import { apiClient } from '../lib/apiClient';
+import { api, type MentionUser } from '../lib/api';
+import { useLatestRequest } from './useLatestRequest';
+import { logger } from '../lib/logger';
 
-export type MentionUser = {
-  id: string;
-  username: string;
-  display_name: string | null;
-  avatar_url: string | null;
-};
+const log = logger.scope('feed');
+
+export type { MentionUser } from '../lib/api';
 
 export function useMentions() {
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<MentionUser[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const latestSearch = useLatestRequest();
 
   const searchUsers = useCallback(async (query: string) => {
     if (query.length < 1) {
+      latestSearch.cancel();
       setSearchResults([]);
+      setIsSearching(false);
       return;
     }
 
     setIsSearching(true);
     try {
-      const response = await apiClient.get<MentionUser[]>(
-        `/v1/feed/users/search?q=${encodeURIComponent(query)}&limit=10`
-      );
+      const response = await api.feed.searchUsers({ q: query, limit: 10 }, { signal: latestSearch.next() });
+
+      // Superseded by a newer query; that search owns the results and the spinner
+      if (response.aborted) {
+        return;
+      }
 
       if (response.ok && response.data) {
         setSearchResults(response.data);
@@ -32,12 +37,11 @@ export function useMentions() {
         setSearchResults([]);
       }
     } catch (error) {
-      console.error('Search users error:', error);
+      log.error('Search users error:', error);
       setSearchResults([]);
-    } finally {
-      setIsSearching(false);
     }
-  }, []);
+    setIsSearching(false);
+  }, [latestSearch]);
 
   const debouncedSearch = useCallback((query: string) => {
     if (searchTimeoutRef.current) {
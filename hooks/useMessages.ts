@@ -1,6 +1,18 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useCallback, useEffect, useMemo } from 'react';
 import { apiClient } from '@/lib/apiClient';
+import { api, type FeedMedia } from '@/lib/api';
+import { outbox } from '@/lib/outbox';
+import { useOutbox } from './useOutbox';
+import { usePaginatedList, readPageInfo } from './usePaginatedList';
+import { usePollingFallback, useRealtimeEvent } from './useRealtime';
+import { useAuth } from '@/context/AuthContext';
 import Toast from 'react-native-toast-message';
+import { logger } from '@/lib/logger';
+
+const log = logger.scope('messaging');
+
+// Only used while the realtime socket is down
+const MESSAGES_POLL_INTERVAL_MS = 15000;
 
 export type Message = {
   id: string;
@@ -14,13 +26,35 @@ export type Message = {
   read: boolean;
   read_at: string | null;
   created_at: string;
+  attachments?: FeedMedia[];
+  // Sent while offline and still waiting in the outbox
+  pending?: boolean;
+};
+
+type ConversationMessages = {
+  id: string;
+  other_user: {
+    id: string;
+    username: string;
+    display_name: string;
+    avatar_url: string | null;
+  };
+  messages: Message[];
+  meta?: {
+    pagination?: {
+      current_page: number;
+      last_page: number;
+      per_page: number;
+      total: number;
+    };
+  };
 };
 
 type UseMessagesReturn = {
   messages: Message[];
   isLoading: boolean;
   error: string | null;
-  sendMessage: (body: string, userId: string) => Promise<boolean>;
+  sendMessage: (body: string, userId: string, attachments?: FeedMedia[]) => Promise<boolean>;
   reload: () => Promise<void>;
   loadMore: () => Promise<void>;
   hasMore: boolean;
@@ -28,112 +62,55 @@ type UseMessagesReturn = {
 };
 
 export function useMessages(conversationId: string | null, otherUserId?: string): UseMessagesReturn {
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [currentPage, setCurrentPage] = useState(1);
-  const [lastPage, setLastPage] = useState(1);
-
-  const loadMessages = useCallback(
-    async (page = 1, append = false) => {
-      if (!conversationId) {
-        setMessages([]);
-        return;
-      }
-
-      setIsLoading(true);
-      setError(null);
-
-      try {
-        const response = await apiClient.request<{
-          data: {
-            id: string;
-            other_user: {
-              id: string;
-              username: string;
-              display_name: string;
-              avatar_url: string | null;
-            };
-            messages: Message[];
-            meta: {
-              pagination: {
-                current_page: number;
-                last_page: number;
-                per_page: number;
-                total: number;
-              };
-            };
-          };
-        }>(`/v1/conversations/${conversationId}?page=${page}&per_page=50`);
-
-        if (response.ok && response.data) {
-          const data = response.data.messages || [];
-          if (append) {
-            setMessages((prev) => [...prev, ...data]);
-          } else {
-            setMessages(data);
-          }
-          setCurrentPage(page);
-          if (response.data.meta?.pagination) {
-            setLastPage(response.data.meta.pagination.last_page);
-          }
-        } else {
-          const errorMsg = response.errors?.[0]?.detail ?? 'Failed to load messages';
-          setError(errorMsg);
-          Toast.show({
-            type: 'error',
-            text1: 'Error',
-            text2: errorMsg,
-          });
-        }
-      } catch (err) {
-        const message = err instanceof Error ? err.message : 'Failed to load messages';
-        setError(message);
-        Toast.show({
-          type: 'error',
-          text1: 'Error',
-          text2: message,
-        });
-      } finally {
-        setIsLoading(false);
-      }
-    },
-    [conversationId],
-  );
+  const { user } = useAuth();
+  const { pending: pendingEntries } = useOutbox('message', otherUserId);
+  const {
+    items: messages,
+    setItems: setMessages,
+    isLoading,
+    error,
+    hasMore,
+    loadMore,
+    refresh,
+    prepend,
+  } = usePaginatedList<Message, ConversationMessages>({
+    key: conversationId,
+    fetchPage: ({ page }) =>
+      apiClient.get<ConversationMessages>(`/v1/conversations/${conversationId}?page=${page}&per_page=50`),
+    select: (data) => data.messages || [],
+    getPageInfo: (response) => readPageInfo(response.data?.meta),
+    // Page 1 is the latest messages; older pages load above them
+    newestLast: true,
+    onError: (message) =>
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: message,
+      }),
+  });
 
   const sendMessage = useCallback(
-    async (body: string, userId: string): Promise<boolean> => {
-      if (!body.trim() || !userId) {
+    async (body: string, userId: string, attachments: FeedMedia[] = []): Promise<boolean> => {
+      if ((!body.trim() && attachments.length === 0) || !userId) {
         return false;
       }
 
       try {
-        const response = await apiClient.request<{
-          data: {
-            id: string;
-            conversation_id: string;
-            body: string;
-            sender: {
-              id: string;
-              username: string;
-              display_name: string;
-              avatar_url: string | null;
-            };
-            read: boolean;
-            created_at: string;
-          };
-        }>('/v1/messages', {
-          method: 'POST',
-          data: {
-            user_id: userId,
-            body: body.trim(),
-          },
+        const response = await api.messages.send({
+          user_id: userId,
+          body: body.trim(),
+          ...(attachments.length > 0 ? { attachment_ids: attachments.map((attachment) => attachment.id) } : {}),
         });
 
+        if (response.queued) {
+          // Shown as a pending bubble until the outbox delivers it
+          return true;
+        }
+
         if (response.ok && response.data) {
-          // Reload messages if we have a conversation
+          // Pick up the sent message (and anything that arrived meanwhile) without dropping older pages
           if (conversationId) {
-            await loadMessages(1, false);
+            await refresh({ background: true });
           }
           return true;
         } else {
@@ -155,7 +132,7 @@ export function useMessages(conversationId: string | null, otherUserId?: string)
         return false;
       }
     },
-    [conversationId, loadMessages],
+    [conversationId, refresh],
   );
 
   const markAsRead = useCallback(async () => {
@@ -166,33 +143,70 @@ export function useMessages(conversationId: string | null, otherUserId?: string)
         method: 'POST',
       });
     } catch (err) {
-      console.error('Failed to mark messages as read:', err);
+      log.error('Failed to mark messages as read:', err);
     }
   }, [conversationId]);
 
-  const reload = useCallback(() => {
-    return loadMessages(1, false);
-  }, [loadMessages]);
-
-  const loadMore = useCallback(() => {
-    if (currentPage < lastPage && !isLoading) {
-      return loadMessages(currentPage + 1, true);
-    }
-    return Promise.resolve();
-  }, [currentPage, lastPage, isLoading, loadMessages]);
+  const reload = useCallback(() => refresh(), [refresh]);
 
   useEffect(() => {
-    reload();
-  }, [reload]);
+    if (!otherUserId) return;
+
+    return outbox.onSettled((entry) => {
+      if (entry.kind === 'message' && entry.targetId === otherUserId) {
+        refresh({ background: true });
+      }
+    });
+  }, [otherUserId, refresh]);
+
+  useRealtimeEvent(
+    'message.sent',
+    ({ conversation_id, message }) => {
+      if (conversation_id !== conversationId) return;
+      prepend(message);
+      if (message.sender.id !== String(user?.id)) {
+        markAsRead();
+      }
+    },
+    !!conversationId,
+  );
+
+  // The other person read the conversation: our messages up to now are read
+  useRealtimeEvent(
+    'message.read',
+    ({ conversation_id, reader_id, read_at }) => {
+      if (conversation_id !== conversationId || reader_id === String(user?.id)) return;
+      setMessages((prev) =>
+        prev.map((item) => (item.read || item.sender.id !== String(user?.id) ? item : { ...item, read: true, read_at })),
+      );
+    },
+    !!conversationId,
+  );
+
+  usePollingFallback(() => refresh({ background: true }), MESSAGES_POLL_INTERVAL_MS, !!conversationId);
+
+  const pendingMessages = useMemo<Message[]>(
+    () =>
+      pendingEntries.map((entry) => ({
+        id: entry.id,
+        body: (entry.data as { body?: string } | undefined)?.body ?? '',
+        sender: { id: '', username: '', display_name: '', avatar_url: null },
+        read: false,
+        read_at: null,
+        created_at: entry.created_at,
+        pending: true,
+      })),
+    [pendingEntries],
+  );
 
   return {
-    messages,
+    messages: pendingMessages.length > 0 ? [...messages, ...pendingMessages] : messages,
     isLoading,
     error,
     sendMessage,
     reload,
     loadMore,
-    hasMore: currentPage < lastPage,
+    hasMore,
     markAsRead,
   };
 }
@@ -0,0 +1,33 @@
+import { useEffect, useRef, useState } from 'react';
+import NetInfo, { type NetInfoState } from '@react-native-community/netinfo';
+
+// `isInternetReachable` is null until NetInfo has checked; only a definite "no" counts
+const isOfflineState = (state: NetInfoState) =>
+  state.isConnected === false || state.isInternetReachable === false;
+
+/**
+ * Whether the device currently has no connection. `onReconnect` runs when it
+ * comes back, so screens showing saved data can reload it.
+ */
+export function useNetworkStatus(onReconnect?: () => void) {
+  const [isOffline, setIsOffline] = useState(false);
+  const onReconnectRef = useRef(onReconnect);
+  onReconnectRef.current = onReconnect;
+
+  useEffect(() => {
+    let wasOffline = false;
+    const update = (state: NetInfoState) => {
+      const offline = isOfflineState(state);
+      if (wasOffline && !offline) {
+        onReconnectRef.current?.();
+      }
+      wasOffline = offline;
+      setIsOffline(offline);
+    };
+
+    NetInfo.fetch().then(update);
+    return NetInfo.addEventListener(update);
+  }, []);
+
+  return { isOffline };
+}
@@ -1,6 +1,11 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { apiClient } from '../lib/apiClient';
+import { useState, useEffect, useCallback } from 'react';
+import { apiClient, type ApiResponse } from '../lib/apiClient';
 import Toast from 'react-native-toast-message';
+import { logger } from '../lib/logger';
+import { usePaginatedList } from './usePaginatedList';
+import { usePollingFallback, useRealtimeEvent } from './useRealtime';
+
+const log = logger.scope('notifications');
 
 export type Notification = {
   id: string;
@@ -35,80 +40,68 @@ type UseNotificationsReturn = {
   refresh: () => Promise<void>;
 };
 
-const INITIAL_PER_PAGE = 12;
 const PER_PAGE = 12;
+// Only used while the realtime socket is down
+const NOTIFICATIONS_POLL_INTERVAL_MS = 60000;
+
+type NotificationFilter = 'all' | 'unread';
+
+// Older backends nest the list and its meta under `data`
+type NotificationsPayload = Notification[] | { data?: Notification[]; meta?: Record<string, unknown> };
+
+const fetchNotificationsPage = async (filter: NotificationFilter, page: number) => {
+  const params = new URLSearchParams({ page: page.toString(), per_page: PER_PAGE.toString() });
+  if (filter === 'unread') {
+    params.append('unread_only', 'true');
+  }
+
+  const response = await apiClient.get<NotificationsPayload>(`/v1/notifications?${params.toString()}`);
+  const payload = response.data;
+  if (payload === undefined || Array.isArray(payload)) {
+    return response as ApiResponse<Notification[]>;
+  }
+  return { ...response, data: payload.data || [], meta: payload.meta || response.meta };
+};
 
 export function useNotifications(): UseNotificationsReturn {
-  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [currentFilter, setCurrentFilter] = useState<NotificationFilter>('all');
   const [unreadCount, setUnreadCount] = useState(0);
-  const [isLoading, setIsLoading] = useState(false);
-  const [isLoadingMore, setIsLoadingMore] = useState(false);
-  const [currentPage, setCurrentPage] = useState(1);
-  const [lastPage, setLastPage] = useState(1);
-  const [currentFilter, setCurrentFilter] = useState<'all' | 'unread'>('all');
-  const [error, setError] = useState<string | null>(null);
-  const currentPageRef = useRef(1);
-
-  const loadNotifications = useCallback(async (unreadOnly = false, reset = true) => {
-    if (reset) {
-      setIsLoading(true);
-      currentPageRef.current = 1;
-      setCurrentPage(1);
-    } else {
-      setIsLoadingMore(true);
+  const list = usePaginatedList<Notification>({
+    key: `notifications:${currentFilter}`,
+    fetchPage: ({ page }) => fetchNotificationsPage(currentFilter, page),
+  });
+  const { items: notifications, setItems: setNotifications, refresh, prepend, loadMore: loadNextPage } = list;
+
+  // The server's count covers every page, not just what's loaded
+  useEffect(() => {
+    const count = list.meta?.unread_count;
+    if (typeof count === 'number') {
+      setUnreadCount(count);
     }
-    setError(null);
-    setCurrentFilter(unreadOnly ? 'unread' : 'all');
-    
-    try {
-      const params = new URLSearchParams();
-      if (unreadOnly) {
-        params.append('unread_only', 'true');
-      }
-      
-      const page = reset ? 1 : currentPageRef.current + 1;
-      params.append('page', page.toString());
-      params.append('per_page', reset ? INITIAL_PER_PAGE.toString() : PER_PAGE.toString());
-
-      const response = await apiClient.get<Notification[]>(
-        `/v1/notifications?${params.toString()}`
-      );
-
-      if (response.ok && response.data) {
-        const notificationsData = Array.isArray(response.data) 
-          ? response.data 
-          : (response.data as any).data || [];
-        const meta = (response.data as any).meta || response.meta;
-        
-        if (reset) {
-          setNotifications(notificationsData);
-        } else {
-          setNotifications((prev) => [...prev, ...notificationsData]);
-        }
-        
-        currentPageRef.current = page;
-        setCurrentPage(page);
-        setLastPage(meta?.last_page || 1);
-        setUnreadCount(meta?.unread_count || 0);
+  }, [list.meta]);
+
+  const loadNotifications = useCallback(
+    async (unreadOnly = false, reset = true) => {
+      const filter: NotificationFilter = unreadOnly ? 'unread' : 'all';
+      if (filter !== currentFilter) {
+        // The list starts over for the new filter
+        setCurrentFilter(filter);
+      } else if (reset) {
+        await refresh();
       } else {
-        setError(response.errors?.[0]?.detail || 'Failed to load notifications');
+        await loadNextPage();
       }
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to load notifications';
-      setError(message);
-      console.error('Error loading notifications:', err);
-    } finally {
-      setIsLoading(false);
-      setIsLoadingMore(false);
-    }
-  }, []);
+    },
+    [currentFilter, refresh, loadNextPage]
+  );
 
-  const loadMore = useCallback(async (unreadOnly?: boolean) => {
-    const filter = unreadOnly !== undefined ? unreadOnly : currentFilter === 'unread';
-    if (currentPageRef.current < lastPage && !isLoadingMore) {
+  const loadMore = useCallback(
+    async (unreadOnly?: boolean) => {
+      const filter = unreadOnly !== undefined ? unreadOnly : currentFilter === 'unread';
       await loadNotifications(filter, false);
-    }
-  }, [lastPage, isLoadingMore, currentFilter, loadNotifications]);
+    },
+    [currentFilter, loadNotifications]
+  );
 
   const markAsRead = useCallback(async (notificationId: string) => {
     try {
@@ -139,7 +132,7 @@ export function useNotifications(): UseNotificationsReturn {
         text2: message,
         visibilityTime: 3000,
       });
-      console.error('Error marking notification as read:', err);
+      log.error('Error marking notification as read:', err);
     }
   }, []);
 
@@ -174,32 +167,31 @@ export function useNotifications(): UseNotificationsReturn {
         text2: message,
         visibilityTime: 3000,
       });
-      console.error('Error marking all notifications as read:', err);
+      log.error('Error marking all notifications as read:', err);
     }
   }, []);
 
-  const refresh = useCallback(() => {
-    return loadNotifications(currentFilter === 'unread', true);
-  }, [loadNotifications, currentFilter]);
+  const refreshList = useCallback(() => refresh(), [refresh]);
 
-  useEffect(() => {
-    loadNotifications(false, true);
-  }, []);
+  usePollingFallback(() => refresh({ background: true }), NOTIFICATIONS_POLL_INTERVAL_MS);
 
-  const hasMore = currentPageRef.current < lastPage;
+  useRealtimeEvent('notification.created', ({ notification, unread_count }) => {
+    prepend(notification);
+    setUnreadCount(unread_count);
+  });
 
   return {
     notifications,
     unreadCount,
-    isLoading,
-    isLoadingMore,
-    hasMore,
-    error,
+    isLoading: list.isLoading || list.isRefreshing,
+    isLoadingMore: list.isLoadingMore,
+    hasMore: list.hasMore,
+    error: list.error,
     loadNotifications,
     loadMore,
     markAsRead,
     markAllAsRead,
-    refresh,
+    refresh: refreshList,
   };
 }
 
@@ -0,0 +1,29 @@
+import { useEffect, useMemo, useState } from 'react';
+import { outbox, type OutboxEntry, type OutboxKind } from '../lib/outbox';
+
+/**
+ * Pending (queued while offline) mutations, optionally narrowed to a kind and target.
+ */
+export function useOutbox(kind?: OutboxKind, targetId?: string) {
+  const [entries, setEntries] = useState<OutboxEntry[]>(() => outbox.getEntries());
+
+  useEffect(() => {
+    setEntries(outbox.getEntries());
+    return outbox.subscribe(setEntries);
+  }, []);
+
+  const pending = useMemo(
+    () =>
+      entries.filter(
+        (entry) =>
+          (!kind || entry.kind === kind) && (targetId === undefined || entry.targetId === targetId)
+      ),
+    [entries, kind, targetId]
+  );
+
+  return {
+    pending,
+    hasPending: pending.length > 0,
+    retryNow: () => outbox.drain(true),
+  };
+}
@@ -0,0 +1,264 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ApiResponse } from '../lib/apiClient';
+import { logger } from '../lib/logger';
+
+const log = logger.scope('api');
+
+export type PageRequest = {
+  // 1-based page number (page mode)
+  page: number;
+  // Cursor from the previous response (cursor mode); null for the first page
+  cursor: string | null;
+};
+
+export type PageInfo = {
+  currentPage?: number;
+  lastPage?: number;
+  nextCursor?: string | null;
+};
+
+type UsePaginatedListOptions<T, TData> = {
+  // Changing the key starts over from the first page; null leaves the list empty
+  key: string | null;
+  fetchPage: (request: PageRequest) => Promise<ApiResponse<TData>>;
+  // Pull the items out of the response data (defaults to the data itself)
+  select?: (data: TData) => T[];
+  // Defaults to `readPageInfo(response.meta)`
+  getPageInfo?: (response: ApiResponse<TData>) => PageInfo;
+  getId?: (item: T) => string;
+  mode?: 'page' | 'cursor';
+  // Chat-style lists: older pages go before the loaded items, new ones after
+  newestLast?: boolean;
+  // Called when a foreground load fails (background refreshes fail silently)
+  onError?: (message: string) => void;
+  // Items saved on the device, shown until the first page arrives (or instead of it when offline)
+  readCache?: () => Promise<T[] | null>;
+};
+
+const toNumber = (value: unknown) => (typeof value === 'number' ? value : undefined);
+
+/**
+ * Laravel pagination meta, either flat (`{ current_page, last_page }`), nested under
+ * `pagination`, or cursor-based (`{ next_cursor }`).
+ */
+export const readPageInfo = (meta: unknown): PageInfo => {
+  const record = meta as Record<string, unknown> | undefined;
+  const source = (record?.pagination ?? record) as Record<string, unknown> | undefined;
+  if (!source) return {};
+  return {
+    currentPage: toNumber(source.current_page),
+    lastPage: toNumber(source.last_page),
+    nextCursor: typeof source.next_cursor === 'string' ? source.next_cursor : undefined,
+  };
+};
+
+const defaultGetId = (item: unknown) => String((item as { id: string | number }).id);
+
+type LoadKind = 'initial' | 'refresh' | 'more' | 'background';
+
+/**
+ * A list loaded page by page (or cursor by cursor). Items are de-duplicated by id,
+ * so rows that shift between pages while new ones arrive aren't shown twice, and
+ * realtime items can be `prepend`ed without clashing with a later page load.
+ */
+export function usePaginatedList<T, TData = T[]>(options: UsePaginatedListOptions<T, TData>) {
+  const { key, mode = 'page', newestLast = false } = options;
+  const [items, setItems] = useState<T[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [meta, setMeta] = useState<Record<string, unknown> | undefined>(undefined);
+  const [isCached, setIsCached] = useState(false);
+
+  // Keep the latest callbacks without reloading when they change identity
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const pageRef = useRef(1);
+  const cursorRef = useRef<string | null>(null);
+  const loadingMoreRef = useRef(false);
+  const isCachedRef = useRef(false);
+  // Set once a first page has arrived, after which saved items must not replace it
+  const hasFreshPageRef = useRef(false);
+  // Bumped on reset; responses from an older generation are dropped
+  const generationRef = useRef(0);
+
+  const getId = useCallback((item: T) => (optionsRef.current.getId ?? defaultGetId)(item), []);
+
+  // Fresh items replace loaded ones with the same id; the rest go on the newest side
+  const merge = useCallback(
+    (current: T[], incoming: T[], side: 'newest' | 'oldest') => {
+      const incomingById = new Map(incoming.map((item) => [getId(item), item]));
+      const updated = current.map((item) => incomingById.get(getId(item)) ?? item);
+      const currentIds = new Set(current.map(getId));
+      const added = incoming.filter((item, index) => {
+        const id = getId(item);
+        // Also drops repeats within the incoming batch
+        return !currentIds.has(id) && incoming.findIndex((other) => getId(other) === id) === index;
+      });
+      const atStart = side === 'newest' ? !newestLast : newestLast;
+      return atStart ? [...added, ...updated] : [...updated, ...added];
+    },
+    [getId, newestLast]
+  );
+
+  const load = useCallback(
+    async (kind: LoadKind) => {
+      const { fetchPage, select, getPageInfo, onError } = optionsRef.current;
+      const generation = kind === 'initial' || kind === 'refresh' ? ++generationRef.current : generationRef.current;
+      const isFirstPage = kind !== 'more';
+      const request: PageRequest = isFirstPage
+        ? { page: 1, cursor: null }
+        : { page: pageRef.current + 1, cursor: cursorRef.current };
+
+      if (kind === 'initial') setIsLoading(true);
+      if (kind === 'refresh') setIsRefreshing(true);
+      if (kind === 'more') {
+        loadingMoreRef.current = true;
+        setIsLoadingMore(true);
+      }
+      if (kind !== 'background') setError(null);
+
+      try {
+        const response = await fetchPage(request);
+        if (generation !== generationRef.current) return;
+
+        if (!response.ok || response.status >= 300 || response.data === undefined) {
+          if (response.aborted) return;
+          const message = response.errors?.[0]?.detail || 'Failed to load';
+          // No connection while showing saved items: the offline banner already says so
+          if (kind === 'background' || (response.status === 0 && isCachedRef.current)) {
+            log.debug('Page refresh failed', { kind, status: response.status });
+            return;
+          }
+          setError(message);
+          onError?.(message);
+          return;
+        }
+
+        const data = response.data;
+        const pageItems = select ? select(data) : (data as unknown as T[]);
+
+        if (kind === 'background') {
+          setItems((prev) => merge(prev, pageItems, 'newest'));
+          setMeta(response.meta);
+          return;
+        }
+
+        const info = getPageInfo ? getPageInfo(response) : readPageInfo(response.meta);
+        if (isFirstPage) {
+          hasFreshPageRef.current = true;
+          isCachedRef.current = false;
+          setIsCached(false);
+          setItems(merge([], pageItems, 'newest'));
+          setMeta(response.meta);
+        } else {
+          setItems((prev) => merge(prev, pageItems, 'oldest'));
+        }
+
+        pageRef.current = info.currentPage ?? request.page;
+        if (mode === 'cursor') {
+          cursorRef.current = info.nextCursor ?? null;
+          setHasMore(!!info.nextCursor);
+        } else if (info.lastPage !== undefined) {
+          setHasMore(pageRef.current < info.lastPage);
+        } else {
+          // No totals from the backend: keep going until a page comes back empty
+          setHasMore(pageItems.length > 0);
+        }
+      } catch (err) {
+        if (generation !== generationRef.current || kind === 'background') return;
+        const message = err instanceof Error ? err.message : 'Failed to load';
+        log.error('Page load failed', err);
+        setError(message);
+        onError?.(message);
+      } finally {
+        if (kind === 'more') loadingMoreRef.current = false;
+        if (generation === generationRef.current) {
+          if (kind === 'initial') setIsLoading(false);
+          if (kind === 'refresh') setIsRefreshing(false);
+          if (kind === 'more') setIsLoadingMore(false);
+        }
+      }
+    },
+    [merge, mode]
+  );
+
+  useEffect(() => {
+    generationRef.current++;
+    pageRef.current = 1;
+    cursorRef.current = null;
+    setItems([]);
+    setHasMore(false);
+    setMeta(undefined);
+    setIsRefreshing(false);
+    setIsLoadingMore(false);
+    isCachedRef.current = false;
+    hasFreshPageRef.current = false;
+    setIsCached(false);
+    if (key === null) {
+      setIsLoading(false);
+      return;
+    }
+    load('initial');
+
+    const { readCache } = optionsRef.current;
+    if (!readCache) return;
+    const generation = generationRef.current;
+    readCache()
+      .then((cached) => {
+        if (!cached?.length || generation !== generationRef.current || hasFreshPageRef.current) return;
+        isCachedRef.current = true;
+        setIsCached(true);
+        setItems(cached);
+      })
+      .catch((err) => log.error('Reading cached page failed', err));
+  }, [key, load]);
+
+  /**
+   * Reload from the first page. `background` merges the first page into what's
+   * loaded instead (new items added, existing ones updated) without spinners,
+   * for polling.
+   */
+  const refresh = useCallback(
+    (refreshOptions: { background?: boolean } = {}) => {
+      if (key === null) return Promise.resolve();
+      return load(refreshOptions.background ? 'background' : 'refresh');
+    },
+    [key, load]
+  );
+
+  const loadMore = useCallback(() => {
+    if (key === null || !hasMore || loadingMoreRef.current || isLoading || isRefreshing) {
+      return Promise.resolve();
+    }
+    return load('more');
+  }, [key, hasMore, isLoading, isRefreshing, load]);
+
+  /**
+   * Add items on the newest side (top of a feed, bottom of a chat), e.g. from a
+   * realtime event. Items already in the list are updated in place.
+   */
+  const prepend = useCallback((incoming: T | T[]) => {
+    setItems((prev) => merge(prev, Array.isArray(incoming) ? incoming : [incoming], 'newest'));
+  }, [merge]);
+
+  return {
+    items,
+    setItems,
+    isLoading,
+    isRefreshing,
+    isLoadingMore,
+    hasMore,
+    error,
+    // Meta of the latest first-page response (e.g. unread counts)
+    meta,
+    // Items come from `readCache` rather than the network
+    isCached,
+    loadMore,
+    refresh,
+    prepend,
+  };
+}
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useReducer, useState } from 'react';
+import Toast from 'react-native-toast-message';
+import { api, type FeedPost } from '../lib/api';
+import { isPollOpen, polls } from '../lib/polls';
+import { usePollingFallback } from './useRealtime';
+
+// How often an open poll's counts are refetched while live updates are down
+const POLL_REFRESH_INTERVAL_MS = 30000;
+
+/**
+ * Poll state and voting for one post. With `live`, counts are also refetched
+ * periodically when the socket isn't delivering them.
+ */
+export function usePoll(post: FeedPost, options: { live?: boolean } = {}) {
+  const [, bump] = useReducer((count: number) => count + 1, 0);
+  useEffect(() => polls.subscribe(bump), []);
+  const [isVoting, setIsVoting] = useState(false);
+  const poll = polls.get(post);
+  const isOpen = !!poll && isPollOpen(poll);
+
+  const vote = useCallback(
+    async (optionId: string) => {
+      setIsVoting(true);
+      const response = await polls.vote(post, optionId);
+      setIsVoting(false);
+
+      if (response.ok && response.status < 300) {
+        const reward = response.data?.reward;
+        if (reward && reward.amount > 0) {
+          Toast.show({
+            type: 'success',
+            text1: 'Reward earned',
+            text2: `You earned ${reward.amount} ${reward.coin_symbol} for voting`,
+            visibilityTime: 3000,
+          });
+        }
+      } else {
+        Toast.show({
+          type: 'error',
+          text1: 'Error',
+          text2: response.errors?.[0]?.detail || 'Failed to vote',
+        });
+      }
+    },
+    [post]
+  );
+
+  const refresh = useCallback(async () => {
+    const response = await api.feed.getPost(post.id);
+    if (response.ok && response.data?.poll) {
+      polls.update(post.id, response.data.poll);
+    }
+  }, [post.id]);
+
+  usePollingFallback(refresh, POLL_REFRESH_INTERVAL_MS, !!options.live && isOpen);
+
+  return { poll, isOpen, isVoting, vote };
+}
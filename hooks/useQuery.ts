@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { queryCache, type QueryEntry, type QueryFetcher } from '../lib/queryCache';
+
+type UseQueryOptions = {
+  // How long cached data counts as fresh before a background revalidation (ms)
+  staleTime?: number;
+  enabled?: boolean;
+};
+
+const DEFAULT_STALE_TIME = 30000;
+
+/**
+ * Subscribe to a cached query. Cached data is returned immediately (no spinner on
+ * tab switches) and revalidated in the background when stale or invalidated.
+ */
+export function useQuery<T>(key: string, fetcher: QueryFetcher<T>, options: UseQueryOptions = {}) {
+  const { staleTime = DEFAULT_STALE_TIME, enabled = true } = options;
+  const [entry, setEntry] = useState<QueryEntry<T> | undefined>(() => queryCache.get<T>(key));
+
+  // Keep the latest fetcher without re-subscribing on every render
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const refetch = useCallback(() => queryCache.fetch(key, () => fetcherRef.current()), [key]);
+
+  useEffect(() => {
+    setEntry(queryCache.get<T>(key));
+
+    const unsubscribe = queryCache.subscribe(key, () => {
+      const next = queryCache.get<T>(key);
+      setEntry(next);
+      if (enabled && next?.invalidated && !next.promise) {
+        refetch().catch(() => undefined);
+      }
+    });
+
+    if (enabled && queryCache.isStale(key, staleTime)) {
+      refetch().catch(() => undefined);
+    }
+
+    return unsubscribe;
+  }, [key, enabled, staleTime, refetch]);
+
+  const isFetching = !!entry?.promise;
+
+  return {
+    data: entry?.data,
+    error: entry?.error ?? null,
+    isLoading: entry?.data === undefined && (isFetching || (enabled && !entry?.error)),
+    isFetching,
+    refetch,
+    setData: (updater: (previous: T | undefined) => T) => queryCache.setData(key, updater),
+  };
+}
@@ -0,0 +1,57 @@
+import { useEffect, useRef, useState } from 'react';
+import { realtime, type RealtimeEventName, type RealtimeEvents, type RealtimeStatus } from '../lib/realtime';
+
+/**
+ * Call `handler` for every `event` pushed over the socket while mounted.
+ */
+export function useRealtimeEvent<E extends RealtimeEventName>(
+  event: E,
+  handler: (payload: RealtimeEvents[E]) => void,
+  enabled = true
+) {
+  // Keep the latest handler without re-subscribing on every render
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return realtime.subscribe(event, (payload) => handlerRef.current(payload));
+  }, [event, enabled]);
+}
+
+export function useRealtimeStatus(): RealtimeStatus {
+  const [status, setStatus] = useState(() => realtime.getStatus());
+
+  useEffect(() => {
+    setStatus(realtime.getStatus());
+    return realtime.onStatusChange(setStatus);
+  }, []);
+
+  return status;
+}
+
+/**
+ * Run `callback` every `intervalMs`, but only while live updates aren't
+ * arriving (socket down or not configured). Also runs once on reconnect to
+ * catch up on events missed while disconnected.
+ */
+export function usePollingFallback(callback: () => void, intervalMs: number, enabled = true) {
+  const isLive = useRealtimeStatus() === 'connected';
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+  const wasLiveRef = useRef(isLive);
+
+  useEffect(() => {
+    const reconnected = isLive && !wasLiveRef.current;
+    wasLiveRef.current = isLive;
+    if (enabled && reconnected) {
+      callbackRef.current();
+    }
+  }, [enabled, isLive]);
+
+  useEffect(() => {
+    if (!enabled || isLive) return;
+    const interval = setInterval(() => callbackRef.current(), intervalMs);
+    return () => clearInterval(interval);
+  }, [enabled, isLive, intervalMs]);
+}
@@ -0,0 +1,15 @@
+import { queryKeys } from '../lib/queryCache';
+import { scheduledPostService, type ScheduledPost } from '../lib/scheduledPosts';
+import { useQuery } from './useQuery';
+
+/**
+ * The active account's scheduled posts, soonest first.
+ */
+export function useScheduledPosts(options: { enabled?: boolean } = {}) {
+  const query = useQuery<ScheduledPost[]>(queryKeys.scheduledPosts, () => scheduledPostService.list(), options);
+  const posts = query.data
+    ? [...query.data].sort((a, b) => Date.parse(a.scheduled_at) - Date.parse(b.scheduled_at))
+    : undefined;
+
+  return { ...query, data: posts };
+}
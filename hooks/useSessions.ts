@@ -0,0 +1,15 @@
+import { api, type Session } from '../lib/api';
+import { queryKeys } from '../lib/queryCache';
+import { useQuery } from './useQuery';
+
+/**
+ * Devices signed in to the active account, most recently active first.
+ */
+export function useSessions(options: { enabled?: boolean } = {}) {
+  const query = useQuery<Session[]>(queryKeys.sessions, api.sessions.list, options);
+  const sessions = query.data
+    ? [...query.data].sort((a, b) => Date.parse(b.last_active_at) - Date.parse(a.last_active_at))
+    : undefined;
+
+  return { ...query, data: sessions };
+}
@@ -0,0 +1,64 @@
+import { useCallback, useState } from 'react';
+import { useRouter } from 'expo-router';
+import * as Linking from 'expo-linking';
+import * as WebBrowser from 'expo-web-browser';
+import Toast from 'react-native-toast-message';
+import { api } from '../lib/api';
+import type { SocialProvider } from '../lib/auth';
+import { logger } from '../lib/logger';
+
+const log = logger.scope('auth');
+
+/**
+ * "Continue with Google/Facebook": opens the provider in an auth session and hands
+ * the callback (mobile://oauth/{provider}/callback?login_token=...) to the OAuth
+ * callback route, which signs in. The root layout does the same when the callback
+ * arrives as a deep link instead.
+ */
+export function useSocialSignIn(options: { redirect?: string } = {}) {
+  const router = useRouter();
+  const [pendingProvider, setPendingProvider] = useState<SocialProvider | null>(null);
+
+  const signIn = useCallback(
+    async (provider: SocialProvider) => {
+      const redirectUri = Linking.createURL(`oauth/${provider}/callback`);
+      setPendingProvider(provider);
+
+      try {
+        const result = await WebBrowser.openAuthSessionAsync(api.social.redirectUrl(provider, redirectUri), redirectUri);
+        if (result.type !== 'success') {
+          // Closed or dismissed by the user
+          return;
+        }
+
+        const query = Linking.parse(result.url).queryParams ?? {};
+        const params: Record<string, string> = {};
+        Object.entries(query).forEach(([key, value]) => {
+          if (typeof value === 'string') params[key] = value;
+        });
+
+        router.replace({
+          pathname: '/oauth/[...params]',
+          params: {
+            ...params,
+            params: [provider, 'callback'],
+            provider,
+            ...(options.redirect ? { redirect: options.redirect } : {}),
+          },
+        });
+      } catch (error) {
+        log.error('Social sign-in error:', error);
+        Toast.show({
+          type: 'error',
+          text1: 'Sign-in Failed',
+          text2: 'Could not open the sign-in page',
+        });
+      } finally {
+        setPendingProvider(null);
+      }
+    },
+    [router, options.redirect]
+  );
+
+  return { signIn, pendingProvider };
+}
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Toast from 'react-native-toast-message';
+import { useAuth } from '../context/AuthContext';
+import { twoFactorService, type StepUpProof, type TwoFactorCode } from '../lib/twoFactor';
+import type { TwoFactorCodeModalProps } from '../components/TwoFactorCodeModal';
+
+/**
+ * Step-up verification for sensitive actions. `requireStepUp()` resolves with the
+ * proof to spread into the request payload, or null if the user cancelled. Call
+ * `spendStepUp()` once the action succeeds so the proof isn't reused. Render
+ * `<TwoFactorCodeModal {...stepUpModalProps} />` alongside the action.
+ */
+export function useStepUp() {
+  const { user } = useAuth();
+  const [reason, setReason] = useState<string | null>(null);
+  const resolverRef = useRef<((proof: StepUpProof | null) => void) | null>(null);
+
+  const settle = useCallback((proof: StepUpProof | null) => {
+    resolverRef.current?.(proof);
+    resolverRef.current = null;
+    setReason(null);
+  }, []);
+
+  // Don't leave a caller awaiting forever if the screen goes away mid-prompt
+  useEffect(() => () => resolverRef.current?.(null), []);
+
+  const requireStepUp = useCallback(
+    (actionReason: string): Promise<StepUpProof | null> => {
+      if (!user?.two_factor_enabled) {
+        return Promise.resolve({});
+      }
+
+      const cached = twoFactorService.getStepUpToken();
+      if (cached) {
+        return Promise.resolve({ step_up_token: cached });
+      }
+
+      resolverRef.current?.(null);
+      return new Promise((resolve) => {
+        resolverRef.current = resolve;
+        setReason(actionReason);
+      });
+    },
+    [user?.two_factor_enabled]
+  );
+
+  const handleSubmit = useCallback(
+    async (code: TwoFactorCode) => {
+      const response = await twoFactorService.verify(code);
+      if (response.ok && response.status < 300 && response.data) {
+        settle({ step_up_token: response.data.step_up_token });
+        return true;
+      }
+
+      Toast.show({
+        type: 'error',
+        text1: 'Verification Failed',
+        text2: response.errors?.[0]?.detail || 'Invalid code',
+      });
+      return false;
+    },
+    [settle]
+  );
+
+  const spendStepUp = useCallback(() => twoFactorService.spendStepUpToken(), []);
+
+  const stepUpModalProps: TwoFactorCodeModalProps = {
+    visible: reason !== null,
+    message: reason ? `Enter the 6-digit code from your authenticator app to ${reason}.` : undefined,
+    submitLabel: 'Continue',
+    onSubmit: handleSubmit,
+    onCancel: () => settle(null),
+  };
+
+  return { requireStepUp, spendStepUp, stepUpModalProps };
+}
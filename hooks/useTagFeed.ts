@@ -0,0 +1,92 @@
+import { useCallback, useRef } from 'react';
+import Toast from 'react-native-toast-message';
+import { api, type FeedPost } from '../lib/api';
+import { logger } from '../lib/logger';
+import { usePaginatedList } from './usePaginatedList';
+import { useRealtimeEvent } from './useRealtime';
+
+const log = logger.scope('feed');
+
+/**
+ * Posts tagged `#tag`, newest or most popular first, paged like the main feed.
+ */
+export function useTagFeed(tag: string, sortBy: 'newest' | 'popular' = 'newest') {
+  const {
+    items: posts,
+    setItems: setPosts,
+    isLoading: loading,
+    isRefreshing: refreshing,
+    isLoadingMore: loadingMore,
+    hasMore: hasMorePages,
+    loadMore,
+    refresh,
+  } = usePaginatedList<FeedPost>({
+    // Each tag and sort is its own list
+    key: tag ? `tag:${tag}:${sortBy}` : null,
+    fetchPage: ({ page }) => {
+      log.debug('Loading tag feed page', { tag, sort: sortBy, page });
+      return api.feed.tagPosts({ tag, sort: sortBy, page, perPage: 20 });
+    },
+    onError: (message) =>
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: message || 'Failed to load posts',
+      }),
+  });
+
+  const postIdsRef = useRef(new Set<string>());
+  postIdsRef.current = new Set(posts.map((post) => post.id));
+
+  useRealtimeEvent('post.counts', ({ post_id, likes_count, comments_count, shares_count }) => {
+    if (!postIdsRef.current.has(post_id)) return;
+    setPosts((prevPosts) =>
+      prevPosts.map((p) =>
+        p.id === post_id
+          ? { ...p, likes_count, comments_count, shares_count: shares_count ?? p.shares_count }
+          : p
+      )
+    );
+  });
+
+  const handleLike = useCallback(async (postId: string) => {
+    const response = await api.feed.likePost(postId);
+
+    if (response.queued) {
+      // Offline: toggle locally, the outbox replays the like when we reconnect
+      setPosts((prevPosts) =>
+        prevPosts.map((p) =>
+          p.id === postId
+            ? {
+                ...p,
+                is_liked: !p.is_liked,
+                likes_count: p.is_liked ? Math.max(0, p.likes_count - 1) : p.likes_count + 1,
+              }
+            : p
+        )
+      );
+    } else if (response.ok && response.data) {
+      const { liked, likes_count } = response.data;
+      setPosts((prevPosts) => prevPosts.map((p) => (p.id === postId ? { ...p, is_liked: liked, likes_count } : p)));
+    } else {
+      log.error('Like error:', response.errors);
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: 'Failed to like post',
+      });
+    }
+  }, [setPosts]);
+
+  return {
+    posts,
+    setPosts,
+    loading,
+    refreshing,
+    loadingMore,
+    hasMorePages,
+    loadMorePosts: loadMore,
+    onRefresh: refresh,
+    handleLike,
+  };
+}
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { uploader, type UploadFile, type UploadOptions } from '../lib/uploader';
+
+export type UploadTask = {
+  id: string;
+  name: string;
+  // 0-100
+  progress: number;
+};
+
+/**
+ * Track uploads started from a screen: per-file progress, cancellation, and
+ * everything still running is cancelled on unmount.
+ */
+export function useUploads() {
+  const [tasks, setTasks] = useState<UploadTask[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach((controller) => controller.abort());
+  }, []);
+
+  const start = useCallback(async (file: UploadFile, options: Pick<UploadOptions, 'purpose'> = {}) => {
+    const id = `${file.uri}-${Date.now()}`;
+    const controller = new AbortController();
+    controllersRef.current.set(id, controller);
+    setTasks((prev) => [...prev, { id, name: file.name || 'file', progress: 0 }]);
+
+    try {
+      return await uploader.upload(file, {
+        ...options,
+        signal: controller.signal,
+        onProgress: ({ fraction }) => {
+          const progress = Math.round(fraction * 100);
+          setTasks((prev) => prev.map((task) => (task.id === id ? { ...task, progress } : task)));
+        },
+      });
+    } finally {
+      controllersRef.current.delete(id);
+      setTasks((prev) => prev.filter((task) => task.id !== id));
+    }
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort();
+  }, []);
+
+  const cancelAll = useCallback(() => {
+    controllersRef.current.forEach((controller) => controller.abort());
+  }, []);
+
+  return {
+    tasks,
+    isUploading: tasks.length > 0,
+    start,
+    cancel,
+    cancelAll,
+  };
+}
@@ -0,0 +1,11 @@
+import { api, type WalletData } from '../lib/api';
+import { queryKeys } from '../lib/queryCache';
+import { useQuery } from './useQuery';
+
+/**
+ * The signed-in user's wallet, shared by every screen through the query cache.
+ * Invalidate `queryKeys.wallet` after anything that moves coins.
+ */
+export function useWallet(options: { enabled?: boolean } = {}) {
+  return useQuery<WalletData>(queryKeys.wallet, api.wallets.me, options);
+}
@@ -0,0 +1,24 @@
+// Specs run against the in-process mock backend (lib/mockBackend.ts), never the network
+process.env.EXPO_PUBLIC_MOCK_API = 'true';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('@react-native-community/netinfo', () => require('@react-native-community/netinfo/jest/netinfo-mock.js'));
+
+jest.mock('expo-secure-store', () => {
+  const store = new Map();
+  return {
+    getItemAsync: jest.fn(async (key) => store.get(key) ?? null),
+    setItemAsync: jest.fn(async (key, value) => {
+      store.set(key, value);
+    }),
+    deleteItemAsync: jest.fn(async (key) => {
+      store.delete(key);
+    }),
+  };
+});
+
+// Expected failures still log at error level; the request-by-request debug output is just noise
+require('./lib/logger').logger.setLevel('error');
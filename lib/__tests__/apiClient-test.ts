@@ -0,0 +1,207 @@
+import { AxiosError, type AxiosInstance, type AxiosResponse } from 'axios';
+import { api } from '../api';
+import { apiClient } from '../apiClient';
+import type { AuthResponse } from '../auth';
+import { getMockDatabase, resetMockBackend } from '../mockBackend';
+
+// A token the mock backend no longer accepts, as if it had expired
+const EXPIRED_TOKEN = 'mock-token-expired';
+
+// performRefresh posts through the axios instance directly
+const axiosInstance = () => (apiClient as unknown as { client: AxiosInstance }).client;
+
+const signIn = async () => {
+  const response = await api.auth.login({ email: 'demo@example.com', password: 'password' });
+  const { token, refresh_token } = response.data as AuthResponse;
+  await apiClient.setTokens(token, refresh_token ?? null);
+  return { token, refreshToken: refresh_token ?? null };
+};
+
+// What axios rejects with when the request never got an answer
+const networkError = () => new AxiosError('Network Error', AxiosError.ERR_NETWORK);
+
+// A 5xx, which axios rejects with (see validateStatus)
+const serverError = (status: number) =>
+  new AxiosError('Request failed', AxiosError.ERR_BAD_RESPONSE, undefined, undefined, {
+    status,
+    data: { errors: [{ title: 'Unavailable' }] },
+    headers: {},
+  } as AxiosResponse);
+
+let sessionExpired: jest.Mock;
+let unsubscribe: () => void;
+
+beforeEach(async () => {
+  resetMockBackend({ latencyMs: 0 });
+  await apiClient.setTokens(null, null);
+  sessionExpired = jest.fn();
+  unsubscribe = apiClient.onSessionExpired(sessionExpired);
+});
+
+afterEach(() => {
+  unsubscribe();
+  jest.restoreAllMocks();
+});
+
+describe('token refresh', () => {
+  it('refreshes an expired token and replays the request', async () => {
+    const { refreshToken } = await signIn();
+    await apiClient.setTokens(EXPIRED_TOKEN, refreshToken);
+
+    const response = await api.wallets.me();
+
+    expect(response.status).toBe(200);
+    expect(apiClient.getToken()).toMatch(/^mock-token-1-/);
+    expect(apiClient.getRefreshToken()).not.toBe(refreshToken);
+    expect(sessionExpired).not.toHaveBeenCalled();
+  });
+
+  it('shares one refresh between concurrent requests', async () => {
+    const { refreshToken } = await signIn();
+    await apiClient.setTokens(EXPIRED_TOKEN, refreshToken);
+    const post = jest.spyOn(axiosInstance(), 'post');
+
+    const responses = await Promise.all([api.wallets.me(), api.feed.getPost('post-1'), api.feed.getPost('post-3')]);
+
+    expect(responses.map((response) => response.status)).toEqual([200, 200, 200]);
+    expect(post.mock.calls.filter(([url]) => url === '/v1/auth/refresh')).toHaveLength(1);
+  });
+
+  it('ends the session when the server rejects the refresh token', async () => {
+    await signIn();
+    await apiClient.setTokens(EXPIRED_TOKEN, 'mock-refresh-unknown');
+
+    const response = await api.wallets.me();
+
+    expect(response.status).toBe(401);
+    expect(apiClient.getToken()).toBeNull();
+    expect(sessionExpired).toHaveBeenCalledWith('expired');
+  });
+
+  it('reports a refresh token revoked from another device', async () => {
+    const { refreshToken } = await signIn();
+    getMockDatabase().revokedTokens.push(refreshToken!);
+    await apiClient.setTokens(EXPIRED_TOKEN, refreshToken);
+
+    await api.wallets.me();
+
+    expect(sessionExpired).toHaveBeenCalledWith('revoked');
+  });
+
+  it('keeps the session when the refresh cannot reach the server', async () => {
+    const { refreshToken } = await signIn();
+    await apiClient.setTokens(EXPIRED_TOKEN, refreshToken);
+    jest.spyOn(axiosInstance(), 'post').mockRejectedValueOnce(new Error('Network Error'));
+
+    const response = await api.wallets.me();
+
+    expect(response.status).toBe(401);
+    expect(apiClient.getToken()).toBe(EXPIRED_TOKEN);
+    expect(apiClient.getRefreshToken()).toBe(refreshToken);
+    expect(sessionExpired).not.toHaveBeenCalled();
+
+    // Back online: the next request refreshes as usual
+    expect((await api.wallets.me()).status).toBe(200);
+  });
+
+  it('keeps the session when the refresh is rate limited', async () => {
+    const { refreshToken } = await signIn();
+    await apiClient.setTokens(EXPIRED_TOKEN, refreshToken);
+    jest.spyOn(axiosInstance(), 'post').mockResolvedValueOnce({ status: 429, data: {} });
+
+    await api.wallets.me();
+
+    expect(apiClient.getRefreshToken()).toBe(refreshToken);
+    expect(sessionExpired).not.toHaveBeenCalled();
+  });
+});
+
+describe('retries', () => {
+  beforeEach(async () => {
+    await signIn();
+    jest.useFakeTimers();
+    // No jitter: every backoff waits its full delay
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('retries a GET with doubling delays', async () => {
+    const request = jest
+      .spyOn(axiosInstance(), 'request')
+      .mockRejectedValueOnce(networkError())
+      .mockRejectedValueOnce(serverError(503));
+
+    const pending = api.wallets.me();
+
+    await jest.advanceTimersByTimeAsync(499);
+    expect(request).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(request).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(999);
+    expect(request).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+
+    expect((await pending).status).toBe(200);
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits as long as Retry-After asks', async () => {
+    const request = jest.spyOn(axiosInstance(), 'request').mockResolvedValueOnce({
+      status: 429,
+      data: { errors: [{ title: 'Too Many Requests' }] },
+      headers: { 'retry-after': '3' },
+    });
+
+    const pending = api.wallets.me();
+
+    await jest.advanceTimersByTimeAsync(2999);
+    expect(request).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+
+    expect((await pending).status).toBe(200);
+  });
+
+  it('gives up once the retries run out', async () => {
+    const request = jest.spyOn(axiosInstance(), 'request').mockRejectedValue(networkError());
+
+    const pending = api.wallets.me();
+    await jest.runAllTimersAsync();
+
+    expect((await pending).status).toBe(0);
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('only retries a mutation that opts in', async () => {
+    const request = jest.spyOn(axiosInstance(), 'request').mockRejectedValueOnce(serverError(503));
+
+    const response = await apiClient.post('/v1/feed/posts', { content: 'Hello', visibility: 'public' });
+
+    expect(response.status).toBe(503);
+    expect(request).toHaveBeenCalledTimes(1);
+
+    request.mockRejectedValueOnce(serverError(503));
+    const pending = apiClient.request('/v1/feed/posts', {
+      method: 'POST',
+      data: { content: 'Hello', visibility: 'public' },
+      retry: { retries: 1 },
+    });
+    await jest.runAllTimersAsync();
+
+    expect((await pending).status).toBe(201);
+  });
+
+  it('stops waiting for a retry when the signal aborts', async () => {
+    const request = jest.spyOn(axiosInstance(), 'request').mockRejectedValueOnce(networkError());
+    const controller = new AbortController();
+
+    const pending = apiClient.request('/v1/wallets/me', { signal: controller.signal });
+    await jest.advanceTimersByTimeAsync(100);
+    controller.abort();
+
+    expect(await pending).toMatchObject({ ok: false, aborted: true });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
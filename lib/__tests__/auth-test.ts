@@ -0,0 +1,146 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import type { AxiosInstance } from 'axios';
+import { api } from '../api';
+import { accountStore } from '../accounts';
+import { apiClient, type ApiResponse } from '../apiClient';
+import { authService } from '../auth';
+import { draftStore } from '../drafts';
+import { getMockDatabase, resetMockBackend } from '../mockBackend';
+import { outbox } from '../outbox';
+
+const DEMO_ID = 1;
+const GRACE_ID = 3;
+
+const offline: ApiResponse<never> = {
+  ok: false,
+  status: 0,
+  errors: [{ title: 'Network error', detail: 'No connection' }],
+};
+
+const axiosInstance = () => (apiClient as unknown as { client: AxiosInstance }).client;
+
+const signIn = (email: string) => authService.login({ email, password: 'password' });
+
+// Demo is signed in first; Grace is added and left active
+const signInBoth = async () => {
+  await signIn('demo@example.com');
+  await signIn('grace@example.com');
+};
+
+// Replaces an account's stored session, as if it had aged while another account was active
+const setStoredTokens = async (accountId: number, token: string, refreshToken?: string) => {
+  await SecureStore.setItemAsync(`phanrise_account_${accountId}_token`, token);
+  if (refreshToken) {
+    await SecureStore.setItemAsync(`phanrise_account_${accountId}_refresh_token`, refreshToken);
+  }
+};
+
+const storedIds = () => accountStore.getState().accounts.map((account) => account.id);
+
+const nextSettled = () =>
+  new Promise<void>((resolve) => {
+    const unsubscribe = outbox.onSettled(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+
+beforeEach(async () => {
+  resetMockBackend({ latencyMs: 0 });
+  await signInBoth();
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  while (accountStore.getActiveId() !== null) {
+    await authService.logout();
+  }
+  await outbox.clear();
+  await AsyncStorage.clear();
+});
+
+describe('switching accounts', () => {
+  it('keeps both accounts signed in and swaps the session', async () => {
+    expect(storedIds()).toEqual([DEMO_ID, GRACE_ID]);
+    expect(accountStore.getActiveId()).toBe(GRACE_ID);
+
+    const response = await authService.switchAccount(DEMO_ID);
+
+    expect(response.data?.email).toBe('demo@example.com');
+    expect(accountStore.getActiveId()).toBe(DEMO_ID);
+    expect(apiClient.getToken()).toMatch(/^mock-token-1-/);
+    expect((await authService.getCurrentUser()).data?.id).toBe(DEMO_ID);
+  });
+
+  it('shows each account only its own drafts', async () => {
+    await authService.switchAccount(DEMO_ID);
+    await draftStore.save('draft-demo', {
+      content: 'Demo only',
+      visibility: 'public',
+      media: [],
+      reward_enabled: false,
+      reward_pool: 0,
+      reward_coin_symbol: '',
+      reward_rule: {},
+    });
+
+    await authService.switchAccount(GRACE_ID);
+    await draftStore.refresh();
+    expect(draftStore.list()).toEqual([]);
+
+    await authService.switchAccount(DEMO_ID);
+    await draftStore.refresh();
+    expect(draftStore.list().map((draft) => draft.id)).toEqual(['draft-demo']);
+  });
+
+  it('replays queued mutations only as the account that made them', async () => {
+    await authService.switchAccount(DEMO_ID);
+    const request = jest.spyOn(apiClient, 'request').mockResolvedValueOnce(offline);
+    await api.feed.likePost('post-3');
+
+    await authService.switchAccount(GRACE_ID);
+    await outbox.drain(true);
+
+    expect(outbox.getEntries()).toHaveLength(0);
+    expect(request.mock.calls.filter(([path]) => path === '/v1/feed/posts/post-3/like')).toHaveLength(1);
+
+    const replayed = nextSettled();
+    await authService.switchAccount(DEMO_ID);
+    await replayed;
+
+    expect(request.mock.calls.filter(([path]) => path === '/v1/feed/posts/post-3/like')).toHaveLength(2);
+    expect(getMockDatabase().posts.find((post) => post.id === 'post-3')?.is_liked).toBe(true);
+  });
+
+  it('stays on the current account when the other one cannot be reached', async () => {
+    jest.spyOn(authService, 'getCurrentUser').mockResolvedValueOnce(offline);
+
+    const response = await authService.switchAccount(DEMO_ID);
+
+    expect(response.status).toBe(0);
+    expect(accountStore.getActiveId()).toBe(GRACE_ID);
+    expect(apiClient.getToken()).toMatch(/^mock-token-3-/);
+    expect(storedIds()).toEqual([DEMO_ID, GRACE_ID]);
+  });
+
+  it('keeps an account whose token refresh could not reach the server', async () => {
+    await setStoredTokens(DEMO_ID, 'mock-token-expired');
+    jest.spyOn(axiosInstance(), 'post').mockRejectedValueOnce(new Error('Network Error'));
+
+    const response = await authService.switchAccount(DEMO_ID);
+
+    expect(response.status).toBe(401);
+    expect(accountStore.getActiveId()).toBe(GRACE_ID);
+    expect(storedIds()).toEqual([DEMO_ID, GRACE_ID]);
+  });
+
+  it('signs an account out when its refresh token is rejected', async () => {
+    await setStoredTokens(DEMO_ID, 'mock-token-expired', 'mock-refresh-unknown');
+
+    const response = await authService.switchAccount(DEMO_ID);
+
+    expect(response.status).toBe(401);
+    expect(storedIds()).toEqual([GRACE_ID]);
+  });
+});
@@ -0,0 +1,24 @@
+import { extractHashtags, isTagQuery, normalizeTag } from '../hashtags';
+
+describe('hashtags', () => {
+  it('extracts distinct normalized tags in order of first use', () => {
+    expect(extractHashtags('#Rise and #grind, then #rise again')).toEqual(['rise', 'grind']);
+  });
+
+  it('ignores numbers and mid-word hashes', () => {
+    expect(extractHashtags('Item #1 in C# or AT&T#deal')).toEqual([]);
+    expect(extractHashtags('#2024goals')).toEqual(['2024goals']);
+  });
+
+  it('normalizes tags for feed URLs', () => {
+    expect(normalizeTag('#  ')).toBe('');
+    expect(normalizeTag('#Crypto')).toBe('crypto');
+    expect(normalizeTag(`#${'a'.repeat(80)}`)).toHaveLength(50);
+  });
+
+  it('accepts only tag characters as a query', () => {
+    expect(isTagQuery('')).toBe(true);
+    expect(isTagQuery('new_year')).toBe(true);
+    expect(isTagQuery('new year')).toBe(false);
+  });
+});
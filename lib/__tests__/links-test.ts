@@ -0,0 +1,25 @@
+import { displayHost, firstUrl, toHref, trimUrl } from '../links';
+
+describe('links', () => {
+  it('finds the first http(s) or www. link', () => {
+    expect(firstUrl('Read https://example.com/a and www.other.org')).toBe('https://example.com/a');
+    expect(firstUrl('see www.example.com/docs')).toBe('https://www.example.com/docs');
+    expect(firstUrl('no links here, just example.com')).toBeNull();
+    expect(firstUrl(null)).toBeNull();
+  });
+
+  it('leaves closing punctuation out of the link', () => {
+    expect(firstUrl('(see https://example.com/a).')).toBe('https://example.com/a');
+    expect(trimUrl('https://example.com/x?!')).toBe('https://example.com/x');
+  });
+
+  it('keeps the scheme of absolute links', () => {
+    expect(toHref('http://example.com')).toBe('http://example.com');
+    expect(toHref('www.example.com')).toBe('https://www.example.com');
+  });
+
+  it('shows the host without www.', () => {
+    expect(displayHost('https://WWW.Example.com/path?q=1')).toBe('example.com');
+    expect(displayHost('http://blog.example.com#top')).toBe('blog.example.com');
+  });
+});
@@ -0,0 +1,70 @@
+import { api } from '../api';
+import { apiClient } from '../apiClient';
+import type { AuthResponse } from '../auth';
+import { getMockDatabase, resetMockBackend } from '../mockBackend';
+
+const signIn = async (email = 'demo@example.com') => {
+  const response = await api.auth.login({ email, password: 'password' });
+  const { token, refresh_token } = response.data as AuthResponse;
+  await apiClient.setTokens(token, refresh_token ?? null);
+  return response;
+};
+
+beforeEach(async () => {
+  resetMockBackend({ latencyMs: 0 });
+  await apiClient.setTokens(null, null);
+});
+
+describe('mock backend', () => {
+  it('rejects requests without a session', async () => {
+    const response = await api.feed.list({ sort: 'newest', page: 1 });
+    expect(response.status).toBe(401);
+  });
+
+  it('signs in with the fixture password', async () => {
+    const response = await signIn();
+    expect(response.status).toBe(200);
+    expect((response.data as AuthResponse).user.email).toBe('demo@example.com');
+
+    const wrong = await api.auth.login({ email: 'demo@example.com', password: 'nope' });
+    expect(wrong.status).toBe(422);
+  });
+
+  it('asks for a second factor when the account has 2FA', async () => {
+    const response = await api.auth.login({ email: 'ada@example.com', password: 'password' });
+    expect(response.data).toMatchObject({ two_factor_required: true });
+  });
+
+  it('pages the feed with Laravel pagination meta', async () => {
+    await signIn();
+    const response = await api.feed.list({ sort: 'newest', page: 1, perPage: 2 });
+    expect(response.ok).toBe(true);
+    expect(response.data).toHaveLength(2);
+    expect(response.meta?.pagination).toMatchObject({ current_page: 1, per_page: 2 });
+  });
+
+  it('toggles a like on every POST', async () => {
+    await signIn();
+    const liked = await api.feed.likePost('post-3');
+    expect(liked.data).toEqual({ liked: true, likes_count: 42 });
+
+    const unliked = await api.feed.likePost('post-3');
+    expect(unliked.data).toEqual({ liked: false, likes_count: 41 });
+    expect(getMockDatabase().posts.find((post) => post.id === 'post-3')?.is_liked).toBe(false);
+  });
+
+  it('lists posts by tag', async () => {
+    await signIn();
+    const response = await api.feed.tagPosts({ tag: 'creators', sort: 'newest', page: 1 });
+    expect(response.data?.map((post) => post.id)).toEqual(['post-1', 'post-4']);
+  });
+
+  it('previews http(s) links only', async () => {
+    await signIn();
+    const preview = await api.links.preview({ url: 'https://www.example.com/blog/post' });
+    expect(preview.data).toMatchObject({ url: 'https://www.example.com/blog/post', site_name: 'example.com' });
+
+    const invalid = await api.links.preview({ url: 'ftp://example.com' });
+    expect(invalid.status).toBe(422);
+  });
+});
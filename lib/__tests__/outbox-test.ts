@@ -0,0 +1,130 @@
+import { api } from '../api';
+import { apiClient, type ApiResponse } from '../apiClient';
+import { authService, type AuthResponse } from '../auth';
+import { getMockDatabase, resetMockBackend } from '../mockBackend';
+import { outbox } from '../outbox';
+
+const offline: ApiResponse<never> = {
+  ok: false,
+  status: 0,
+  errors: [{ title: 'Network error', detail: 'No connection' }],
+};
+
+const findPost = (postId: string) => getMockDatabase().posts.find((post) => post.id === postId);
+
+beforeEach(async () => {
+  resetMockBackend({ latencyMs: 0 });
+  const response = await api.auth.login({ email: 'demo@example.com', password: 'password' });
+  const { token, refresh_token } = response.data as AuthResponse;
+  await apiClient.setTokens(token, refresh_token ?? null);
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await outbox.clear();
+});
+
+describe('outbox', () => {
+  it('sends straight away when online', async () => {
+    const response = await api.feed.likePost('post-3');
+    expect(response.queued).toBeUndefined();
+    expect(response.data?.liked).toBe(true);
+    expect(outbox.getEntries()).toHaveLength(0);
+  });
+
+  it('queues a mutation that could not reach the server', async () => {
+    jest.spyOn(apiClient, 'request').mockResolvedValueOnce(offline);
+
+    const response = await api.feed.likePost('post-3');
+
+    expect(response.queued).toBe(true);
+    expect(outbox.getEntries()).toEqual([
+      expect.objectContaining({ kind: 'like', method: 'POST', path: '/v1/feed/posts/post-3/like', targetId: 'post-3' }),
+    ]);
+    expect(findPost('post-3')?.is_liked).toBe(false);
+  });
+
+  it('replays queued entries with their idempotency key once back online', async () => {
+    const request = jest.spyOn(apiClient, 'request').mockResolvedValueOnce(offline);
+    const settled = jest.fn();
+    const unsubscribe = outbox.onSettled(settled);
+
+    const { entry } = await api.feed.likePost('post-3');
+    await outbox.drain(true);
+    unsubscribe();
+
+    expect(request).toHaveBeenLastCalledWith('/v1/feed/posts/post-3/like', expect.objectContaining({ idempotencyKey: entry!.id }));
+    expect(findPost('post-3')).toMatchObject({ is_liked: true, likes_count: 42 });
+    expect(outbox.getEntries()).toHaveLength(0);
+    expect(settled).toHaveBeenCalledWith(expect.objectContaining({ id: entry!.id }), expect.objectContaining({ status: 200 }));
+  });
+
+  it('keeps entries and backs off while still offline', async () => {
+    jest.spyOn(apiClient, 'request').mockResolvedValueOnce(offline).mockResolvedValueOnce(offline);
+
+    await api.feed.likePost('post-3');
+    await outbox.drain(true);
+
+    const [entry] = outbox.getEntries();
+    expect(entry.attempts).toBe(2);
+    expect(entry.nextAttemptAt).toBeGreaterThan(Date.now());
+    expect(findPost('post-3')?.is_liked).toBe(false);
+  });
+
+  it('waits for the backoff unless forced', async () => {
+    const request = jest.spyOn(apiClient, 'request').mockResolvedValueOnce(offline);
+
+    await api.feed.likePost('post-3');
+    await outbox.drain();
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(outbox.getEntries()).toHaveLength(1);
+  });
+
+  it('drops entries the server rejects for good', async () => {
+    jest.spyOn(apiClient, 'request').mockResolvedValueOnce(offline);
+    const settled = jest.fn();
+    const unsubscribe = outbox.onSettled(settled);
+
+    await api.feed.likePost('post-missing');
+    await outbox.drain(true);
+    unsubscribe();
+
+    expect(outbox.getEntries()).toHaveLength(0);
+    expect(settled).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ status: 404 }));
+  });
+
+  it('replays in the order entries were queued', async () => {
+    jest.spyOn(apiClient, 'request').mockResolvedValueOnce(offline).mockResolvedValueOnce(offline);
+
+    await api.feed.likePost('post-3');
+    await api.feed.addComment('post-3', { content: 'Queued while offline', parent_id: null });
+    expect(outbox.getEntries().map((entry) => entry.kind)).toEqual(['like', 'comment']);
+
+    await outbox.drain(true);
+
+    expect(findPost('post-3')).toMatchObject({ is_liked: true, comments_count: 1 });
+    expect(getMockDatabase().comments['post-3']?.map((comment) => comment.content)).toEqual(['Queued while offline']);
+  });
+
+  it('keeps the entries of a signed-out account and replays them once it signs in again', async () => {
+    await authService.login({ email: 'demo@example.com', password: 'password' });
+    jest.spyOn(apiClient, 'request').mockResolvedValueOnce(offline);
+    await api.feed.likePost('post-3');
+
+    await authService.logout();
+    expect(outbox.getEntries()).toHaveLength(0);
+
+    const replayed = new Promise<void>((resolve) => {
+      const unsubscribe = outbox.onSettled(() => {
+        unsubscribe();
+        resolve();
+      });
+    });
+    await authService.login({ email: 'demo@example.com', password: 'password' });
+    await replayed;
+
+    expect(findPost('post-3')?.is_liked).toBe(true);
+    expect(outbox.getEntries()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,140 @@
+import { api, type FeedPost } from '../api';
+import { apiClient } from '../apiClient';
+import type { AuthResponse } from '../auth';
+import { getMockDatabase, resetMockBackend } from '../mockBackend';
+import { isPollOpen, pollVoteReward, polls, validatePollOptions } from '../polls';
+import { queryCache, queryKeys } from '../queryCache';
+
+type MockListener = (payload: unknown) => void;
+
+// Lets the specs push `poll.votes` events as if they came over the socket
+jest.mock('../realtime', () => {
+  const listeners = new Map<string, MockListener>();
+  return {
+    realtime: {
+      subscribe: (event: string, listener: MockListener) => {
+        listeners.set(event, listener);
+        return () => listeners.delete(event);
+      },
+      emit: (event: string, payload: unknown) => listeners.get(event)?.(payload),
+    },
+  };
+});
+
+const { realtime } = jest.requireMock('../realtime') as { realtime: { emit: (event: string, payload: unknown) => void } };
+
+// Ada's launch post, with a poll that pays 5 ADA per vote
+const fetchPollPost = async (): Promise<FeedPost> => {
+  const post = getMockDatabase().posts.find((item) => item.id === 'post-1')!;
+  post.reward_rule = { ...post.reward_rule, per_type: { vote: 5 } };
+  post.poll = {
+    options: [
+      { id: 'option-a', text: 'Yes', votes_count: 3 },
+      { id: 'option-b', text: 'No', votes_count: 1 },
+    ],
+    total_votes: 4,
+    ends_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    closed: false,
+    voted_option_id: null,
+  };
+  const response = await api.feed.getPost('post-1');
+  return response.data!;
+};
+
+const adaBalance = () =>
+  getMockDatabase().wallet.coin_balances.find((balance) => balance.coin_symbol === 'ADA')?.balance;
+
+beforeEach(async () => {
+  resetMockBackend({ latencyMs: 0 });
+  polls.clear();
+  const response = await api.auth.login({ email: 'demo@example.com', password: 'password' });
+  const { token, refresh_token } = response.data as AuthResponse;
+  await apiClient.setTokens(token, refresh_token ?? null);
+});
+
+describe('validatePollOptions', () => {
+  it('accepts two to six distinct options', () => {
+    expect(validatePollOptions(['Yes', 'No'])).toBeNull();
+    expect(validatePollOptions(['Yes'])).toMatch(/2 to 6/);
+    expect(validatePollOptions(['1', '2', '3', '4', '5', '6', '7'])).toMatch(/2 to 6/);
+  });
+
+  it('rejects empty and repeated options', () => {
+    expect(validatePollOptions(['Yes', '  '])).toMatch(/Fill in every poll option/);
+    expect(validatePollOptions(['Yes', ' yes '])).toMatch(/must be different/);
+  });
+});
+
+describe('poll helpers', () => {
+  it('treats closed and ended polls as closed', async () => {
+    const { poll } = await fetchPollPost();
+    expect(isPollOpen(poll!)).toBe(true);
+    expect(isPollOpen({ ...poll!, closed: true })).toBe(false);
+    expect(isPollOpen({ ...poll!, ends_at: new Date(Date.now() - 1000).toISOString() })).toBe(false);
+  });
+
+  it('only pays for votes while the pool has coins', async () => {
+    const post = await fetchPollPost();
+    expect(pollVoteReward(post)).toBe(5);
+    expect(pollVoteReward({ ...post, reward_pool: 0 })).toBe(0);
+    expect(pollVoteReward({ ...post, reward_enabled: false })).toBe(0);
+  });
+});
+
+describe('polls store', () => {
+  it('counts a vote right away and takes the server tally', async () => {
+    const post = await fetchPollPost();
+    const listener = jest.fn();
+    const unsubscribe = polls.subscribe(listener);
+
+    const pending = polls.vote(post, 'option-b');
+    expect(polls.get(post)).toMatchObject({ total_votes: 5, voted_option_id: 'option-b' });
+    expect(polls.get(post)?.options[1].votes_count).toBe(2);
+
+    const response = await pending;
+    unsubscribe();
+
+    expect(response.data?.reward).toEqual({ amount: 5, coin_symbol: 'ADA' });
+    expect(polls.get(post)).toEqual(getMockDatabase().posts.find((item) => item.id === 'post-1')?.poll);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('pays the vote reward and refreshes the wallet', async () => {
+    const post = await fetchPollPost();
+    await queryCache.fetch(queryKeys.wallet, () => api.wallets.me());
+
+    await polls.vote(post, 'option-a');
+
+    expect(adaBalance()).toBe(47);
+    expect(queryCache.isStale(queryKeys.wallet, Infinity)).toBe(true);
+  });
+
+  it('rolls back a vote the server refuses', async () => {
+    const post = await fetchPollPost();
+    await polls.vote(post, 'option-a');
+
+    const response = await polls.vote(post, 'option-b');
+
+    expect(response.status).toBe(422);
+    expect(polls.get(post)).toMatchObject({ total_votes: 5, voted_option_id: 'option-a' });
+    expect(adaBalance()).toBe(47);
+  });
+
+  it('applies live counts over the fetched poll but keeps the own vote', async () => {
+    const post = await fetchPollPost();
+    await polls.vote(post, 'option-a');
+
+    realtime.emit('poll.votes', {
+      post_id: 'post-1',
+      options: [
+        { id: 'option-a', text: 'Yes', votes_count: 9 },
+        { id: 'option-b', text: 'No', votes_count: 2 },
+      ],
+      total_votes: 11,
+      closed: false,
+    });
+
+    expect(polls.get(post)).toMatchObject({ total_votes: 11, voted_option_id: 'option-a' });
+    expect(polls.get(post)?.options[0].votes_count).toBe(9);
+  });
+});
@@ -0,0 +1,82 @@
+import type { ApiResponse } from '../apiClient';
+import { queryCache, queryKey } from '../queryCache';
+
+const okResponse = <T>(data: T): ApiResponse<T> => ({ ok: true, status: 200, data });
+
+afterEach(() => {
+  queryCache.clear();
+});
+
+describe('queryKey', () => {
+  it('adds params to the endpoint name', () => {
+    expect(queryKey('auth/me')).toBe('auth/me');
+    expect(queryKey('profiles', { username: 'ada' })).toBe('profiles:{"username":"ada"}');
+  });
+});
+
+describe('queryCache', () => {
+  it('shares one request between concurrent fetches of a key', async () => {
+    const fetcher = jest.fn(() => Promise.resolve(okResponse({ name: 'Ada' })));
+
+    const [first, second] = await Promise.all([queryCache.fetch('me', fetcher), queryCache.fetch('me', fetcher)]);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(first).toBe(second);
+    expect(queryCache.get('me')?.data).toEqual({ name: 'Ada' });
+  });
+
+  it('keeps the previous data when a refetch fails', async () => {
+    await queryCache.fetch('me', () => Promise.resolve(okResponse({ name: 'Ada' })));
+    await queryCache.fetch('me', () =>
+      Promise.resolve({ ok: false, status: 0, errors: [{ detail: 'No connection' }] } as ApiResponse<never>)
+    );
+
+    expect(queryCache.get('me')).toMatchObject({ data: { name: 'Ada' }, error: 'No connection' });
+    expect(queryCache.get('me')?.promise).toBeUndefined();
+  });
+
+  it('records thrown errors and rethrows them', async () => {
+    await expect(queryCache.fetch('me', () => Promise.reject(new Error('Boom')))).rejects.toThrow('Boom');
+    expect(queryCache.get('me')?.error).toBe('Boom');
+  });
+
+  it('goes stale after staleTime or when invalidated', async () => {
+    expect(queryCache.isStale('wallets/me', 1000)).toBe(true);
+
+    await queryCache.fetch('wallets/me', () => Promise.resolve(okResponse({ balance: 1 })));
+    expect(queryCache.isStale('wallets/me', 1000)).toBe(false);
+    expect(queryCache.isStale('wallets/me', -1)).toBe(true);
+
+    queryCache.invalidate('wallets');
+    expect(queryCache.isStale('wallets/me', 1000)).toBe(true);
+  });
+
+  it('notifies only the subscribers of keys that change', async () => {
+    const wallet = jest.fn();
+    const profile = jest.fn();
+    const unsubscribeWallet = queryCache.subscribe('wallets/me', wallet);
+    queryCache.subscribe('profiles:ada', profile);
+
+    queryCache.setData<number>('wallets/me', (previous) => (previous ?? 0) + 5);
+    queryCache.setData<number>('wallets/me', (previous) => (previous ?? 0) + 5);
+
+    expect(queryCache.get('wallets/me')?.data).toBe(10);
+    expect(wallet).toHaveBeenCalledTimes(2);
+    expect(profile).not.toHaveBeenCalled();
+
+    unsubscribeWallet();
+    queryCache.invalidate('wallets/me');
+    expect(wallet).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops responses for keys cleared while in flight', async () => {
+    let resolve!: (response: ApiResponse<string>) => void;
+    const pending = queryCache.fetch('me', () => new Promise<ApiResponse<string>>((done) => (resolve = done)));
+
+    queryCache.clear();
+    resolve(okResponse('stale user'));
+    await pending;
+
+    expect(queryCache.get('me')).toBeUndefined();
+  });
+});
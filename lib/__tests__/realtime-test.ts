@@ -0,0 +1,154 @@
+import { api } from '../api';
+import { apiClient } from '../apiClient';
+import type { AuthResponse } from '../auth';
+import { resetMockBackend } from '../mockBackend';
+import { realtime, type RealtimeStatus } from '../realtime';
+
+jest.mock('expo-constants', () => ({
+  __esModule: true,
+  default: { expoConfig: { extra: { realtimeUrl: 'wss://realtime.test', realtimeKey: 'test-key' } } },
+}));
+
+type SentFrame = { event: string; data?: Record<string, unknown> };
+
+// Stands in for the server end of the socket: specs push frames in and read what the client sent
+class MockWebSocket {
+  static OPEN = 1;
+  static instances: MockWebSocket[] = [];
+
+  readyState = MockWebSocket.OPEN;
+  sent: SentFrame[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(readonly url: string) {
+    MockWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(code = 1000) {
+    this.readyState = 3;
+    this.onclose?.({ code, reason: '' });
+  }
+
+  // Pusher sends `data` as a JSON string inside the JSON frame
+  receive(event: string, data: unknown, channel?: string) {
+    this.onmessage?.({ data: JSON.stringify({ event, channel, data: JSON.stringify(data) }) });
+  }
+
+  receiveRaw(raw: unknown) {
+    this.onmessage?.({ data: raw });
+  }
+}
+
+const socket = () => MockWebSocket.instances[MockWebSocket.instances.length - 1];
+
+// Lets the channel authorization request (all promises, no timers) finish
+const flushRequests = () => new Promise((resolve) => setImmediate(resolve));
+
+const connect = async () => {
+  realtime.setUser(1);
+  socket().receive('pusher:connection_established', { socket_id: '123.456', activity_timeout: 30 });
+  await flushRequests();
+  socket().receive('pusher_internal:subscription_succeeded', {}, 'private-users.1');
+};
+
+let statuses: RealtimeStatus[];
+let unsubscribeStatus: () => void;
+
+beforeAll(() => {
+  (globalThis as { WebSocket: unknown }).WebSocket = MockWebSocket;
+});
+
+beforeEach(async () => {
+  resetMockBackend({ latencyMs: 0 });
+  MockWebSocket.instances = [];
+  const response = await api.auth.login({ email: 'demo@example.com', password: 'password' });
+  const { token, refresh_token } = response.data as AuthResponse;
+  await apiClient.setTokens(token, refresh_token ?? null);
+  statuses = [];
+  unsubscribeStatus = realtime.onStatusChange((status) => statuses.push(status));
+});
+
+afterEach(() => {
+  unsubscribeStatus();
+  realtime.setUser(null);
+});
+
+describe('realtime client', () => {
+  it('subscribes to the feed and the signed private channel', async () => {
+    await connect();
+
+    expect(socket().url).toMatch(/^wss:\/\/realtime\.test\/app\/test-key\?protocol=7/);
+    expect(socket().sent).toEqual([
+      { event: 'pusher:subscribe', data: { channel: 'feed' } },
+      { event: 'pusher:subscribe', data: { channel: 'private-users.1', auth: 'mock-key:mock-signature-123.456' } },
+    ]);
+    expect(statuses).toEqual(['connecting', 'connected']);
+    expect(realtime.getStatus()).toBe('connected');
+  });
+
+  it('hands listeners the decoded payload', async () => {
+    const listener = jest.fn();
+    const unsubscribe = realtime.subscribe('post.counts', listener);
+    await connect();
+
+    socket().receive('post.counts', { post_id: 'post-3', likes_count: 42, comments_count: 0 }, 'feed');
+    unsubscribe();
+    socket().receive('post.counts', { post_id: 'post-3', likes_count: 43, comments_count: 0 }, 'feed');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ post_id: 'post-3', likes_count: 42, comments_count: 0 });
+  });
+
+  it('drops frames it cannot read', async () => {
+    const listener = jest.fn();
+    const unsubscribe = realtime.subscribe('post.counts', listener);
+    await connect();
+
+    socket().receiveRaw('not json');
+    socket().receiveRaw(new ArrayBuffer(4));
+    socket().receiveRaw(JSON.stringify({ event: 'post.counts', channel: 'feed', data: 'not json' }));
+    socket().receive('post.counts', null, 'feed');
+    unsubscribe();
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(realtime.getStatus()).toBe('connected');
+  });
+
+  it('keeps calling the other listeners when one throws', async () => {
+    const listener = jest.fn();
+    const unsubscribeFailing = realtime.subscribe('post.created', () => {
+      throw new Error('Listener failed');
+    });
+    const unsubscribe = realtime.subscribe('post.created', listener);
+    await connect();
+
+    socket().receive('post.created', { post: { id: 'post-9' } }, 'feed');
+    unsubscribeFailing();
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledWith({ post: { id: 'post-9' } });
+  });
+
+  it('answers pings', async () => {
+    await connect();
+
+    socket().receive('pusher:ping', {});
+
+    expect(socket().sent[socket().sent.length - 1]).toEqual({ event: 'pusher:pong', data: {} });
+  });
+
+  it('stays disconnected when the private channel is refused', async () => {
+    realtime.setUser(2);
+    socket().receive('pusher:connection_established', { socket_id: '123.456' });
+    await flushRequests();
+
+    expect(socket().readyState).toBe(3);
+    expect(realtime.getStatus()).toBe('disconnected');
+  });
+});
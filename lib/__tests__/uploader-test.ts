@@ -0,0 +1,100 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import { api } from '../api';
+import { apiClient, type ApiResponse } from '../apiClient';
+import type { AuthResponse } from '../auth';
+import { getMockDatabase, resetMockBackend } from '../mockBackend';
+import { uploader } from '../uploader';
+
+jest.mock('expo-file-system/legacy', () => ({
+  EncodingType: { Base64: 'base64' },
+  readAsStringAsync: jest.fn(async () => 'AAAA'),
+  getInfoAsync: jest.fn(async () => ({ exists: true, size: 0 })),
+}));
+
+const MB = 1024 * 1024;
+
+// Three 5 MB chunks, the last one partial
+const video = { uri: 'file:///videos/clip.mp4', name: 'clip.mp4', mimeType: 'video/mp4', size: 12 * MB };
+
+const readPositions = () =>
+  jest.mocked(FileSystem.readAsStringAsync).mock.calls.map(([, options]) => options?.position);
+
+// Fails one chunk without a network round trip (and without its retries)
+const failChunk = (index: number) => {
+  const request = apiClient.request.bind(apiClient);
+  return jest.spyOn(apiClient, 'request').mockImplementation((url, config) =>
+    url.endsWith(`/chunks/${index}`)
+      ? Promise.resolve({ ok: false, status: 503, errors: [{ detail: 'Service unavailable' }] } as ApiResponse<never>)
+      : request(url, config)
+  );
+};
+
+beforeEach(async () => {
+  resetMockBackend({ latencyMs: 0 });
+  await AsyncStorage.clear();
+  jest.mocked(FileSystem.readAsStringAsync).mockClear();
+  const response = await api.auth.login({ email: 'demo@example.com', password: 'password' });
+  const { token, refresh_token } = response.data as AuthResponse;
+  await apiClient.setTokens(token, refresh_token ?? null);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('chunked uploads', () => {
+  it('uploads a large file chunk by chunk', async () => {
+    const onProgress = jest.fn();
+
+    const response = await uploader.upload(video, { onProgress });
+
+    expect(response.status).toBe(201);
+    expect(response.data?.type).toBe('video');
+    expect(readPositions()).toEqual([0, 5 * MB, 10 * MB]);
+    expect(onProgress).toHaveBeenLastCalledWith({ loaded: 12 * MB, total: 12 * MB, fraction: 1 });
+  });
+
+  it('resumes from the first chunk the server is missing', async () => {
+    const spy = failChunk(1);
+    const failed = await uploader.upload(video);
+    expect(failed.status).toBe(503);
+    expect(getMockDatabase().uploads[0].received_chunks).toEqual([0]);
+    spy.mockRestore();
+
+    jest.mocked(FileSystem.readAsStringAsync).mockClear();
+    const onProgress = jest.fn();
+    const response = await uploader.upload(video, { onProgress });
+
+    expect(response.status).toBe(201);
+    expect(readPositions()).toEqual([5 * MB, 10 * MB]);
+    // Progress starts from what the server already has
+    expect(onProgress).toHaveBeenNthCalledWith(1, { loaded: 5 * MB, total: 12 * MB, fraction: 5 / 12 });
+    expect(getMockDatabase().uploads).toHaveLength(0);
+  });
+
+  it('starts over when the server no longer has the session', async () => {
+    const spy = failChunk(2);
+    await uploader.upload(video);
+    spy.mockRestore();
+    getMockDatabase().uploads = [];
+
+    jest.mocked(FileSystem.readAsStringAsync).mockClear();
+    const response = await uploader.upload(video);
+
+    expect(response.status).toBe(201);
+    expect(readPositions()).toEqual([0, 5 * MB, 10 * MB]);
+  });
+
+  it('starts over after the sessions were cleared on sign-out', async () => {
+    const spy = failChunk(1);
+    await uploader.upload(video);
+    spy.mockRestore();
+
+    await uploader.clear();
+    jest.mocked(FileSystem.readAsStringAsync).mockClear();
+    await uploader.upload(video);
+
+    expect(readPositions()).toEqual([0, 5 * MB, 10 * MB]);
+  });
+});
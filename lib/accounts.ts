@@ -0,0 +1,256 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { apiClient, REFRESH_PATH } from './apiClient';
+import type { User } from './auth';
+import { logger } from './logger';
+
+const log = logger.scope('accounts');
+
+/*
+ * Every account signed in on this device. The active account's tokens live in the
+ * ApiClient as before; each account also keeps its own copy in SecureStore so we
+ * can switch back to it (or poll its notifications) without signing in again.
+ */
+
+const ACCOUNTS_KEY = 'phanrise_accounts';
+
+export type StoredAccount = {
+  id: number;
+  username?: string;
+  display_name?: string | null;
+  avatar_url?: string | null;
+  email: string;
+  role: User['role'];
+  // Unread notifications, polled while the account is not the active one
+  unread_count?: number;
+  // Its refresh token was rejected; the user has to sign in to it again
+  expired?: boolean;
+};
+
+type AccountsState = {
+  accounts: StoredAccount[];
+  activeId: number | null;
+};
+
+type AccountsListener = (state: AccountsState) => void;
+
+const tokenKey = (id: number) => `phanrise_account_${id}_token`;
+const refreshTokenKey = (id: number) => `phanrise_account_${id}_refresh_token`;
+
+const toStoredAccount = (user: User): StoredAccount => ({
+  id: user.id,
+  username: user.username,
+  display_name: user.display_name,
+  avatar_url: user.avatar_url,
+  email: user.email,
+  role: user.role,
+});
+
+class AccountStore {
+  private accounts: StoredAccount[] = [];
+  private activeId: number | null = null;
+  private listeners = new Set<AccountsListener>();
+  readonly ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.load();
+  }
+
+  private async load() {
+    try {
+      const raw = await AsyncStorage.getItem(ACCOUNTS_KEY);
+      const stored = raw ? (JSON.parse(raw) as Partial<AccountsState>) : {};
+      this.accounts = stored.accounts ?? [];
+      this.activeId = stored.activeId ?? null;
+    } catch (error) {
+      log.error('Error loading accounts:', error);
+    }
+    this.notify();
+  }
+
+  private async persist() {
+    try {
+      await AsyncStorage.setItem(ACCOUNTS_KEY, JSON.stringify({ accounts: this.accounts, activeId: this.activeId }));
+    } catch (error) {
+      log.error('Error saving accounts:', error);
+    }
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+
+  getState(): AccountsState {
+    return { accounts: [...this.accounts], activeId: this.activeId };
+  }
+
+  getActiveId(): number | null {
+    return this.activeId;
+  }
+
+  subscribe(listener: AccountsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Record `user` as the active account, copying the ApiClient's current tokens.
+   * Called after sign-in and whenever the current user is reloaded.
+   */
+  async remember(user: User) {
+    await this.ready;
+    await this.saveTokens(user.id, apiClient.getToken(), apiClient.getRefreshToken());
+
+    const existing = this.accounts.find((account) => account.id === user.id);
+    const updated = { ...existing, ...toStoredAccount(user), expired: false, unread_count: undefined };
+    this.accounts = existing
+      ? this.accounts.map((account) => (account.id === user.id ? updated : account))
+      : [...this.accounts, updated];
+    this.activeId = user.id;
+    await this.persist();
+    this.notify();
+  }
+
+  /**
+   * Copy the active account's (possibly refreshed) tokens out of the ApiClient
+   * before another account takes over.
+   */
+  async saveActiveTokens() {
+    await this.ready;
+    if (this.activeId !== null && apiClient.getToken()) {
+      await this.saveTokens(this.activeId, apiClient.getToken(), apiClient.getRefreshToken());
+    }
+  }
+
+  /**
+   * Make a stored account the active one. Resolves false if it has no token left.
+   */
+  async activate(id: number): Promise<boolean> {
+    await this.ready;
+    const [token, refreshToken] = await this.readTokens(id);
+    if (!token) {
+      this.markExpired(id);
+      return false;
+    }
+
+    await this.saveActiveTokens();
+    // The ApiClient swaps its in-memory token synchronously, so activeId and the
+    // token attached to the next request always agree
+    const stored = apiClient.setTokens(token, refreshToken);
+    this.activeId = id;
+    this.accounts = this.accounts.map((account) =>
+      account.id === id ? { ...account, unread_count: undefined } : account
+    );
+    this.notify();
+    await stored;
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * Forget an account and its tokens. Does not touch the ApiClient.
+   */
+  async remove(id: number) {
+    await this.ready;
+    this.accounts = this.accounts.filter((account) => account.id !== id);
+    if (this.activeId === id) {
+      this.activeId = null;
+    }
+    await this.saveTokens(id, null, null);
+    await this.persist();
+    this.notify();
+  }
+
+  /**
+   * Poll unread notification counts for the accounts that aren't active.
+   */
+  async refreshUnreadCounts() {
+    await this.ready;
+    const inactive = this.accounts.filter((account) => account.id !== this.activeId && !account.expired);
+
+    for (const account of inactive) {
+      const unreadCount = await this.fetchUnreadCount(account.id);
+      if (unreadCount === null) continue;
+      this.accounts = this.accounts.map((item) =>
+        item.id === account.id ? { ...item, unread_count: unreadCount } : item
+      );
+    }
+
+    await this.persist();
+    this.notify();
+  }
+
+  private async fetchUnreadCount(id: number, canRefresh = true): Promise<number | null> {
+    const [token, refreshToken] = await this.readTokens(id);
+    if (!token) {
+      this.markExpired(id);
+      return null;
+    }
+
+    const response = await apiClient.request<unknown>('/v1/notifications?unread_only=true&per_page=1', {
+      authToken: token,
+      retry: false,
+    });
+
+    if (response.status === 401) {
+      // Inactive accounts refresh on their own; the ApiClient only refreshes the active session
+      if (canRefresh && refreshToken && (await this.refreshTokens(id, refreshToken))) {
+        return this.fetchUnreadCount(id, false);
+      }
+      this.markExpired(id);
+      return null;
+    }
+
+    if (!response.ok || response.status >= 300) {
+      return null;
+    }
+    return Number(response.meta?.unread_count ?? 0);
+  }
+
+  private async refreshTokens(id: number, refreshToken: string): Promise<boolean> {
+    const response = await apiClient.request<{ token?: string; refresh_token?: string }>(REFRESH_PATH, {
+      method: 'POST',
+      data: { refresh_token: refreshToken },
+      skipAuth: true,
+    });
+    if (response.ok && response.status < 300 && response.data?.token) {
+      await this.saveTokens(id, response.data.token, response.data.refresh_token ?? refreshToken);
+      return true;
+    }
+    return false;
+  }
+
+  private markExpired(id: number) {
+    log.info(`Account ${id} needs to sign in again`);
+    this.accounts = this.accounts.map((account) => (account.id === id ? { ...account, expired: true } : account));
+    this.notify();
+  }
+
+  private async readTokens(id: number): Promise<[string | null, string | null]> {
+    try {
+      return await Promise.all([SecureStore.getItemAsync(tokenKey(id)), SecureStore.getItemAsync(refreshTokenKey(id))]);
+    } catch (error) {
+      log.error('Error reading account tokens:', error);
+      return [null, null];
+    }
+  }
+
+  private async saveTokens(id: number, token: string | null, refreshToken: string | null) {
+    if (token) {
+      await SecureStore.setItemAsync(tokenKey(id), token);
+    } else {
+      await SecureStore.deleteItemAsync(tokenKey(id));
+    }
+
+    if (token && refreshToken) {
+      await SecureStore.setItemAsync(refreshTokenKey(id), refreshToken);
+    } else {
+      await SecureStore.deleteItemAsync(refreshTokenKey(id));
+    }
+  }
+}
+
+export const accountStore = new AccountStore();
@@ -0,0 +1,683 @@
+import { apiClient, ApiResponse, RequestOptions } from './apiClient';
+import { outbox, OutboxKind, OutboxResponse } from './outbox';
+import type {
+  AuthResponse,
+  LoginCredentials,
+  LoginResponse,
+  RegisterData,
+  ResetPasswordPayload,
+  SocialLoginResponse,
+  SocialProvider,
+  User,
+} from './auth';
+import type { BackupCodes, StepUpProof, StepUpToken, TwoFactorCode, TwoFactorSetup } from './twoFactor';
+import type { AccountDeletion, AccountDeletionPayload, DataExport, DataExportSection } from './privacy';
+import type { ScheduledPost, SchedulePostPayload, UpdateScheduledPostPayload } from './scheduledPosts';
+
+/*
+ * Typed endpoint registry. Each endpoint declares its method, path params,
+ * request body and response type once; screens call e.g. `api.feed.likePost(id)`.
+ */
+
+// ---------------------------------------------------------------------------
+// Contract types
+// ---------------------------------------------------------------------------
+
+export type FeedUser = {
+  id: string;
+  username: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  verified_creator?: boolean;
+};
+
+export type FeedMedia = {
+  id: string;
+  type: 'image' | 'video';
+  url: string;
+  thumbnail_url?: string | null;
+  metadata?: Record<string, unknown> | null;
+};
+
+export type RewardRule = {
+  like?: number;
+  comment?: number;
+  share?: number;
+  per_user_cap?: number;
+  per_type?: {
+    like?: number;
+    comment?: number;
+    share?: number;
+    [key: string]: number | undefined;
+  };
+};
+
+export type FeedPost = {
+  id: string;
+  content: string | null;
+  visibility: string;
+  likes_count: number;
+  comments_count: number;
+  shares_count: number;
+  reward_enabled: boolean;
+  reward_pool: number;
+  reward_coin_symbol?: string | null;
+  reward_rule?: RewardRule | null;
+  is_liked: boolean;
+  is_bookmarked?: boolean;
+  user: FeedUser;
+  media: FeedMedia[];
+  poll?: Poll | null;
+  link_preview?: LinkPreview | null;
+  shared_post?: FeedPost | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// Open Graph data the server fetched for a link
+export type LinkPreview = {
+  url: string;
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+};
+
+export type PollOption = {
+  id: string;
+  text: string;
+  votes_count: number;
+};
+
+export type Poll = {
+  options: PollOption[];
+  total_votes: number;
+  ends_at: string;
+  // Set once `ends_at` passes; the author is notified with the results
+  closed: boolean;
+  // The signed-in user's vote; votes can't be changed
+  voted_option_id: string | null;
+};
+
+// A poll as the composer sends it
+export type PollPayload = {
+  options: string[];
+  duration_hours: number;
+};
+
+export type PollVoteResult = {
+  poll: Poll;
+  // Paid out when the post rewards votes (`reward_rule.per_type.vote`)
+  reward?: { amount: number; coin_symbol: string } | null;
+};
+
+export type FeedSort = 'newest' | 'popular' | 'new-first';
+
+// `following`: only creators the user follows (and their own posts); `rewarded`: posts with
+// rewards on and pool left; `media`: posts with images or videos
+export type FeedFilter = 'all' | 'following' | 'rewarded' | 'media';
+
+export type FeedComment = {
+  id: string;
+  content: string;
+  user: FeedUser;
+  created_at: string;
+  updated_at: string;
+};
+
+export type CommentReply = {
+  id: string;
+  content: string;
+  user: FeedUser;
+  likes_count: number;
+  is_liked: boolean;
+  created_at: string;
+};
+
+export type Comment = {
+  id: string;
+  content: string;
+  user: FeedUser;
+  likes_count: number;
+  is_liked: boolean;
+  parent_id: string | null;
+  replies: CommentReply[];
+  created_at: string;
+};
+
+export type CreatePostPayload = {
+  content: string | null;
+  visibility: 'public' | 'followers' | 'private';
+  media?: FeedMedia[];
+  poll?: PollPayload;
+  // Link to show a preview card for; null or missing for no card
+  link_preview_url?: string | null;
+  reward_enabled: boolean;
+  reward_pool?: number;
+  reward_coin_symbol?: string;
+  reward_rule?: RewardRule;
+};
+
+export type UpdatePostPayload = Partial<
+  Pick<FeedPost, 'content' | 'visibility' | 'reward_enabled' | 'reward_rule' | 'reward_coin_symbol' | 'reward_pool'>
+>;
+
+export type LikeResult = {
+  liked: boolean;
+  likes_count: number;
+};
+
+export type ShareResult = {
+  id: string;
+  shares_count: number;
+  shared_post?: FeedPost;
+};
+
+export type BookmarkResult = {
+  bookmarked: boolean;
+  collection_id: string | null;
+};
+
+// A named folder of bookmarks; bookmarks don't have to be in one
+export type BookmarkCollection = {
+  id: string;
+  name: string;
+  posts_count: number;
+  created_at: string;
+};
+
+// A post not published yet. The id is made on the device, so a draft can be saved
+// offline and synced later under the same id.
+export type PostDraft = {
+  id: string;
+  content: string;
+  visibility: CreatePostPayload['visibility'];
+  media: FeedMedia[];
+  poll?: PollPayload | null;
+  reward_enabled: boolean;
+  reward_pool: number;
+  reward_coin_symbol: string;
+  reward_rule: RewardRule;
+  updated_at: string;
+};
+
+export type NewPostsCount = {
+  count: number;
+  has_new_posts: boolean;
+};
+
+export type MentionUser = {
+  id: string;
+  username: string;
+  display_name: string | null;
+  avatar_url: string | null;
+};
+
+export type HashtagSuggestion = {
+  // Normalized, without the `#`
+  tag: string;
+  posts_count: number;
+};
+
+export type ProfileData = {
+  id: string;
+  username: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  verified_creator: boolean;
+  default_coin_symbol: string | null;
+  profile_bio?: string | null;
+  profile_location?: string | null;
+  profile_links?: Array<{ label: string; url: string }> | null;
+  followers_count: number;
+  following_count: number;
+  posts_count: number;
+  reward_posts_count: number;
+  reward_pool_total: number;
+  joined_at?: string | null;
+  is_current_user: boolean;
+  is_following: boolean;
+  coins: Array<{
+    symbol: string;
+    name: string | null;
+    description: string | null;
+  }>;
+  recent_posts: FeedPost[];
+  posts_pagination?: {
+    current_page: number;
+    per_page: number;
+    total: number;
+    last_page: number;
+  };
+};
+
+export type ProfileUpdatePayload = {
+  display_name?: string | null;
+  username?: string;
+  profile_bio?: string | null;
+  profile_location?: string | null;
+  profile_links?: Array<{ label: string; url: string }>;
+  avatar_url?: string | null;
+};
+
+export type FollowEntry = {
+  id: string;
+  username: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  verified_creator: boolean;
+  default_coin_symbol: string | null;
+  followed_at?: string | null;
+};
+
+export type UserLookupResult = {
+  id: string;
+  username: string;
+  display_name?: string | null;
+  avatar_url?: string | null;
+};
+
+export type ConversationSummary = {
+  id: string;
+  other_user: {
+    id: string;
+    username: string;
+    display_name: string;
+    avatar_url: string | null;
+  };
+  created_at: string;
+};
+
+export type WalletCoinBalance = {
+  coin_symbol: string;
+  balance: number;
+  value_usd: number;
+  fiat_value_usd: number;
+  value_updated_at?: string | null;
+  // Held for scheduled posts' reward pools; not part of `balance`
+  reserved?: number;
+};
+
+export type WalletTransaction = {
+  id: string;
+  type: string;
+  amount: number;
+  currency: string;
+  metadata?: {
+    action?: string;
+    distributed_by_creator_name?: string;
+    from_display_name?: string;
+    from_username?: string;
+    created_at?: string;
+    transacted_at?: string;
+    [key: string]: unknown;
+  };
+  balance_before?: number;
+  balance_after?: number;
+  reference?: string | null;
+  created_at: string;
+};
+
+export type WalletData = {
+  id: string;
+  primary_coin: string;
+  balance: number;
+  currency?: string;
+  conversion_rate: number;
+  primary_coin_value_usd: number;
+  coin_balances: WalletCoinBalance[];
+  transactions: WalletTransaction[];
+};
+
+export type WalletTransferPayload = StepUpProof & {
+  recipient_username: string;
+  amount: number;
+  coin_symbol: string;
+  note?: string;
+};
+
+export type Withdrawal = {
+  id: string;
+  coin_symbol: string;
+  coin_amount: number;
+  usd_amount: number;
+  ngn_amount: number;
+  fee_amount: number;
+  final_amount: number;
+  bank_name: string;
+  account_number: string;
+  account_name: string;
+  status: string;
+  created_at: string;
+};
+
+// Acknowledgement for actions whose result arrives out of band (e.g. by email)
+export type MessageResult = {
+  message: string;
+};
+
+// A signed-in device (one token pair); `is_current` marks the one making the request
+export type Session = {
+  id: string;
+  device_name: string | null;
+  platform: 'ios' | 'android' | 'web' | string | null;
+  ip_address?: string | null;
+  location?: string | null;
+  last_active_at: string;
+  created_at: string;
+  is_current: boolean;
+};
+
+// ---------------------------------------------------------------------------
+// Endpoint factories
+// ---------------------------------------------------------------------------
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+type QueryValue = string | number | boolean | null | undefined;
+
+// Endpoints without path params take only the body (if any): `api.wallets.me()`, `api.feed.createPost(data)`
+type EndpointArgs<TParams extends unknown[], TBody> = [TBody] extends [void] ? TParams : [...TParams, TBody];
+
+type EndpointOptions = {
+  skipAuth?: boolean;
+};
+
+// Per-call options for reads, e.g. `api.feed.searchUsers({ q }, { signal })`
+export type CallOptions = Pick<RequestOptions, 'signal' | 'timeout' | 'retry'>;
+
+const withQuery = (path: string, query: Record<string, QueryValue>) => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      params.set(key, String(value));
+    }
+  });
+  const queryString = params.toString();
+  return queryString ? `${path}?${queryString}` : path;
+};
+
+// Reads never carry a body, so their last argument is CallOptions
+function endpoint<TResponse>(
+  method: 'GET',
+  path: string,
+  options?: EndpointOptions
+): (callOptions?: CallOptions) => Promise<ApiResponse<TResponse>>;
+function endpoint<TResponse, TParams>(
+  method: 'GET',
+  path: (params: TParams) => string,
+  options?: EndpointOptions
+): (params: TParams, callOptions?: CallOptions) => Promise<ApiResponse<TResponse>>;
+function endpoint<TResponse, TBody = void>(
+  method: Exclude<HttpMethod, 'GET'>,
+  path: string,
+  options?: EndpointOptions
+): (...args: EndpointArgs<[], TBody>) => Promise<ApiResponse<TResponse>>;
+function endpoint<TResponse, TParams, TBody = void>(
+  method: Exclude<HttpMethod, 'GET'>,
+  path: (params: TParams) => string,
+  options?: EndpointOptions
+): (...args: EndpointArgs<[TParams], TBody>) => Promise<ApiResponse<TResponse>>;
+function endpoint(
+  method: HttpMethod,
+  path: string | ((params: unknown) => string),
+  options: EndpointOptions = {}
+) {
+  return (...args: unknown[]) => {
+    const [url, second] = typeof path === 'string' ? [path, args[0]] : [path(args[0]), args[1]];
+
+    if (method === 'GET') {
+      const callOptions = (second ?? {}) as CallOptions;
+      return apiClient.request(url, { method, skipAuth: options.skipAuth, ...callOptions });
+    }
+
+    return apiClient.request(url, { method, data: second, skipAuth: options.skipAuth });
+  };
+}
+
+/**
+ * Like `endpoint`, but the mutation goes through the offline outbox and is replayed
+ * when the device reconnects. `target` names what the mutation is about so screens
+ * can render it as pending.
+ */
+function queuedEndpoint<TResponse, TParams, TBody = void>(
+  kind: OutboxKind,
+  method: Exclude<HttpMethod, 'GET'>,
+  path: (params: TParams) => string,
+  target: (params: TParams, body: TBody) => string
+): (...args: EndpointArgs<[TParams], TBody>) => Promise<OutboxResponse<TResponse>>;
+function queuedEndpoint<TResponse, TBody>(
+  kind: OutboxKind,
+  method: Exclude<HttpMethod, 'GET'>,
+  path: string,
+  target: (params: void, body: TBody) => string
+): (...args: EndpointArgs<[], TBody>) => Promise<OutboxResponse<TResponse>>;
+function queuedEndpoint<TParams, TBody>(
+  kind: OutboxKind,
+  method: Exclude<HttpMethod, 'GET'>,
+  path: string | ((params: TParams) => string),
+  target: (params: TParams, body: TBody) => string
+) {
+  return (...args: unknown[]) => {
+    const [params, body] = (typeof path === 'string' ? [undefined, args[0]] : [args[0], args[1]]) as [TParams, TBody];
+    const url = typeof path === 'string' ? path : path(params);
+    return outbox.request(url, { kind, method, data: body, targetId: target(params, body) });
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+export const api = {
+  auth: {
+    login: endpoint<LoginResponse, LoginCredentials>('POST', '/v1/auth/login', { skipAuth: true }),
+    register: endpoint<AuthResponse, RegisterData>('POST', '/v1/auth/register', { skipAuth: true }),
+    logout: endpoint<void>('POST', '/v1/auth/logout'),
+    me: endpoint<User>('GET', '/v1/auth/me'),
+    forgotPassword: endpoint<MessageResult, { email: string }>('POST', '/v1/auth/forgot-password', { skipAuth: true }),
+    resetPassword: endpoint<MessageResult, ResetPasswordPayload>('POST', '/v1/auth/reset-password', { skipAuth: true }),
+    resendVerification: endpoint<MessageResult>('POST', '/v1/auth/email/verification-notification'),
+    // The emailed token identifies the account, so this works signed in or out
+    verifyEmail: endpoint<User, { token: string }>('POST', '/v1/auth/email/verify'),
+  },
+
+  social: {
+    // Opened in the browser; the backend redirects to `redirectUri` with a one-time login_token
+    redirectUrl: (provider: SocialProvider, redirectUri: string) =>
+      apiClient.getBaseUrl() +
+      withQuery(`/v1/auth/social/${provider}/redirect`, { redirect_uri: redirectUri, intent: 'login' }),
+    exchange: endpoint<SocialLoginResponse, { login_token: string; device_name?: string }>(
+      'POST',
+      '/v1/auth/social/exchange',
+      { skipAuth: true }
+    ),
+    link: endpoint<LoginResponse, { link_token: string; password: string; device_name?: string }>(
+      'POST',
+      '/v1/auth/social/link',
+      { skipAuth: true }
+    ),
+  },
+
+  sessions: {
+    list: endpoint<Session[]>('GET', '/v1/auth/sessions'),
+    revoke: endpoint<void, string>('DELETE', (sessionId) => `/v1/auth/sessions/${sessionId}`),
+    // Every session, this one included
+    revokeAll: endpoint<void>('DELETE', '/v1/auth/sessions'),
+  },
+
+  twoFactor: {
+    challenge: endpoint<AuthResponse, { challenge_token: string; device_name?: string } & TwoFactorCode>(
+      'POST',
+      '/v1/auth/two-factor/challenge',
+      { skipAuth: true }
+    ),
+    setup: endpoint<TwoFactorSetup>('POST', '/v1/auth/two-factor/setup'),
+    confirm: endpoint<BackupCodes, { code: string }>('POST', '/v1/auth/two-factor/confirm'),
+    disable: endpoint<void, TwoFactorCode>('DELETE', '/v1/auth/two-factor'),
+    backupCodes: endpoint<BackupCodes, TwoFactorCode>('POST', '/v1/auth/two-factor/backup-codes'),
+    // Step-up: a short-lived token that authorizes withdrawals and large transfers
+    verify: endpoint<StepUpToken, TwoFactorCode>('POST', '/v1/auth/two-factor/verify'),
+  },
+
+  feed: {
+    list: endpoint<FeedPost[], { sort: FeedSort; filter?: FeedFilter; page: number; perPage?: number }>(
+      'GET',
+      ({ sort, filter = 'all', page, perPage = 20 }) =>
+        withQuery('/v1/feed', { sort, filter: filter === 'all' ? undefined : filter, per_page: perPage, page })
+    ),
+    newCount: endpoint<NewPostsCount, { after: string; filter?: FeedFilter }>('GET', ({ after, filter = 'all' }) =>
+      withQuery('/v1/feed/new-count', { after, filter: filter === 'all' ? undefined : filter })
+    ),
+    getPost: endpoint<FeedPost, string>('GET', (postId) => `/v1/feed/posts/${postId}`),
+    createPost: endpoint<FeedPost, CreatePostPayload>('POST', '/v1/feed/posts'),
+    updatePost: endpoint<FeedPost, string, UpdatePostPayload>('PUT', (postId) => `/v1/feed/posts/${postId}`),
+    deletePost: endpoint<void, string>('DELETE', (postId) => `/v1/feed/posts/${postId}`),
+    likePost: queuedEndpoint<LikeResult, string>('like', 'POST', (postId) => `/v1/feed/posts/${postId}/like`, (postId) => postId),
+    unlikePost: queuedEndpoint<LikeResult, string>('like', 'DELETE', (postId) => `/v1/feed/posts/${postId}/like`, (postId) => postId),
+    sharePost: endpoint<ShareResult, string, { comment?: string; share_to_timeline: boolean }>(
+      'POST',
+      (postId) => `/v1/feed/posts/${postId}/share`
+    ),
+    comments: endpoint<Comment[], string>('GET', (postId) => `/v1/feed/posts/${postId}/comments`),
+    addComment: queuedEndpoint<Comment, string, { content: string; parent_id: string | null }>(
+      'comment',
+      'POST',
+      (postId) => `/v1/feed/posts/${postId}/comment`,
+      (postId) => postId
+    ),
+    // One vote per user, while the poll is open
+    votePoll: endpoint<PollVoteResult, string, { option_id: string }>('POST', (postId) => `/v1/feed/posts/${postId}/poll/vote`),
+    likeComment: endpoint<LikeResult, { postId: string; commentId: string }>(
+      'POST',
+      ({ postId, commentId }) => `/v1/feed/posts/${postId}/comments/${commentId}/like`
+    ),
+    searchUsers: endpoint<MentionUser[], { q: string; limit?: number }>('GET', ({ q, limit = 10 }) =>
+      withQuery('/v1/feed/users/search', { q, limit })
+    ),
+    // Tags starting with `q`, most used first
+    searchTags: endpoint<HashtagSuggestion[], { q: string; limit?: number }>('GET', ({ q, limit = 10 }) =>
+      withQuery('/v1/feed/tags/search', { q, limit })
+    ),
+    // Most used in recent posts
+    trendingTags: endpoint<HashtagSuggestion[], { limit?: number }>('GET', ({ limit = 10 }) =>
+      withQuery('/v1/feed/tags/trending', { limit })
+    ),
+    tagPosts: endpoint<FeedPost[], { tag: string; sort: FeedSort; page: number; perPage?: number }>(
+      'GET',
+      ({ tag, sort, page, perPage = 20 }) =>
+        withQuery(`/v1/feed/tags/${encodeURIComponent(tag)}/posts`, { sort, per_page: perPage, page })
+    ),
+  },
+
+  links: {
+    // Fetched and cached by the server, so it works for sites that block apps
+    preview: endpoint<LinkPreview, { url: string }>('GET', ({ url }) => withQuery('/v1/links/preview', { url })),
+  },
+
+  bookmarks: {
+    // Newest bookmark first; `collectionId` narrows to one collection
+    list: endpoint<FeedPost[], { collectionId?: string | null; page: number; perPage?: number }>(
+      'GET',
+      ({ collectionId, page, perPage = 20 }) =>
+        withQuery('/v1/bookmarks', { collection_id: collectionId, page, per_page: perPage })
+    ),
+    // Bookmarking an already bookmarked post moves it to `collection_id`
+    add: queuedEndpoint<BookmarkResult, string, { collection_id?: string | null }>(
+      'bookmark',
+      'POST',
+      (postId) => `/v1/feed/posts/${postId}/bookmark`,
+      (postId) => postId
+    ),
+    remove: queuedEndpoint<BookmarkResult, string>(
+      'bookmark',
+      'DELETE',
+      (postId) => `/v1/feed/posts/${postId}/bookmark`,
+      (postId) => postId
+    ),
+    collections: endpoint<BookmarkCollection[]>('GET', '/v1/bookmarks/collections'),
+    createCollection: endpoint<BookmarkCollection, { name: string }>('POST', '/v1/bookmarks/collections'),
+    // Its bookmarks stay, outside any collection
+    deleteCollection: endpoint<void, string>('DELETE', (collectionId) => `/v1/bookmarks/collections/${collectionId}`),
+  },
+
+  scheduledPosts: {
+    // Soonest first
+    list: endpoint<ScheduledPost[]>('GET', '/v1/feed/scheduled'),
+    // Reserves the reward pool from the wallet
+    create: endpoint<ScheduledPost, SchedulePostPayload>('POST', '/v1/feed/scheduled'),
+    update: endpoint<ScheduledPost, string, UpdateScheduledPostPayload>(
+      'PATCH',
+      (scheduledPostId) => `/v1/feed/scheduled/${scheduledPostId}`
+    ),
+    // Returns the reserved reward pool to the wallet
+    cancel: endpoint<void, string>('DELETE', (scheduledPostId) => `/v1/feed/scheduled/${scheduledPostId}`),
+  },
+
+  drafts: {
+    // Most recently edited first
+    list: endpoint<PostDraft[]>('GET', '/v1/drafts'),
+    // Creates or replaces the draft with this id
+    save: endpoint<PostDraft, string, PostDraft>('PUT', (draftId) => `/v1/drafts/${draftId}`),
+    remove: endpoint<void, string>('DELETE', (draftId) => `/v1/drafts/${draftId}`),
+  },
+
+  profiles: {
+    get: endpoint<ProfileData, { username: string; filter?: string; page?: number; perPage?: number }>(
+      'GET',
+      ({ username, filter, page, perPage }) =>
+        withQuery(`/v1/profiles/${username}`, { filter, page, per_page: perPage })
+    ),
+    update: endpoint<User, ProfileUpdatePayload>('PATCH', '/v1/profile'),
+  },
+
+  users: {
+    followList: endpoint<FollowEntry[], { userId: string; type: 'followers' | 'following'; page: number; perPage?: number }>(
+      'GET',
+      ({ userId, type, page, perPage = 25 }) => withQuery(`/v1/users/${userId}/${type}`, { per_page: perPage, page })
+    ),
+    lookup: endpoint<UserLookupResult, string>('GET', (username) => withQuery('/v1/users/lookup', { username })),
+    follow: queuedEndpoint<unknown, { creator_id: string }>(
+      'follow',
+      'POST',
+      '/v1/follows',
+      (_, body) => body.creator_id
+    ),
+    unfollow: queuedEndpoint<unknown, string>('follow', 'DELETE', (userId) => `/v1/users/${userId}/follow`, (userId) => userId),
+  },
+
+  messages: {
+    findOrCreateConversation: endpoint<ConversationSummary, { user_id: string }>(
+      'POST',
+      '/v1/conversations/find-or-create'
+    ),
+    send: queuedEndpoint<unknown, { user_id: string; body: string; attachment_ids?: string[] }>(
+      'message',
+      'POST',
+      '/v1/messages',
+      (_, body) => body.user_id
+    ),
+  },
+
+  realtime: {
+    // Signs a private channel subscription for the socket (Pusher protocol)
+    auth: endpoint<{ auth: string }, { socket_id: string; channel_name: string }>('POST', '/v1/broadcasting/auth'),
+  },
+
+  account: {
+    exports: endpoint<DataExport[]>('GET', '/v1/account/exports'),
+    requestExport: endpoint<DataExport, { sections: DataExportSection[] }>('POST', '/v1/account/exports'),
+    scheduleDeletion: endpoint<AccountDeletion, AccountDeletionPayload>('POST', '/v1/account/deletion'),
+    cancelDeletion: endpoint<void>('DELETE', '/v1/account/deletion'),
+  },
+
+  wallets: {
+    me: endpoint<WalletData>('GET', '/v1/wallets/me'),
+    transfer: endpoint<unknown, WalletTransferPayload>('POST', '/v1/wallets/transfers'),
+  },
+
+  withdrawals: {
+    // Older backends nest the list under `withdrawals`
+    list: endpoint<Withdrawal[] | { withdrawals: Withdrawal[] }>('GET', '/v1/withdrawals'),
+  },
+};
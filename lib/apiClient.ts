@@ -1,8 +1,22 @@
-import axios, { AxiosError, AxiosInstance } from 'axios';
+import axios, { AxiosAdapter, AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import * as SecureStore from 'expo-secure-store';
 import Constants from 'expo-constants';
+import { logger } from './logger';
+
+const log = logger.scope('api');
 
 const TOKEN_KEY = 'phanrise_auth_token';
+const REFRESH_TOKEN_KEY = 'phanrise_refresh_token';
+export const REFRESH_PATH = '/v1/auth/refresh';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Requests that must never trigger a token refresh (login, register, the refresh call itself)
+    skipAuthRefresh?: boolean;
+    // Set once a request has been replayed after a refresh so we never loop
+    retriedAfterRefresh?: boolean;
+  }
+}
 
 // Get API base URL from environment or use default
 // Expo reads env vars from Constants.expoConfig.extra (from app.config.js) or process.env
@@ -12,18 +26,23 @@ const getApiBaseUrl = () => {
     process.env.EXPO_PUBLIC_API_BASE_URL?.replace(/\/+$/, '') || 
     'http://localhost:8000/api';
   
-  // Debug: Log the API URL being used
-  console.log('🔗 API Base URL:', url);
-  console.log('📱 Constants.expoConfig?.extra:', Constants.expoConfig?.extra);
-  console.log('🌐 process.env.EXPO_PUBLIC_API_BASE_URL:', process.env.EXPO_PUBLIC_API_BASE_URL);
-  
+  log.info('API base URL:', url);
+
   return url;
 };
 
 const API_BASE_URL = getApiBaseUrl();
+
+// Serve requests from the in-process mock backend instead of the network (see mockBackend.ts).
+// EXPO_PUBLIC_ variables are inlined at build time, so without the flag Metro drops the require
+// and the mock backend (fixture accounts, passwords, 2FA secrets) stays out of the bundle.
+const mockAdapter: AxiosAdapter | undefined =
+  process.env.EXPO_PUBLIC_MOCK_API === 'true'
+    ? (require('./mockBackend') as typeof import('./mockBackend')).mockAdapter
+    : undefined;
 const IDEMPOTENT_METHODS = ['post', 'put', 'patch', 'delete'];
 
-const generateIdempotencyKey = (): string => {
+export const generateIdempotencyKey = (): string => {
   if (typeof globalThis.crypto?.randomUUID === 'function') {
     return globalThis.crypto.randomUUID();
   }
@@ -45,11 +64,134 @@ export type ApiResponse<T> = {
   errors?: ApiError[];
   meta?: Record<string, unknown>;
   raw?: unknown;
+  // The caller aborted the request; there is nothing to show
+  aborted?: boolean;
 };
 
+// `revoked`: the session was signed out from another device (errors[0].code === 'session_revoked')
+export type SessionEndReason = 'expired' | 'revoked';
+
+type SessionExpiredListener = (reason: SessionEndReason) => void;
+
+const SESSION_REVOKED_CODE = 'session_revoked';
+
+const isRevoked = (body: unknown) =>
+  (body as { errors?: ApiError[] } | undefined)?.errors?.[0]?.code === SESSION_REVOKED_CODE;
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type RetryPolicy = {
+  // Extra attempts after the first one
+  retries: number;
+  // First backoff delay (ms), doubled on every attempt with jitter
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+};
+
+export type RequestOptions = {
+  method?: HttpMethod;
+  data?: unknown;
+  skipAuth?: boolean;
+  // Reuse a key when replaying a mutation so the backend can dedupe it
+  idempotencyKey?: string;
+  // Aborting resolves the request with `aborted: true` instead of throwing
+  signal?: AbortSignal;
+  // Overrides the client-wide timeout (ms)
+  timeout?: number;
+  // GETs retry transient failures by default; pass `false` to opt out, or a policy to retry a mutation
+  retry?: RetryPolicy | false;
+  // Byte progress for request bodies (uploads)
+  onUploadProgress?: (loaded: number, total?: number) => void;
+  // Send as another signed-in account instead of the active one; a 401 is returned as-is
+  authToken?: string;
+};
+
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+// Network errors (status 0), timeouts, rate limiting and gateway hiccups
+const RETRYABLE_STATUSES = [0, 408, 429, 502, 503, 504];
+
+const resolveRetryPolicy = (method: HttpMethod, retry: RequestOptions['retry']): Required<RetryPolicy> | null => {
+  if (retry === false) return null;
+  if (retry) return { ...DEFAULT_RETRY_POLICY, ...retry };
+  // Only GETs are safe to repeat without the caller opting in
+  return method === 'GET' ? DEFAULT_RETRY_POLICY : null;
+};
+
+const isRetryableStatus = (response: ApiResponse<unknown>) =>
+  !response.aborted && RETRYABLE_STATUSES.includes(response.status);
+
+const backoffDelay = (policy: Required<RetryPolicy>, attempt: number) => {
+  const delay = Math.min(policy.baseDelayMs * 2 ** attempt, policy.maxDelayMs);
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+};
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (header: unknown): number | undefined => {
+  if (typeof header !== 'string' && typeof header !== 'number') return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Resolves false if the signal aborts before the delay elapses
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<boolean>((resolve) => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const abortedResponse = <T>(): ApiResponse<T> => ({
+  ok: false,
+  status: 0,
+  aborted: true,
+  errors: [{ title: 'Request cancelled', detail: 'The request was cancelled' }],
+});
+
+/**
+ * Hands out one AbortSignal at a time: asking for the next signal aborts the
+ * request that used the previous one, so a slow stale response can never
+ * overwrite a newer one (search-as-you-type, username lookups).
+ */
+export function createLatestRequest() {
+  let controller: AbortController | null = null;
+
+  return {
+    next(): AbortSignal {
+      controller?.abort();
+      controller = new AbortController();
+      return controller.signal;
+    },
+    cancel() {
+      controller?.abort();
+      controller = null;
+    },
+  };
+}
+
 class ApiClient {
   private client: AxiosInstance;
   private token: string | null = null;
+  private refreshToken: string | null = null;
+  // Shared by every request that hits a 401 while a refresh is in flight
+  private refreshPromise: Promise<string | null> | null = null;
+  private sessionExpiredListeners = new Set<SessionExpiredListener>();
 
   constructor() {
     this.client = axios.create({
@@ -61,19 +203,28 @@ class ApiClient {
       },
       maxRedirects: 0, // Don't follow redirects - API should return JSON, not redirects
       validateStatus: (status) => status < 500, // Don't throw on 4xx errors, handle them ourselves
+      ...(mockAdapter ? { adapter: mockAdapter } : {}),
     });
 
+    if (mockAdapter) {
+      log.info('Using mock API backend');
+    }
+
     // Load token from secure storage (async, but we'll handle it)
-    this.loadToken().catch(console.error);
+    this.loadToken().catch((error) => log.error('Load token error:', error));
 
     // Add request interceptor to include auth token
     this.client.interceptors.request.use(
       async (config) => {
         config.headers = config.headers ?? {};
         const method = (config.method ?? 'get').toLowerCase();
+
+        // Hold new requests until an in-flight refresh settles so they go out with the new token
+        if (this.refreshPromise && !config.skipAuthRefresh) {
+          await this.refreshPromise;
+        }
         
-        // Log every request for debugging
-        console.log(`🔵 Axios Request: ${method.toUpperCase()} ${config.url}`, {
+        log.debug(`${method.toUpperCase()} ${config.url}`, {
           hasData: !!config.data,
           hasAuth: !!config.headers?.Authorization,
         });
@@ -91,35 +242,147 @@ class ApiClient {
       (error) => Promise.reject(error)
     );
 
-    // Add response interceptor to handle errors
+    // Add response interceptor to refresh the session on 401.
+    // 4xx responses resolve (see validateStatus), so a 401 arrives here rather than in the error handler.
     this.client.interceptors.response.use(
-      (response) => response,
-      async (error: AxiosError) => {
-        if (error.response?.status === 401) {
-          // Token expired or invalid, clear it
-          await this.setToken(null);
+      (response) => {
+        if (response.status === 401) {
+          return this.handleUnauthorized(response);
         }
-        return Promise.reject(error);
-      }
+        return response;
+      },
+      (error: AxiosError) => Promise.reject(error)
     );
   }
 
-  async setToken(token: string | null) {
+  private async handleUnauthorized(response: AxiosResponse): Promise<AxiosResponse> {
+    const config = response.config as InternalAxiosRequestConfig;
+
+    if (config.skipAuthRefresh || config.retriedAfterRefresh) {
+      return response;
+    }
+
+    // The token may have been rotated by a concurrent request while this one was in flight
+    const sentToken = String(config.headers?.Authorization ?? '').replace(/^Bearer\s+/i, '');
+
+    // A revoked session can't be refreshed; only the first request to notice ends it
+    if (isRevoked(response.data)) {
+      if (this.token && this.token === sentToken) {
+        await this.expireSession('revoked');
+      }
+      return response;
+    }
+
+    const newToken =
+      this.token && sentToken && this.token !== sentToken
+        ? this.token
+        : await this.refreshSession();
+
+    if (!newToken) {
+      return response;
+    }
+
+    config.retriedAfterRefresh = true;
+    config.headers.Authorization = `Bearer ${newToken}`;
+    return this.client.request(config);
+  }
+
+  private refreshSession(): Promise<string | null> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performRefresh(): Promise<string | null> {
+    if (!this.refreshToken) {
+      await this.expireSession();
+      return null;
+    }
+
+    try {
+      const response = await this.client.post(
+        REFRESH_PATH,
+        { refresh_token: this.refreshToken },
+        { skipAuthRefresh: true, headers: { Authorization: '' } }
+      );
+      const data = response.data?.data as { token?: string; refresh_token?: string } | undefined;
+
+      if (response.status >= 200 && response.status < 300 && data?.token) {
+        await this.setTokens(data.token, data.refresh_token ?? this.refreshToken);
+        return data.token;
+      }
+      if (isRevoked(response.data)) {
+        await this.expireSession('revoked');
+        return null;
+      }
+      // Timeouts and rate limiting say nothing about the refresh token
+      if (RETRYABLE_STATUSES.includes(response.status)) {
+        log.warn('Token refresh deferred', { status: response.status });
+        return null;
+      }
+    } catch (error) {
+      // No connection or a server error: keep both tokens so the request can be retried later
+      log.warn('Token refresh failed, keeping the session:', error);
+      return null;
+    }
+
+    // The server rejected the refresh token (or answered without a new one)
+    await this.expireSession();
+    return null;
+  }
+
+  private async expireSession(reason: SessionEndReason = 'expired') {
+    await this.setToken(null);
+    this.sessionExpiredListeners.forEach((listener) => listener(reason));
+  }
+
+  /**
+   * Subscribe to session expiry (the refresh token was rejected or missing, or the
+   * session was revoked remotely). Returns an unsubscribe function.
+   */
+  onSessionExpired(listener: SessionExpiredListener): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => {
+      this.sessionExpiredListeners.delete(listener);
+    };
+  }
+
+  async setTokens(token: string | null, refreshToken: string | null) {
     this.token = token;
+    this.refreshToken = token ? refreshToken : null;
+
     if (token) {
       await SecureStore.setItemAsync(TOKEN_KEY, token);
     } else {
       await SecureStore.deleteItemAsync(TOKEN_KEY);
     }
+
+    if (this.refreshToken) {
+      await SecureStore.setItemAsync(REFRESH_TOKEN_KEY, this.refreshToken);
+    } else {
+      await SecureStore.deleteItemAsync(REFRESH_TOKEN_KEY);
+    }
+  }
+
+  async setToken(token: string | null) {
+    await this.setTokens(token, token ? this.refreshToken : null);
   }
 
   async loadToken(): Promise<void> {
     try {
-      const token = await SecureStore.getItemAsync(TOKEN_KEY);
+      const [token, refreshToken] = await Promise.all([
+        SecureStore.getItemAsync(TOKEN_KEY),
+        SecureStore.getItemAsync(REFRESH_TOKEN_KEY),
+      ]);
       this.token = token;
+      this.refreshToken = refreshToken;
     } catch (error) {
-      console.error('Error loading token:', error);
+      log.error('Error loading token:', error);
       this.token = null;
+      this.refreshToken = null;
     }
   }
 
@@ -127,88 +390,127 @@ class ApiClient {
     return this.token;
   }
 
-  async request<T>(
-    path: string,
-    options: {
-      method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
-      data?: unknown;
-      skipAuth?: boolean;
-    } = {}
-  ): Promise<ApiResponse<T>> {
+  getRefreshToken(): string | null {
+    return this.refreshToken;
+  }
+
+  // For pages opened outside the client, e.g. the social sign-in redirect in the browser
+  getBaseUrl(): string {
+    return API_BASE_URL;
+  }
+
+  async request<T>(path: string, options: RequestOptions = {}): Promise<ApiResponse<T>> {
     const method = options.method || 'GET';
     const url = path.startsWith('/') ? path : `/${path}`;
-    
-    // Debug logging
-    console.log(`📤 API Request: ${method} ${url}`, options.data ? { hasData: true } : {});
-    
+    const retry = resolveRetryPolicy(method, options.retry);
+
+    for (let attempt = 0; ; attempt++) {
+      const { response, retryAfter } = await this.send<T>(url, method, options);
+
+      if (!retry || attempt >= retry.retries || !isRetryableStatus(response)) {
+        return response;
+      }
+
+      const delay = retryAfter ?? backoffDelay(retry, attempt);
+      log.debug(`Retrying ${method} ${url} in ${delay}ms (attempt ${attempt + 2}/${retry.retries + 1})`);
+
+      if (!(await wait(delay, options.signal))) {
+        return abortedResponse<T>();
+      }
+    }
+  }
+
+  private async send<T>(
+    url: string,
+    method: HttpMethod,
+    options: RequestOptions
+  ): Promise<{ response: ApiResponse<T>; retryAfter?: number }> {
     try {
       const response = await this.client.request({
         url,
         method,
         data: options.data,
-        headers: options.skipAuth ? { Authorization: '' } : undefined,
+        signal: options.signal,
+        ...(options.timeout !== undefined ? { timeout: options.timeout } : {}),
+        headers: {
+          ...(options.skipAuth ? { Authorization: '' } : {}),
+          ...(options.authToken ? { Authorization: `Bearer ${options.authToken}` } : {}),
+          ...(options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : {}),
+          ...(options.data instanceof FormData ? { 'Content-Type': 'multipart/form-data' } : {}),
+        },
+        ...(options.onUploadProgress
+          ? { onUploadProgress: (event) => options.onUploadProgress?.(event.loaded, event.total) }
+          : {}),
+        skipAuthRefresh: options.skipAuth || !!options.authToken,
       });
 
       return {
-        ok: true,
-        status: response.status,
-        data: response.data?.data,
-        errors: response.data?.errors,
-        meta: response.data?.meta,
-        raw: response.data,
+        response: {
+          ok: true,
+          status: response.status,
+          data: response.data?.data,
+          errors: response.data?.errors,
+          meta: response.data?.meta,
+          raw: response.data,
+        },
+        retryAfter: parseRetryAfter(response.headers?.['retry-after']),
       };
     } catch (error) {
-      console.error('API Request Error:', error);
-      console.error('Request URL:', `${API_BASE_URL}${path.startsWith('/') ? path : `/${path}`}`);
-      
+      // Cancelled by the caller (superseded search, unmounted screen) - not worth logging
+      if (axios.isCancel(error)) {
+        return { response: abortedResponse<T>() };
+      }
+
+      log.error(`${method} ${API_BASE_URL}${url} failed:`, error);
+
       if (axios.isAxiosError(error)) {
         const axiosError = error as AxiosError;
-        console.error('Axios Error Details:', {
-          message: axiosError.message,
-          code: axiosError.code,
-          status: axiosError.response?.status,
-          statusText: axiosError.response?.statusText,
-          data: axiosError.response?.data,
-        });
-        
+
         // Network error (no response)
         if (!axiosError.response) {
           return {
+            response: {
+              ok: false,
+              status: 0,
+              errors: [
+                {
+                  title: 'Network Error',
+                  detail: axiosError.message || 'Unable to connect to server. Please check your internet connection and ensure the backend is running.',
+                },
+              ],
+            },
+          };
+        }
+
+        return {
+          response: {
             ok: false,
-            status: 0,
-            errors: [
+            status: axiosError.response?.status || 500,
+            data: (axiosError.response?.data as any)?.data,
+            errors: (axiosError.response?.data as any)?.errors || [
               {
-                title: 'Network Error',
-                detail: axiosError.message || 'Unable to connect to server. Please check your internet connection and ensure the backend is running.',
+                title: 'Request failed',
+                detail: axiosError.message || 'An error occurred',
               },
             ],
-          };
-        }
-        
-        return {
-          ok: false,
-          status: axiosError.response?.status || 500,
-          data: (axiosError.response?.data as any)?.data,
-          errors: (axiosError.response?.data as any)?.errors || [
-            {
-              title: 'Request failed',
-              detail: axiosError.message || 'An error occurred',
-            },
-          ],
-          meta: (axiosError.response?.data as any)?.meta,
-          raw: axiosError.response?.data,
+            meta: (axiosError.response?.data as any)?.meta,
+            raw: axiosError.response?.data,
+          },
+          retryAfter: parseRetryAfter(axiosError.response?.headers?.['retry-after']),
         };
       }
 
       return {
-        ok: false,
-        status: 500,
-        errors: [
-          {
-            title: 'Unknown error',
-            detail: error instanceof Error ? error.message : 'An unexpected error occurred',
-          },
-        ],
+        response: {
+          ok: false,
+          status: 500,
+          errors: [
+            {
+              title: 'Unknown error',
+              detail: error instanceof Error ? error.message : 'An unexpected error occurred',
+            },
+          ],
+        },
       };
     }
   }
@@ -1,4 +1,16 @@
-import { apiClient } from './apiClient';
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import { apiClient, ApiResponse } from './apiClient';
+import { api } from './api';
+import { accountStore } from './accounts';
+import { offlineCache } from './offlineCache';
+import { recentTags } from './recentTags';
+import { queryCache, queryKeys } from './queryCache';
+import { uploader } from './uploader';
+import { twoFactorService, type TwoFactorCode } from './twoFactor';
+import { logger } from './logger';
+
+const log = logger.scope('auth');
 
 export type User = {
   id: number;
@@ -11,6 +23,9 @@ export type User = {
   role: 'admin' | 'creator' | 'fan';
   default_coin_symbol?: string | null;
   verified_creator?: boolean;
+  two_factor_enabled?: boolean;
+  // Set while the account is scheduled for deletion (see lib/privacy.ts)
+  deletion_scheduled_for?: string | null;
   created_at: string;
   updated_at: string;
 };
@@ -18,6 +33,8 @@ export type User = {
 export type LoginCredentials = {
   email: string;
   password: string;
+  // Shown in the sessions list on other devices
+  device_name?: string;
 };
 
 export type RegisterData = {
@@ -26,58 +43,266 @@ export type RegisterData = {
   email: string;
   password: string;
   avatar_url?: string;
+  device_name?: string;
+};
+
+export type ResetPasswordPayload = {
+  token: string;
+  email?: string;
+  password: string;
+  password_confirmation: string;
 };
 
 export type AuthResponse = {
   token: string;
+  refresh_token?: string;
   user: User;
 };
 
+// Returned by login instead of tokens when the account has 2FA enabled
+export type TwoFactorChallenge = {
+  two_factor_required: true;
+  challenge_token: string;
+};
+
+export type LoginResponse = AuthResponse | TwoFactorChallenge;
+
+export type SocialProvider = 'google' | 'facebook';
+
+// The provider's email belongs to an existing account that isn't linked yet; its
+// password proves ownership before the two are linked
+export type SocialLinkRequired = {
+  link_required: true;
+  link_token: string;
+  email: string;
+  provider: SocialProvider;
+};
+
+export type SocialLoginResponse = LoginResponse | SocialLinkRequired;
+
+export const isTwoFactorChallenge = (data: SocialLoginResponse): data is TwoFactorChallenge =>
+  'two_factor_required' in data && data.two_factor_required === true;
+
+export const isSocialLinkRequired = (data: SocialLoginResponse): data is SocialLinkRequired =>
+  'link_required' in data && data.link_required === true;
+
+// The callback can arrive twice (browser result and deep link); each login token is exchanged once
+const socialExchanges = new Map<string, Promise<ApiResponse<SocialLoginResponse>>>();
+
+const deviceName = () => Constants.deviceName || `${Platform.OS} device`;
+
+// Signing in while another account is active adds an account rather than replacing it
+const startSession = async (auth: AuthResponse) => {
+  await accountStore.saveActiveTokens();
+  await apiClient.setTokens(auth.token, auth.refresh_token ?? null);
+  await accountStore.remember(auth.user);
+  queryCache.clear();
+  twoFactorService.clear();
+};
+
+// Drop the active account's local state once its session is gone. Drafts and queued
+// mutations stay on the device under the account's id: drafts come back and sync, and
+// the outbox replays, when it signs in again
+const endSession = async () => {
+  const accountId = accountStore.getActiveId();
+  await uploader.clear();
+  await offlineCache.clear();
+  await recentTags.clear();
+  queryCache.clear();
+  twoFactorService.clear();
+  await apiClient.setToken(null);
+  if (accountId !== null) {
+    await accountStore.remove(accountId);
+  }
+};
+
 export const authService = {
   async login(credentials: LoginCredentials) {
-    console.log('🔐 Login attempt - calling POST /v1/auth/login');
-    const response = await apiClient.post<AuthResponse>(
-      '/v1/auth/login',
-      credentials,
-      true // skipAuth for login
-    );
-    console.log('🔐 Login response:', { ok: response.ok, status: response.status });
+    log.debug('Login attempt - calling POST /v1/auth/login');
+    const response = await api.auth.login({ ...credentials, device_name: deviceName() });
+    log.debug('Login response:', { ok: response.ok, status: response.status });
 
-    if (response.ok && response.data?.token) {
-      await apiClient.setToken(response.data.token);
+    // With 2FA enabled the caller continues with completeTwoFactorLogin()
+    if (response.ok && response.data && !isTwoFactorChallenge(response.data) && response.data.token) {
+      await startSession(response.data);
       return response;
     }
 
     return response;
   },
 
+  /**
+   * Second step of a 2FA login: exchange the challenge token and a code for a session.
+   */
+  async completeTwoFactorLogin(challengeToken: string, code: TwoFactorCode) {
+    const response = await api.twoFactor.challenge({
+      challenge_token: challengeToken,
+      device_name: deviceName(),
+      ...code,
+    });
+
+    if (response.ok && response.data?.token) {
+      await startSession(response.data);
+    }
+
+    return response;
+  },
+
+  /**
+   * Exchange the one-time token from a social sign-in callback for a session. May
+   * instead resolve with a 2FA challenge or a request to link an existing account.
+   */
+  completeSocialLogin(loginToken: string): Promise<ApiResponse<SocialLoginResponse>> {
+    let exchange = socialExchanges.get(loginToken);
+    if (!exchange) {
+      exchange = api.social.exchange({ login_token: loginToken, device_name: deviceName() }).then(async (response) => {
+        const data = response.data;
+        if (response.ok && data && !isTwoFactorChallenge(data) && !isSocialLinkRequired(data) && data.token) {
+          await startSession(data);
+        }
+        return response;
+      });
+      socialExchanges.set(loginToken, exchange);
+    }
+    return exchange;
+  },
+
+  /**
+   * Link a social identity to the existing account with the same email, proven by its password.
+   */
+  async linkSocialAccount(linkToken: string, password: string) {
+    const response = await api.social.link({ link_token: linkToken, password, device_name: deviceName() });
+
+    if (response.ok && response.data && !isTwoFactorChallenge(response.data) && response.data.token) {
+      await startSession(response.data);
+    }
+
+    return response;
+  },
+
   async register(data: RegisterData) {
-    const response = await apiClient.post<AuthResponse>(
-      '/v1/auth/register',
-      data,
-      true // skipAuth for register
-    );
+    const response = await api.auth.register({ ...data, device_name: deviceName() });
 
     if (response.ok && response.data?.token) {
-      await apiClient.setToken(response.data.token);
+      await startSession(response.data);
       return response;
     }
 
     return response;
   },
 
-  async logout() {
+  /**
+   * Sign out of the active account. Resolves with the signed-in account that took
+   * over, or null if none is left.
+   */
+  async logout(): Promise<User | null> {
     try {
-      await apiClient.post('/v1/auth/logout');
+      await api.auth.logout();
     } catch (error) {
-      console.error('Logout error:', error);
+      log.error('Logout error:', error);
     } finally {
-      await apiClient.setToken(null);
+      await endSession();
+    }
+    return authService.switchToNextAccount();
+  },
+
+  /**
+   * Revoke the session on every device, this one included. The local session is
+   * only dropped once the backend confirms; the caller then picks the next account.
+   */
+  async logoutEverywhere() {
+    const response = await api.sessions.revokeAll();
+    if (response.ok && response.status < 300) {
+      await endSession();
+    }
+    return response;
+  },
+
+  /**
+   * Sign another device out. That device finds out on its next request.
+   */
+  async revokeSession(sessionId: string) {
+    const response = await api.sessions.revoke(sessionId);
+    if (response.ok && response.status < 300) {
+      queryCache.invalidate(queryKeys.sessions);
+    }
+    return response;
+  },
+
+  /**
+   * The active session could not be refreshed or was revoked from another device: forget it and fall back to another account.
+   */
+  async expireSession(): Promise<User | null> {
+    await endSession();
+    return authService.switchToNextAccount();
+  },
+
+  /**
+   * Make another signed-in account the active one. Everything cached for the
+   * previous account is dropped; its queued mutations wait until it's active again.
+   */
+  async switchAccount(accountId: number): Promise<ApiResponse<User>> {
+    const previousId = accountStore.getActiveId();
+    if (!(await accountStore.activate(accountId))) {
+      return {
+        ok: false,
+        status: 401,
+        errors: [{ title: 'Signed out', detail: 'Sign in to this account again' }],
+      };
     }
+
+    queryCache.clear();
+    twoFactorService.clear();
+    const response = await authService.getCurrentUser();
+    if (response.ok && response.data) {
+      await accountStore.remember(response.data);
+    } else if (response.status === 401 && !apiClient.getToken()) {
+      // The ApiClient already tried a refresh and the server turned it down
+      await endSession();
+    } else if (previousId !== null) {
+      // Offline, a server error, or a refresh that couldn't reach the server: stay on the account we were using
+      await accountStore.activate(previousId);
+      queryCache.clear();
+    }
+    return response;
+  },
+
+  async switchToNextAccount(): Promise<User | null> {
+    const { accounts } = accountStore.getState();
+    for (const account of accounts.filter((item) => !item.expired)) {
+      const response = await authService.switchAccount(account.id);
+      if (response.ok && response.status < 300 && response.data) {
+        return response.data;
+      }
+    }
+    await apiClient.setToken(null);
+    return null;
+  },
+
+  async requestPasswordReset(email: string) {
+    return api.auth.forgotPassword({ email });
+  },
+
+  async resetPassword(payload: ResetPasswordPayload) {
+    return api.auth.resetPassword(payload);
+  },
+
+  async resendVerificationEmail() {
+    return api.auth.resendVerification();
+  },
+
+  async verifyEmail(token: string) {
+    const response = await api.auth.verifyEmail({ token });
+    if (response.ok && response.status < 300) {
+      // Anything showing the cached user refetches it with email_verified_at set
+      queryCache.invalidate(queryKeys.me);
+    }
+    return response;
   },
 
   async getCurrentUser() {
-    return apiClient.get<User>('/v1/auth/me');
+    // Shared with any other caller asking for the current user at the same time
+    return queryCache.fetch(queryKeys.me, api.auth.me);
   },
 };
 
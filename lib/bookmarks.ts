@@ -0,0 +1,107 @@
+import { api, type BookmarkResult, type FeedPost } from './api';
+import type { OutboxResponse } from './outbox';
+import { accountStore } from './accounts';
+import { offlineCache } from './offlineCache';
+import { queryCache, queryKeys } from './queryCache';
+import { logger } from './logger';
+
+const log = logger.scope('feed');
+
+type BookmarksListener = () => void;
+
+/*
+ * Bookmark state for posts already on screen. A toggle is applied right away and
+ * sent through the outbox, so saving works offline; lists fetched before the
+ * toggle are corrected here until they're fetched again. Bookmarked posts are
+ * kept in the offline cache so the Saved screen works without a connection.
+ */
+class BookmarkStore {
+  // Post id -> bookmarked, for posts toggled since they were fetched
+  private overrides = new Map<string, boolean>();
+  private listeners = new Set<BookmarksListener>();
+
+  constructor() {
+    // Overrides belong to the account that made them
+    accountStore.subscribe(() => this.clear());
+  }
+
+  isBookmarked(post: FeedPost): boolean {
+    return this.overrides.get(post.id) ?? !!post.is_bookmarked;
+  }
+
+  /**
+   * Bookmark a post, optionally into a collection (which moves it there if it's
+   * already bookmarked).
+   */
+  async save(post: FeedPost, collectionId: string | null = null): Promise<OutboxResponse<BookmarkResult>> {
+    const wasBookmarked = this.isBookmarked(post);
+    this.set(post.id, true);
+    offlineCache.addBookmark(post, collectionId);
+
+    const response = await api.bookmarks.add(post.id, { collection_id: collectionId });
+    if (!response.queued && !(response.ok && response.status < 300)) {
+      log.warn('Bookmark failed', { postId: post.id, status: response.status });
+      this.set(post.id, wasBookmarked);
+      if (!wasBookmarked) offlineCache.removeBookmark(post.id);
+    }
+    queryCache.invalidate(queryKeys.bookmarkCollections);
+    // Again once the server has it, so bookmark lists can refetch
+    this.notify();
+    return response;
+  }
+
+  async remove(post: FeedPost): Promise<OutboxResponse<BookmarkResult>> {
+    this.set(post.id, false);
+    offlineCache.removeBookmark(post.id);
+
+    const response = await api.bookmarks.remove(post.id);
+    if (!response.queued && !(response.ok && response.status < 300)) {
+      log.warn('Removing bookmark failed', { postId: post.id, status: response.status });
+      this.set(post.id, true);
+      offlineCache.addBookmark(post, null);
+    }
+    queryCache.invalidate(queryKeys.bookmarkCollections);
+    this.notify();
+    return response;
+  }
+
+  async createCollection(name: string) {
+    const response = await api.bookmarks.createCollection({ name: name.trim() });
+    if (response.ok && response.status < 300) {
+      queryCache.invalidate(queryKeys.bookmarkCollections);
+    }
+    return response;
+  }
+
+  async deleteCollection(collectionId: string) {
+    const response = await api.bookmarks.deleteCollection(collectionId);
+    if (response.ok && response.status < 300) {
+      queryCache.invalidate(queryKeys.bookmarkCollections);
+    }
+    return response;
+  }
+
+  clear() {
+    if (this.overrides.size === 0) return;
+    this.overrides.clear();
+    this.notify();
+  }
+
+  subscribe(listener: BookmarksListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private set(postId: string, bookmarked: boolean) {
+    this.overrides.set(postId, bookmarked);
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const bookmarks = new BookmarkStore();
@@ -0,0 +1,38 @@
+import type { User } from './auth';
+
+/*
+ * What each role may do. The backend enforces the same rules; checking here keeps
+ * fans from reaching creator-only screens that would just fail server-side.
+ */
+
+export type Capability =
+  // Launch a creator coin
+  | 'coin.create'
+  // The My Coin screen: fund the reward pool, edit reward rules
+  | 'coin.manage'
+  // Attach a reward pool to a post
+  | 'post.reward';
+
+const ROLE_CAPABILITIES: Record<User['role'], Capability[]> = {
+  admin: ['coin.create', 'coin.manage', 'post.reward'],
+  creator: ['coin.create', 'coin.manage', 'post.reward'],
+  fan: [],
+};
+
+export const hasCapability = (user: Pick<User, 'role'> | null | undefined, capability: Capability): boolean =>
+  !!user && ROLE_CAPABILITIES[user.role]?.includes(capability);
+
+// Screens that need a capability, by route (joined segments, e.g. '(tabs)/my-coin')
+export const ROUTE_CAPABILITIES: Record<string, Capability> = {
+  '(tabs)/my-coin': 'coin.manage',
+};
+
+// Shown on the upgrade prompt when a screen or action needs a creator account
+export const CAPABILITY_DESCRIPTIONS: Record<Capability, string> = {
+  'coin.create': 'Launch your own creator coin',
+  'coin.manage': 'Fund your reward pool and set how fans earn your coin',
+  'post.reward': 'Reward fans with your coin when they like, comment on and share your posts',
+};
+
+export const isCapability = (value: unknown): value is Capability =>
+  typeof value === 'string' && value in CAPABILITY_DESCRIPTIONS;
@@ -0,0 +1,200 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { api, type PostDraft } from './api';
+import { generateIdempotencyKey } from './apiClient';
+import { accountStore } from './accounts';
+import { logger } from './logger';
+
+const log = logger.scope('feed');
+
+/*
+ * Unpublished posts from PostComposer, per account. Drafts live on the device so
+ * autosave works offline, and are copied to the server when it's reachable so
+ * they follow the account to other devices.
+ */
+
+const DRAFTS_KEY_PREFIX = 'phanrise_drafts_';
+const MAX_DRAFTS = 50;
+
+// What the composer fills in; the store adds the id and timestamp
+export type DraftFields = Omit<PostDraft, 'id' | 'updated_at'>;
+
+type DraftsSnapshot = {
+  // Most recently edited first
+  drafts: PostDraft[];
+  // Ids the server has had, so a draft deleted on another device isn't uploaded again
+  synced: string[];
+};
+
+type DraftsListener = (drafts: PostDraft[]) => void;
+
+const emptySnapshot = (): DraftsSnapshot => ({ drafts: [], synced: [] });
+
+const byUpdatedAt = (a: PostDraft, b: PostDraft) => b.updated_at.localeCompare(a.updated_at);
+
+export const newDraftId = () => generateIdempotencyKey();
+
+class DraftStore {
+  private accountId: number | null = null;
+  private snapshot: DraftsSnapshot = emptySnapshot();
+  private loaded: Promise<void> = Promise.resolve();
+  // Server writes go out one at a time, in the order they were made
+  private syncQueue: Promise<unknown> = Promise.resolve();
+  private listeners = new Set<DraftsListener>();
+
+  constructor() {
+    this.loaded = accountStore.ready.then(() => this.switchTo(accountStore.getActiveId()));
+    accountStore.subscribe((state) => {
+      if (state.activeId !== this.accountId) {
+        this.loaded = this.loaded.then(() => this.switchTo(state.activeId));
+      }
+    });
+  }
+
+  private storageKey(accountId: number) {
+    return `${DRAFTS_KEY_PREFIX}${accountId}`;
+  }
+
+  private async switchTo(accountId: number | null) {
+    if (accountId === this.accountId) return;
+    this.accountId = accountId;
+    this.snapshot = emptySnapshot();
+
+    if (accountId !== null) {
+      try {
+        const stored = await AsyncStorage.getItem(this.storageKey(accountId));
+        if (stored) {
+          this.snapshot = { ...emptySnapshot(), ...(JSON.parse(stored) as Partial<DraftsSnapshot>) };
+        }
+      } catch (error) {
+        log.error('Error loading drafts:', error);
+      }
+    }
+    this.notify();
+  }
+
+  private async persist() {
+    if (this.accountId === null) return;
+    try {
+      await AsyncStorage.setItem(this.storageKey(this.accountId), JSON.stringify(this.snapshot));
+    } catch (error) {
+      log.error('Error saving drafts:', error);
+    }
+  }
+
+  private enqueueSync(task: () => Promise<void>) {
+    const accountId = this.accountId;
+    this.syncQueue = this.syncQueue.then(() => (this.accountId === accountId ? task() : undefined)).catch((error) => {
+      log.warn('Draft sync failed', { error });
+    });
+  }
+
+  private upload(draft: PostDraft) {
+    this.enqueueSync(async () => {
+      const response = await api.drafts.save(draft.id, draft);
+      if (response.ok && response.status < 300) {
+        this.markSynced(draft.id, true);
+      } else {
+        // Still on the device; it goes up on the next save or refresh
+        log.debug('Draft not uploaded', { draftId: draft.id, status: response.status });
+      }
+    });
+  }
+
+  private markSynced(draftId: string, synced: boolean) {
+    const others = this.snapshot.synced.filter((id) => id !== draftId);
+    this.snapshot.synced = synced ? [...others, draftId] : others;
+    this.persist();
+  }
+
+  list(): PostDraft[] {
+    return this.snapshot.drafts;
+  }
+
+  get(draftId: string): PostDraft | undefined {
+    return this.snapshot.drafts.find((draft) => draft.id === draftId);
+  }
+
+  /**
+   * Create or update a draft. The oldest drafts are dropped past MAX_DRAFTS.
+   */
+  async save(draftId: string, fields: DraftFields): Promise<PostDraft> {
+    await this.loaded;
+    const draft: PostDraft = { ...fields, id: draftId, updated_at: new Date().toISOString() };
+    this.snapshot.drafts = [draft, ...this.snapshot.drafts.filter((item) => item.id !== draftId)].slice(0, MAX_DRAFTS);
+    await this.persist();
+    this.notify();
+    this.upload(draft);
+    return draft;
+  }
+
+  async remove(draftId: string) {
+    await this.loaded;
+    if (!this.get(draftId)) return;
+    this.snapshot.drafts = this.snapshot.drafts.filter((draft) => draft.id !== draftId);
+    await this.persist();
+    this.notify();
+
+    this.enqueueSync(async () => {
+      const response = await api.drafts.remove(draftId);
+      if ((response.ok && response.status < 300) || response.status === 404) {
+        this.markSynced(draftId, false);
+      }
+    });
+  }
+
+  /**
+   * Merge in the server's drafts: the most recent edit of each wins, drafts deleted
+   * elsewhere go away here too, and drafts only on this device are uploaded.
+   */
+  async refresh() {
+    await this.loaded;
+    const accountId = this.accountId;
+    const response = await api.drafts.list();
+    if (!(response.ok && response.status < 300 && response.data) || this.accountId !== accountId) {
+      return;
+    }
+
+    const remote = new Map(response.data.map((draft) => [draft.id, draft]));
+    const synced = new Set(this.snapshot.synced);
+    const merged: PostDraft[] = [];
+    const toUpload: PostDraft[] = [];
+
+    this.snapshot.drafts.forEach((local) => {
+      const server = remote.get(local.id);
+      remote.delete(local.id);
+      if (!server) {
+        if (synced.has(local.id)) return;
+        merged.push(local);
+        toUpload.push(local);
+      } else if (server.updated_at > local.updated_at) {
+        merged.push(server);
+      } else {
+        merged.push(local);
+        if (local.updated_at > server.updated_at) toUpload.push(local);
+      }
+    });
+    merged.push(...remote.values());
+
+    this.snapshot = {
+      drafts: merged.sort(byUpdatedAt).slice(0, MAX_DRAFTS),
+      synced: response.data.map((draft) => draft.id),
+    };
+    await this.persist();
+    this.notify();
+    toUpload.forEach((draft) => this.upload(draft));
+  }
+
+  subscribe(listener: DraftsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    const drafts = this.snapshot.drafts;
+    this.listeners.forEach((listener) => listener(drafts));
+  }
+}
+
+export const draftStore = new DraftStore();
@@ -0,0 +1,29 @@
+/*
+ * `#hashtag` parsing shared by the composer, post text and the mock backend.
+ * Tags are letters, digits and underscores with at least one letter (so "#1"
+ * isn't a tag), and only count at the start of a word ("C#" isn't either).
+ */
+
+export const MAX_TAG_LENGTH = 50;
+
+// Global, so callers must reset `lastIndex` (or use `matchAll`)
+export const HASHTAG_PATTERN = /(^|[^A-Za-z0-9_&])#([A-Za-z0-9_]*[A-Za-z][A-Za-z0-9_]*)/g;
+
+/**
+ * Lowercased tag without the `#`, as used in tag feed URLs and counts.
+ */
+export const normalizeTag = (tag: string) => tag.replace(/^#/, '').trim().toLowerCase().slice(0, MAX_TAG_LENGTH);
+
+/**
+ * Whether a word typed after `#` could still become a tag.
+ */
+export const isTagQuery = (query: string) => /^[A-Za-z0-9_]*$/.test(query);
+
+/**
+ * Distinct normalized tags in `text`, in order of first use.
+ */
+export const extractHashtags = (text: string | null | undefined): string[] => {
+  if (!text) return [];
+  const tags = Array.from(text.matchAll(HASHTAG_PATTERN), (match) => normalizeTag(match[2]));
+  return Array.from(new Set(tags));
+};
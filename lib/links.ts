@@ -0,0 +1,54 @@
+import * as WebBrowser from 'expo-web-browser';
+import { logger } from './logger';
+
+const log = logger.scope('feed');
+
+/*
+ * Web links in post and message text. Only http(s) and `www.` links count, and
+ * closing punctuation right after a link ("see example.com/a).") isn't part of it.
+ */
+
+// Global, so callers must reset `lastIndex` (or use `matchAll`)
+export const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"']+/gi;
+
+const TRAILING_PUNCTUATION = /[.,!?;:)\]}]+$/;
+
+/**
+ * The link without trailing punctuation, e.g. `https://a.com/x).` -> `https://a.com/x`.
+ */
+export const trimUrl = (url: string) => url.replace(TRAILING_PUNCTUATION, '');
+
+/**
+ * Absolute URL for a detected link (`www.` links get https).
+ */
+export const toHref = (url: string) => (/^https?:\/\//i.test(url) ? url : `https://${url}`);
+
+/**
+ * The first link in `text`, as an absolute URL, or null.
+ */
+export const firstUrl = (text: string | null | undefined): string | null => {
+  if (!text) return null;
+  const match = text.match(new RegExp(URL_PATTERN.source, 'i'));
+  return match ? toHref(trimUrl(match[0])) : null;
+};
+
+/**
+ * Host without `www.`, for showing where a link goes.
+ */
+export const displayHost = (url: string) => {
+  const host = url.replace(/^https?:\/\//i, '').split(/[/?#]/)[0];
+  return host.replace(/^www\./i, '').toLowerCase();
+};
+
+/**
+ * Open a link in the in-app browser. Resolves false when it couldn't be opened.
+ */
+export const openLink = async (url: string) => {
+  try {
+    await WebBrowser.openBrowserAsync(toHref(url));
+    return true;
+  } catch (error) {
+    log.error('Failed to open URL:', error);
+    return false;
+  }
+};
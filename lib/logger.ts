@@ -0,0 +1,173 @@
+/*
+ * Structured, scoped logging. Use `logger.scope('wallet')` instead of console.*:
+ * entries are redacted (tokens, passwords, emails, account numbers), filtered by
+ * level (warn-only in production builds) and kept in a ring buffer that the hidden
+ * debug screen in Settings can show.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogEntry = {
+  id: number;
+  timestamp: string;
+  level: LogLevel;
+  scope: string;
+  message: string;
+  details?: string;
+};
+
+type LogListener = (entries: LogEntry[]) => void;
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+const BUFFER_SIZE = 300;
+const MAX_DETAILS_LENGTH = 2000;
+
+// Object keys whose values are never logged
+const SENSITIVE_KEY_PATTERN = /(token|password|password_confirmation|secret|authorization|cookie|account_number|email|otp|code_verifier)$/i;
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const BEARER_PATTERN = /Bearer\s+[A-Za-z0-9\-._~+/|]+=*/gi;
+// 10-digit NUBAN account numbers (and longer card-like digit runs)
+const ACCOUNT_NUMBER_PATTERN = /\b\d{10,19}\b/g;
+
+const REDACTED = '[redacted]';
+
+const redactString = (value: string) =>
+  value
+    .replace(BEARER_PATTERN, `Bearer ${REDACTED}`)
+    .replace(EMAIL_PATTERN, (email) => `${email[0]}***@${email.split('@')[1]}`)
+    .replace(ACCOUNT_NUMBER_PATTERN, (digits) => `******${digits.slice(-4)}`);
+
+/**
+ * Deep-copy a value with sensitive fields and patterns masked.
+ */
+export function redact(value: unknown, depth = 0, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth > 5) return '[…]';
+  if (seen.has(value)) return '[circular]';
+  seen.add(value);
+
+  if (value instanceof Error) {
+    const details: Record<string, unknown> = { name: value.name, message: redactString(value.message) };
+    // Axios errors carry the request config (headers, body); keep only what helps debugging
+    const axiosLike = value as Error & { code?: string; response?: { status?: number; data?: unknown } };
+    if (axiosLike.code) details.code = axiosLike.code;
+    if (axiosLike.response) {
+      details.status = axiosLike.response.status;
+      details.data = redact(axiosLike.response.data, depth + 1, seen);
+    }
+    return details;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1, seen));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SENSITIVE_KEY_PATTERN.test(key) && item !== null && item !== undefined && item !== ''
+        ? REDACTED
+        : redact(item, depth + 1, seen),
+    ])
+  );
+}
+
+const stringify = (values: unknown[]) => {
+  if (values.length === 0) return undefined;
+  try {
+    const text = values
+      .map((value) => (typeof value === 'string' ? value : JSON.stringify(value)))
+      .join(' ');
+    return text.length > MAX_DETAILS_LENGTH ? `${text.slice(0, MAX_DETAILS_LENGTH)}…` : text;
+  } catch {
+    return '[unserializable]';
+  }
+};
+
+class Logger {
+  private level: LogLevel = __DEV__ ? 'debug' : 'warn';
+  private entries: LogEntry[] = [];
+  private listeners = new Set<LogListener>();
+  private nextId = 1;
+
+  getLevel(): LogLevel {
+    return this.level;
+  }
+
+  /**
+   * Change the minimum level at runtime (from the debug screen).
+   */
+  setLevel(level: LogLevel) {
+    this.level = level;
+  }
+
+  scope(name: string) {
+    return {
+      debug: (message: string, ...details: unknown[]) => this.write('debug', name, message, details),
+      info: (message: string, ...details: unknown[]) => this.write('info', name, message, details),
+      warn: (message: string, ...details: unknown[]) => this.write('warn', name, message, details),
+      error: (message: string, ...details: unknown[]) => this.write('error', name, message, details),
+    };
+  }
+
+  getEntries(): LogEntry[] {
+    return this.entries;
+  }
+
+  clear() {
+    this.entries = [];
+    this.notify();
+  }
+
+  subscribe(listener: LogListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private write(level: LogLevel, scope: string, message: string, details: unknown[]) {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[this.level]) {
+      return;
+    }
+
+    const safeMessage = redactString(message);
+    const safeDetails = details.map((detail) => redact(detail));
+
+    const entry: LogEntry = {
+      id: this.nextId++,
+      timestamp: new Date().toISOString(),
+      level,
+      scope,
+      message: safeMessage,
+      details: stringify(safeDetails),
+    };
+    this.entries = [...this.entries.slice(-(BUFFER_SIZE - 1)), entry];
+    this.notify();
+
+    const prefix = `[${scope}] ${safeMessage}`;
+    switch (level) {
+      case 'error':
+        console.error(prefix, ...safeDetails);
+        break;
+      case 'warn':
+        console.warn(prefix, ...safeDetails);
+        break;
+      default:
+        console.log(prefix, ...safeDetails);
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener(this.entries));
+  }
+}
+
+export const logger = new Logger();
@@ -0,0 +1,1565 @@
+import { Platform } from 'react-native';
+import { AxiosError, type AxiosAdapter, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import type { ApiError } from './apiClient';
+import type {
+  Comment,
+  CreatePostPayload,
+  FeedMedia,
+  FeedPost,
+  LinkPreview,
+  Poll,
+  PollPayload,
+  PostDraft,
+  WalletCoinBalance,
+} from './api';
+import { extractHashtags, normalizeTag } from './hashtags';
+import { displayHost } from './links';
+import type { DataExport } from './privacy';
+import type { ScheduledPost, SchedulePostPayload, UpdateScheduledPostPayload } from './scheduledPosts';
+import {
+  createMockDatabase,
+  MOCK_PASSWORD,
+  MOCK_TOTP_CODE,
+  toFeedUser,
+  toFollowEntry,
+  type MockAccount,
+  type MockConversation,
+  type MockDatabase,
+  type MockDraft,
+  type MockScheduledPost,
+  type MockSession,
+} from './mockFixtures';
+
+/*
+ * In-process mock of the Laravel API, plugged into the ApiClient axios instance as
+ * an adapter when EXPO_PUBLIC_MOCK_API=true (and only bundled then).
+ * Responses use the same `{ data, errors, meta }` envelope as the real backend, so
+ * screens, hooks and tests run unchanged with no network.
+ *
+ * Sign in with any fixture email (e.g. demo@example.com) and the password "password".
+ * Accounts with 2FA (ada@example.com) accept the authenticator code "123456".
+ */
+
+type MockRequest = {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  // The parsed JSON body, or an empty object when there is none
+  body: MockBody;
+  // Bearer token the request was sent with
+  token: string | null;
+};
+
+type MockBody = Record<string, unknown>;
+
+type MockResult = {
+  status: number;
+  body: {
+    data?: unknown;
+    errors?: ApiError[];
+    meta?: Record<string, unknown>;
+  } | null;
+};
+
+type MockHandler = (request: MockRequest) => MockResult;
+
+type MockRoute = {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: MockHandler;
+};
+
+const MOCK_LATENCY_MS = 150;
+// Transfers of at least this much need a step-up token (LARGE_TRANSFER_AMOUNT in twoFactor.ts)
+const STEP_UP_TRANSFER_AMOUNT = 1000;
+const STEP_UP_TTL_MS = 5 * 60 * 1000;
+// Exports become downloadable this long after they're requested
+const EXPORT_BUILD_MS = 4000;
+const EXPORT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DELETION_GRACE_MS = 30 * 24 * 60 * 60 * 1000;
+
+let db = createMockDatabase();
+let latency = MOCK_LATENCY_MS;
+
+const ok = (data?: unknown, meta?: Record<string, unknown>, status = 200): MockResult => ({
+  status,
+  body: { data, ...(meta ? { meta } : {}) },
+});
+
+const fail = (status: number, detail: string, title = 'Request failed', code?: string): MockResult => ({
+  status,
+  body: { errors: [{ title, detail, ...(code ? { code } : {}) }] },
+});
+
+const nextId = (prefix: string) => `${prefix}-${++db.sequence}`;
+
+const now = () => new Date().toISOString();
+
+const paginate = <T>(items: T[], query: URLSearchParams, defaultPerPage = 20) => {
+  const page = Math.max(1, Number(query.get('page')) || 1);
+  const perPage = Math.max(1, Number(query.get('per_page')) || defaultPerPage);
+  return {
+    items: items.slice((page - 1) * perPage, page * perPage),
+    pagination: {
+      current_page: page,
+      per_page: perPage,
+      total: items.length,
+      last_page: Math.max(1, Math.ceil(items.length / perPage)),
+    },
+  };
+};
+
+const currentUser = () => db.users.find((user) => String(user.id) === db.currentUserId)!;
+
+const findUser = (id: string) =>
+  db.users.find((user) => String(user.id) === id || user.username === id);
+
+const isFollowing = (followerId: string, creatorId: string) =>
+  db.follows.some((follow) => follow.follower_id === followerId && follow.creator_id === creatorId);
+
+// Tags used in these posts with how many posts use each, most used first
+const tagCounts = (posts: FeedPost[]) => {
+  const counts = new Map<string, number>();
+  posts.forEach((post) => {
+    extractHashtags(post.content).forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  });
+  return Array.from(counts, ([tag, posts_count]) => ({ tag, posts_count })).sort(
+    (a, b) => b.posts_count - a.posts_count || a.tag.localeCompare(b.tag)
+  );
+};
+
+const matchesFeedFilter = (post: FeedPost, filter: string | null) => {
+  switch (filter) {
+    case 'following':
+      return post.user.id === db.currentUserId || isFollowing(db.currentUserId, post.user.id);
+    case 'rewarded':
+      return post.reward_enabled && post.reward_pool > 0;
+    case 'media':
+      return post.media.length > 0;
+    default:
+      return true;
+  }
+};
+
+// Starts a session, or rotates the tokens of `session` on refresh
+const issueTokens = (user: MockAccount, deviceName?: string, session?: MockSession) => {
+  const token = `mock-token-${user.id}-${Date.now()}`;
+  const refreshToken = `mock-refresh-${user.id}-${++db.sequence}`;
+
+  if (session) {
+    session.token = token;
+    session.refresh_token = refreshToken;
+    session.last_active_at = now();
+  } else {
+    db.sessions.push({
+      id: nextId('session'),
+      user_id: String(user.id),
+      token,
+      refresh_token: refreshToken,
+      device_name: deviceName ?? null,
+      // A real backend reads this from the User-Agent; the mock runs on the device itself
+      platform: Platform.OS,
+      ip_address: '127.0.0.1',
+      location: null,
+      last_active_at: now(),
+      created_at: now(),
+    });
+  }
+
+  return { token, refresh_token: refreshToken, user };
+};
+
+const revokeSession = (session: MockSession) => {
+  db.revokedTokens.push(session.token, session.refresh_token);
+  db.sessions = db.sessions.filter((item) => item.id !== session.id);
+};
+
+const SESSION_REVOKED = 'session_revoked';
+// Same as WALLET_NOT_EMPTY in privacy.ts (not imported to keep the mock free of the api module)
+const WALLET_NOT_EMPTY = 'wallet_not_empty';
+
+const isCreator = () => currentUser().role !== 'fan';
+
+const hasTwoFactor = (userId: string) => !!db.twoFactor[userId]?.confirmed;
+
+// Checks an authenticator code or spends a backup code
+const checkTwoFactorCode = (userId: string, body: MockBody) => {
+  const record = db.twoFactor[userId];
+  if (!record) return false;
+  if (body.backup_code === undefined) return String(body.code ?? '') === MOCK_TOTP_CODE;
+  const index = record.backup_codes.indexOf(String(body.backup_code));
+  if (index === -1 || !record.confirmed) return false;
+  record.backup_codes.splice(index, 1);
+  return true;
+};
+
+const createBackupCodes = () =>
+  Array.from({ length: 8 }, () => `${Math.random().toString(36).slice(2, 6)}-${Math.random().toString(36).slice(2, 6)}`);
+
+// Only demands the step-up token when the current user has 2FA on
+const requiresStepUp = (body: MockBody) => {
+  if (!hasTwoFactor(db.currentUserId)) return false;
+  const stepUp = db.stepUpTokens[String(body.step_up_token ?? '')];
+  return !stepUp || stepUp.user_id !== db.currentUserId || Date.parse(stepUp.expires_at) <= Date.now();
+};
+
+const findPost = (request: MockRequest) => db.posts.find((post) => post.id === request.params.postId);
+
+const myBookmarks = () => db.bookmarks.filter((bookmark) => bookmark.user_id === db.currentUserId);
+
+const myCollections = () => db.bookmarkCollections.filter((collection) => collection.user_id === db.currentUserId);
+
+const myDrafts = () => db.drafts.filter((draft) => draft.user_id === db.currentUserId);
+
+const toDraft = ({ user_id: _userId, ...draft }: MockDraft): PostDraft => draft;
+
+const toggleLike = (post: FeedPost, liked: boolean) => {
+  if (post.is_liked !== liked) {
+    post.is_liked = liked;
+    post.likes_count = Math.max(0, post.likes_count + (liked ? 1 : -1));
+  }
+  return ok({ liked: post.is_liked, likes_count: post.likes_count });
+};
+
+const findBalance = (symbol: string): WalletCoinBalance => {
+  let balance = db.wallet.coin_balances.find((coin) => coin.coin_symbol === symbol);
+  if (!balance) {
+    balance = { coin_symbol: symbol, balance: 0, value_usd: 0, fiat_value_usd: 0 };
+    db.wallet.coin_balances.push(balance);
+  }
+  return balance;
+};
+
+const adjustBalance = (symbol: string, delta: number, action: string) => {
+  const coin = findBalance(symbol);
+  const rate = coin.balance > 0 ? coin.value_usd / coin.balance : 0.01;
+  coin.balance += delta;
+  coin.value_usd = coin.fiat_value_usd = Number((coin.balance * rate).toFixed(2));
+
+  if (symbol === db.wallet.primary_coin) {
+    db.wallet.balance = coin.balance;
+    db.wallet.primary_coin_value_usd = coin.value_usd;
+  }
+
+  db.wallet.transactions.unshift({
+    id: nextId('txn'),
+    type: delta >= 0 ? 'credit' : 'debit',
+    amount: Math.abs(delta),
+    currency: symbol,
+    metadata: { action },
+    created_at: now(),
+  });
+};
+
+// Reward pools of scheduled posts leave the balance when scheduled and are tracked as `reserved`
+const reservePool = (symbol: string, amount: number) => {
+  adjustBalance(symbol, -amount, 'reward_pool_reserved');
+  findBalance(symbol).reserved = (findBalance(symbol).reserved ?? 0) + amount;
+};
+
+const releasePool = (symbol: string, amount: number, refund: boolean) => {
+  const coin = findBalance(symbol);
+  coin.reserved = Math.max(0, (coin.reserved ?? 0) - amount);
+  if (refund) {
+    adjustBalance(symbol, amount, 'reward_pool_released');
+  }
+};
+
+const myScheduledPosts = () => db.scheduledPosts.filter((post) => post.user_id === db.currentUserId);
+
+const toScheduledPost = ({ user_id: _userId, ...post }: MockScheduledPost): ScheduledPost => post;
+
+const scheduleTimeError = (value: unknown) => {
+  const time = Date.parse(String(value ?? ''));
+  if (Number.isNaN(time)) return 'Pick a time to publish the post.';
+  if (time < Date.now() + 60 * 1000) return 'Pick a time in the future.';
+  if (time > Date.now() + 30 * 24 * 60 * 60 * 1000) return 'Posts can be scheduled up to 30 days ahead.';
+  return null;
+};
+
+const createPoll = (payload: PollPayload | null | undefined): Poll | null => {
+  if (!payload?.options?.length) return null;
+  return {
+    options: payload.options.map((text) => ({ id: nextId('option'), text, votes_count: 0 })),
+    total_votes: 0,
+    ends_at: new Date(Date.now() + (Number(payload.duration_hours) || 24) * 60 * 60 * 1000).toISOString(),
+    closed: false,
+    voted_option_id: null,
+  };
+};
+
+// Stand-in for the server's Open Graph fetch: a made-up card for any http(s) URL
+const buildLinkPreview = (url: unknown): LinkPreview | null => {
+  if (typeof url !== 'string' || !/^https?:\/\/[^\s/]+\.[^\s]+$/i.test(url)) return null;
+  const host = displayHost(url);
+  const name = host.split('.')[0];
+  return {
+    url,
+    title: `${name.charAt(0).toUpperCase()}${name.slice(1)} – ${url.split(/[?#]/)[0].split('/').filter(Boolean).pop() ?? host}`,
+    description: `A page on ${host}, previewed by the mock backend.`,
+    image_url: `https://picsum.photos/seed/${encodeURIComponent(host)}/1200/630`,
+    site_name: host,
+  };
+};
+
+const pollError = (payload: PollPayload | null | undefined) => {
+  if (!payload) return null;
+  const options = (payload.options ?? []).map((option) => String(option).trim());
+  if (options.length < 2 || options.length > 6) return 'A poll needs 2 to 6 options.';
+  if (options.some((option) => !option)) return 'Poll options cannot be empty.';
+  return null;
+};
+
+// Close polls whose time is up and tell the signed-in author how theirs went
+const closeEndedPolls = () => {
+  db.posts.forEach((post) => {
+    const poll = post.poll;
+    if (!poll || poll.closed || Date.parse(poll.ends_at) > Date.now()) return;
+    poll.closed = true;
+    if (post.user.id !== db.currentUserId) return;
+
+    const winner = [...poll.options].sort((a, b) => b.votes_count - a.votes_count)[0];
+    db.notifications.unshift({
+      id: nextId('notification'),
+      type: 'post.poll_closed',
+      data: {
+        title: 'Poll ended',
+        body:
+          poll.total_votes > 0
+            ? `"${winner.text}" won your poll with ${winner.votes_count} of ${poll.total_votes} votes`
+            : 'Your poll ended with no votes',
+        post_id: post.id,
+      },
+      read_at: null,
+      created_at: now(),
+    });
+  });
+};
+
+// Turn scheduled posts whose time has come into real posts; their reserved pool becomes the post's
+const publishDueScheduledPosts = () => {
+  const due = db.scheduledPosts.filter(
+    (post) => post.status === 'scheduled' && Date.parse(post.scheduled_at) <= Date.now()
+  );
+  due.forEach((scheduled) => {
+    const author = db.users.find((user) => String(user.id) === scheduled.user_id);
+    if (!author) return;
+    if (scheduled.reward_enabled && scheduled.reward_coin_symbol && scheduled.reward_pool > 0) {
+      releasePool(scheduled.reward_coin_symbol, scheduled.reward_pool, false);
+    }
+    db.posts.unshift({
+      id: nextId('post'),
+      content: scheduled.content,
+      visibility: scheduled.visibility,
+      likes_count: 0,
+      comments_count: 0,
+      shares_count: 0,
+      reward_enabled: scheduled.reward_enabled,
+      reward_pool: scheduled.reward_pool,
+      reward_coin_symbol: scheduled.reward_coin_symbol,
+      reward_rule: scheduled.reward_rule,
+      is_liked: false,
+      user: toFeedUser(author),
+      media: scheduled.media,
+      shared_post: null,
+      poll: createPoll(scheduled.poll),
+      link_preview: buildLinkPreview(scheduled.link_preview_url),
+      created_at: scheduled.scheduled_at,
+      updated_at: now(),
+    });
+  });
+  db.scheduledPosts = db.scheduledPosts.filter((post) => !due.includes(post));
+};
+
+const storeMedia = (mimeType: string) => {
+  const id = nextId('media');
+  const media: FeedMedia = {
+    id,
+    type: mimeType.startsWith('video/') ? 'video' : 'image',
+    url: `https://picsum.photos/seed/${id}/800/600`,
+    thumbnail_url: `https://picsum.photos/seed/${id}/200/150`,
+  };
+  db.media.push(media);
+  return media;
+};
+
+const findUpload = (request: MockRequest) => db.uploads.find((upload) => upload.id === request.params.uploadId);
+
+const serializeConversation = (conversation: MockConversation) => {
+  const viewerId = db.currentUserId;
+  const other = findUser(conversation.participant_ids.find((id) => id !== viewerId) ?? viewerId)!;
+  const latest = conversation.messages[conversation.messages.length - 1];
+
+  return {
+    id: conversation.id,
+    other_user: {
+      id: String(other.id),
+      username: other.username ?? other.name,
+      display_name: other.display_name ?? other.name,
+      avatar_url: other.avatar_url ?? null,
+    },
+    latest_message: latest
+      ? {
+          id: latest.id,
+          body: latest.body,
+          sender_id: latest.sender.id,
+          sender: latest.sender,
+          created_at: latest.created_at,
+        }
+      : null,
+    last_message_at: conversation.last_message_at,
+    unread_count: conversation.messages.filter((message) => !message.read && message.sender.id !== viewerId).length,
+    created_at: conversation.created_at,
+  };
+};
+
+const findOrCreateConversation = (userId: string) => {
+  const viewerId = db.currentUserId;
+  let conversation = db.conversations.find(
+    (item) => item.participant_ids.includes(viewerId) && item.participant_ids.includes(userId)
+  );
+  if (!conversation) {
+    conversation = {
+      id: nextId('conversation'),
+      participant_ids: [viewerId, userId],
+      messages: [],
+      last_message_at: null,
+      created_at: now(),
+    };
+    db.conversations.unshift(conversation);
+  }
+  return conversation;
+};
+
+const route = (method: string, path: string, handler: MockHandler): MockRoute => {
+  const keys: string[] = [];
+  const source = path.replace(/:([A-Za-z]+)/g, (_, key: string) => {
+    keys.push(key);
+    return '([^/]+)';
+  });
+  return { method, pattern: new RegExp(`^${source}$`), keys, handler };
+};
+
+const routes: MockRoute[] = [
+  // Auth
+  route('POST', '/v1/auth/login', ({ body }) => {
+    const user = db.users.find((item) => item.email.toLowerCase() === String(body.email ?? '').toLowerCase());
+    if (!user || body.password !== (db.passwords[String(user.id)] ?? MOCK_PASSWORD)) {
+      return fail(422, 'These credentials do not match our records.', 'Invalid credentials');
+    }
+    if (hasTwoFactor(String(user.id))) {
+      const challengeToken = nextId('challenge');
+      db.twoFactorChallenges[challengeToken] = String(user.id);
+      return ok({ two_factor_required: true, challenge_token: challengeToken });
+    }
+    db.currentUserId = String(user.id);
+    return ok(issueTokens(user, stringField(body, 'device_name')));
+  }),
+  route('POST', '/v1/auth/two-factor/challenge', ({ body }) => {
+    const userId = db.twoFactorChallenges[String(body.challenge_token ?? '')];
+    const user = userId ? findUser(userId) : undefined;
+    if (!user) return fail(401, 'This sign-in attempt has expired. Sign in again.', 'Unauthenticated');
+    if (!checkTwoFactorCode(userId, body)) return fail(422, 'The code is invalid.', 'Invalid code');
+    delete db.twoFactorChallenges[String(body.challenge_token)];
+    db.currentUserId = userId;
+    return ok(issueTokens(user, stringField(body, 'device_name')));
+  }),
+  // Social sign-in. There is no provider offline, so login tokens carry the identity
+  // themselves: mock-social-<provider>-<email>
+  route('POST', '/v1/auth/social/exchange', ({ body }) => {
+    const match = String(body.login_token ?? '').match(/^mock-social-(google|facebook)-(.+@.+)$/);
+    if (!match) return fail(401, 'This sign-in attempt has expired. Sign in again.', 'Unauthenticated');
+    const [, provider, email] = match;
+    const identity = `${provider}:${email.toLowerCase()}`;
+
+    let user = db.socialIdentities[identity] ? findUser(db.socialIdentities[identity]) : undefined;
+    if (!user) {
+      const existing = db.users.find((item) => item.email.toLowerCase() === email.toLowerCase());
+      if (existing) {
+        const linkToken = nextId('social-link');
+        db.socialLinks[linkToken] = { user_id: String(existing.id), provider, email: existing.email };
+        return ok({ link_required: true, link_token: linkToken, email: existing.email, provider });
+      }
+
+      const username = `${email.split('@')[0].replace(/[^a-z0-9_]/gi, '')}${db.users.length + 1}`;
+      user = {
+        id: db.users.length + 1,
+        name: username,
+        username,
+        display_name: null,
+        avatar_url: null,
+        email,
+        // The provider has already verified the address
+        email_verified_at: now(),
+        role: 'fan',
+        default_coin_symbol: null,
+        verified_creator: false,
+        created_at: now(),
+        updated_at: now(),
+      };
+      db.users.push(user);
+      db.socialIdentities[identity] = String(user.id);
+    }
+
+    if (hasTwoFactor(String(user.id))) {
+      const challengeToken = nextId('challenge');
+      db.twoFactorChallenges[challengeToken] = String(user.id);
+      return ok({ two_factor_required: true, challenge_token: challengeToken });
+    }
+    db.currentUserId = String(user.id);
+    return ok(issueTokens(user, stringField(body, 'device_name')));
+  }),
+  route('POST', '/v1/auth/social/link', ({ body }) => {
+    const link = db.socialLinks[String(body.link_token ?? '')];
+    const user = link ? findUser(link.user_id) : undefined;
+    if (!link || !user) return fail(401, 'This sign-in attempt has expired. Sign in again.', 'Unauthenticated');
+    if (body.password !== (db.passwords[link.user_id] ?? MOCK_PASSWORD)) {
+      return fail(422, 'The password is incorrect.', 'Invalid credentials');
+    }
+    delete db.socialLinks[String(body.link_token)];
+    db.socialIdentities[`${link.provider}:${link.email.toLowerCase()}`] = link.user_id;
+
+    if (hasTwoFactor(link.user_id)) {
+      const challengeToken = nextId('challenge');
+      db.twoFactorChallenges[challengeToken] = link.user_id;
+      return ok({ two_factor_required: true, challenge_token: challengeToken });
+    }
+    db.currentUserId = link.user_id;
+    return ok(issueTokens(user, stringField(body, 'device_name')));
+  }),
+  route('POST', '/v1/auth/two-factor/setup', () => {
+    if (hasTwoFactor(db.currentUserId)) {
+      return fail(409, 'Two-factor authentication is already enabled.', 'Conflict');
+    }
+    const user = currentUser();
+    const secret = Array.from({ length: 16 }, () => 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'[Math.floor(Math.random() * 32)]).join('');
+    const otpauthUrl = `otpauth://totp/Phanrise:${encodeURIComponent(user.email)}?secret=${secret}&issuer=Phanrise`;
+    db.twoFactor[db.currentUserId] = { secret, confirmed: false, backup_codes: [] };
+    // No QR image offline; the setup screen falls back to the manual key
+    return ok({ secret, otpauth_url: otpauthUrl, qr_code_url: null });
+  }),
+  route('POST', '/v1/auth/two-factor/confirm', ({ body }) => {
+    const record = db.twoFactor[db.currentUserId];
+    if (!record || record.confirmed) return fail(409, 'Start two-factor setup first.', 'Conflict');
+    if (!checkTwoFactorCode(db.currentUserId, body)) return fail(422, 'The code is invalid.', 'Invalid code');
+    record.confirmed = true;
+    record.backup_codes = createBackupCodes();
+    currentUser().two_factor_enabled = true;
+    return ok({ backup_codes: record.backup_codes });
+  }),
+  route('DELETE', '/v1/auth/two-factor', ({ body }) => {
+    if (!hasTwoFactor(db.currentUserId)) return fail(409, 'Two-factor authentication is not enabled.', 'Conflict');
+    if (!checkTwoFactorCode(db.currentUserId, body)) return fail(422, 'The code is invalid.', 'Invalid code');
+    delete db.twoFactor[db.currentUserId];
+    currentUser().two_factor_enabled = false;
+    return ok(null);
+  }),
+  route('POST', '/v1/auth/two-factor/backup-codes', ({ body }) => {
+    const record = db.twoFactor[db.currentUserId];
+    if (!record?.confirmed) return fail(409, 'Two-factor authentication is not enabled.', 'Conflict');
+    if (!checkTwoFactorCode(db.currentUserId, body)) return fail(422, 'The code is invalid.', 'Invalid code');
+    record.backup_codes = createBackupCodes();
+    return ok({ backup_codes: record.backup_codes });
+  }),
+  route('POST', '/v1/auth/two-factor/verify', ({ body }) => {
+    if (!hasTwoFactor(db.currentUserId)) return fail(409, 'Two-factor authentication is not enabled.', 'Conflict');
+    if (!checkTwoFactorCode(db.currentUserId, body)) return fail(422, 'The code is invalid.', 'Invalid code');
+    const token = nextId('step-up');
+    const expiresAt = new Date(Date.now() + STEP_UP_TTL_MS).toISOString();
+    db.stepUpTokens[token] = { user_id: db.currentUserId, expires_at: expiresAt };
+    return ok({ step_up_token: token, expires_at: expiresAt });
+  }),
+  route('POST', '/v1/auth/register', ({ body }) => {
+    const email = String(body.email ?? '');
+    const username = String(body.username ?? '');
+    const displayName = stringField(body, 'display_name');
+    if (db.users.some((user) => user.email === email || user.username === username)) {
+      return fail(422, 'The email or username has already been taken.', 'Validation failed');
+    }
+    const user: MockAccount = {
+      id: db.users.length + 1,
+      name: displayName || username,
+      username,
+      display_name: displayName ?? null,
+      avatar_url: stringField(body, 'avatar_url') ?? null,
+      email,
+      email_verified_at: null,
+      role: 'fan',
+      default_coin_symbol: null,
+      verified_creator: false,
+      created_at: now(),
+      updated_at: now(),
+    };
+    db.users.push(user);
+    db.currentUserId = String(user.id);
+    return ok(issueTokens(user, stringField(body, 'device_name')), undefined, 201);
+  }),
+  route('POST', '/v1/auth/refresh', ({ body }) => {
+    const refreshToken = String(body.refresh_token ?? '');
+    if (db.revokedTokens.includes(refreshToken)) {
+      return fail(401, 'This session was signed out from another device.', 'Unauthenticated', SESSION_REVOKED);
+    }
+    const userId = refreshToken.match(/^mock-refresh-(\d+)(?:-|$)/)?.[1];
+    const user = userId ? findUser(userId) : undefined;
+    if (!user) {
+      return fail(401, 'Refresh token is invalid or expired.', 'Unauthenticated');
+    }
+    db.currentUserId = String(user.id);
+    const session = db.sessions.find((item) => item.refresh_token === refreshToken);
+    return ok(issueTokens(user, undefined, session));
+  }),
+  route('POST', '/v1/auth/logout', ({ token }) => {
+    db.sessions = db.sessions.filter((session) => session.token !== token);
+    return ok(null);
+  }),
+  route('GET', '/v1/auth/sessions', ({ token }) =>
+    ok(
+      db.sessions
+        .filter((session) => session.user_id === db.currentUserId)
+        .map(({ user_id, token: sessionToken, refresh_token, ...session }) => ({
+          ...session,
+          is_current: sessionToken === token,
+        }))
+    )
+  ),
+  route('DELETE', '/v1/auth/sessions/:sessionId', ({ params }) => {
+    const session = db.sessions.find((item) => item.id === params.sessionId && item.user_id === db.currentUserId);
+    if (!session) return fail(404, 'Session not found.', 'Not found');
+    revokeSession(session);
+    return ok(null);
+  }),
+  route('DELETE', '/v1/auth/sessions', () => {
+    db.sessions.filter((session) => session.user_id === db.currentUserId).forEach(revokeSession);
+    return ok(null);
+  }),
+  route('GET', '/v1/auth/me', () => ok(currentUser())),
+  route('POST', '/v1/auth/forgot-password', ({ body }) => {
+    const user = db.users.find((item) => item.email.toLowerCase() === String(body.email ?? '').toLowerCase());
+    if (user) {
+      // "Emailed" tokens can be read from getMockDatabase().passwordResets
+      db.passwordResets[nextId('reset')] = String(user.id);
+    }
+    // Same answer either way so the endpoint can't be used to probe for accounts
+    return ok({ message: 'If that email is registered, a reset link is on its way.' });
+  }),
+  route('POST', '/v1/auth/reset-password', ({ body }) => {
+    const userId = db.passwordResets[String(body.token ?? '')];
+    if (!userId) return fail(422, 'This password reset link is invalid or has expired.', 'Invalid token');
+    if (String(body.password ?? '').length < 8 || body.password !== body.password_confirmation) {
+      return fail(422, 'The password must be at least 8 characters and match its confirmation.', 'Validation failed');
+    }
+    db.passwords[userId] = String(body.password);
+    delete db.passwordResets[String(body.token)];
+    return ok({ message: 'Your password has been reset.' });
+  }),
+  route('POST', '/v1/auth/email/verification-notification', () => {
+    const user = currentUser();
+    if (user.email_verified_at) return ok({ message: 'Your email is already verified.' });
+    db.emailVerifications[nextId('verify')] = String(user.id);
+    return ok({ message: 'A new verification link has been sent.' });
+  }),
+  route('POST', '/v1/auth/email/verify', ({ body }) => {
+    const userId = db.emailVerifications[String(body.token ?? '')];
+    const user = userId ? findUser(userId) : undefined;
+    if (!user) return fail(422, 'This verification link is invalid or has expired.', 'Invalid token');
+    user.email_verified_at = now();
+    delete db.emailVerifications[String(body.token)];
+    return ok(user);
+  }),
+
+  // Account data
+  route('GET', '/v1/account/exports', () => {
+    const exports = db.dataExports[db.currentUserId] ?? [];
+    exports.forEach((item) => {
+      if (item.status === 'processing' && Date.now() - Date.parse(item.requested_at) >= EXPORT_BUILD_MS) {
+        const size = JSON.stringify({ user: currentUser(), posts: db.posts, wallet: db.wallet }).length;
+        item.status = 'ready';
+        item.ready_at = now();
+        item.expires_at = new Date(Date.now() + EXPORT_TTL_MS).toISOString();
+        item.files = [
+          { format: 'json', url: `https://mock.phanrise.test/exports/${item.id}.json.zip`, size_bytes: size },
+          { format: 'csv', url: `https://mock.phanrise.test/exports/${item.id}.csv.zip`, size_bytes: Math.round(size * 0.6) },
+        ];
+      } else if (item.status === 'ready' && item.expires_at && Date.parse(item.expires_at) <= Date.now()) {
+        item.status = 'expired';
+        item.files = [];
+      }
+    });
+    return ok(exports);
+  }),
+  route('POST', '/v1/account/exports', ({ body }) => {
+    const exports = (db.dataExports[db.currentUserId] ??= []);
+    if (exports.some((item) => item.status === 'pending' || item.status === 'processing')) {
+      return fail(409, 'An export is already being prepared.', 'Conflict');
+    }
+    const sections = Array.isArray(body.sections) ? body.sections : [];
+    if (sections.length === 0) return fail(422, 'Choose at least one kind of data to export.', 'Validation failed');
+    const item: DataExport = {
+      id: nextId('export'),
+      status: 'processing',
+      sections,
+      files: [],
+      requested_at: now(),
+      ready_at: null,
+      expires_at: null,
+    };
+    exports.unshift(item);
+    return ok(item, undefined, 202);
+  }),
+  route('POST', '/v1/account/deletion', ({ body }) => {
+    if (db.accountDeletions[db.currentUserId]) return fail(409, 'Account deletion is already scheduled.', 'Conflict');
+    if (body.password !== (db.passwords[db.currentUserId] ?? MOCK_PASSWORD)) {
+      return fail(422, 'The password is incorrect.', 'Invalid credentials');
+    }
+    if (requiresStepUp(body)) {
+      return fail(403, 'Confirm account deletion with your authenticator code.', 'Two-factor required');
+    }
+    if (db.wallet.coin_balances.some((balance) => balance.balance > 0) && !body.forfeit_balances) {
+      return fail(
+        409,
+        'Withdraw your remaining coins or agree to forfeit them before deleting your account.',
+        'Wallet not empty',
+        WALLET_NOT_EMPTY
+      );
+    }
+    const deletion = { requested_at: now(), scheduled_for: new Date(Date.now() + DELETION_GRACE_MS).toISOString() };
+    db.accountDeletions[db.currentUserId] = deletion;
+    currentUser().deletion_scheduled_for = deletion.scheduled_for;
+    return ok(deletion, undefined, 202);
+  }),
+  route('DELETE', '/v1/account/deletion', () => {
+    if (!db.accountDeletions[db.currentUserId]) return fail(404, 'No account deletion is scheduled.', 'Not found');
+    delete db.accountDeletions[db.currentUserId];
+    currentUser().deletion_scheduled_for = null;
+    return ok(null);
+  }),
+
+  // Feed
+  route('GET', '/v1/feed', ({ query }) => {
+    const filter = query.get('filter');
+    const posts = db.posts.filter((post) => matchesFeedFilter(post, filter));
+    if (query.get('sort') === 'popular') {
+      posts.sort((a, b) => b.likes_count + b.comments_count - (a.likes_count + a.comments_count));
+    }
+    const { items, pagination } = paginate(posts, query);
+    return ok(items, { pagination });
+  }),
+  route('GET', '/v1/feed/new-count', ({ query }) => {
+    const after = query.get('after');
+    const filter = query.get('filter');
+    const count = after
+      ? db.posts.filter((post) => post.created_at > after && matchesFeedFilter(post, filter)).length
+      : 0;
+    return ok({ count, has_new_posts: count > 0 });
+  }),
+  route('POST', '/v1/feed/posts', (request) => {
+    // The app's own payload; the mock trusts its shape
+    const body = request.body as Partial<CreatePostPayload>;
+    if (body.reward_enabled && !isCreator()) {
+      return fail(403, 'Only creators can reward engagement.', 'Forbidden');
+    }
+    const invalidPoll = pollError(body.poll);
+    if (invalidPoll) return fail(422, invalidPoll, 'Validation failed');
+    const post: FeedPost = {
+      id: nextId('post'),
+      content: body.content ?? null,
+      visibility: body.visibility ?? 'public',
+      likes_count: 0,
+      comments_count: 0,
+      shares_count: 0,
+      reward_enabled: !!body.reward_enabled,
+      reward_pool: body.reward_pool ?? 0,
+      reward_coin_symbol: body.reward_coin_symbol ?? null,
+      reward_rule: body.reward_rule ?? null,
+      is_liked: false,
+      user: toFeedUser(currentUser()),
+      media: body.media ?? [],
+      shared_post: null,
+      poll: createPoll(body.poll),
+      link_preview: buildLinkPreview(body.link_preview_url),
+      created_at: now(),
+      updated_at: now(),
+    };
+    if (post.reward_enabled && post.reward_coin_symbol && post.reward_pool > 0) {
+      adjustBalance(post.reward_coin_symbol, -post.reward_pool, 'reward_pool');
+    }
+    db.posts.unshift(post);
+    return ok(post, undefined, 201);
+  }),
+  route('GET', '/v1/feed/scheduled', () =>
+    ok(
+      [...myScheduledPosts()]
+        .sort((a, b) => Date.parse(a.scheduled_at) - Date.parse(b.scheduled_at))
+        .map(toScheduledPost)
+    )
+  ),
+  route('POST', '/v1/feed/scheduled', (request) => {
+    const body = request.body as Partial<SchedulePostPayload>;
+    if (body.reward_enabled && !isCreator()) {
+      return fail(403, 'Only creators can reward engagement.', 'Forbidden');
+    }
+    const timeError = scheduleTimeError(body.scheduled_at);
+    if (timeError) return fail(422, timeError, 'Validation failed');
+    const invalidPoll = pollError(body.poll);
+    if (invalidPoll) return fail(422, invalidPoll, 'Validation failed');
+
+    const rewardPool = Number(body.reward_pool) || 0;
+    const coinSymbol = body.reward_coin_symbol ?? null;
+    const reservesPool = !!body.reward_enabled && !!coinSymbol && rewardPool > 0;
+    if (reservesPool && findBalance(coinSymbol).balance < rewardPool) {
+      return fail(422, `Not enough ${coinSymbol} to reserve the reward pool.`, 'Validation failed');
+    }
+
+    const post: MockScheduledPost = {
+      id: nextId('scheduled'),
+      user_id: db.currentUserId,
+      content: body.content ?? null,
+      visibility: body.visibility ?? 'public',
+      media: body.media ?? [],
+      reward_enabled: !!body.reward_enabled,
+      reward_pool: rewardPool,
+      reward_coin_symbol: coinSymbol,
+      reward_rule: body.reward_rule ?? null,
+      poll: body.poll ?? null,
+      link_preview_url: body.link_preview_url ?? null,
+      scheduled_at: new Date(body.scheduled_at!).toISOString(),
+      time_zone: body.time_zone ?? null,
+      status: 'scheduled',
+      failure_reason: null,
+      created_at: now(),
+      updated_at: now(),
+    };
+    if (reservesPool) {
+      reservePool(coinSymbol, rewardPool);
+    }
+    db.scheduledPosts.push(post);
+    return ok(toScheduledPost(post), undefined, 201);
+  }),
+  route('PATCH', '/v1/feed/scheduled/:scheduledPostId', ({ params, body: payload }) => {
+    const body = payload as UpdateScheduledPostPayload;
+    const post = myScheduledPosts().find((item) => item.id === params.scheduledPostId);
+    if (!post) return fail(404, 'Scheduled post not found.', 'Not found');
+    if (body.scheduled_at !== undefined) {
+      const timeError = scheduleTimeError(body.scheduled_at);
+      if (timeError) return fail(422, timeError, 'Validation failed');
+      post.scheduled_at = new Date(body.scheduled_at).toISOString();
+      post.status = 'scheduled';
+      post.failure_reason = null;
+    }
+    if (body.content !== undefined) post.content = body.content;
+    if (body.visibility !== undefined) post.visibility = body.visibility;
+    if (body.time_zone !== undefined) post.time_zone = body.time_zone;
+    post.updated_at = now();
+    return ok(toScheduledPost(post));
+  }),
+  route('DELETE', '/v1/feed/scheduled/:scheduledPostId', ({ params }) => {
+    const post = myScheduledPosts().find((item) => item.id === params.scheduledPostId);
+    if (!post) return fail(404, 'Scheduled post not found.', 'Not found');
+    if (post.status === 'scheduled' && post.reward_enabled && post.reward_coin_symbol && post.reward_pool > 0) {
+      releasePool(post.reward_coin_symbol, post.reward_pool, true);
+    }
+    db.scheduledPosts = db.scheduledPosts.filter((item) => item !== post);
+    return ok(null);
+  }),
+  route('GET', '/v1/feed/posts/:postId', (request) => {
+    const post = findPost(request);
+    return post ? ok(post) : fail(404, 'Post not found.', 'Not found');
+  }),
+  route('PUT', '/v1/feed/posts/:postId', (request) => {
+    const post = findPost(request);
+    if (!post) return fail(404, 'Post not found.', 'Not found');
+    if (request.body.reward_enabled && !isCreator()) {
+      return fail(403, 'Only creators can reward engagement.', 'Forbidden');
+    }
+    Object.assign(post, request.body, { updated_at: now() });
+    return ok(post);
+  }),
+  route('DELETE', '/v1/feed/posts/:postId', (request) => {
+    db.posts = db.posts.filter((post) => post.id !== request.params.postId);
+    return ok(null);
+  }),
+  // Toggles, like the real endpoint: the feed, profiles and tag feeds only ever POST
+  route('POST', '/v1/feed/posts/:postId/like', (request) => {
+    const post = findPost(request);
+    return post ? toggleLike(post, !post.is_liked) : fail(404, 'Post not found.', 'Not found');
+  }),
+  route('DELETE', '/v1/feed/posts/:postId/like', (request) => {
+    const post = findPost(request);
+    return post ? toggleLike(post, false) : fail(404, 'Post not found.', 'Not found');
+  }),
+  route('POST', '/v1/feed/posts/:postId/poll/vote', (request) => {
+    const post = findPost(request);
+    const poll = post?.poll;
+    if (!post || !poll) return fail(404, 'Poll not found.', 'Not found');
+    if (poll.closed || Date.parse(poll.ends_at) <= Date.now()) {
+      return fail(422, 'This poll has ended.', 'Validation failed');
+    }
+    if (poll.voted_option_id) return fail(422, 'You already voted in this poll.', 'Validation failed');
+    const option = poll.options.find((item) => item.id === request.body.option_id);
+    if (!option) return fail(422, 'Pick one of the poll options.', 'Validation failed');
+
+    option.votes_count += 1;
+    poll.total_votes += 1;
+    poll.voted_option_id = option.id;
+
+    const amount = post.reward_rule?.per_type?.vote ?? 0;
+    const rewarded =
+      post.reward_enabled && !!post.reward_coin_symbol && amount > 0 && post.user.id !== db.currentUserId;
+    const paid = rewarded ? Math.min(amount, post.reward_pool) : 0;
+    if (paid > 0 && post.reward_coin_symbol) {
+      post.reward_pool -= paid;
+      adjustBalance(post.reward_coin_symbol, paid, 'vote_reward');
+    }
+    return ok({
+      poll,
+      reward: paid > 0 ? { amount: paid, coin_symbol: post.reward_coin_symbol } : null,
+    });
+  }),
+  route('POST', '/v1/feed/posts/:postId/share', (request) => {
+    const original = findPost(request);
+    if (!original) return fail(404, 'Post not found.', 'Not found');
+    original.shares_count += 1;
+    const share: FeedPost = {
+      ...original,
+      id: nextId('post'),
+      content: stringField(request.body, 'comment') ?? null,
+      likes_count: 0,
+      comments_count: 0,
+      shares_count: 0,
+      reward_enabled: false,
+      reward_pool: 0,
+      is_liked: false,
+      user: toFeedUser(currentUser()),
+      media: [],
+      poll: null,
+      link_preview: null,
+      shared_post: original,
+      created_at: now(),
+      updated_at: now(),
+    };
+    if (request.body.share_to_timeline !== false) {
+      db.posts.unshift(share);
+    }
+    return ok({ id: share.id, shares_count: original.shares_count, shared_post: original }, undefined, 201);
+  }),
+  route('GET', '/v1/feed/posts/:postId/comments', (request) =>
+    ok(db.comments[request.params.postId] ?? [])
+  ),
+  route('POST', '/v1/feed/posts/:postId/comment', (request) => {
+    const post = findPost(request);
+    if (!post) return fail(404, 'Post not found.', 'Not found');
+    const content = String(request.body.content ?? '').trim();
+    if (!content) return fail(422, 'The content field is required.', 'Validation failed');
+
+    const comments = (db.comments[post.id] = db.comments[post.id] ?? []);
+    const comment: Comment = {
+      id: nextId('comment'),
+      content,
+      user: toFeedUser(currentUser()),
+      likes_count: 0,
+      is_liked: false,
+      parent_id: stringField(request.body, 'parent_id') ?? null,
+      replies: [],
+      created_at: now(),
+    };
+    const parent = comment.parent_id ? comments.find((item) => item.id === comment.parent_id) : undefined;
+    if (parent) {
+      parent.replies.push({ ...comment });
+    } else {
+      comments.push(comment);
+    }
+    post.comments_count += 1;
+    return ok(comment, undefined, 201);
+  }),
+  route('POST', '/v1/feed/posts/:postId/comments/:commentId/like', (request) => {
+    const comments = db.comments[request.params.postId] ?? [];
+    const comment = [...comments, ...comments.flatMap((item) => item.replies)].find(
+      (item) => item.id === request.params.commentId
+    );
+    if (!comment) return fail(404, 'Comment not found.', 'Not found');
+    comment.is_liked = !comment.is_liked;
+    comment.likes_count = Math.max(0, comment.likes_count + (comment.is_liked ? 1 : -1));
+    return ok({ liked: comment.is_liked, likes_count: comment.likes_count });
+  }),
+
+  // Links
+  route('GET', '/v1/links/preview', ({ query }) => {
+    const preview = buildLinkPreview(query.get('url'));
+    return preview ? ok(preview) : fail(422, 'That link could not be previewed.', 'Validation failed');
+  }),
+
+  // Bookmarks
+  route('GET', '/v1/bookmarks', ({ query }) => {
+    const collectionId = query.get('collection_id');
+    const posts = myBookmarks()
+      .filter((bookmark) => !collectionId || bookmark.collection_id === collectionId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map((bookmark) => db.posts.find((post) => post.id === bookmark.post_id))
+      .filter((post): post is FeedPost => !!post);
+    const { items, pagination } = paginate(posts, query);
+    return ok(items, { pagination });
+  }),
+  route('POST', '/v1/feed/posts/:postId/bookmark', (request) => {
+    const post = findPost(request);
+    if (!post) return fail(404, 'Post not found.', 'Not found');
+    const collectionId = stringField(request.body, 'collection_id') ?? null;
+    if (collectionId && !myCollections().some((collection) => collection.id === collectionId)) {
+      return fail(404, 'Collection not found.', 'Not found');
+    }
+    const existing = myBookmarks().find((bookmark) => bookmark.post_id === post.id);
+    if (existing) {
+      existing.collection_id = collectionId;
+    } else {
+      db.bookmarks.push({ user_id: db.currentUserId, post_id: post.id, collection_id: collectionId, created_at: now() });
+    }
+    post.is_bookmarked = true;
+    return ok({ bookmarked: true, collection_id: collectionId }, undefined, existing ? 200 : 201);
+  }),
+  route('DELETE', '/v1/feed/posts/:postId/bookmark', (request) => {
+    const post = findPost(request);
+    if (!post) return fail(404, 'Post not found.', 'Not found');
+    db.bookmarks = db.bookmarks.filter(
+      (bookmark) => !(bookmark.user_id === db.currentUserId && bookmark.post_id === post.id)
+    );
+    post.is_bookmarked = false;
+    return ok({ bookmarked: false, collection_id: null });
+  }),
+  route('GET', '/v1/bookmarks/collections', () =>
+    ok(
+      myCollections().map((collection) => ({
+        id: collection.id,
+        name: collection.name,
+        posts_count: myBookmarks().filter((bookmark) => bookmark.collection_id === collection.id).length,
+        created_at: collection.created_at,
+      }))
+    )
+  ),
+  route('POST', '/v1/bookmarks/collections', (request) => {
+    const name = String(request.body.name ?? '').trim();
+    if (!name) return fail(422, 'Give the collection a name.', 'Validation failed');
+    if (myCollections().some((collection) => collection.name.toLowerCase() === name.toLowerCase())) {
+      return fail(422, 'You already have a collection with that name.', 'Validation failed');
+    }
+    const collection = { id: nextId('collection'), user_id: db.currentUserId, name, created_at: now() };
+    db.bookmarkCollections.push(collection);
+    return ok({ id: collection.id, name, posts_count: 0, created_at: collection.created_at }, undefined, 201);
+  }),
+  route('DELETE', '/v1/bookmarks/collections/:collectionId', ({ params }) => {
+    const collection = myCollections().find((item) => item.id === params.collectionId);
+    if (!collection) return fail(404, 'Collection not found.', 'Not found');
+    db.bookmarkCollections = db.bookmarkCollections.filter((item) => item !== collection);
+    myBookmarks()
+      .filter((bookmark) => bookmark.collection_id === collection.id)
+      .forEach((bookmark) => {
+        bookmark.collection_id = null;
+      });
+    return ok(null);
+  }),
+  route('GET', '/v1/drafts', () =>
+    ok([...myDrafts()].sort((a, b) => b.updated_at.localeCompare(a.updated_at)).map(toDraft))
+  ),
+  route('PUT', '/v1/drafts/:draftId', ({ params, body: payload }) => {
+    const body = payload as Partial<PostDraft>;
+    const existing = myDrafts().find((draft) => draft.id === params.draftId);
+    const draft: MockDraft = {
+      id: params.draftId,
+      user_id: db.currentUserId,
+      content: String(body.content ?? ''),
+      visibility: body.visibility ?? 'public',
+      media: body.media ?? [],
+      reward_enabled: !!body.reward_enabled,
+      reward_pool: Number(body.reward_pool) || 0,
+      reward_coin_symbol: String(body.reward_coin_symbol ?? ''),
+      reward_rule: body.reward_rule ?? {},
+      updated_at: body.updated_at ?? now(),
+    };
+    db.drafts = [...db.drafts.filter((item) => item !== existing), draft];
+    return ok(toDraft(draft), undefined, existing ? 200 : 201);
+  }),
+  route('DELETE', '/v1/drafts/:draftId', ({ params }) => {
+    const draft = myDrafts().find((item) => item.id === params.draftId);
+    if (!draft) return fail(404, 'Draft not found.', 'Not found');
+    db.drafts = db.drafts.filter((item) => item !== draft);
+    return ok(null);
+  }),
+  route('GET', '/v1/feed/tags/trending', ({ query }) => {
+    const limit = Number(query.get('limit')) || 10;
+    const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
+    return ok(tagCounts(db.posts.filter((post) => Date.parse(post.created_at) >= weekAgo)).slice(0, limit));
+  }),
+  route('GET', '/v1/feed/tags/search', ({ query }) => {
+    const term = normalizeTag(query.get('q') ?? '');
+    const limit = Number(query.get('limit')) || 10;
+    return ok(tagCounts(db.posts).filter(({ tag }) => tag.startsWith(term)).slice(0, limit));
+  }),
+  route('GET', '/v1/feed/tags/:tag/posts', ({ params, query }) => {
+    const tag = normalizeTag(params.tag);
+    const posts = db.posts.filter((post) => extractHashtags(post.content).includes(tag));
+    if (query.get('sort') === 'popular') {
+      posts.sort((a, b) => b.likes_count + b.comments_count - (a.likes_count + a.comments_count));
+    }
+    const { items, pagination } = paginate(posts, query);
+    return ok(items, { pagination });
+  }),
+  route('GET', '/v1/feed/users/search', ({ query }) => {
+    const term = (query.get('q') ?? '').toLowerCase();
+    const limit = Number(query.get('limit')) || 10;
+    return ok(
+      db.users
+        .filter((user) => `${user.username} ${user.display_name ?? ''}`.toLowerCase().includes(term))
+        .slice(0, limit)
+        .map(toFeedUser)
+    );
+  }),
+
+  // Profiles and follows
+  route('GET', '/v1/profiles/:username', (request) => {
+    const user = findUser(request.params.username);
+    if (!user) return fail(404, 'Profile not found.', 'Not found');
+    const userId = String(user.id);
+    const posts = db.posts.filter(
+      (post) => post.user.id === userId && (request.query.get('filter') !== 'rewards' || post.reward_enabled)
+    );
+    const { items, pagination } = paginate(posts, request.query, 10);
+
+    return ok({
+      ...toFollowEntry(user),
+      default_coin_symbol: user.default_coin_symbol ?? null,
+      profile_bio: user.profile_bio ?? null,
+      profile_location: user.profile_location ?? null,
+      profile_links: [],
+      followers_count: db.follows.filter((follow) => follow.creator_id === userId).length,
+      following_count: db.follows.filter((follow) => follow.follower_id === userId).length,
+      posts_count: db.posts.filter((post) => post.user.id === userId).length,
+      reward_posts_count: db.posts.filter((post) => post.user.id === userId && post.reward_enabled).length,
+      reward_pool_total: posts.reduce((total, post) => total + (post.reward_pool ?? 0), 0),
+      joined_at: user.created_at,
+      is_current_user: userId === db.currentUserId,
+      is_following: isFollowing(db.currentUserId, userId),
+      coins: db.coins
+        .filter((coin) => coin.owner_id === userId)
+        .map(({ symbol, name, description }) => ({ symbol, name, description })),
+      recent_posts: items,
+      posts_pagination: pagination,
+    });
+  }),
+  route('PATCH', '/v1/profile', (request) => {
+    const user = currentUser();
+    Object.assign(user, request.body, { updated_at: now() });
+    return ok(user);
+  }),
+  route('GET', '/v1/users/lookup', (request) => {
+    const user = findUser(request.query.get('username') ?? '');
+    return user ? ok(toFeedUser(user)) : fail(404, 'User not found.', 'Not found');
+  }),
+  route('GET', '/v1/users/:userId/followers', (request) => {
+    const follows = db.follows.filter((follow) => follow.creator_id === request.params.userId);
+    const { items, pagination } = paginate(follows, request.query, 25);
+    return ok(
+      items.map((follow) => toFollowEntry(findUser(follow.follower_id)!, follow.created_at)),
+      { pagination }
+    );
+  }),
+  route('GET', '/v1/users/:userId/following', (request) => {
+    const follows = db.follows.filter((follow) => follow.follower_id === request.params.userId);
+    const { items, pagination } = paginate(follows, request.query, 25);
+    return ok(
+      items.map((follow) => toFollowEntry(findUser(follow.creator_id)!, follow.created_at)),
+      { pagination }
+    );
+  }),
+  route('POST', '/v1/follows', (request) => {
+    const creatorId = String(request.body.creator_id ?? '');
+    if (!findUser(creatorId)) return fail(404, 'User not found.', 'Not found');
+    if (!isFollowing(db.currentUserId, creatorId)) {
+      db.follows.push({ follower_id: db.currentUserId, creator_id: creatorId, created_at: now() });
+    }
+    return ok({ following: true }, undefined, 201);
+  }),
+  route('DELETE', '/v1/users/:userId/follow', (request) => {
+    db.follows = db.follows.filter(
+      (follow) => !(follow.follower_id === db.currentUserId && follow.creator_id === request.params.userId)
+    );
+    return ok({ following: false });
+  }),
+  route('DELETE', '/v1/blocks/:userId', () => ok(null)),
+
+  // Messaging
+  route('GET', '/v1/conversations', (request) => {
+    const conversations = db.conversations
+      .filter((conversation) => conversation.participant_ids.includes(db.currentUserId))
+      .map((conversation) => serializeConversation(conversation));
+    const { items, pagination } = paginate(conversations, request.query);
+    return ok(items, { pagination });
+  }),
+  route('POST', '/v1/conversations/find-or-create', (request) => {
+    const userId = String(request.body.user_id ?? '');
+    if (!findUser(userId)) return fail(404, 'User not found.', 'Not found');
+    return ok(serializeConversation(findOrCreateConversation(userId)));
+  }),
+  route('GET', '/v1/conversations/:conversationId', (request) => {
+    const conversation = db.conversations.find((item) => item.id === request.params.conversationId);
+    if (!conversation) return fail(404, 'Conversation not found.', 'Not found');
+    const { items, pagination } = paginate([...conversation.messages].reverse(), request.query, 50);
+    return ok({
+      ...serializeConversation(conversation),
+      messages: items.reverse(),
+      meta: { pagination },
+    });
+  }),
+  route('POST', '/v1/messages', (request) => {
+    const recipientId = String(request.body.user_id ?? '');
+    if (!findUser(recipientId)) return fail(404, 'User not found.', 'Not found');
+    const sender = currentUser();
+    const conversation = findOrCreateConversation(recipientId);
+    const message = {
+      id: nextId('message'),
+      body: String(request.body.body ?? ''),
+      sender: {
+        id: String(sender.id),
+        username: sender.username ?? sender.name,
+        display_name: sender.display_name ?? sender.name,
+        avatar_url: sender.avatar_url ?? null,
+      },
+      read: false,
+      read_at: null,
+      created_at: now(),
+      attachments: ((request.body.attachment_ids ?? []) as string[])
+        .map((id) => db.media.find((media) => media.id === id))
+        .filter((media): media is FeedMedia => !!media),
+    };
+    conversation.messages.push(message);
+    conversation.last_message_at = message.created_at;
+    return ok(message, undefined, 201);
+  }),
+
+  // Uploads (the multipart body isn't inspected; every upload stores a placeholder image)
+  route('POST', '/v1/upload', () => ok(storeMedia('image/jpeg'), undefined, 201)),
+  route('POST', '/v1/uploads', ({ body }) => {
+    const upload = {
+      id: nextId('upload'),
+      filename: String(body.filename ?? 'file'),
+      mime_type: String(body.mime_type ?? 'application/octet-stream'),
+      size: Number(body.size ?? 0),
+      chunk_size: Number(body.chunk_size ?? 5 * 1024 * 1024),
+      received_chunks: [],
+    };
+    db.uploads.push(upload);
+    return ok({ upload_id: upload.id, chunk_size: upload.chunk_size }, undefined, 201);
+  }),
+  route('GET', '/v1/uploads/:uploadId', (request) => {
+    const upload = findUpload(request);
+    return upload ? ok({ received_chunks: upload.received_chunks }) : fail(404, 'Upload not found.', 'Not found');
+  }),
+  route('PUT', '/v1/uploads/:uploadId/chunks/:index', (request) => {
+    const upload = findUpload(request);
+    if (!upload) return fail(404, 'Upload not found.', 'Not found');
+    const index = Number(request.params.index);
+    if (!upload.received_chunks.includes(index)) upload.received_chunks.push(index);
+    return ok({ received_chunks: upload.received_chunks });
+  }),
+  route('POST', '/v1/uploads/:uploadId/complete', (request) => {
+    const upload = findUpload(request);
+    if (!upload) return fail(404, 'Upload not found.', 'Not found');
+    if (upload.received_chunks.length < Math.ceil(upload.size / upload.chunk_size)) {
+      return fail(422, 'Some chunks are missing.', 'Incomplete upload');
+    }
+    db.uploads = db.uploads.filter((item) => item.id !== upload.id);
+    return ok(storeMedia(upload.mime_type), undefined, 201);
+  }),
+
+  // Notifications
+  route('GET', '/v1/notifications', ({ query }) => {
+    const notifications =
+      query.get('unread_only') === 'true'
+        ? db.notifications.filter((notification) => !notification.read_at)
+        : db.notifications;
+    const { items, pagination } = paginate(notifications, query);
+    return ok(items, {
+      ...pagination,
+      unread_count: db.notifications.filter((notification) => !notification.read_at).length,
+    });
+  }),
+  route('POST', '/v1/notifications/read-all', () => {
+    db.notifications.forEach((notification) => {
+      notification.read_at = notification.read_at ?? now();
+    });
+    return ok(null);
+  }),
+  route('POST', '/v1/notifications/:notificationId/read', (request) => {
+    const notification = db.notifications.find((item) => item.id === request.params.notificationId);
+    if (!notification) return fail(404, 'Notification not found.', 'Not found');
+    notification.read_at = notification.read_at ?? now();
+    return ok(notification);
+  }),
+  route('GET', '/v1/engagements/recent', () => ok([])),
+  route('GET', '/v1/engagements/my', () => ok([])),
+
+  // Realtime (there is no socket server offline; this only signs private channel subscriptions)
+  route('POST', '/v1/broadcasting/auth', ({ body }) => {
+    if (body.channel_name !== `private-users.${db.currentUserId}`) {
+      return fail(403, 'This channel belongs to another account.', 'Forbidden');
+    }
+    return ok({ auth: `mock-key:mock-signature-${String(body.socket_id ?? '')}` });
+  }),
+
+  // Wallet and coins
+  route('GET', '/v1/wallets/me', () => ok(db.wallet)),
+  route('POST', '/v1/wallets/transfers', (request) => {
+    const amount = Number(request.body.amount);
+    const symbol = String(request.body.coin_symbol ?? '');
+    if (!findUser(String(request.body.recipient_username ?? ''))) {
+      return fail(404, 'Recipient not found.', 'Not found');
+    }
+    if (!(amount > 0) || findBalance(symbol).balance < amount) {
+      return fail(422, 'Insufficient balance for this transfer.', 'Validation failed');
+    }
+    if (amount >= STEP_UP_TRANSFER_AMOUNT && requiresStepUp(request.body)) {
+      return fail(403, 'Confirm this transfer with your authenticator code.', 'Two-factor required');
+    }
+    adjustBalance(symbol, -amount, 'transfer');
+    return ok(db.wallet.transactions[0], undefined, 201);
+  }),
+  route('POST', '/v1/wallets/topups', () => ok({ checkout_url: 'mobile://payment/callback?status=success' })),
+  route('GET', '/v1/coins', (request) => ok({
+    coins: db.coins.filter((coin) => coin.owner_id === db.currentUserId),
+  })),
+  route('POST', '/v1/coins/create', (request) => {
+    if (!isCreator()) return fail(403, 'Only creators can launch a coin.', 'Forbidden');
+    const symbol = String(request.body.symbol ?? '').toUpperCase();
+    if (!symbol) return fail(422, 'The symbol field is required.', 'Validation failed');
+    if (db.coins.some((coin) => coin.symbol === symbol)) {
+      return fail(422, 'The symbol has already been taken.', 'Validation failed');
+    }
+    const coin = {
+      id: nextId('coin'),
+      owner_id: db.currentUserId,
+      symbol,
+      name: stringField(request.body, 'name') ?? null,
+      description: stringField(request.body, 'description') ?? null,
+      balance: 0,
+      value_usd: 0.01,
+      created_at: now(),
+    };
+    db.coins.push(coin);
+    currentUser().default_coin_symbol = currentUser().default_coin_symbol ?? symbol;
+    return ok(coin, undefined, 201);
+  }),
+  route('GET', '/v1/reward-rules', () => ok({ rules: db.rewardRules })),
+  route('PUT', '/v1/reward-rules', ({ body }) => {
+    db.rewardRules = { ...db.rewardRules, ...body };
+    return ok({ rules: db.rewardRules });
+  }),
+
+  // Withdrawals
+  route('GET', '/v1/withdrawals', () => ok(db.withdrawals)),
+  route('GET', '/v1/withdrawals/config', () =>
+    ok({
+      minUsd: 5,
+      minNgn: 7500,
+      maxSingleUsd: 1000,
+      maxDailyUsd: 2000,
+      exchangeRate: { usd_to_ngn: 1500 },
+      fees: { percentage: 1, fixed_ngn: 0 },
+    })
+  ),
+  route('GET', '/v1/withdrawals/banks', () =>
+    ok({
+      banks: [
+        {
+          id: 1,
+          name: 'Mock Bank',
+          code: '999',
+          longcode: '999',
+          gateway: 'mock',
+          pay_with_bank: false,
+          active: true,
+          country: 'Nigeria',
+          currency: 'NGN',
+          type: 'nuban',
+        },
+      ],
+    })
+  ),
+  route('POST', '/v1/withdrawals/calculate', ({ body }) => {
+    const coinAmount = Number(body.coin_amount) || 0;
+    const coin = findBalance(String(body.coin_symbol ?? ''));
+    const usdAmount = coin.balance > 0 ? (coinAmount * coin.value_usd) / coin.balance : 0;
+    const ngnAmount = usdAmount * 1500;
+    const feeAmount = ngnAmount * 0.01;
+    const errors = [
+      ...(coinAmount > coin.balance ? ['Insufficient balance'] : []),
+      ...(usdAmount < 5 ? ['Minimum withdrawal is $5'] : []),
+    ];
+    return ok({
+      coin_symbol: coin.coin_symbol,
+      coin_amount: coinAmount,
+      usd_amount: Number(usdAmount.toFixed(2)),
+      ngn_amount: Number(ngnAmount.toFixed(2)),
+      fee_amount: Number(feeAmount.toFixed(2)),
+      final_amount: Number((ngnAmount - feeAmount).toFixed(2)),
+      exchange_rate: 1500,
+      is_valid: errors.length === 0,
+      errors,
+    });
+  }),
+  route('POST', '/v1/withdrawals/verify-account', ({ body }) =>
+    /^\d{10}$/.test(String(body.account_number ?? ''))
+      ? ok({ account_name: 'DEMO CREATOR' })
+      : fail(422, 'Could not resolve account name.', 'Validation failed')
+  ),
+  route('POST', '/v1/withdrawals', (request) => {
+    if (!currentUser().email_verified_at) {
+      return fail(403, 'Verify your email address before withdrawing.', 'Email not verified');
+    }
+    if (requiresStepUp(request.body)) {
+      return fail(403, 'Confirm this withdrawal with your authenticator code.', 'Two-factor required');
+    }
+    const coinAmount = Number(request.body.coin_amount) || 0;
+    const symbol = String(request.body.coin_symbol ?? '');
+    if (!(coinAmount > 0) || findBalance(symbol).balance < coinAmount) {
+      return fail(422, 'Insufficient balance for this withdrawal.', 'Validation failed');
+    }
+    adjustBalance(symbol, -coinAmount, 'withdrawal');
+    const withdrawal = {
+      id: nextId('withdrawal'),
+      coin_symbol: symbol,
+      coin_amount: coinAmount,
+      usd_amount: 0,
+      ngn_amount: 0,
+      fee_amount: 0,
+      final_amount: 0,
+      bank_name: 'Mock Bank',
+      account_number: String(request.body.account_number ?? ''),
+      account_name: String(request.body.account_name ?? ''),
+      status: 'pending',
+      created_at: now(),
+    };
+    db.withdrawals.unshift(withdrawal);
+    return ok(withdrawal, undefined, 201);
+  }),
+];
+
+// Endpoints that work without a bearer token
+const PUBLIC_PATHS = [
+  '/v1/auth/login',
+  '/v1/auth/two-factor/challenge',
+  '/v1/auth/social/exchange',
+  '/v1/auth/social/link',
+  '/v1/auth/register',
+  '/v1/auth/refresh',
+  '/v1/auth/forgot-password',
+  '/v1/auth/reset-password',
+  '/v1/auth/email/verify',
+];
+
+const isRecord = (value: unknown): value is MockBody =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Reads a string field; anything else counts as missing
+const stringField = (body: MockBody, key: string) => (typeof body[key] === 'string' ? body[key] : undefined);
+
+const parseBody = (data: unknown): MockBody => {
+  if (isRecord(data)) return data;
+  if (typeof data !== 'string') return {};
+  try {
+    const parsed: unknown = JSON.parse(data);
+    return isRecord(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Resolve a request against the mock routes. Exposed for tests that want to
+ * assert on the envelope without going through axios.
+ */
+export function handleMockRequest(method: string, url: string, body?: unknown, token: string | null = null): MockResult {
+  const [rawPath, rawQuery = ''] = url.split('?');
+  const path = rawPath.replace(/^https?:\/\/[^/]+/, '').replace(/^\/api(?=\/)/, '');
+  const upperMethod = method.toUpperCase();
+
+  for (const candidate of routes) {
+    if (candidate.method !== upperMethod) continue;
+    const match = candidate.pattern.exec(path);
+    if (!match) continue;
+
+    if (!PUBLIC_PATHS.includes(path)) {
+      // Tokens look like `mock-token-<userId>-<issuedAt>`, so a stored session survives an app reload
+      const userId = token?.match(/^mock-token-(\d+)-/)?.[1];
+      if (token && db.revokedTokens.includes(token)) {
+        return fail(401, 'This session was signed out from another device.', 'Unauthenticated', SESSION_REVOKED);
+      }
+      if (!userId || !findUser(userId)) {
+        return fail(401, 'Unauthenticated.', 'Unauthenticated');
+      }
+      db.currentUserId = userId;
+      const session = db.sessions.find((item) => item.token === token);
+      if (session) {
+        session.last_active_at = now();
+      }
+      publishDueScheduledPosts();
+      closeEndedPolls();
+    }
+
+    const params = Object.fromEntries(candidate.keys.map((key, index) => [key, decodeURIComponent(match[index + 1])]));
+    return candidate.handler({
+      method: upperMethod,
+      path,
+      params,
+      query: new URLSearchParams(rawQuery),
+      body: parseBody(body),
+      token,
+    });
+  }
+
+  return fail(404, `No mock route for ${upperMethod} ${path}`, 'Not found');
+}
+
+export const mockAdapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => {
+  const authorization = String(config.headers?.Authorization ?? '');
+  const token = authorization.replace(/^Bearer\s+/i, '') || null;
+  const result = handleMockRequest(config.method ?? 'get', config.url ?? '/', config.data, token);
+
+  if (latency > 0) {
+    await new Promise((resolve) => setTimeout(resolve, latency));
+  }
+
+  // Keep the stored data isolated from whatever the caller does with the response
+  const data = result.body ? JSON.parse(JSON.stringify(result.body)) : result.body;
+  const response: AxiosResponse = {
+    data,
+    status: result.status,
+    statusText: String(result.status),
+    headers: { 'content-type': 'application/json' },
+    config,
+    request: {},
+  };
+
+  // Custom adapters have to apply validateStatus themselves (axios' settle() is internal)
+  if (config.validateStatus && !config.validateStatus(response.status)) {
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      AxiosError.ERR_BAD_RESPONSE,
+      config,
+      response.request,
+      response
+    );
+  }
+
+  return response;
+};
+
+/**
+ * Restore the fixture data, e.g. between tests. Pass `latencyMs: 0` for instant responses.
+ */
+export function resetMockBackend(options: { latencyMs?: number } = {}) {
+  db = createMockDatabase();
+  latency = options.latencyMs ?? MOCK_LATENCY_MS;
+}
+
+export function getMockDatabase(): MockDatabase {
+  return db;
+}
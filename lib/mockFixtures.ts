@@ -0,0 +1,440 @@
+import type { User } from './auth';
+import type {
+  Comment,
+  FeedMedia,
+  FeedPost,
+  FeedUser,
+  FollowEntry,
+  PostDraft,
+  WalletData,
+  Withdrawal,
+} from './api';
+import type { AccountDeletion, DataExport } from './privacy';
+import type { ScheduledPost } from './scheduledPosts';
+import type { Message } from '../hooks/useMessages';
+import type { Notification } from '../hooks/useNotifications';
+
+/*
+ * Seed data for the in-process mock backend (see mockBackend.ts).
+ * `createMockDatabase()` returns a fresh, mutable copy so every reset starts clean.
+ */
+
+export const MOCK_PASSWORD = 'password';
+// Accepted as the current authenticator code for every account with 2FA
+export const MOCK_TOTP_CODE = '123456';
+
+export type MockAccount = User & {
+  profile_bio?: string | null;
+  profile_location?: string | null;
+};
+
+export type MockCoin = {
+  id: string;
+  owner_id: string;
+  symbol: string;
+  name: string | null;
+  description: string | null;
+  balance: number;
+  value_usd: number;
+  created_at: string;
+};
+
+export type MockConversation = {
+  id: string;
+  participant_ids: string[];
+  messages: Message[];
+  last_message_at: string | null;
+  created_at: string;
+};
+
+export type MockTwoFactor = {
+  secret: string;
+  // False between setup and confirm
+  confirmed: boolean;
+  backup_codes: string[];
+};
+
+export type MockSession = {
+  id: string;
+  user_id: string;
+  token: string;
+  refresh_token: string;
+  device_name: string | null;
+  platform: string | null;
+  ip_address: string | null;
+  location: string | null;
+  last_active_at: string;
+  created_at: string;
+};
+
+export type MockUploadSession = {
+  id: string;
+  filename: string;
+  mime_type: string;
+  size: number;
+  chunk_size: number;
+  received_chunks: number[];
+};
+
+export type MockBookmark = {
+  user_id: string;
+  post_id: string;
+  collection_id: string | null;
+  created_at: string;
+};
+
+export type MockBookmarkCollection = {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+};
+
+export type MockDraft = PostDraft & {
+  user_id: string;
+};
+
+export type MockScheduledPost = ScheduledPost & {
+  user_id: string;
+};
+
+export type MockDatabase = {
+  currentUserId: string;
+  users: MockAccount[];
+  follows: Array<{ follower_id: string; creator_id: string; created_at: string }>;
+  posts: FeedPost[];
+  comments: Record<string, Comment[]>;
+  wallet: WalletData;
+  coins: MockCoin[];
+  rewardRules: {
+    base_amount: number;
+    per_type: Record<string, number>;
+  };
+  withdrawals: Withdrawal[];
+  conversations: MockConversation[];
+  notifications: Notification[];
+  // Files stored through /v1/upload or a completed chunked upload
+  media: FeedMedia[];
+  uploads: MockUploadSession[];
+  // Passwords changed through a reset (everyone else uses MOCK_PASSWORD), keyed by user id
+  passwords: Record<string, string>;
+  // Emailed tokens, mapped to the user id they were issued for
+  passwordResets: Record<string, string>;
+  emailVerifications: Record<string, string>;
+  // Authenticator enrollment, keyed by user id
+  twoFactor: Record<string, MockTwoFactor>;
+  // Pending login challenges, mapped to the user id that passed the password check
+  twoFactorChallenges: Record<string, string>;
+  stepUpTokens: Record<string, { user_id: string; expires_at: string }>;
+  // One per sign-in; revoking a session adds both of its tokens to `revokedTokens`
+  sessions: MockSession[];
+  revokedTokens: string[];
+  // Social identities ("google:ada@example.com") mapped to the user id they sign in as
+  socialIdentities: Record<string, string>;
+  // Pending links to an existing account, waiting for its password
+  socialLinks: Record<string, { user_id: string; provider: string; email: string }>;
+  // Data export requests and scheduled deletions, keyed by user id
+  dataExports: Record<string, DataExport[]>;
+  accountDeletions: Record<string, AccountDeletion>;
+  bookmarks: MockBookmark[];
+  bookmarkCollections: MockBookmarkCollection[];
+  drafts: MockDraft[];
+  // Published (and removed from here) by the first request after their time
+  scheduledPosts: MockScheduledPost[];
+  sequence: number;
+};
+
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+
+const account = (id: number, username: string, displayName: string, role: User['role']): MockAccount => ({
+  id,
+  name: displayName,
+  username,
+  display_name: displayName,
+  avatar_url: null,
+  email: `${username}@example.com`,
+  email_verified_at: hoursAgo(24 * 30),
+  role,
+  default_coin_symbol: role === 'creator' ? username.toUpperCase().slice(0, 4) : null,
+  verified_creator: role === 'creator',
+  created_at: hoursAgo(24 * 90),
+  updated_at: hoursAgo(24),
+});
+
+export const toFeedUser = (user: MockAccount): FeedUser => ({
+  id: String(user.id),
+  username: user.username ?? user.name,
+  display_name: user.display_name ?? null,
+  avatar_url: user.avatar_url ?? null,
+  verified_creator: user.verified_creator ?? false,
+});
+
+export const toFollowEntry = (user: MockAccount, followedAt?: string): FollowEntry => ({
+  ...toFeedUser(user),
+  verified_creator: user.verified_creator ?? false,
+  default_coin_symbol: user.default_coin_symbol ?? null,
+  followed_at: followedAt ?? null,
+});
+
+export function createMockDatabase(): MockDatabase {
+  const me = account(1, 'demo', 'Demo Creator', 'creator');
+  // Has 2FA on, to exercise the login challenge and step-up prompts
+  const ada = { ...account(2, 'ada', 'Ada Lovelace', 'creator'), two_factor_enabled: true };
+  // Unverified, to exercise the email verification flow
+  const grace = { ...account(3, 'grace', 'Grace Hopper', 'fan'), email_verified_at: null };
+  const linus = account(4, 'linus', 'Linus T', 'fan');
+  const users = [me, ada, grace, linus];
+
+  const post = (
+    id: string,
+    author: MockAccount,
+    content: string,
+    ageHours: number,
+    extra: Partial<FeedPost> = {}
+  ): FeedPost => ({
+    id,
+    content,
+    visibility: 'public',
+    likes_count: 0,
+    comments_count: 0,
+    shares_count: 0,
+    reward_enabled: false,
+    reward_pool: 0,
+    reward_coin_symbol: null,
+    reward_rule: null,
+    is_liked: false,
+    user: toFeedUser(author),
+    media: [],
+    shared_post: null,
+    created_at: hoursAgo(ageHours),
+    updated_at: hoursAgo(ageHours),
+    ...extra,
+  });
+
+  const posts = [
+    post('post-1', ada, 'Launching $ADA today! Like and comment to earn a share of the pool 🚀 #launch #creators', 1, {
+      likes_count: 12,
+      comments_count: 2,
+      reward_enabled: true,
+      reward_pool: 500,
+      reward_coin_symbol: 'ADA',
+      reward_rule: { like: 1, comment: 2, share: 3, per_user_cap: 10 },
+    }),
+    post('post-2', me, 'Hello from the mock backend 👋 @ada', 3, { likes_count: 3, is_liked: true }),
+    post('post-3', grace, 'Debugging is twice as hard as writing the code in the first place. #debugging', 8, {
+      likes_count: 41,
+      shares_count: 4,
+    }),
+    post('post-4', ada, 'Behind the scenes of my next drop #creators #bts', 26, {
+      media: [
+        {
+          id: 'media-1',
+          type: 'image',
+          url: 'https://picsum.photos/seed/phanrise/800/600',
+          thumbnail_url: null,
+        },
+      ],
+    }),
+  ];
+
+  const comments: Record<string, Comment[]> = {
+    'post-1': [
+      {
+        id: 'comment-1',
+        content: 'Congrats on the launch!',
+        user: toFeedUser(grace),
+        likes_count: 2,
+        is_liked: false,
+        parent_id: null,
+        replies: [
+          {
+            id: 'comment-2',
+            content: 'Thank you 🙏',
+            user: toFeedUser(ada),
+            likes_count: 0,
+            is_liked: false,
+            created_at: hoursAgo(0.5),
+          },
+        ],
+        created_at: hoursAgo(0.8),
+      },
+    ],
+  };
+
+  const wallet: WalletData = {
+    id: 'wallet-1',
+    primary_coin: 'FCN',
+    balance: 1250,
+    currency: 'FCN',
+    conversion_rate: 0.01,
+    primary_coin_value_usd: 12.5,
+    coin_balances: [
+      { coin_symbol: 'FCN', balance: 1250, value_usd: 12.5, fiat_value_usd: 12.5 },
+      { coin_symbol: 'DEMO', balance: 5000, value_usd: 50, fiat_value_usd: 50 },
+      { coin_symbol: 'ADA', balance: 42, value_usd: 4.2, fiat_value_usd: 4.2 },
+    ],
+    transactions: [
+      {
+        id: 'txn-1',
+        type: 'credit',
+        amount: 42,
+        currency: 'ADA',
+        metadata: { action: 'like', distributed_by_creator_name: 'Ada Lovelace' },
+        created_at: hoursAgo(2),
+      },
+      {
+        id: 'txn-2',
+        type: 'debit',
+        amount: 100,
+        currency: 'FCN',
+        metadata: { action: 'transfer' },
+        created_at: hoursAgo(30),
+      },
+    ],
+  };
+
+  const conversationMessages: Message[] = [
+    {
+      id: 'message-1',
+      body: 'Hey! Loved your last post.',
+      sender: { id: '2', username: 'ada', display_name: 'Ada Lovelace', avatar_url: null },
+      read: true,
+      read_at: hoursAgo(4),
+      created_at: hoursAgo(5),
+    },
+    {
+      id: 'message-2',
+      body: 'Thanks Ada!',
+      sender: { id: '1', username: 'demo', display_name: 'Demo Creator', avatar_url: null },
+      read: false,
+      read_at: null,
+      created_at: hoursAgo(4),
+    },
+  ];
+
+  return {
+    currentUserId: '1',
+    users,
+    follows: [
+      { follower_id: '1', creator_id: '2', created_at: hoursAgo(24 * 10) },
+      { follower_id: '3', creator_id: '1', created_at: hoursAgo(24 * 5) },
+      { follower_id: '4', creator_id: '1', created_at: hoursAgo(24 * 2) },
+    ],
+    posts,
+    comments,
+    wallet,
+    coins: [
+      {
+        id: 'coin-1',
+        owner_id: '1',
+        symbol: 'DEMO',
+        name: 'Demo Coin',
+        description: 'Rewards for the demo community',
+        balance: 5000,
+        value_usd: 0.01,
+        created_at: hoursAgo(24 * 60),
+      },
+    ],
+    rewardRules: {
+      base_amount: 1,
+      per_type: { like: 1, comment: 2, share: 3, watch: 1 },
+    },
+    withdrawals: [
+      {
+        id: 'withdrawal-1',
+        coin_symbol: 'DEMO',
+        coin_amount: 1000,
+        usd_amount: 10,
+        ngn_amount: 15000,
+        fee_amount: 150,
+        final_amount: 14850,
+        bank_name: 'Mock Bank',
+        account_number: '0123456789',
+        account_name: 'DEMO CREATOR',
+        status: 'completed',
+        created_at: hoursAgo(24 * 7),
+      },
+    ],
+    conversations: [
+      {
+        id: 'conversation-1',
+        participant_ids: ['1', '2'],
+        last_message_at: hoursAgo(4),
+        created_at: hoursAgo(5),
+        messages: conversationMessages,
+      },
+    ],
+    notifications: [
+      {
+        id: 'notification-1',
+        type: 'mention',
+        data: {
+          title: 'New mention',
+          body: 'Ada mentioned you in a post',
+          mentioner_id: '2',
+          mentioner_username: 'ada',
+          mentioner_display_name: 'Ada Lovelace',
+          post_id: 'post-1',
+        },
+        read_at: null,
+        created_at: hoursAgo(1),
+      },
+      {
+        id: 'notification-2',
+        type: 'follow',
+        data: { title: 'New follower', body: 'Linus T started following you' },
+        read_at: hoursAgo(20),
+        created_at: hoursAgo(48),
+      },
+    ],
+    media: [],
+    uploads: [],
+    passwords: {},
+    passwordResets: {},
+    emailVerifications: {},
+    twoFactor: {
+      '2': { secret: 'JBSWY3DPEHPK3PXP', confirmed: true, backup_codes: ['ada1-back', 'ada2-back'] },
+    },
+    twoFactorChallenges: {},
+    stepUpTokens: {},
+    // The demo account is also signed in elsewhere, so there is something to revoke
+    sessions: [
+      {
+        id: 'session-1',
+        user_id: '1',
+        token: 'mock-token-1-ipad',
+        refresh_token: 'mock-refresh-1-ipad',
+        device_name: "Demo's iPad",
+        platform: 'ios',
+        ip_address: '102.89.23.14',
+        location: 'Lagos, NG',
+        last_active_at: hoursAgo(3),
+        created_at: hoursAgo(24 * 12),
+      },
+      {
+        id: 'session-2',
+        user_id: '1',
+        token: 'mock-token-1-web',
+        refresh_token: 'mock-refresh-1-web',
+        device_name: 'Chrome on macOS',
+        platform: 'web',
+        ip_address: '41.58.112.7',
+        location: 'Abuja, NG',
+        last_active_at: hoursAgo(24 * 6),
+        created_at: hoursAgo(24 * 40),
+      },
+    ],
+    revokedTokens: [],
+    socialIdentities: {
+      'google:demo@example.com': '1',
+    },
+    socialLinks: {},
+    dataExports: {},
+    accountDeletions: {},
+    bookmarks: [],
+    bookmarkCollections: [],
+    drafts: [],
+    scheduledPosts: [],
+    sequence: 100,
+  };
+}
@@ -0,0 +1,328 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import type { FeedFilter, FeedMedia, FeedPost, FeedSort, ProfileData } from './api';
+import { accountStore } from './accounts';
+import type { User } from './auth';
+import { logger } from './logger';
+
+const log = logger.scope('offline');
+
+/*
+ * What the active account last saw (the first feed pages, opened posts and
+ * visited profiles) and its bookmarks, kept on the device so those screens have something to show
+ * on launch or without a connection. Media is stored as downloaded thumbnails;
+ * full-size images and videos are not available offline.
+ */
+
+const CACHE_KEY_PREFIX = 'phanrise_offline_';
+const THUMBNAIL_ROOT = FileSystem.cacheDirectory ? `${FileSystem.cacheDirectory}offline-thumbnails/` : null;
+// The first few pages of each feed sort (20 posts per page)
+const MAX_FEED_POSTS = 60;
+const MAX_POSTS = 50;
+const MAX_PROFILES = 20;
+const MAX_BOOKMARKS = 100;
+// Bookmarks key for every saved post, whatever its collection
+const ALL_BOOKMARKS = 'all';
+const PERSIST_DELAY_MS = 1000;
+
+type OfflineSnapshot = {
+  // The signed-in user, so an offline launch can open the app instead of the login screen
+  user: User | null;
+  // By `feedKey()`
+  feed: Record<string, FeedPost[]>;
+  // Most recently viewed first
+  posts: FeedPost[];
+  profiles: ProfileData[];
+  // By collection id, plus ALL_BOOKMARKS
+  bookmarks: Record<string, FeedPost[]>;
+  // Remote media URL -> downloaded thumbnail file
+  thumbnails: Record<string, string>;
+};
+
+const feedKey = (sort: FeedSort, filter: FeedFilter) => (filter === 'all' ? sort : `${filter}:${sort}`);
+
+const emptySnapshot = (): OfflineSnapshot => ({
+  user: null,
+  feed: {},
+  posts: [],
+  profiles: [],
+  bookmarks: {},
+  thumbnails: {},
+});
+
+// Thumbnail first: it's what the feed grid shows and it's much smaller
+const thumbnailSource = (media: FeedMedia) =>
+  media.thumbnail_url || (media.type === 'image' ? media.url : null);
+
+const mediaOf = (post: FeedPost): FeedMedia[] => [...post.media, ...(post.shared_post?.media ?? [])];
+
+// Stable file name for a URL, keeping its extension so the image loader knows the type
+const thumbnailFileName = (url: string) => {
+  let hash = 5381;
+  for (let i = 0; i < url.length; i++) {
+    hash = ((hash * 33) ^ url.charCodeAt(i)) >>> 0;
+  }
+  const extension = /\.(\w{3,4})(?:\?|$)/.exec(url)?.[1] ?? 'jpg';
+  return `${hash.toString(36)}-${url.length}.${extension}`;
+};
+
+class OfflineCache {
+  private accountId: number | null = null;
+  private snapshot: OfflineSnapshot = emptySnapshot();
+  private loaded: Promise<void> = Promise.resolve();
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private downloads = new Set<string>();
+
+  constructor() {
+    this.loaded = accountStore.ready.then(() => this.switchTo(accountStore.getActiveId()));
+    accountStore.subscribe((state) => {
+      if (state.activeId !== this.accountId) {
+        this.loaded = this.loaded.then(() => this.switchTo(state.activeId));
+      }
+    });
+  }
+
+  private storageKey(accountId: number) {
+    return `${CACHE_KEY_PREFIX}${accountId}`;
+  }
+
+  private thumbnailDir(accountId: number) {
+    return THUMBNAIL_ROOT ? `${THUMBNAIL_ROOT}${accountId}/` : null;
+  }
+
+  private async switchTo(accountId: number | null) {
+    if (accountId === this.accountId) return;
+    await this.flush();
+    this.accountId = accountId;
+    this.snapshot = emptySnapshot();
+    if (accountId === null) return;
+
+    try {
+      const stored = await AsyncStorage.getItem(this.storageKey(accountId));
+      if (stored) {
+        this.snapshot = { ...emptySnapshot(), ...(JSON.parse(stored) as Partial<OfflineSnapshot>) };
+      }
+    } catch (error) {
+      log.error('Error loading offline cache:', error);
+    }
+  }
+
+  private schedulePersist() {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist();
+    }, PERSIST_DELAY_MS);
+  }
+
+  private async flush() {
+    if (!this.persistTimer) return;
+    clearTimeout(this.persistTimer);
+    this.persistTimer = null;
+    await this.persist();
+  }
+
+  private async persist() {
+    if (this.accountId === null) return;
+    this.prune();
+    try {
+      await AsyncStorage.setItem(this.storageKey(this.accountId), JSON.stringify(this.snapshot));
+    } catch (error) {
+      log.error('Error saving offline cache:', error);
+    }
+  }
+
+  // Opened posts first: they're usually fresher than the feed and profile copies
+  private cachedPosts(): FeedPost[] {
+    return [
+      ...this.snapshot.posts,
+      ...Object.values(this.snapshot.bookmarks).flat(),
+      ...Object.values(this.snapshot.feed).flat(),
+      ...this.snapshot.profiles.flatMap((profile) => profile.recent_posts),
+    ];
+  }
+
+  // Delete thumbnails no cached post refers to any more
+  private prune() {
+    const referenced = new Set(
+      this.cachedPosts().flatMap((post) => mediaOf(post).map(thumbnailSource).filter(Boolean) as string[])
+    );
+    Object.entries(this.snapshot.thumbnails).forEach(([url, file]) => {
+      if (referenced.has(url)) return;
+      delete this.snapshot.thumbnails[url];
+      FileSystem.deleteAsync(file, { idempotent: true }).catch(() => undefined);
+    });
+  }
+
+  private async downloadThumbnails(posts: FeedPost[]) {
+    const accountId = this.accountId;
+    const dir = accountId === null ? null : this.thumbnailDir(accountId);
+    if (!dir) return;
+
+    const urls = posts
+      .flatMap(mediaOf)
+      .map(thumbnailSource)
+      .filter((url): url is string => !!url && /^https?:/.test(url))
+      .filter((url) => !this.snapshot.thumbnails[url] && !this.downloads.has(url));
+    if (urls.length === 0) return;
+
+    try {
+      await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+    } catch {
+      // Already exists
+    }
+
+    for (const url of urls) {
+      this.downloads.add(url);
+      try {
+        const file = `${dir}${thumbnailFileName(url)}`;
+        const result = await FileSystem.downloadAsync(url, file);
+        if (result.status < 300 && this.accountId === accountId) {
+          this.snapshot.thumbnails[url] = result.uri;
+          this.schedulePersist();
+        }
+      } catch (error) {
+        log.debug('Thumbnail download failed', { url, error });
+      } finally {
+        this.downloads.delete(url);
+      }
+    }
+  }
+
+  // Point media at the downloaded thumbnails so they render without a connection
+  private withLocalMedia = (post: FeedPost): FeedPost => {
+    const localize = (media: FeedMedia): FeedMedia => {
+      const source = thumbnailSource(media);
+      const file = source ? this.snapshot.thumbnails[source] : undefined;
+      if (!file) return media;
+      return media.type === 'image' ? { ...media, url: file, thumbnail_url: file } : { ...media, thumbnail_url: file };
+    };
+    return {
+      ...post,
+      media: post.media.map(localize),
+      shared_post: post.shared_post ? { ...post.shared_post, media: post.shared_post.media.map(localize) } : post.shared_post,
+    };
+  };
+
+  private remember(posts: FeedPost[]) {
+    this.schedulePersist();
+    this.downloadThumbnails(posts).catch((error) => log.error('Error caching thumbnails:', error));
+  }
+
+  async getUser(): Promise<User | null> {
+    await this.loaded;
+    return this.snapshot.user;
+  }
+
+  async saveUser(user: User) {
+    await this.loaded;
+    this.snapshot.user = user;
+    this.schedulePersist();
+  }
+
+  /**
+   * The saved first pages of a feed sort and filter, or null if there are none.
+   */
+  async getFeed(sort: FeedSort, filter: FeedFilter = 'all'): Promise<FeedPost[] | null> {
+    await this.loaded;
+    return this.snapshot.feed[feedKey(sort, filter)]?.map(this.withLocalMedia) ?? null;
+  }
+
+  async saveFeed(sort: FeedSort, filter: FeedFilter, posts: FeedPost[]) {
+    await this.loaded;
+    const saved = posts.slice(0, MAX_FEED_POSTS);
+    this.snapshot.feed[feedKey(sort, filter)] = saved;
+    this.remember(saved);
+  }
+
+  /**
+   * A post that was opened, or seen in a saved feed or profile.
+   */
+  async getPost(postId: string): Promise<FeedPost | null> {
+    await this.loaded;
+    const post = this.cachedPosts().find((item) => item.id === postId);
+    return post ? this.withLocalMedia(post) : null;
+  }
+
+  async savePost(post: FeedPost) {
+    await this.loaded;
+    this.snapshot.posts = [post, ...this.snapshot.posts.filter((item) => item.id !== post.id)].slice(0, MAX_POSTS);
+    this.remember([post]);
+  }
+
+  async getProfile(username: string): Promise<ProfileData | null> {
+    await this.loaded;
+    const profile = this.snapshot.profiles.find((item) => item.username.toLowerCase() === username.toLowerCase());
+    return profile ? { ...profile, recent_posts: profile.recent_posts.map(this.withLocalMedia) } : null;
+  }
+
+  async saveProfile(profile: ProfileData) {
+    await this.loaded;
+    this.snapshot.profiles = [profile, ...this.snapshot.profiles.filter((item) => item.id !== profile.id)].slice(
+      0,
+      MAX_PROFILES
+    );
+    this.remember(profile.recent_posts);
+  }
+
+  /**
+   * Saved posts, all of them or one collection's, as last loaded or bookmarked here.
+   */
+  async getBookmarks(collectionId: string | null): Promise<FeedPost[] | null> {
+    await this.loaded;
+    return this.snapshot.bookmarks[collectionId ?? ALL_BOOKMARKS]?.map(this.withLocalMedia) ?? null;
+  }
+
+  async saveBookmarks(collectionId: string | null, posts: FeedPost[]) {
+    await this.loaded;
+    const saved = posts.slice(0, MAX_BOOKMARKS);
+    this.snapshot.bookmarks[collectionId ?? ALL_BOOKMARKS] = saved;
+    this.remember(saved);
+  }
+
+  // Keep a post bookmarked on this device available offline before the Saved screen is opened
+  async addBookmark(post: FeedPost, collectionId: string | null) {
+    await this.loaded;
+    const bookmarked = { ...post, is_bookmarked: true };
+    Object.keys(this.snapshot.bookmarks).forEach((key) => {
+      const posts = this.snapshot.bookmarks[key].filter((item) => item.id !== post.id);
+      const belongs = key === ALL_BOOKMARKS || key === collectionId;
+      this.snapshot.bookmarks[key] = belongs ? [bookmarked, ...posts].slice(0, MAX_BOOKMARKS) : posts;
+    });
+    [ALL_BOOKMARKS, collectionId].forEach((key) => {
+      if (key && !this.snapshot.bookmarks[key]) this.snapshot.bookmarks[key] = [bookmarked];
+    });
+    this.remember([bookmarked]);
+  }
+
+  async removeBookmark(postId: string) {
+    await this.loaded;
+    Object.keys(this.snapshot.bookmarks).forEach((key) => {
+      this.snapshot.bookmarks[key] = this.snapshot.bookmarks[key].filter((item) => item.id !== postId);
+    });
+    this.schedulePersist();
+  }
+
+  /**
+   * Forget everything saved for the active account (on logout).
+   */
+  async clear() {
+    await this.loaded;
+    const accountId = this.accountId;
+    if (accountId === null) return;
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    this.snapshot = emptySnapshot();
+    try {
+      await AsyncStorage.removeItem(this.storageKey(accountId));
+      const dir = this.thumbnailDir(accountId);
+      if (dir) await FileSystem.deleteAsync(dir, { idempotent: true });
+    } catch (error) {
+      log.error('Error clearing offline cache:', error);
+    }
+  }
+}
+
+export const offlineCache = new OfflineCache();
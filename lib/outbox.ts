@@ -0,0 +1,248 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { AppState } from 'react-native';
+import { apiClient, ApiResponse, generateIdempotencyKey } from './apiClient';
+import { accountStore } from './accounts';
+import { logger } from './logger';
+
+const log = logger.scope('outbox');
+
+const OUTBOX_KEY = 'phanrise_outbox';
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60000;
+const MAX_ATTEMPTS = 10;
+
+export type OutboxKind = 'like' | 'comment' | 'follow' | 'message' | 'bookmark';
+
+export type OutboxEntry = {
+  // Doubles as the Idempotency-Key so a replay the server already applied is a no-op
+  id: string;
+  kind: OutboxKind;
+  method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  path: string;
+  data?: unknown;
+  // What the mutation targets (post id, user id...) so screens can show it as pending
+  targetId?: string;
+  meta?: Record<string, unknown>;
+  // Signed-in account that queued it; entries only replay while that account is active
+  accountId?: number | null;
+  attempts: number;
+  nextAttemptAt: number;
+  created_at: string;
+};
+
+export type OutboxResponse<T> = ApiResponse<T> & {
+  // True when the request could not reach the server and was stored for replay
+  queued?: boolean;
+  entry?: OutboxEntry;
+};
+
+type EntriesListener = (entries: OutboxEntry[]) => void;
+type SettledListener = (entry: OutboxEntry, response: ApiResponse<unknown>) => void;
+
+const getBackoff = (attempts: number) =>
+  Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1));
+
+// 0 = no response, 408/429 and 5xx are worth retrying; anything else is final
+const isRetryable = (status: number) => status === 0 || status === 408 || status === 429 || status >= 500;
+
+class Outbox {
+  private entries: OutboxEntry[] = [];
+  private loaded: Promise<void>;
+  private draining = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<EntriesListener>();
+  private settledListeners = new Set<SettledListener>();
+
+  constructor() {
+    this.loaded = this.load();
+
+    NetInfo.addEventListener((state) => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        this.drain(true);
+      }
+    });
+
+    AppState.addEventListener('change', (status) => {
+      if (status === 'active') {
+        this.drain(true);
+      }
+    });
+
+    // Another account's queue becomes visible (and replayable) when it's switched to
+    accountStore.subscribe(() => {
+      this.notify();
+      this.drain(true);
+    });
+  }
+
+  // Entries queued by accounts from before multi-account support have no owner
+  private isActive(entry: OutboxEntry) {
+    return entry.accountId == null || entry.accountId === accountStore.getActiveId();
+  }
+
+  private async load() {
+    try {
+      const stored = await AsyncStorage.getItem(OUTBOX_KEY);
+      this.entries = stored ? (JSON.parse(stored) as OutboxEntry[]) : [];
+    } catch (error) {
+      log.error('Error loading outbox:', error);
+      this.entries = [];
+    }
+    this.notify();
+    this.schedule();
+  }
+
+  private async persist() {
+    try {
+      await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      log.error('Error saving outbox:', error);
+    }
+  }
+
+  private notify() {
+    const snapshot = this.getEntries();
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+
+  private schedule() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const entries = this.getEntries();
+    if (entries.length === 0) return;
+
+    const nextAt = Math.min(...entries.map((entry) => entry.nextAttemptAt));
+    this.timer = setTimeout(() => this.drain(), Math.max(0, nextAt - Date.now()));
+  }
+
+  /**
+   * Send a mutation, queueing it for replay if the device is offline.
+   * Callers should keep their optimistic state when `queued` is true.
+   */
+  async request<T>(
+    path: string,
+    options: {
+      kind: OutboxKind;
+      method?: OutboxEntry['method'];
+      data?: unknown;
+      targetId?: string;
+      meta?: Record<string, unknown>;
+    }
+  ): Promise<OutboxResponse<T>> {
+    const method = options.method || 'POST';
+    const id = generateIdempotencyKey();
+    const response = await apiClient.request<T>(path, {
+      method,
+      data: options.data,
+      idempotencyKey: id,
+    });
+
+    if (response.status !== 0) {
+      return response;
+    }
+
+    const entry: OutboxEntry = {
+      id,
+      kind: options.kind,
+      method,
+      path,
+      data: options.data,
+      targetId: options.targetId,
+      meta: options.meta,
+      accountId: accountStore.getActiveId(),
+      attempts: 1,
+      nextAttemptAt: Date.now() + getBackoff(1),
+      created_at: new Date().toISOString(),
+    };
+
+    await this.loaded;
+    this.entries = [...this.entries, entry];
+    await this.persist();
+    this.notify();
+    this.schedule();
+
+    return { ...response, queued: true, entry };
+  }
+
+  /**
+   * Replay queued mutations in order. Entries are retried with exponential backoff;
+   * `force` ignores the backoff (used when connectivity comes back).
+   */
+  async drain(force = false) {
+    await this.loaded;
+    if (this.draining || this.entries.length === 0) return;
+    this.draining = true;
+
+    try {
+      for (const entry of [...this.entries]) {
+        // Checked per entry: the active account can change while the queue drains
+        if (!this.isActive(entry)) continue;
+        if (!force && entry.nextAttemptAt > Date.now()) continue;
+
+        const response = await apiClient.request(entry.path, {
+          method: entry.method,
+          data: entry.data,
+          idempotencyKey: entry.id,
+        });
+
+        if (isRetryable(response.status) && entry.attempts < MAX_ATTEMPTS) {
+          const attempts = entry.attempts + 1;
+          this.entries = this.entries.map((e) =>
+            e.id === entry.id ? { ...e, attempts, nextAttemptAt: Date.now() + getBackoff(attempts) } : e
+          );
+          // Still offline - no point hammering the rest of the queue
+          if (response.status === 0) break;
+          continue;
+        }
+
+        this.entries = this.entries.filter((e) => e.id !== entry.id);
+        this.settledListeners.forEach((listener) => listener(entry, response));
+      }
+    } finally {
+      this.draining = false;
+      await this.persist();
+      this.notify();
+      this.schedule();
+    }
+  }
+
+  /**
+   * Entries belonging to the active account.
+   */
+  getEntries(): OutboxEntry[] {
+    return this.entries.filter((entry) => this.isActive(entry));
+  }
+
+  /**
+   * Drop the active account's queued entries.
+   */
+  async clear() {
+    await this.loaded;
+    this.entries = this.entries.filter((entry) => !this.isActive(entry));
+    await this.persist();
+    this.notify();
+    this.schedule();
+  }
+
+  subscribe(listener: EntriesListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Called once a queued entry has reached the server (successfully or with a final error).
+   */
+  onSettled(listener: SettledListener): () => void {
+    this.settledListeners.add(listener);
+    return () => {
+      this.settledListeners.delete(listener);
+    };
+  }
+}
+
+export const outbox = new Outbox();
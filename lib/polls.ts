@@ -0,0 +1,145 @@
+import { api, type FeedPost, type Poll, type PollVoteResult } from './api';
+import type { ApiResponse } from './apiClient';
+import { accountStore } from './accounts';
+import { realtime } from './realtime';
+import { queryCache, queryKeys } from './queryCache';
+import { logger } from './logger';
+
+const log = logger.scope('feed');
+
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 6;
+export const MAX_POLL_OPTION_LENGTH = 80;
+
+export const POLL_DURATIONS = [
+  { label: '1 hour', hours: 1 },
+  { label: '6 hours', hours: 6 },
+  { label: '1 day', hours: 24 },
+  { label: '3 days', hours: 72 },
+  { label: '7 days', hours: 168 },
+];
+
+export const DEFAULT_POLL_DURATION_HOURS = 24;
+
+/**
+ * Why these options can't make a poll, or null if they can.
+ */
+export const validatePollOptions = (options: string[]): string | null => {
+  const trimmed = options.map((option) => option.trim());
+  if (trimmed.some((option) => !option)) {
+    return 'Fill in every poll option or remove the empty ones';
+  }
+  if (trimmed.length < MIN_POLL_OPTIONS || trimmed.length > MAX_POLL_OPTIONS) {
+    return `A poll needs ${MIN_POLL_OPTIONS} to ${MAX_POLL_OPTIONS} options`;
+  }
+  if (new Set(trimmed.map((option) => option.toLowerCase())).size !== trimmed.length) {
+    return 'Poll options must be different';
+  }
+  return null;
+};
+
+export const isPollOpen = (poll: Poll) => !poll.closed && Date.parse(poll.ends_at) > Date.now();
+
+/**
+ * What a vote on this post pays, or 0 when votes aren't rewarded (or the pool is empty).
+ */
+export const pollVoteReward = (post: FeedPost) =>
+  post.reward_enabled && post.reward_pool > 0 ? post.reward_rule?.per_type?.vote ?? 0 : 0;
+
+type PollsListener = () => void;
+
+type PollCounts = Pick<Poll, 'options' | 'total_votes' | 'closed'>;
+
+/*
+ * Latest poll state for posts already on screen: the user's own votes (applied
+ * right away) and live counts pushed over the socket. Lists fetched earlier are
+ * corrected here until they're fetched again.
+ */
+class PollStore {
+  // Post id -> poll, for polls voted on or refetched since the post was fetched
+  private overrides = new Map<string, Poll>();
+  // Post id -> latest counts pushed over the socket; the same for everyone, so no vote
+  private counts = new Map<string, PollCounts>();
+  private listeners = new Set<PollsListener>();
+
+  constructor() {
+    // Votes belong to the account that cast them
+    accountStore.subscribe(() => this.clear());
+
+    realtime.subscribe('poll.votes', ({ post_id, options, total_votes, closed }) => {
+      this.counts.set(post_id, { options, total_votes, closed });
+      this.notify();
+    });
+  }
+
+  get(post: FeedPost): Poll | null {
+    const poll = this.overrides.get(post.id) ?? post.poll;
+    if (!poll) return null;
+    const counts = this.counts.get(post.id);
+    return counts ? { ...poll, ...counts } : poll;
+  }
+
+  async vote(post: FeedPost, optionId: string): Promise<ApiResponse<PollVoteResult>> {
+    const previous = this.overrides.get(post.id);
+    const poll = this.get(post);
+    if (poll) {
+      this.counts.delete(post.id);
+      this.overrides.set(post.id, {
+        ...poll,
+        options: poll.options.map((option) =>
+          option.id === optionId ? { ...option, votes_count: option.votes_count + 1 } : option
+        ),
+        total_votes: poll.total_votes + 1,
+        voted_option_id: optionId,
+      });
+      this.notify();
+    }
+
+    const response = await api.feed.votePoll(post.id, { option_id: optionId });
+    if (response.ok && response.status < 300 && response.data) {
+      this.overrides.set(post.id, response.data.poll);
+      this.counts.delete(post.id);
+      if (response.data.reward) {
+        queryCache.invalidate(queryKeys.wallet);
+      }
+    } else {
+      log.warn('Poll vote failed', { postId: post.id, status: response.status });
+      if (previous) {
+        this.overrides.set(post.id, previous);
+      } else {
+        this.overrides.delete(post.id);
+      }
+    }
+    this.notify();
+    return response;
+  }
+
+  /**
+   * Take a freshly fetched poll (e.g. from polling while the socket is down).
+   */
+  update(postId: string, poll: Poll) {
+    this.overrides.set(postId, poll);
+    this.counts.delete(postId);
+    this.notify();
+  }
+
+  clear() {
+    if (this.overrides.size === 0 && this.counts.size === 0) return;
+    this.overrides.clear();
+    this.counts.clear();
+    this.notify();
+  }
+
+  subscribe(listener: PollsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const polls = new PollStore();
@@ -0,0 +1,88 @@
+import { api } from './api';
+import { queryCache, queryKeys } from './queryCache';
+import type { StepUpProof } from './twoFactor';
+
+/*
+ * Personal data export and account deletion. Exports are built in the background
+ * and expire after a few days; deletion is scheduled with a grace period during
+ * which it can be cancelled.
+ */
+
+// What goes into an export archive
+export const DATA_EXPORT_SECTIONS = [
+  'profile',
+  'posts',
+  'comments',
+  'messages',
+  'wallet_transactions',
+  'withdrawals',
+] as const;
+
+export type DataExportSection = (typeof DATA_EXPORT_SECTIONS)[number];
+
+export type DataExportFile = {
+  format: 'json' | 'csv';
+  url: string;
+  size_bytes: number;
+};
+
+export type DataExport = {
+  id: string;
+  status: 'pending' | 'processing' | 'ready' | 'failed' | 'expired';
+  sections: DataExportSection[];
+  // Download links, present once the archive is ready
+  files: DataExportFile[];
+  requested_at: string;
+  ready_at: string | null;
+  expires_at: string | null;
+};
+
+export type AccountDeletion = {
+  requested_at: string;
+  // The account and its data are removed at this time unless deletion is cancelled
+  scheduled_for: string;
+};
+
+export type AccountDeletionPayload = StepUpProof & {
+  password: string;
+  // Required when the wallet still holds coins; they are lost with the account
+  forfeit_balances?: boolean;
+  reason?: string;
+};
+
+// Error code returned when deleting an account whose wallet isn't empty
+export const WALLET_NOT_EMPTY = 'wallet_not_empty';
+
+export const isExportInProgress = (item: DataExport) => item.status === 'pending' || item.status === 'processing';
+
+class PrivacyService {
+  listExports() {
+    return api.account.exports();
+  }
+
+  async requestExport(sections: DataExportSection[] = [...DATA_EXPORT_SECTIONS]) {
+    const response = await api.account.requestExport({ sections });
+    if (response.ok && response.status < 300) {
+      queryCache.invalidate(queryKeys.dataExports);
+    }
+    return response;
+  }
+
+  async scheduleDeletion(payload: AccountDeletionPayload) {
+    const response = await api.account.scheduleDeletion(payload);
+    if (response.ok && response.status < 300) {
+      queryCache.invalidate(queryKeys.me);
+    }
+    return response;
+  }
+
+  async cancelDeletion() {
+    const response = await api.account.cancelDeletion();
+    if (response.ok && response.status < 300) {
+      queryCache.invalidate(queryKeys.me);
+    }
+    return response;
+  }
+}
+
+export const privacyService = new PrivacyService();
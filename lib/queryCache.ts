@@ -0,0 +1,153 @@
+import type { ApiResponse } from './apiClient';
+
+/*
+ * In-memory cache for screen data, keyed by endpoint + params.
+ * Concurrent fetches of the same key share one request, cached data is served
+ * immediately and revalidated in the background once stale, and mutations
+ * invalidate keys so every mounted subscriber refetches.
+ */
+
+export type QueryFetcher<T> = () => Promise<ApiResponse<T>>;
+
+export type QueryEntry<T> = {
+  data?: T;
+  error?: string;
+  updatedAt: number;
+  invalidated: boolean;
+  promise?: Promise<ApiResponse<T>>;
+};
+
+type Listener = () => void;
+
+export const queryKeys = {
+  me: 'auth/me',
+  wallet: 'wallets/me',
+  sessions: 'auth/sessions',
+  dataExports: 'account/exports',
+  bookmarkCollections: 'bookmarks/collections',
+  scheduledPosts: 'feed/scheduled',
+  trendingTags: 'feed/tags/trending',
+};
+
+/**
+ * Build a cache key from an endpoint name and its params, e.g. `queryKey('profiles', { username })`.
+ */
+export const queryKey = (name: string, params?: Record<string, unknown>) =>
+  params ? `${name}:${JSON.stringify(params)}` : name;
+
+class QueryCache {
+  private entries = new Map<string, QueryEntry<unknown>>();
+  private listeners = new Map<string, Set<Listener>>();
+
+  get<T>(key: string): QueryEntry<T> | undefined {
+    return this.entries.get(key) as QueryEntry<T> | undefined;
+  }
+
+  isStale(key: string, staleTime: number): boolean {
+    const entry = this.entries.get(key);
+    if (!entry || entry.invalidated) return true;
+    return Date.now() - entry.updatedAt > staleTime;
+  }
+
+  /**
+   * Fetch a key, reusing the in-flight request if there is one.
+   */
+  fetch<T>(key: string, fetcher: QueryFetcher<T>): Promise<ApiResponse<T>> {
+    const current = this.get<T>(key);
+    if (current?.promise) {
+      return current.promise;
+    }
+
+    const promise = fetcher()
+      .then((response) => {
+        const entry = this.get<T>(key);
+        if (entry?.promise !== promise) {
+          // Cleared or superseded while in flight
+          return response;
+        }
+
+        if (response.ok && response.data !== undefined) {
+          this.entries.set(key, { data: response.data, updatedAt: Date.now(), invalidated: false });
+        } else {
+          this.entries.set(key, {
+            ...entry,
+            promise: undefined,
+            error: response.errors?.[0]?.detail || 'Request failed',
+          });
+        }
+        this.notify(key);
+        return response;
+      })
+      .catch((error) => {
+        const entry = this.get<T>(key);
+        if (entry?.promise === promise) {
+          this.entries.set(key, {
+            ...entry,
+            promise: undefined,
+            error: error instanceof Error ? error.message : 'Request failed',
+          });
+          this.notify(key);
+        }
+        throw error;
+      });
+
+    this.entries.set(key, {
+      data: current?.data,
+      updatedAt: current?.updatedAt ?? 0,
+      invalidated: false,
+      promise,
+    });
+    this.notify(key);
+
+    return promise;
+  }
+
+  /**
+   * Optimistically update cached data without a request.
+   */
+  setData<T>(key: string, updater: (previous: T | undefined) => T) {
+    const entry = this.get<T>(key);
+    this.entries.set(key, {
+      ...entry,
+      data: updater(entry?.data),
+      updatedAt: Date.now(),
+      invalidated: false,
+    });
+    this.notify(key);
+  }
+
+  /**
+   * Mark every key starting with `prefix` as stale. Mounted subscribers refetch.
+   */
+  invalidate(prefix: string) {
+    Array.from(this.entries.keys())
+      .filter((key) => key.startsWith(prefix))
+      .forEach((key) => {
+        const entry = this.entries.get(key)!;
+        this.entries.set(key, { ...entry, invalidated: true });
+        this.notify(key);
+      });
+  }
+
+  clear() {
+    const keys = Array.from(this.entries.keys());
+    this.entries.clear();
+    keys.forEach((key) => this.notify(key));
+  }
+
+  subscribe(key: string, listener: Listener): () => void {
+    if (!this.listeners.has(key)) {
+      this.listeners.set(key, new Set());
+    }
+    this.listeners.get(key)!.add(listener);
+    return () => {
+      this.listeners.get(key)?.delete(listener);
+    };
+  }
+
+  private notify(key: string) {
+    this.listeners.get(key)?.forEach((listener) => listener());
+  }
+}
+
+export const queryCache = new QueryCache();
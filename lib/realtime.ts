@@ -0,0 +1,314 @@
+import { AppState } from 'react-native';
+import Constants from 'expo-constants';
+import { api, type FeedPost, type PollOption, type WalletTransaction } from './api';
+import { queryCache, queryKeys } from './queryCache';
+import { logger } from './logger';
+import type { Message } from '../hooks/useMessages';
+import type { Notification } from '../hooks/useNotifications';
+
+const log = logger.scope('realtime');
+
+/*
+ * Live updates over a WebSocket speaking the Pusher protocol (Laravel Reverb /
+ * Echo). Private channels are authorized through the API with the bearer token.
+ * When the socket is down (or not configured), hooks fall back to polling; see
+ * `usePollingFallback`.
+ */
+
+const REALTIME_URL = (
+  Constants.expoConfig?.extra?.realtimeUrl ||
+  process.env.EXPO_PUBLIC_REALTIME_URL ||
+  ''
+).replace(/\/+$/, '');
+const REALTIME_KEY = Constants.expoConfig?.extra?.realtimeKey || process.env.EXPO_PUBLIC_REALTIME_KEY || '';
+
+const PROTOCOL_VERSION = 7;
+const BASE_RECONNECT_MS = 1000;
+const MAX_RECONNECT_MS = 30000;
+// Used until the server tells us its own activity timeout
+const DEFAULT_ACTIVITY_TIMEOUT_MS = 120000;
+const PONG_TIMEOUT_MS = 30000;
+
+// Public channel for activity on posts anyone can see
+const FEED_CHANNEL = 'feed';
+const userChannel = (userId: number) => `private-users.${userId}`;
+
+// Payloads by event name (the backend's `broadcastAs()`)
+export type RealtimeEvents = {
+  'message.sent': { conversation_id: string; message: Message };
+  'message.read': { conversation_id: string; reader_id: string; read_at: string };
+  'notification.created': { notification: Notification; unread_count: number };
+  'post.created': { post: FeedPost };
+  'post.counts': { post_id: string; likes_count: number; comments_count: number; shares_count?: number };
+  'poll.votes': { post_id: string; options: PollOption[]; total_votes: number; closed: boolean };
+  'wallet.credited': { coin_symbol: string; amount: number; balance: number; transaction?: WalletTransaction };
+};
+
+export type RealtimeEventName = keyof RealtimeEvents;
+
+// `unavailable` means no socket server is configured, so polling is all there is
+export type RealtimeStatus = 'unavailable' | 'disconnected' | 'connecting' | 'connected';
+
+type Frame = {
+  event: string;
+  channel?: string;
+  data?: unknown;
+};
+
+type EventListener<E extends RealtimeEventName> = (payload: RealtimeEvents[E]) => void;
+// Listeners by event name, each set typed by its event's payload
+type EventListeners = { [E in RealtimeEventName]?: Set<EventListener<E>> };
+type StatusListener = (status: RealtimeStatus) => void;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Pusher double-encodes `data` as a JSON string
+const parseData = (data: unknown): unknown => {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+class RealtimeClient {
+  private socket: WebSocket | null = null;
+  private status: RealtimeStatus = REALTIME_URL && REALTIME_KEY ? 'disconnected' : 'unavailable';
+  private userId: number | null = null;
+  private attempts = 0;
+  private activityTimeoutMs = DEFAULT_ACTIVITY_TIMEOUT_MS;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: EventListeners = {};
+  private statusListeners = new Set<StatusListener>();
+
+  constructor() {
+    // Sockets don't survive the background on mobile; reconnect (and catch up) on return
+    AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        this.attempts = 0;
+        this.open();
+      } else if (state === 'background') {
+        this.close();
+      }
+    });
+
+    // Balances are shown on several screens; let them all refetch
+    this.subscribe('wallet.credited', () => queryCache.invalidate(queryKeys.wallet));
+  }
+
+  getStatus(): RealtimeStatus {
+    return this.status;
+  }
+
+  /**
+   * Listen on the active account's channels, or disconnect with null.
+   */
+  setUser(userId: number | null) {
+    if (userId === this.userId) return;
+    this.close();
+    this.userId = userId;
+    this.attempts = 0;
+    this.open();
+  }
+
+  /**
+   * Subscribe to one event. Returns an unsubscribe function.
+   */
+  subscribe<E extends RealtimeEventName>(event: E, listener: EventListener<E>): () => void {
+    let listeners: Set<EventListener<E>> | undefined = this.listeners[event];
+    if (!listeners) {
+      listeners = new Set();
+      // TypeScript can't relate the generic key to its set on writes; this is the set for E
+      (this.listeners as { [K in E]?: Set<EventListener<K>> })[event] = listeners;
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  private setStatus(status: RealtimeStatus) {
+    if (this.status === status || this.status === 'unavailable') return;
+    this.status = status;
+    log.debug('Status', status);
+    this.statusListeners.forEach((listener) => listener(status));
+  }
+
+  private open() {
+    if (this.status === 'unavailable' || this.userId === null || this.socket) return;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    this.setStatus('connecting');
+    const socket = new WebSocket(
+      `${REALTIME_URL}/app/${REALTIME_KEY}?protocol=${PROTOCOL_VERSION}&client=js&version=8.4.0&flash=false`
+    );
+    this.socket = socket;
+
+    socket.onmessage = (event) => this.handleFrame(socket, event.data);
+    socket.onerror = () => log.warn('Socket error');
+    socket.onclose = (event) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.stopHeartbeat();
+      this.setStatus('disconnected');
+      // 4000-4099: the server refuses this connection (bad app key, over quota); retrying won't help
+      if (event.code >= 4000 && event.code < 4100) {
+        log.error('Connection refused', { code: event.code, reason: event.reason });
+        return;
+      }
+      this.scheduleReconnect();
+    };
+  }
+
+  private close() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.stopHeartbeat();
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.setStatus('disconnected');
+  }
+
+  private scheduleReconnect() {
+    if (this.userId === null || AppState.currentState !== 'active' || this.reconnectTimer) return;
+
+    const delay = Math.min(MAX_RECONNECT_MS, BASE_RECONNECT_MS * 2 ** this.attempts++);
+    log.debug(`Reconnecting in ${delay}ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+  }
+
+  private send(socket: WebSocket, frame: Frame) {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(frame));
+    }
+  }
+
+  // Ping after a quiet spell; no answer means the connection is dead even if the OS hasn't noticed
+  private resetHeartbeat(socket: WebSocket) {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setTimeout(() => {
+      this.send(socket, { event: 'pusher:ping', data: {} });
+      this.heartbeatTimer = setTimeout(() => socket.close(), PONG_TIMEOUT_MS);
+    }, this.activityTimeoutMs);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private async subscribeChannels(socket: WebSocket, socketId: string) {
+    const userId = this.userId;
+    if (userId === null) return;
+
+    this.send(socket, { event: 'pusher:subscribe', data: { channel: FEED_CHANNEL } });
+
+    const channel = userChannel(userId);
+    const response = await api.realtime.auth({ socket_id: socketId, channel_name: channel });
+    if (this.socket !== socket) return;
+
+    // Laravel's broadcasting auth answers with a bare `{ auth }` rather than the usual envelope
+    const auth = response.data?.auth ?? (response.raw as { auth?: string } | undefined)?.auth;
+    if (!response.ok || response.status >= 300 || !auth) {
+      log.warn('Channel authorization failed', { status: response.status });
+      socket.close();
+      return;
+    }
+    this.send(socket, { event: 'pusher:subscribe', data: { channel, auth } });
+  }
+
+  private handleFrame(socket: WebSocket, raw: unknown) {
+    if (this.socket !== socket || typeof raw !== 'string') return;
+
+    let frame: Frame;
+    try {
+      frame = JSON.parse(raw);
+    } catch {
+      return;
+    }
+    const data = parseData(frame.data);
+    this.resetHeartbeat(socket);
+
+    switch (frame.event) {
+      case 'pusher:connection_established': {
+        this.attempts = 0;
+        const connection = isRecord(data) ? data : {};
+        if (typeof connection.activity_timeout === 'number' && connection.activity_timeout > 0) {
+          this.activityTimeoutMs = connection.activity_timeout * 1000;
+          this.resetHeartbeat(socket);
+        }
+        if (typeof connection.socket_id !== 'string') {
+          log.warn('Connection established without a socket id');
+          socket.close();
+          return;
+        }
+        this.subscribeChannels(socket, connection.socket_id).catch((error) =>
+          log.error('Channel subscription failed', error)
+        );
+        return;
+      }
+      case 'pusher:ping':
+        this.send(socket, { event: 'pusher:pong', data: {} });
+        return;
+      case 'pusher:pong':
+        return;
+      case 'pusher_internal:subscription_succeeded':
+        // Only live once the account's own channel is up; the feed channel alone misses messages
+        if (this.userId !== null && frame.channel === userChannel(this.userId)) {
+          this.setStatus('connected');
+        }
+        return;
+      case 'pusher:error':
+        log.warn('Server error', data);
+        return;
+    }
+
+    if (this.isSubscribed(frame.event)) {
+      this.emit(frame.event, data);
+    }
+  }
+
+  private isSubscribed(event: string): event is RealtimeEventName {
+    return Object.prototype.hasOwnProperty.call(this.listeners, event);
+  }
+
+  private emit<E extends RealtimeEventName>(event: E, data: unknown) {
+    // Every app event carries an object; its fields are the backend's contract for the event
+    if (!isRecord(data)) {
+      log.warn(`Dropped ${event} without a payload`);
+      return;
+    }
+    const payload = data as RealtimeEvents[E];
+    this.listeners[event]?.forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (error) {
+        log.error(`Listener for ${event} failed`, error);
+      }
+    });
+  }
+}
+
+export const realtime = new RealtimeClient();
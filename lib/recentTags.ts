@@ -0,0 +1,80 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { accountStore } from './accounts';
+import { normalizeTag } from './hashtags';
+import { logger } from './logger';
+
+const log = logger.scope('feed');
+
+/*
+ * Hashtags the active account has posted with or opened, most recent first.
+ * Suggested in the composer before anything is typed after `#`.
+ */
+
+const RECENT_TAGS_KEY_PREFIX = 'phanrise_recent_tags_';
+const MAX_RECENT_TAGS = 10;
+
+class RecentTagStore {
+  private accountId: number | null = null;
+  private tags: string[] = [];
+  private loaded: Promise<void> = Promise.resolve();
+
+  constructor() {
+    this.loaded = accountStore.ready.then(() => this.switchTo(accountStore.getActiveId()));
+    accountStore.subscribe((state) => {
+      if (state.activeId !== this.accountId) {
+        this.loaded = this.loaded.then(() => this.switchTo(state.activeId));
+      }
+    });
+  }
+
+  private storageKey(accountId: number) {
+    return `${RECENT_TAGS_KEY_PREFIX}${accountId}`;
+  }
+
+  private async switchTo(accountId: number | null) {
+    if (accountId === this.accountId) return;
+    this.accountId = accountId;
+    this.tags = [];
+
+    if (accountId !== null) {
+      try {
+        const stored = await AsyncStorage.getItem(this.storageKey(accountId));
+        if (stored) {
+          this.tags = JSON.parse(stored) as string[];
+        }
+      } catch (error) {
+        log.error('Error loading recent tags:', error);
+      }
+    }
+  }
+
+  list(): string[] {
+    return this.tags;
+  }
+
+  async add(tags: string[]) {
+    await this.loaded;
+    if (this.accountId === null || tags.length === 0) return;
+    const added = tags.map(normalizeTag).filter(Boolean);
+    this.tags = Array.from(new Set([...added, ...this.tags])).slice(0, MAX_RECENT_TAGS);
+    try {
+      await AsyncStorage.setItem(this.storageKey(this.accountId), JSON.stringify(this.tags));
+    } catch (error) {
+      log.error('Error saving recent tags:', error);
+    }
+  }
+
+  async clear() {
+    await this.loaded;
+    const accountId = this.accountId;
+    if (accountId === null) return;
+    this.tags = [];
+    try {
+      await AsyncStorage.removeItem(this.storageKey(accountId));
+    } catch (error) {
+      log.error('Error clearing recent tags:', error);
+    }
+  }
+}
+
+export const recentTags = new RecentTagStore();
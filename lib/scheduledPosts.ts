@@ -0,0 +1,119 @@
+import { api, type CreatePostPayload, type FeedMedia, type PollPayload, type RewardRule } from './api';
+import { queryCache, queryKeys } from './queryCache';
+
+/*
+ * Posts set to publish at a later time. A scheduled post's reward pool is taken
+ * out of the wallet when it's scheduled (shown as `reserved` on the coin balance)
+ * so it can't be spent elsewhere before the post goes live; cancelling returns it.
+ */
+
+// Scheduling closer than this to now is rejected; the post would go live while still being sent
+export const MIN_SCHEDULE_LEAD_MS = 5 * 60 * 1000;
+export const MAX_SCHEDULE_DAYS = 30;
+
+export type ScheduledPost = {
+  id: string;
+  content: string | null;
+  visibility: CreatePostPayload['visibility'];
+  media: FeedMedia[];
+  poll?: PollPayload | null;
+  link_preview_url?: string | null;
+  reward_enabled: boolean;
+  reward_pool: number;
+  reward_coin_symbol: string | null;
+  reward_rule: RewardRule | null;
+  scheduled_at: string;
+  // IANA zone the time was picked in, for display
+  time_zone: string | null;
+  // `failed` when publishing didn't go through (e.g. the coin was delisted); the pool is returned
+  status: 'scheduled' | 'failed';
+  failure_reason?: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type SchedulePostPayload = CreatePostPayload & {
+  scheduled_at: string;
+  time_zone?: string;
+};
+
+export type UpdateScheduledPostPayload = Partial<
+  Pick<ScheduledPost, 'content' | 'visibility' | 'scheduled_at' | 'time_zone'>
+>;
+
+export const deviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+// "GMT+2", "GMT-5:30" for the device's offset at `date` (which moves with daylight saving)
+export const formatUtcOffset = (date: Date) => {
+  const offset = -date.getTimezoneOffset();
+  const sign = offset >= 0 ? '+' : '-';
+  const hours = Math.floor(Math.abs(offset) / 60);
+  const minutes = Math.abs(offset) % 60;
+  return `GMT${sign}${hours}${minutes ? `:${String(minutes).padStart(2, '0')}` : ''}`;
+};
+
+export const formatScheduledAt = (value: string | Date) => {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  const day = date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+  const time = date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+  return `${day} at ${time}`;
+};
+
+/**
+ * Why `date` can't be used as a publish time, or null if it can.
+ */
+export const validateScheduleTime = (date: Date): string | null => {
+  if (date.getTime() < Date.now() + MIN_SCHEDULE_LEAD_MS) {
+    return 'Pick a time at least 5 minutes from now';
+  }
+  if (date.getTime() > Date.now() + MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000) {
+    return `Posts can be scheduled up to ${MAX_SCHEDULE_DAYS} days ahead`;
+  }
+  return null;
+};
+
+class ScheduledPostService {
+  list() {
+    return api.scheduledPosts.list();
+  }
+
+  async schedule(payload: SchedulePostPayload) {
+    const response = await api.scheduledPosts.create(payload);
+    if (response.ok && response.status < 300) {
+      this.invalidate(payload.reward_enabled);
+    }
+    return response;
+  }
+
+  async update(post: ScheduledPost, payload: UpdateScheduledPostPayload) {
+    const response = await api.scheduledPosts.update(post.id, payload);
+    if (response.ok && response.status < 300) {
+      this.invalidate(false);
+    }
+    return response;
+  }
+
+  async cancel(post: ScheduledPost) {
+    const response = await api.scheduledPosts.cancel(post.id);
+    if (response.ok && response.status < 300) {
+      this.invalidate(post.reward_enabled);
+    }
+    return response;
+  }
+
+  // Reserving or returning a reward pool changes the wallet balance
+  private invalidate(walletChanged: boolean) {
+    queryCache.invalidate(queryKeys.scheduledPosts);
+    if (walletChanged) {
+      queryCache.invalidate(queryKeys.wallet);
+    }
+  }
+}
+
+export const scheduledPostService = new ScheduledPostService();
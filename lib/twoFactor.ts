@@ -0,0 +1,111 @@
+import { api } from './api';
+import type { ApiResponse } from './apiClient';
+import { queryCache, queryKeys } from './queryCache';
+
+/*
+ * TOTP two-factor authentication: enrollment, backup codes, and step-up
+ * verification for money-moving actions (withdrawals, large transfers).
+ */
+
+export type TwoFactorSetup = {
+  secret: string;
+  otpauth_url: string;
+  // PNG (URL or data URI) of the otpauth QR code, rendered by the backend
+  qr_code_url?: string | null;
+};
+
+export type BackupCodes = {
+  backup_codes: string[];
+};
+
+// Either a 6-digit authenticator code or one of the single-use backup codes
+export type TwoFactorCode = { code: string } | { backup_code: string };
+
+export type StepUpToken = {
+  step_up_token: string;
+  expires_at: string;
+};
+
+// Spread into the payload of the protected request; empty when 2FA is not enabled
+export type StepUpProof = {
+  step_up_token?: string;
+};
+
+// Transfers of at least this many coins need a fresh code
+export const LARGE_TRANSFER_AMOUNT = 1000;
+
+// Don't hand out a token that could expire while the request is in flight
+const STEP_UP_EXPIRY_MARGIN_MS = 30000;
+
+export const toTwoFactorCode = (value: string, isBackupCode: boolean): TwoFactorCode =>
+  isBackupCode ? { backup_code: value.trim() } : { code: value.replace(/\s/g, '') };
+
+class TwoFactorService {
+  private stepUp: StepUpToken | null = null;
+
+  setup() {
+    return api.twoFactor.setup();
+  }
+
+  /**
+   * Finish enrollment with a code from the authenticator. Resolves with the backup codes.
+   */
+  async confirm(code: string) {
+    const response = await api.twoFactor.confirm({ code });
+    if (response.ok && response.status < 300) {
+      queryCache.invalidate(queryKeys.me);
+    }
+    return response;
+  }
+
+  async disable(code: TwoFactorCode) {
+    const response = await api.twoFactor.disable(code);
+    if (response.ok && response.status < 300) {
+      this.stepUp = null;
+      queryCache.invalidate(queryKeys.me);
+    }
+    return response;
+  }
+
+  regenerateBackupCodes(code: TwoFactorCode) {
+    return api.twoFactor.backupCodes(code);
+  }
+
+  /**
+   * A still-valid step-up token from a recent verification, so retrying a
+   * sensitive action that didn't go through doesn't prompt twice.
+   */
+  getStepUpToken(): string | null {
+    if (!this.stepUp) return null;
+    if (Date.parse(this.stepUp.expires_at) - STEP_UP_EXPIRY_MARGIN_MS <= Date.now()) {
+      this.stepUp = null;
+      return null;
+    }
+    return this.stepUp.step_up_token;
+  }
+
+  async verify(code: TwoFactorCode): Promise<ApiResponse<StepUpToken>> {
+    const response = await api.twoFactor.verify(code);
+    if (response.ok && response.status < 300 && response.data) {
+      this.stepUp = response.data;
+    }
+    return response;
+  }
+
+  /**
+   * Call once the action the token was verified for went through; the next
+   * withdrawal or transfer asks for a fresh code.
+   */
+  spendStepUpToken() {
+    this.stepUp = null;
+  }
+
+  /**
+   * Forget the step-up token (it belongs to the account that verified it).
+   */
+  clear() {
+    this.stepUp = null;
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
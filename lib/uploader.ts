@@ -0,0 +1,289 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import type { ImagePickerAsset } from 'expo-image-picker';
+import { Platform } from 'react-native';
+import { apiClient, ApiResponse, RetryPolicy } from './apiClient';
+import { accountStore } from './accounts';
+import type { FeedMedia } from './api';
+import { logger } from './logger';
+
+const log = logger.scope('upload');
+
+/*
+ * Uploads go through the authenticated ApiClient. Small files are sent as one
+ * multipart request; large ones (videos) are split into chunks that are retried
+ * individually and resumed after a failure or app restart.
+ */
+
+const SESSIONS_KEY = 'phanrise_upload_sessions';
+const CHUNK_SIZE = 5 * 1024 * 1024;
+const CHUNKED_THRESHOLD = 10 * 1024 * 1024;
+const SINGLE_UPLOAD_TIMEOUT_MS = 60000;
+const CHUNK_TIMEOUT_MS = 60000;
+const CHUNK_RETRY: RetryPolicy = { retries: 3, baseDelayMs: 1000 };
+
+export type UploadPurpose = 'avatar' | 'post' | 'message';
+
+export type UploadFile = {
+  uri: string;
+  name?: string | null;
+  mimeType?: string | null;
+  size?: number | null;
+};
+
+export type UploadProgress = {
+  loaded: number;
+  total: number;
+  fraction: number;
+};
+
+export type UploadOptions = {
+  purpose?: UploadPurpose;
+  onProgress?: (progress: UploadProgress) => void;
+  // Aborting stops the upload; a chunked upload can be resumed by uploading the same file again
+  signal?: AbortSignal;
+};
+
+// React Native's FormData reads files from a { uri, name, type } part; the DOM typings only take a Blob
+type FormDataFilePart = {
+  uri: string;
+  name: string;
+  type: string;
+};
+
+type UploadSession = {
+  upload_id: string;
+  chunk_size: number;
+};
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  m4v: 'video/x-m4v',
+};
+
+const succeeded = (response: ApiResponse<unknown>) => response.ok && response.status >= 200 && response.status < 300;
+
+// Pass a failed intermediate response (session, chunk) through as the upload result
+const asFailure = (response: ApiResponse<unknown>): ApiResponse<FeedMedia> => ({ ...response, data: undefined });
+
+// Sessions belong to the account that started them, so no account resumes or clears another's upload
+const sessionPrefix = (accountId: number | null) => `${accountId ?? 'anonymous'}:`;
+
+const fileName = (file: UploadFile) => file.name || file.uri.split('/').pop() || 'file';
+
+const mimeTypeOf = (file: UploadFile) => {
+  if (file.mimeType) return file.mimeType;
+  const extension = /\.(\w+)$/.exec(fileName(file))?.[1]?.toLowerCase();
+  return (extension && MIME_TYPES[extension]) || 'application/octet-stream';
+};
+
+/**
+ * Map an expo-image-picker asset to an UploadFile.
+ */
+export const fromPickerAsset = (asset: ImagePickerAsset): UploadFile => ({
+  uri: asset.uri,
+  name: asset.fileName,
+  mimeType: asset.mimeType ?? (asset.type === 'video' ? 'video/mp4' : undefined),
+  size: asset.fileSize,
+});
+
+class Uploader {
+  /**
+   * Upload a file and resolve with the stored media (url, type, thumbnail).
+   */
+  async upload(file: UploadFile, options: UploadOptions = {}): Promise<ApiResponse<FeedMedia>> {
+    const size = file.size ?? (await this.getFileSize(file.uri));
+
+    if (size !== null && size > CHUNKED_THRESHOLD) {
+      return this.uploadChunked(file, size, options);
+    }
+
+    return this.uploadSingle(file, size, options);
+  }
+
+  private async uploadSingle(
+    file: UploadFile,
+    size: number | null,
+    options: UploadOptions
+  ): Promise<ApiResponse<FeedMedia>> {
+    const formData = new FormData();
+    const part: FormDataFilePart = {
+      uri: Platform.OS === 'ios' ? file.uri.replace('file://', '') : file.uri,
+      type: mimeTypeOf(file),
+      name: fileName(file),
+    };
+    formData.append('file', part as unknown as Blob);
+    if (options.purpose) {
+      formData.append('purpose', options.purpose);
+    }
+
+    return apiClient.request<FeedMedia>('/v1/upload', {
+      method: 'POST',
+      data: formData,
+      signal: options.signal,
+      timeout: SINGLE_UPLOAD_TIMEOUT_MS,
+      onUploadProgress: (loaded, total) => {
+        const totalBytes = total ?? size ?? loaded;
+        options.onProgress?.({ loaded, total: totalBytes, fraction: totalBytes ? loaded / totalBytes : 0 });
+      },
+    });
+  }
+
+  private async uploadChunked(file: UploadFile, size: number, options: UploadOptions): Promise<ApiResponse<FeedMedia>> {
+    const sessionKey = `${sessionPrefix(accountStore.getActiveId())}${file.uri}:${size}`;
+    const session = await this.resumeOrStartSession(sessionKey, file, size, options);
+    if (!('upload_id' in session)) {
+      return session;
+    }
+
+    const { upload_id: uploadId, chunk_size: chunkSize, received } = session;
+    const chunkCount = Math.ceil(size / chunkSize);
+    const chunkLength = (index: number) => Math.min(chunkSize, size - index * chunkSize);
+
+    let uploadedBytes = Array.from(received).reduce((total, index) => total + chunkLength(index), 0);
+    const report = (loaded: number) =>
+      options.onProgress?.({ loaded, total: size, fraction: Math.min(1, loaded / size) });
+    report(uploadedBytes);
+
+    for (let index = 0; index < chunkCount; index++) {
+      if (received.has(index)) continue;
+
+      const length = chunkLength(index);
+      const content = await FileSystem.readAsStringAsync(file.uri, {
+        encoding: FileSystem.EncodingType.Base64,
+        position: index * chunkSize,
+        length,
+      });
+
+      const response = await apiClient.request(`/v1/uploads/${uploadId}/chunks/${index}`, {
+        method: 'PUT',
+        data: { content, encoding: 'base64' },
+        signal: options.signal,
+        timeout: CHUNK_TIMEOUT_MS,
+        // Chunks are addressed by index, so replaying one is safe
+        retry: CHUNK_RETRY,
+        onUploadProgress: (loaded, total) => report(uploadedBytes + (total ? (loaded / total) * length : 0)),
+      });
+
+      if (!succeeded(response)) {
+        // The session is kept so the next attempt picks up from this chunk
+        log.warn(`Chunk ${index + 1}/${chunkCount} of upload ${uploadId} failed`, { status: response.status });
+        return asFailure(response);
+      }
+
+      uploadedBytes += length;
+      report(uploadedBytes);
+    }
+
+    const completed = await apiClient.request<FeedMedia>(`/v1/uploads/${uploadId}/complete`, {
+      method: 'POST',
+      signal: options.signal,
+      retry: { retries: 2 },
+    });
+
+    if (succeeded(completed)) {
+      await this.removeSession(sessionKey);
+    }
+
+    return completed;
+  }
+
+  private async resumeOrStartSession(
+    sessionKey: string,
+    file: UploadFile,
+    size: number,
+    options: UploadOptions
+  ): Promise<(UploadSession & { received: Set<number> }) | ApiResponse<FeedMedia>> {
+    const saved = (await this.loadSessions())[sessionKey];
+
+    if (saved) {
+      const status = await apiClient.request<{ received_chunks: number[] }>(`/v1/uploads/${saved.upload_id}`, {
+        signal: options.signal,
+      });
+      if (status.aborted) {
+        return asFailure(status);
+      }
+      if (succeeded(status) && status.data) {
+        log.info(`Resuming upload ${saved.upload_id}`, { received: status.data.received_chunks.length });
+        return { ...saved, received: new Set(status.data.received_chunks) };
+      }
+      // Expired on the server; start over
+      await this.removeSession(sessionKey);
+    }
+
+    const created = await apiClient.request<{ upload_id: string; chunk_size?: number }>('/v1/uploads', {
+      method: 'POST',
+      data: {
+        filename: fileName(file),
+        mime_type: mimeTypeOf(file),
+        size,
+        chunk_size: CHUNK_SIZE,
+        purpose: options.purpose,
+      },
+      signal: options.signal,
+      retry: { retries: 2 },
+    });
+
+    if (!succeeded(created) || !created.data) {
+      return asFailure(created);
+    }
+
+    const session: UploadSession = {
+      upload_id: created.data.upload_id,
+      chunk_size: created.data.chunk_size ?? CHUNK_SIZE,
+    };
+    await this.saveSession(sessionKey, session);
+    return { ...session, received: new Set() };
+  }
+
+  private async getFileSize(uri: string): Promise<number | null> {
+    try {
+      const info = await FileSystem.getInfoAsync(uri);
+      return info.exists ? info.size : null;
+    } catch (error) {
+      log.warn('Could not read file size', error);
+      return null;
+    }
+  }
+
+  private async loadSessions(): Promise<Record<string, UploadSession>> {
+    try {
+      const raw = await AsyncStorage.getItem(SESSIONS_KEY);
+      return raw ? JSON.parse(raw) : {};
+    } catch (error) {
+      log.error('Load upload sessions error:', error);
+      return {};
+    }
+  }
+
+  private async saveSession(key: string, session: UploadSession) {
+    const sessions = await this.loadSessions();
+    sessions[key] = session;
+    await AsyncStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+  }
+
+  private async removeSession(key: string) {
+    const sessions = await this.loadSessions();
+    delete sessions[key];
+    await AsyncStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+  }
+
+  /**
+   * Forget the active account's resumable sessions (e.g. on logout).
+   */
+  async clear() {
+    const prefix = sessionPrefix(accountStore.getActiveId());
+    const sessions = await this.loadSessions();
+    const kept = Object.fromEntries(Object.entries(sessions).filter(([key]) => !key.startsWith(prefix)));
+    await AsyncStorage.setItem(SESSIONS_KEY, JSON.stringify(kept));
+  }
+}
+
+export const uploader = new Uploader();